@@ -0,0 +1,92 @@
+// Compare Commands - diff the agent setup of two projects (same engine as compare_projects)
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { ProjectManager } from '../services/projectManager';
+import { buildProjectList, type ProjectEntry } from '../mcp/extensionBackend';
+import { ProjectTreeItem } from '../providers/projectTreeProvider';
+import { VSCodeFsAdapter } from '../scanner/adapters/vscodeFsAdapter';
+import { compareProjectsCore } from '../scanner/core/compareCore';
+import type { CoreCompareItem, CoreCompareStatus, CoreProjectComparison } from '../scanner/core/types';
+
+interface ProjectPickItem extends vscode.QuickPickItem {
+	entry: ProjectEntry;
+}
+
+const STATUS_HEADINGS: Array<[CoreCompareStatus, (a: string, b: string) => string]> = [
+	['only-in-a', (a) => `Only in ${a}`],
+	['only-in-b', (_a, b) => `Only in ${b}`],
+	['differs', () => 'Changed']
+];
+
+function itemLabel(item: CoreCompareItem): string {
+	return `${item.kind} \`${item.name}\`${item.platform ? ` (${item.platform})` : ''}`;
+}
+
+/**
+ * Markdown report for a comparison: summary, then items only in A, only in B and changed
+ * (with their diffs when present). Identical items are counted, not listed.
+ */
+export function formatComparisonMarkdown(comparison: CoreProjectComparison, labelA: string, labelB: string): string {
+	const s = comparison.summary;
+	const lines = [
+		`# Compare: ${labelA} ↔ ${labelB}`,
+		'',
+		`- **A**: ${labelA} (\`${comparison.projectA}\`)`,
+		`- **B**: ${labelB} (\`${comparison.projectB}\`)`,
+		'',
+		`${s['only-in-a']} only in A · ${s['only-in-b']} only in B · ${s.differs} changed · ${s.identical} identical`
+	];
+	for (const [status, heading] of STATUS_HEADINGS) {
+		const items = comparison.items.filter(i => i.status === status);
+		if (items.length === 0) {continue;}
+		lines.push('', `## ${heading(labelA, labelB)}`, '');
+		for (const item of items) {
+			lines.push(`- ${itemLabel(item)}`);
+		}
+		for (const item of items.filter(i => i.diff)) {
+			lines.push('', `### ${itemLabel(item)}`, '', '```diff', item.diff!.trimEnd(), '```');
+		}
+	}
+	return lines.join('\n') + '\n';
+}
+
+export class CompareCommands {
+	static registerCommands(context: vscode.ExtensionContext): void {
+		const projectManager = new ProjectManager(context);
+
+		// Compare Projects command: from a project node (A preset) or the view toolbar (pick both)
+		const compareProjects = vscode.commands.registerCommand('ace.compareProjects', async (item?: ProjectTreeItem) => {
+			try {
+				const projects = await buildProjectList(() => projectManager.getProjects(), vscode.workspace.workspaceFolders);
+				if (projects.length < 2) {
+					vscode.window.showInformationMessage('Add at least two projects to compare');
+					return;
+				}
+				const toItem = (entry: ProjectEntry): ProjectPickItem => ({ label: entry.label, description: entry.path, entry });
+
+				let a = item?.project ? projects.find(p => p.path === item.project!.path) : undefined;
+				if (!a) {
+					a = (await vscode.window.showQuickPick(projects.map(toItem), { placeHolder: 'First project (A)' }))?.entry;
+					if (!a) {return;}
+				}
+				const first = a;
+				const b = (await vscode.window.showQuickPick(
+					projects.filter(p => p.path !== first.path).map(toItem),
+					{ placeHolder: `Compare ${first.label} with...` }
+				))?.entry;
+				if (!b) {return;}
+
+				const comparison = await compareProjectsCore(new VSCodeFsAdapter(), first.path, b.path, os.homedir(), { includeDiff: true });
+				const doc = await vscode.workspace.openTextDocument({
+					content: formatComparisonMarkdown(comparison, first.label, b.label),
+					language: 'markdown'
+				});
+				await vscode.window.showTextDocument(doc);
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to compare projects: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(compareProjects);
+	}
+}
@@ -0,0 +1,38 @@
+// MCP Commands - probe a registered MCP server from the Agents view
+import * as vscode from 'vscode';
+import * as os from 'os';
+import type { AgentsTreeProvider } from '../providers/agentsTreeProvider';
+import type { ProjectTreeItem } from '../providers/projectTreeProvider';
+import { probeMcpServer, readMcpLaunchConfig } from '../services/mcpProbe';
+
+export class McpCommands {
+	static registerCommands(context: vscode.ExtensionContext, agentsTreeProvider: AgentsTreeProvider): void {
+		// Probe MCP Server command: initialize + tools/prompts/resources list, results shown under the server node
+		const probeServer = vscode.commands.registerCommand('ace.probeMcpServer', async (item?: ProjectTreeItem) => {
+			const server = item?.mcpServerData;
+			if (!server) {
+				vscode.window.showInformationMessage('Select an MCP server in the Agents view to probe');
+				return;
+			}
+			try {
+				const launch = await readMcpLaunchConfig(server);
+				if (!launch) {
+					vscode.window.showErrorMessage(`MCP server "${server.name}" is no longer configured in ${server.path}`);
+					return;
+				}
+
+				agentsTreeProvider.setProbeResult(server, 'running');
+				const result = await probeMcpServer(launch, { cwd: os.homedir() });
+				agentsTreeProvider.setProbeResult(server, result);
+				if (!result.ok) {
+					const failure = result.error ?? result.steps.find(s => s.error)?.error ?? 'unknown error';
+					vscode.window.showWarningMessage(`Probe of MCP server "${server.name}" failed: ${failure}`);
+				}
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to probe MCP server: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(probeServer);
+	}
+}
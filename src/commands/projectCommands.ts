@@ -1,8 +1,16 @@
 // Project Management Commands
 import * as vscode from 'vscode';
 import { ProjectManager } from '../services/projectManager';
+import { normalizeProjectPath, parseProjectRegistry, serializeProjectRegistry } from '../services/projectRegistryFile';
 import { ProjectDefinition } from '../types/project';
 import { ProjectTreeItem } from '../providers/projectTreeProvider';
+import { VSCodeFsAdapter } from '../scanner/adapters/vscodeFsAdapter';
+import { DEFAULT_DISCOVERY_DEPTH, describeDiscoveredProject, discoverProjectsCore } from '../scanner/core/discoverProjectsCore';
+import type { DiscoveredProject } from '../scanner/core/discoverProjectsCore';
+
+interface DiscoveredPickItem extends vscode.QuickPickItem {
+	project: DiscoveredProject;
+}
 
 export class ProjectCommands {
 	static registerCommands(context: vscode.ExtensionContext): void {
@@ -59,6 +67,58 @@ export class ProjectCommands {
 		});
 
 
+		// Discover Projects command: find repos with agent artifacts under a folder and add the selected ones
+		const discoverProjects = vscode.commands.registerCommand('ace.discoverProjects', async () => {
+			try {
+				const folders = await vscode.window.showOpenDialog({
+					canSelectFiles: false,
+					canSelectFolders: true,
+					canSelectMany: false,
+					openLabel: 'Discover Projects'
+				});
+				if (!folders || folders.length === 0) {return;}
+				const rootDir = folders[0].fsPath;
+
+				const maxDepth = vscode.workspace.getConfiguration('ace').get<number>('discoverProjects.maxDepth', DEFAULT_DISCOVERY_DEPTH);
+				const discovered = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: `Discovering projects in ${rootDir}...` },
+					() => discoverProjectsCore(new VSCodeFsAdapter(), rootDir, maxDepth)
+				);
+
+				const registered = new Set((await projectManager.getProjects()).map(p => normalizeProjectPath(p.path)));
+				const candidates = discovered.filter(p => !registered.has(normalizeProjectPath(p.path)));
+				if (candidates.length === 0) {
+					vscode.window.showInformationMessage(discovered.length > 0
+						? `All ${discovered.length} project(s) found in ${rootDir} are already added`
+						: `No projects with agent artifacts found in ${rootDir}`);
+					return;
+				}
+
+				const items: DiscoveredPickItem[] = candidates.map(project => ({
+					label: project.name,
+					description: project.path,
+					detail: describeDiscoveredProject(project),
+					project
+				}));
+				const picked = await vscode.window.showQuickPick(items, {
+					canPickMany: true,
+					placeHolder: `${candidates.length} project(s) found — select the ones to add`,
+					matchOnDescription: true
+				});
+				if (!picked || picked.length === 0) {return;}
+
+				for (const item of picked) {
+					await projectManager.addProject({ name: item.project.name, path: item.project.path });
+				}
+				vscode.window.showInformationMessage(`Added ${picked.length} project(s)`);
+
+				// Refresh the tree view
+				vscode.commands.executeCommand('ace.refresh');
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to discover projects: ${e?.message || e}`);
+			}
+		});
+
 		// Remove Project command
 		const removeProject = vscode.commands.registerCommand('ace.removeProject', async (item: ProjectTreeItem) => {
 			const project: ProjectDefinition | undefined = item?.project;
@@ -160,6 +220,52 @@ ${projectList}
 			}
 		});
 
-		context.subscriptions.push(addProject, removeProject, editProject, listProjects);
+		// Import Projects command (registry JSON, e.g. from ace.exportProjects or ~/.agents/ace-projects.json)
+		const importProjects = vscode.commands.registerCommand('ace.importProjects', async () => {
+			try {
+				const uris = await vscode.window.showOpenDialog({
+					canSelectMany: false,
+					openLabel: 'Import Projects',
+					filters: { 'Project registry': ['json'] }
+				});
+				if (!uris || uris.length === 0) {return;}
+
+				const bytes = await vscode.workspace.fs.readFile(uris[0]);
+				const projects = parseProjectRegistry(JSON.parse(Buffer.from(bytes).toString('utf8')));
+				const result = await projectManager.importProjects(projects);
+
+				const skipped = result.skipped > 0 ? ` (${result.skipped} already registered)` : '';
+				vscode.window.showInformationMessage(`Imported ${result.added.length} project(s)${skipped}`);
+
+				// Refresh the tree view
+				vscode.commands.executeCommand('ace.refresh');
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to import projects: ${e?.message || e}`);
+			}
+		});
+
+		// Export Projects command
+		const exportProjects = vscode.commands.registerCommand('ace.exportProjects', async () => {
+			try {
+				const projects = await projectManager.getProjects();
+				if (projects.length === 0) {
+					vscode.window.showInformationMessage('No projects defined');
+					return;
+				}
+
+				const uri = await vscode.window.showSaveDialog({
+					saveLabel: 'Export Projects',
+					filters: { 'Project registry': ['json'] }
+				});
+				if (!uri) {return;}
+
+				await vscode.workspace.fs.writeFile(uri, Buffer.from(serializeProjectRegistry(projects), 'utf8'));
+				vscode.window.showInformationMessage(`Exported ${projects.length} project(s) to ${uri.fsPath}`);
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to export projects: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(addProject, discoverProjects, removeProject, editProject, listProjects, importProjects, exportProjects);
 	}
 }
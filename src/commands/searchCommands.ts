@@ -0,0 +1,76 @@
+// Search Commands - quick-pick full-text search across scanned artifacts (same engine as search_context)
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { ProjectManager } from '../services/projectManager';
+import { getConfiguredAgentRoots } from '../services/agentRootSettings';
+import { buildProjectList } from '../mcp/extensionBackend';
+import { VSCodeFsAdapter } from '../scanner/adapters/vscodeFsAdapter';
+import { collectSearchDocumentsCore, searchDocuments } from '../scanner/core/searchCore';
+import type { CoreSearchHit } from '../scanner/core/types';
+
+const MAX_RESULTS = 50;
+
+interface SearchPickItem extends vscode.QuickPickItem {
+	hit: CoreSearchHit;
+}
+
+export class SearchCommands {
+	static registerCommands(context: vscode.ExtensionContext): void {
+		const projectManager = new ProjectManager(context);
+
+		// Search Context command: every workspace folder and added project, ranked together
+		const searchContext = vscode.commands.registerCommand('ace.searchContext', async () => {
+			try {
+				const query = await vscode.window.showInputBox({
+					prompt: 'Search rules, commands, skills, agents, AGENTS.md, specs and schemas',
+					placeHolder: 'e.g. migration feature flag'
+				});
+				if (!query || query.trim().length === 0) {return;}
+
+				const projects = await buildProjectList(() => projectManager.getProjects(), vscode.workspace.workspaceFolders);
+				if (projects.length === 0) {
+					vscode.window.showInformationMessage('No projects to search');
+					return;
+				}
+
+				const fs = new VSCodeFsAdapter();
+				const items: Array<SearchPickItem & { score: number }> = [];
+				for (const project of projects) {
+					const docs = await collectSearchDocumentsCore(fs, project.path, os.homedir(), getConfiguredAgentRoots());
+					for (const hit of searchDocuments(docs, query, { limit: MAX_RESULTS })) {
+						const tags = [hit.kind, hit.platform, hit.location].filter(Boolean).join(' · ');
+						items.push({
+							label: hit.name,
+							description: projects.length > 1 ? `${tags} — ${project.label}` : tags,
+							detail: `${hit.line}: ${hit.snippet}`,
+							hit,
+							score: hit.score
+						});
+					}
+				}
+				if (items.length === 0) {
+					vscode.window.showInformationMessage(`No matches for "${query}"`);
+					return;
+				}
+				items.sort((a, b) => b.score - a.score);
+				const shown = items.slice(0, MAX_RESULTS);
+
+				const picked = await vscode.window.showQuickPick(shown, {
+					placeHolder: `${shown.length} match(es) for "${query}"`,
+					matchOnDescription: true,
+					matchOnDetail: true
+				});
+				if (!picked) {return;}
+
+				const line = Math.max(0, picked.hit.line - 1);
+				await vscode.window.showTextDocument(vscode.Uri.file(picked.hit.path), {
+					selection: new vscode.Range(line, 0, line, 0)
+				});
+			} catch (e: any) {
+				vscode.window.showErrorMessage(`Failed to search context: ${e?.message || e}`);
+			}
+		});
+
+		context.subscriptions.push(searchContext);
+	}
+}
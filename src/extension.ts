@@ -5,12 +5,16 @@ import * as path from 'path';
 import { ProjectTreeProvider } from './providers/projectTreeProvider';
 import { AgentsTreeProvider } from './providers/agentsTreeProvider';
 import { RulesScanner } from './scanner/rulesScanner';
-import { CommandsScanner } from './scanner/commandsScanner';
+import { CommandsScanner, toCommand } from './scanner/commandsScanner';
 import { SkillsScanner } from './scanner/skillsScanner';
 import { AgentsScanner, scanAgentDefinitionsForAgentRoot, type AgentDefinition } from './scanner/agentsScanner';
 import { AsdlcArtifactScanner } from './scanner/asdlcArtifactScanner';
 import { ProjectCommands } from './commands/projectCommands';
-import { ProjectManager } from './services/projectManager';
+import { SearchCommands } from './commands/searchCommands';
+import { CompareCommands } from './commands/compareCommands';
+import { McpCommands } from './commands/mcpCommands';
+import { PROJECT_REGISTRY_SETTING, ProjectManager } from './services/projectManager';
+import { projectRegistryFilePath } from './services/projectRegistryFile';
 import { ProjectDefinition } from './types/project';
 import { Rule } from './scanner/rulesScanner';
 import { Command } from './scanner/commandsScanner';
@@ -24,8 +28,20 @@ import type { AgentRootDefinition } from './providers/agentsTreeProvider';
 import { registerMcpServerProvider, McpServerProvider } from './mcp/mcpServerProvider';
 import { ClaudeCodeScanner } from './scanner/claudeCodeScanner';
 import type { ClaudeCodeArtifacts } from './scanner/claudeCodeScanner';
+import { CopilotScanner } from './scanner/copilotScanner';
+import type { CopilotArtifacts } from './scanner/copilotScanner';
+import { GeminiScanner } from './scanner/geminiScanner';
+import type { GeminiArtifacts } from './scanner/geminiScanner';
+import { KiroScanner } from './scanner/kiroScanner';
+import type { KiroArtifacts } from './scanner/kiroScanner';
+import { RuleFoldersScanner } from './scanner/ruleFoldersScanner';
+import type { RuleFolderArtifacts } from './scanner/ruleFoldersScanner';
+import { McpServersScanner, type McpServerArtifacts } from './scanner/mcpServersScanner';
 import { McpRegistrationScanner } from './scanner/mcpRegistrationScanner';
 import { McpRegistrationService } from './services/mcpRegistrationService';
+import { AGENT_ROOTS_SETTING, getConfiguredAgentRoots } from './services/agentRootSettings';
+import { agentRootCommandsDirectory, type AgentRootCommandFormat, type AgentRootSection } from './scanner/core/agentRoots';
+import { claudeSettingsFiles, readClaudeSettingsCore } from './scanner/core/claudeSettingsCore';
 
 let treeProvider: ProjectTreeProvider;
 let agentsTreeProvider: AgentsTreeProvider | undefined;
@@ -35,8 +51,14 @@ let skillsScanner: SkillsScanner;
 let agentsScanner: AgentsScanner | undefined;
 let asdlcArtifactScanner: AsdlcArtifactScanner;
 let claudeCodeScanner: ClaudeCodeScanner | undefined;
+let copilotScanner: CopilotScanner | undefined;
+let geminiScanner: GeminiScanner | undefined;
+let kiroScanner: KiroScanner | undefined;
+let ruleFoldersScanner: RuleFoldersScanner | undefined;
+let mcpServersScanner: McpServersScanner | undefined;
 let projectManager: ProjectManager;
 let fileWatcher: vscode.FileSystemWatcher | undefined;
+let agentRootWatchers: vscode.FileSystemWatcher[] = [];
 let outputChannel: vscode.OutputChannel;
 let mcpServerProvider: McpServerProvider | undefined;
 let mcpRegistrationService: McpRegistrationService | undefined;
@@ -72,6 +94,11 @@ export function activate(context: vscode.ExtensionContext) {
 		agentsScanner = new AgentsScanner(workspaceRoot);
 		asdlcArtifactScanner = new AsdlcArtifactScanner(workspaceRoot);
 		claudeCodeScanner = new ClaudeCodeScanner(workspaceRoot);
+		copilotScanner = new CopilotScanner(workspaceRoot);
+		geminiScanner = new GeminiScanner(workspaceRoot);
+		kiroScanner = new KiroScanner(workspaceRoot);
+		ruleFoldersScanner = new RuleFoldersScanner(workspaceRoot);
+		mcpServersScanner = new McpServersScanner(workspaceRoot);
 	} else {
 		outputChannel.appendLine('No workspace root found');
 	}
@@ -98,6 +125,12 @@ export function activate(context: vscode.ExtensionContext) {
 	try {
 		ProjectCommands.registerCommands(context);
 		outputChannel.appendLine('ProjectCommands registered');
+		SearchCommands.registerCommands(context);
+		outputChannel.appendLine('SearchCommands registered');
+		CompareCommands.registerCommands(context);
+		outputChannel.appendLine('CompareCommands registered');
+		McpCommands.registerCommands(context, agentsTreeProvider);
+		outputChannel.appendLine('McpCommands registered');
 		outputChannel.appendLine('All commands registered successfully');
 	} catch (error) {
 		outputChannel.appendLine(`Error registering commands: ${error}`);
@@ -119,6 +152,26 @@ export function activate(context: vscode.ExtensionContext) {
 		// Continue without MCP - extension still functions
 	}
 
+	// Agent roots setting: rebuild root watchers, re-scan the Agents view and re-issue the MCP
+	// server definition (standalone mode receives the roots through ACE_AGENT_ROOTS)
+	const agentRootsConfigWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
+		if (!e.affectsConfiguration(AGENT_ROOTS_SETTING)) {return;}
+		outputChannel.appendLine('Agent roots setting changed, refreshing...');
+		if (watchersInitialized) {
+			setupAgentRootWatchers();
+		}
+		mcpServerProvider?.refresh();
+		refreshData();
+	});
+
+	// Project registry setting: the Workspaces tree and the MCP project list come from the new registry
+	const projectRegistryConfigWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
+		if (!e.affectsConfiguration(PROJECT_REGISTRY_SETTING)) {return;}
+		outputChannel.appendLine('Project registry setting changed, refreshing...');
+		mcpServerProvider?.refresh();
+		refreshData();
+	});
+
 	// Lazy scanning: no initial data load, no file watchers at activation.
 	// Watchers and first scan happen when tree view requests data (getChildren).
 
@@ -151,6 +204,8 @@ export function activate(context: vscode.ExtensionContext) {
 		workspacesTreeView,
 		agentsTreeView,
 		refreshCommand,
+		agentRootsConfigWatcher,
+		projectRegistryConfigWatcher,
 		outputChannel
 	);
 
@@ -170,54 +225,42 @@ async function ensureDataLoaded(): Promise<void> {
 			}
 			// Register Claude Code project-level artifact watchers
 			if (claudeCodeScanner) {
-				const claudeWatchers = claudeCodeScanner.watchAll(() => refreshData());
+				const claudeWatchers = claudeCodeScanner.watchAll((uri) => refreshForFileChange(uri));
 				extensionContext.subscriptions.push(...claudeWatchers);
 			}
+			// Register GitHub Copilot (.github/) artifact watchers
+			if (copilotScanner) {
+				const copilotWatchers = copilotScanner.watchAll((uri) => refreshForFileChange(uri));
+				extensionContext.subscriptions.push(...copilotWatchers);
+			}
+			// Register Gemini CLI (GEMINI.md, .gemini/commands/) artifact watchers
+			if (geminiScanner) {
+				const geminiWatchers = geminiScanner.watchAll((uri) => refreshForFileChange(uri));
+				extensionContext.subscriptions.push(...geminiWatchers);
+			}
+			// Register Kiro (.kiro/steering/, .kiro/specs/) artifact watchers
+			if (kiroScanner) {
+				const kiroWatchers = kiroScanner.watchAll((uri) => refreshForFileChange(uri));
+				extensionContext.subscriptions.push(...kiroWatchers);
+			}
+			// Register Windsurf, Cline, Roo Code and Continue rules watchers
+			if (ruleFoldersScanner) {
+				const ruleFolderWatchers = ruleFoldersScanner.watchAll((uri) => refreshForFileChange(uri));
+				extensionContext.subscriptions.push(...ruleFolderWatchers);
+			}
+			// Register project MCP config (.mcp.json, .cursor/mcp.json) watchers
+			if (mcpServersScanner) {
+				const mcpServerWatchers = mcpServersScanner.watchAll((uri) => refreshForFileChange(uri));
+				extensionContext.subscriptions.push(...mcpServerWatchers);
+			}
 		}
-		const globalCommandsWatcher = setupGlobalCommandsWatcher();
-		if (globalCommandsWatcher) {
-			extensionContext.subscriptions.push(globalCommandsWatcher);
-		}
-		const globalSkillsWatcher = setupGlobalSkillsWatcher();
-		if (globalSkillsWatcher) {
-			extensionContext.subscriptions.push(globalSkillsWatcher);
-		}
-		const globalAgentsWatcher = setupGlobalAgentsWatcher();
-		if (globalAgentsWatcher) {
-			extensionContext.subscriptions.push(globalAgentsWatcher);
-		}
-		const globalClaudeCommandsWatcher = setupGlobalClaudeCommandsWatcher();
-		if (globalClaudeCommandsWatcher) {
-			extensionContext.subscriptions.push(globalClaudeCommandsWatcher);
-		}
-		const globalClaudeSkillsWatcher = setupGlobalClaudeSkillsWatcher();
-		if (globalClaudeSkillsWatcher) {
-			extensionContext.subscriptions.push(globalClaudeSkillsWatcher);
-		}
-		const globalClaudeAgentsWatcher = setupGlobalClaudeAgentDefinitionsWatcher();
-		if (globalClaudeAgentsWatcher) {
-			extensionContext.subscriptions.push(globalClaudeAgentsWatcher);
-		}
-		// Watchers for MCP config files (FR-009, FR-010)
-		const claudeJsonWatcher = setupClaudeJsonWatcher();
-		if (claudeJsonWatcher) {
-			extensionContext.subscriptions.push(claudeJsonWatcher);
-		}
-		const cursorMcpJsonWatcher = setupCursorMcpJsonWatcher();
-		if (cursorMcpJsonWatcher) {
-			extensionContext.subscriptions.push(cursorMcpJsonWatcher);
-		}
-		const globalDotAgentsCommandsWatcher = setupGlobalDotAgentsCommandsWatcher();
-		if (globalDotAgentsCommandsWatcher) {
-			extensionContext.subscriptions.push(globalDotAgentsCommandsWatcher);
-		}
-		const globalDotAgentsSkillsWatcher = setupGlobalDotAgentsSkillsWatcher();
-		if (globalDotAgentsSkillsWatcher) {
-			extensionContext.subscriptions.push(globalDotAgentsSkillsWatcher);
-		}
-		const globalDotAgentsAgentsWatcher = setupGlobalDotAgentsAgentDefinitionsWatcher();
-		if (globalDotAgentsAgentsWatcher) {
-			extensionContext.subscriptions.push(globalDotAgentsAgentsWatcher);
+		// User-level agent roots (commands, skills, agent definitions, MCP config files)
+		setupAgentRootWatchers();
+		// Shared project registry file (ace.projectRegistry = "file"): other windows may add projects
+		const registryFile = projectRegistryFilePath(os.homedir());
+		const registryWatcher = createRefreshWatcher('Project registry', path.dirname(registryFile), path.basename(registryFile));
+		if (registryWatcher) {
+			extensionContext.subscriptions.push(registryWatcher);
 		}
 		outputChannel.appendLine('File watchers registered (lazy setup)');
 	}
@@ -226,8 +269,9 @@ async function ensureDataLoaded(): Promise<void> {
 // This method is called when your extension is deactivated
 export function deactivate() {
 	isActivated = false;
-	// fileWatcher and global watchers are in context.subscriptions (when setup)
-	// and are disposed automatically; no explicit dispose needed here
+	// fileWatcher and project watchers are in context.subscriptions (when setup)
+	// and are disposed automatically; agent root watchers are replaced on setting changes
+	disposeAgentRootWatchers();
 	if (outputChannel) {
 		outputChannel.dispose();
 	}
@@ -253,6 +297,24 @@ async function statFolderExists(root: vscode.Uri, subdir: string): Promise<boole
 	}
 }
 
+/** True when the path exists and is a file. Returns false on any error. */
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		return (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.File;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Watcher entry point: refresh the tree and tell connected MCP clients which resources changed
+ * (bridge mode; the standalone server runs its own watchers).
+ */
+function refreshForFileChange(uri: vscode.Uri): void {
+	mcpServerProvider?.notifyFileChanged(uri.fsPath);
+	refreshData();
+}
+
 async function refreshData() {
 	try {
 		treeProvider.setLoading(true);
@@ -268,20 +330,31 @@ async function refreshData() {
 			agentDefinitions: AgentDefinition[],
 			asdlcArtifacts: AsdlcArtifacts,
 			claudeCodeArtifacts?: ClaudeCodeArtifacts,
+			copilotArtifacts?: CopilotArtifacts,
+			geminiArtifacts?: GeminiArtifacts,
+			kiroArtifacts?: KiroArtifacts,
+			ruleFolderArtifacts?: RuleFolderArtifacts,
+			mcpServerArtifacts?: McpServerArtifacts,
 			cursorFolderExists?: boolean
 		}>();
+		const agentRootConfigs = getConfiguredAgentRoots();
 
 		if (currentWorkspaceRoot) {
 			outputChannel.appendLine(`Scanning current workspace: ${currentWorkspaceRoot.fsPath}`);
 
 			// Scan current workspace rules, state, commands, skills, and specs/schemas index
-			const [currentRules, currentCommands, currentSkills, currentAsdlcArtifacts, currentAgentDefs, currentClaudeCode, currentCursorFolderExists] = await Promise.all([
+			const [currentRules, currentCommands, currentSkills, currentAsdlcArtifacts, currentAgentDefs, currentClaudeCode, currentCopilot, currentGemini, currentKiro, currentRuleFolders, currentMcpServers, currentCursorFolderExists] = await Promise.all([
 				rulesScanner?.scanRules() || Promise.resolve([]),
 				commandsScanner?.scanWorkspaceCommands() || Promise.resolve([]),
 				skillsScanner?.scanWorkspaceSkills() || Promise.resolve([]),
 				asdlcArtifactScanner?.scanAll() || Promise.resolve({ agentsMd: { exists: false, sections: [] }, specs: { exists: false, specs: [] }, schemas: { exists: false, schemas: [] }, hasAnyArtifacts: false }),
 				agentsScanner?.scanWorkspaceAgentDefinitions() || Promise.resolve([]),
 				claudeCodeScanner?.scan() || Promise.resolve({ claudeMd: undefined, rules: [], commands: [], skills: [], agentDefinitions: [], claudeFolderExists: false, hasAnyArtifacts: false }),
+				copilotScanner?.scan() || Promise.resolve({ rules: [], commands: [], agentDefinitions: [], hasAnyArtifacts: false }),
+				geminiScanner?.scan() || Promise.resolve({ geminiMd: undefined, commands: [], geminiFolderExists: false, hasAnyArtifacts: false }),
+				kiroScanner?.scan() || Promise.resolve({ steering: [], kiroFolderExists: false, hasAnyArtifacts: false }),
+				ruleFoldersScanner?.scan() || Promise.resolve({ rules: [], hasAnyArtifacts: false }),
+				mcpServersScanner?.scan(agentRootConfigs) || Promise.resolve({ servers: [], hasAnyArtifacts: false }),
 				statFolderExists(currentWorkspaceRoot, '.cursor')
 			]);
 
@@ -295,10 +368,15 @@ async function refreshData() {
 				agentDefinitions: currentAgentDefs,
 				asdlcArtifacts: currentAsdlcArtifacts,
 				claudeCodeArtifacts: currentClaudeCode,
+				copilotArtifacts: currentCopilot,
+				geminiArtifacts: currentGemini,
+				kiroArtifacts: currentKiro,
+				ruleFolderArtifacts: currentRuleFolders,
+				mcpServerArtifacts: currentMcpServers,
 				cursorFolderExists: currentCursorFolderExists
 			});
 
-			const logMessage = `Scanned current workspace: ${currentRules.length} rules, ${currentCommands.length} commands, ${currentSkills.length} skills, ${currentAgentDefs.length} agent definitions, specs/schemas: ${currentAsdlcArtifacts.hasAnyArtifacts ? 'Yes' : 'No'}, Claude Code: ${currentClaudeCode.hasAnyArtifacts ? 'Yes' : 'No'}, .cursor/ exists: ${currentCursorFolderExists}`;
+			const logMessage = `Scanned current workspace: ${currentRules.length} rules, ${currentCommands.length} commands, ${currentSkills.length} skills, ${currentAgentDefs.length} agent definitions, specs/schemas: ${currentAsdlcArtifacts.hasAnyArtifacts ? 'Yes' : 'No'}, Claude Code: ${currentClaudeCode.hasAnyArtifacts ? 'Yes' : 'No'}, Copilot: ${currentCopilot.hasAnyArtifacts ? 'Yes' : 'No'}, Gemini: ${currentGemini.hasAnyArtifacts ? 'Yes' : 'No'}, Kiro: ${currentKiro.kiroFolderExists ? 'Yes' : 'No'}, Windsurf/Cline/Roo/Continue rules: ${currentRuleFolders.rules.length}, project MCP servers: ${currentMcpServers.servers.length}, .cursor/ exists: ${currentCursorFolderExists}`;
 			outputChannel.appendLine(logMessage);
 		}
 
@@ -323,15 +401,25 @@ async function refreshData() {
 				const projectAgentsScanner = new AgentsScanner(projectUri);
 				const projectAsdlcScanner = new AsdlcArtifactScanner(projectUri);
 				const projectClaudeCodeScanner = new ClaudeCodeScanner(projectUri);
-
-				// Scan rules, commands, skills, agent definitions, specs/schemas, and Claude Code artifacts
-				const [rules, commands, skills, asdlcArtifacts, agentDefinitions, claudeCodeArtifacts, cursorFolderExists] = await Promise.all([
+				const projectCopilotScanner = new CopilotScanner(projectUri);
+				const projectGeminiScanner = new GeminiScanner(projectUri);
+				const projectKiroScanner = new KiroScanner(projectUri);
+				const projectRuleFoldersScanner = new RuleFoldersScanner(projectUri);
+				const projectMcpServersScanner = new McpServersScanner(projectUri);
+
+				// Scan rules, commands, skills, agent definitions, specs/schemas, Claude Code, Copilot, Gemini, Kiro, rules-folder artifacts and MCP servers
+				const [rules, commands, skills, asdlcArtifacts, agentDefinitions, claudeCodeArtifacts, copilotArtifacts, geminiArtifacts, kiroArtifacts, ruleFolderArtifacts, mcpServerArtifacts, cursorFolderExists] = await Promise.all([
 					projectRulesScanner.scanRules(),
 					projectCommandsScanner.scanWorkspaceCommands(),
 					projectSkillsScanner.scanWorkspaceSkills(),
 					projectAsdlcScanner.scanAll(),
 					projectAgentsScanner.scanWorkspaceAgentDefinitions(),
 					projectClaudeCodeScanner.scan(),
+					projectCopilotScanner.scan(),
+					projectGeminiScanner.scan(),
+					projectKiroScanner.scan(),
+					projectRuleFoldersScanner.scan(),
+					projectMcpServersScanner.scan(agentRootConfigs),
 					statFolderExists(projectUri, '.cursor')
 				]);
 
@@ -343,6 +431,11 @@ async function refreshData() {
 					agentDefinitions,
 					asdlcArtifacts,
 					claudeCodeArtifacts,
+					copilotArtifacts,
+					geminiArtifacts,
+					kiroArtifacts,
+					ruleFolderArtifacts,
+					mcpServerArtifacts,
 					cursorFolderExists
 				});
 				const logMessage = `Scanned project ${project.name}: ${rules.length} rules, ${commands.length} commands, ${skills.length} skills, ${agentDefinitions.length} agent definitions`;
@@ -392,7 +485,7 @@ async function refreshData() {
 		const successMessage = `Refreshed ${allProjects.length} resources`;
 		outputChannel.appendLine(successMessage);
 
-		// Resolve agent roots (Cursor, Claude, Global) and populate Agents view data
+		// Resolve agent roots (ace.agentRoots; built-in Cursor, Claude, Global) and populate Agents view data
 		if (agentsTreeProvider) {
 			try {
 				const agentRoots = await resolveAgentRootsWithData();
@@ -414,67 +507,30 @@ async function refreshData() {
 
 async function resolveAgentRootsWithData(): Promise<AgentRootDefinition[]> {
 	const roots: AgentRootDefinition[] = [];
-	const homeDir = os.homedir();
 	const fsAdapter = new VSCodeFsAdapter();
 
-	// MCP config file paths per agent root
-	const mcpConfigPaths: Record<string, string> = {
-		claude: path.join(homeDir, '.claude.json'),
-		cursor: path.join(homeDir, '.cursor', 'mcp.json')
-	};
-
-	const candidates: Array<{
-		id: string;
-		label: string;
-		dir: string;
-		icon: string;
-	}> = [
-		{
-			id: 'cursor',
-			label: 'Cursor',
-			dir: path.join(homeDir, '.cursor'),
-			icon: 'symbol-namespace'
-		},
-		{
-			id: 'claude',
-			label: 'Claude',
-			dir: path.join(homeDir, '.claude'),
-			icon: 'symbol-namespace'
-		},
-		{
-			id: 'global',
-			label: 'Global',
-			dir: path.join(homeDir, '.agents'),
-			icon: 'globe'
-		}
-	];
-
-	for (const candidate of candidates) {
+	for (const config of getConfiguredAgentRoots()) {
 		try {
-			const uri = vscode.Uri.file(candidate.dir);
+			const uri = vscode.Uri.file(config.directory);
 			const stat = await vscode.workspace.fs.stat(uri);
 			if (stat.type !== vscode.FileType.Directory) {
 				continue;
 			}
 
-			// Scan commands, skills, agent definitions, and MCP servers for this agent root
-			const mcpConfigPath = mcpConfigPaths[candidate.id];
-			const mcpScanner = mcpConfigPath ? new McpRegistrationScanner(mcpConfigPath) : null;
-
-			const [coreCommands, coreSkills, agentDefinitions, mcpServers] = await Promise.all([
-				sampleScanAgentCommands(fsAdapter, candidate.dir),
-				sampleScanAgentSkills(fsAdapter, candidate.dir),
-				scanAgentDefinitionsForAgentRoot(candidate.dir),
-				mcpScanner ? mcpScanner.scanServerNames() : Promise.resolve([])
+			// Scan the configured sections: commands, skills, agent definitions, and MCP servers
+			const has = (section: AgentRootSection) => config.sections.includes(section);
+			const mcpScanner = has('mcp') && config.mcpConfigPath ? new McpRegistrationScanner(config.mcpConfigPath) : null;
+
+			const [coreCommands, coreSkills, agentDefinitions, mcpServers, memoryFileExists, settings] = await Promise.all([
+				has('commands') ? sampleScanAgentCommands(fsAdapter, config.directory, agentRootCommandsDirectory(config), config.commandFormat) : Promise.resolve([]),
+				has('skills') ? sampleScanAgentSkills(fsAdapter, config.directory) : Promise.resolve([]),
+				has('agents') ? scanAgentDefinitionsForAgentRoot(config.directory) : Promise.resolve([]),
+				mcpScanner ? mcpScanner.scanServers(config.id) : Promise.resolve([]),
+				config.memoryPath ? fileExists(vscode.Uri.file(config.memoryPath)) : Promise.resolve(false),
+				config.settingsPath ? readClaudeSettingsCore(fsAdapter, claudeSettingsFiles(undefined, config.settingsPath)) : Promise.resolve(undefined)
 			]);
 
-			const commands: Command[] = coreCommands.map(c => ({
-				uri: vscode.Uri.file(c.path),
-				content: c.content,
-				fileName: c.fileName,
-				location: 'global',
-				platform: c.platform
-			}));
+			const commands: Command[] = coreCommands.map(c => toCommand({ ...c, location: 'global' }));
 
 			const skills: Skill[] = coreSkills.map(s => ({
 				uri: vscode.Uri.file(s.path),
@@ -482,18 +538,24 @@ async function resolveAgentRootsWithData(): Promise<AgentRootDefinition[]> {
 				fileName: s.fileName,
 				location: 'global',
 				metadata: s.metadata,
-				platform: s.platform
+				platform: s.platform,
+				files: s.files,
+				issues: s.issues
 			}));
 
 			roots.push({
-				id: candidate.id,
-				label: candidate.label,
-				description: candidate.dir,
-				icon: candidate.icon,
+				id: config.id,
+				label: config.label,
+				description: config.directory,
+				icon: config.icon,
 				commands,
 				skills,
 				agentDefinitions,
-				mcpServers
+				mcpServers: mcpServers.map(s => s.name),
+				mcpServerDetails: mcpServers,
+				...(memoryFileExists && config.memoryPath ? { memoryFile: vscode.Uri.file(config.memoryPath) } : {}),
+				...(settings && settings.files.length > 0 ? { settings } : {}),
+				sections: config.sections
 			});
 		} catch {
 			// Directory missing or not accessible; skip this root
@@ -503,8 +565,8 @@ async function resolveAgentRootsWithData(): Promise<AgentRootDefinition[]> {
 	return roots;
 }
 
-async function sampleScanAgentCommands(fs: VSCodeFsAdapter, agentRoot: string) {
-	return scanAgentCommandsCore(fs, agentRoot);
+async function sampleScanAgentCommands(fs: VSCodeFsAdapter, agentRoot: string, commandsDir: string, format?: AgentRootCommandFormat) {
+	return scanAgentCommandsCore(fs, agentRoot, commandsDir, format);
 }
 
 async function sampleScanAgentSkills(fs: VSCodeFsAdapter, agentRoot: string) {
@@ -523,7 +585,7 @@ function setupFileWatcher() {
 	const commandsPattern = new vscode.RelativePattern(workspaceRoot, '.cursor/commands/*.md');
 	const commandsWatcher = vscode.workspace.createFileSystemWatcher(commandsPattern);
 
-	// Watch for changes in .cursor/skills directories (SKILL.md files).
+	// Watch for changes in .cursor/skills directories (SKILL.md and bundled files).
 	// Recursive (**) so that deleting a whole skill folder (e.g. `npx skills remove`)
 	// still fires — VS Code collapses folder-delete events and won't match a
 	// non-recursive `*/SKILL.md` pattern against the deleted parent folder.
@@ -535,67 +597,67 @@ function setupFileWatcher() {
 	const agentsWatcher = vscode.workspace.createFileSystemWatcher(agentsPattern);
 
 	// Rules watcher handlers
-	rulesWatcher.onDidCreate(() => {
+	rulesWatcher.onDidCreate((uri) => {
 		outputChannel.appendLine('Rule file created, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	rulesWatcher.onDidChange(() => {
+	rulesWatcher.onDidChange((uri) => {
 		outputChannel.appendLine('Rule file changed, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	rulesWatcher.onDidDelete(() => {
+	rulesWatcher.onDidDelete((uri) => {
 		outputChannel.appendLine('Rule file deleted, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
 	// Commands watcher handlers
-	commandsWatcher.onDidCreate(() => {
+	commandsWatcher.onDidCreate((uri) => {
 		outputChannel.appendLine('Command file created, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	commandsWatcher.onDidChange(() => {
+	commandsWatcher.onDidChange((uri) => {
 		outputChannel.appendLine('Command file changed, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	commandsWatcher.onDidDelete(() => {
+	commandsWatcher.onDidDelete((uri) => {
 		outputChannel.appendLine('Command file deleted, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
 	// Skills watcher handlers
-	skillsWatcher.onDidCreate(() => {
+	skillsWatcher.onDidCreate((uri) => {
 		outputChannel.appendLine('Skill file created, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	skillsWatcher.onDidChange(() => {
+	skillsWatcher.onDidChange((uri) => {
 		outputChannel.appendLine('Skill file changed, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	skillsWatcher.onDidDelete(() => {
+	skillsWatcher.onDidDelete((uri) => {
 		outputChannel.appendLine('Skill file deleted, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
 	// Agents watcher handlers (workspace agent definition files)
-	agentsWatcher.onDidCreate(() => {
+	agentsWatcher.onDidCreate((uri) => {
 		outputChannel.appendLine('Agent definition file created, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	agentsWatcher.onDidChange(() => {
+	agentsWatcher.onDidChange((uri) => {
 		outputChannel.appendLine('Agent definition file changed, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
-	agentsWatcher.onDidDelete(() => {
+	agentsWatcher.onDidDelete((uri) => {
 		outputChannel.appendLine('Agent definition file deleted, refreshing...');
-		refreshData();
+		refreshForFileChange(uri);
 	});
 
 	// Combine watchers for disposal
@@ -610,346 +672,72 @@ function setupFileWatcher() {
 	} as vscode.FileSystemWatcher;
 }
 
-function setupGlobalCommandsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .cursor/commands directory
-	try {
-		const homeDir = os.homedir();
-		const globalCommandsDir = vscode.Uri.file(path.join(homeDir, '.cursor', 'commands'));
-		const globalCommandsPattern = new vscode.RelativePattern(globalCommandsDir, '*.md');
-		const globalCommandsWatcher = vscode.workspace.createFileSystemWatcher(globalCommandsPattern);
-
-		// Global commands watcher handlers
-		globalCommandsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global command file created, refreshing...');
-			refreshData();
-		});
-
-		globalCommandsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global command file changed, refreshing...');
-			refreshData();
-		});
-
-		globalCommandsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global command file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global commands file watcher created successfully');
-		return globalCommandsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global commands directory: ${error instanceof Error ? error.message : String(error)}`);
-		// Continue without global commands watcher - extension still functions
-		return undefined;
-	}
-}
-
-function setupGlobalSkillsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .cursor/skills directory
-	try {
-		const homeDir = os.homedir();
-		const globalSkillsDir = vscode.Uri.file(path.join(homeDir, '.cursor', 'skills'));
-		// Recursive (**) so folder-deletion of a whole skill (e.g. `npx skills remove`) is caught
-		const globalSkillsPattern = new vscode.RelativePattern(globalSkillsDir, '**');
-		const globalSkillsWatcher = vscode.workspace.createFileSystemWatcher(globalSkillsPattern);
-
-		// Global skills watcher handlers
-		globalSkillsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global skill file created, refreshing...');
-			refreshData();
-		});
-
-		globalSkillsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global skill file changed, refreshing...');
-			refreshData();
-		});
-
-		globalSkillsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global skill file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global skills file watcher created successfully');
-		return globalSkillsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global skills directory: ${error instanceof Error ? error.message : String(error)}`);
-		// Continue without global skills watcher - extension still functions
-		return undefined;
-	}
-}
-
-function setupGlobalAgentsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch ~/.cursor/agents/*.md (mirrors global commands/skills; Agents view Cursor root)
-	try {
-		const homeDir = os.homedir();
-		const globalAgentsDir = vscode.Uri.file(path.join(homeDir, '.cursor', 'agents'));
-		const globalAgentsPattern = new vscode.RelativePattern(globalAgentsDir, '*.md');
-		const globalAgentsWatcher = vscode.workspace.createFileSystemWatcher(globalAgentsPattern);
-
-		globalAgentsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global agent definition file created, refreshing...');
-			refreshData();
-		});
-
-		globalAgentsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global agent definition file changed, refreshing...');
-			refreshData();
-		});
-
-		globalAgentsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global agent definition file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global agents file watcher created successfully');
-		return globalAgentsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global agents directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
-	}
-}
-
-function setupGlobalClaudeCommandsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .claude/commands directory
-	try {
-		const homeDir = os.homedir();
-		const globalClaudeCommandsDir = vscode.Uri.file(path.join(homeDir, '.claude', 'commands'));
-		const globalClaudeCommandsPattern = new vscode.RelativePattern(globalClaudeCommandsDir, '*.md');
-		const globalClaudeCommandsWatcher = vscode.workspace.createFileSystemWatcher(globalClaudeCommandsPattern);
-
-		globalClaudeCommandsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global Claude command file created, refreshing...');
-			refreshData();
-		});
-
-		globalClaudeCommandsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global Claude command file changed, refreshing...');
-			refreshData();
-		});
-
-		globalClaudeCommandsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global Claude command file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global Claude commands file watcher created successfully');
-		return globalClaudeCommandsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global Claude commands directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
-	}
-}
-
-function setupGlobalClaudeSkillsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .claude/skills directory
-	try {
-		const homeDir = os.homedir();
-		const globalClaudeSkillsDir = vscode.Uri.file(path.join(homeDir, '.claude', 'skills'));
-		// Recursive (**) so folder-deletion of a whole skill (e.g. `npx skills remove`) is caught
-		const globalClaudeSkillsPattern = new vscode.RelativePattern(globalClaudeSkillsDir, '**');
-		const globalClaudeSkillsWatcher = vscode.workspace.createFileSystemWatcher(globalClaudeSkillsPattern);
-
-		globalClaudeSkillsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global Claude skill file created, refreshing...');
-			refreshData();
-		});
-
-		globalClaudeSkillsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global Claude skill file changed, refreshing...');
-			refreshData();
-		});
-
-		globalClaudeSkillsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global Claude skill file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global Claude skills file watcher created successfully');
-		return globalClaudeSkillsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global Claude skills directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
-	}
-}
-
-function setupGlobalClaudeAgentDefinitionsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .claude/agents directory
-	try {
-		const homeDir = os.homedir();
-		const globalClaudeAgentsDir = vscode.Uri.file(path.join(homeDir, '.claude', 'agents'));
-		const globalClaudeAgentsPattern = new vscode.RelativePattern(globalClaudeAgentsDir, '*.md');
-		const globalClaudeAgentsWatcher = vscode.workspace.createFileSystemWatcher(globalClaudeAgentsPattern);
-
-		globalClaudeAgentsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global Claude agent definition file created, refreshing...');
-			refreshData();
-		});
-
-		globalClaudeAgentsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global Claude agent definition file changed, refreshing...');
-			refreshData();
-		});
-
-		globalClaudeAgentsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global Claude agent definition file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global Claude agents file watcher created successfully');
-		return globalClaudeAgentsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global Claude agents directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
-	}
-}
-
-function setupGlobalDotAgentsCommandsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .agents/commands directory
-	try {
-		const homeDir = os.homedir();
-		const globalDotAgentsCommandsDir = vscode.Uri.file(path.join(homeDir, '.agents', 'commands'));
-		const globalDotAgentsCommandsPattern = new vscode.RelativePattern(globalDotAgentsCommandsDir, '*.md');
-		const globalDotAgentsCommandsWatcher = vscode.workspace.createFileSystemWatcher(globalDotAgentsCommandsPattern);
-
-		globalDotAgentsCommandsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global .agents command file created, refreshing...');
-			refreshData();
-		});
-
-		globalDotAgentsCommandsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global .agents command file changed, refreshing...');
-			refreshData();
-		});
-
-		globalDotAgentsCommandsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global .agents command file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global .agents commands file watcher created successfully');
-		return globalDotAgentsCommandsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global .agents commands directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
-	}
-}
-
-function setupGlobalDotAgentsSkillsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .agents/skills directory
-	try {
-		const homeDir = os.homedir();
-		const globalDotAgentsSkillsDir = vscode.Uri.file(path.join(homeDir, '.agents', 'skills'));
-		// Recursive (**) so folder-deletion of a whole skill (e.g. `npx skills remove`) is caught
-		const globalDotAgentsSkillsPattern = new vscode.RelativePattern(globalDotAgentsSkillsDir, '**');
-		const globalDotAgentsSkillsWatcher = vscode.workspace.createFileSystemWatcher(globalDotAgentsSkillsPattern);
-
-		globalDotAgentsSkillsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global .agents skill file created, refreshing...');
-			refreshData();
-		});
-
-		globalDotAgentsSkillsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global .agents skill file changed, refreshing...');
-			refreshData();
-		});
-
-		globalDotAgentsSkillsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global .agents skill file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global .agents skills file watcher created successfully');
-		return globalDotAgentsSkillsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global .agents skills directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
-	}
-}
-
-function setupGlobalDotAgentsAgentDefinitionsWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch for changes in global .agents/agents directory
-	try {
-		const homeDir = os.homedir();
-		const globalDotAgentsAgentsDir = vscode.Uri.file(path.join(homeDir, '.agents', 'agents'));
-		const globalDotAgentsAgentsPattern = new vscode.RelativePattern(globalDotAgentsAgentsDir, '*.md');
-		const globalDotAgentsAgentsWatcher = vscode.workspace.createFileSystemWatcher(globalDotAgentsAgentsPattern);
-
-		globalDotAgentsAgentsWatcher.onDidCreate(() => {
-			outputChannel.appendLine('Global .agents agent definition file created, refreshing...');
-			refreshData();
-		});
-
-		globalDotAgentsAgentsWatcher.onDidChange(() => {
-			outputChannel.appendLine('Global .agents agent definition file changed, refreshing...');
-			refreshData();
-		});
-
-		globalDotAgentsAgentsWatcher.onDidDelete(() => {
-			outputChannel.appendLine('Global .agents agent definition file deleted, refreshing...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('Global .agents agent definitions file watcher created successfully');
-		return globalDotAgentsAgentsWatcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch global .agents agents directory: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
+/**
+ * Watchers for every configured agent root (`ace.agentRoots`): commands, skills and agent
+ * definitions under the root directory, plus its MCP config, user memory and settings files. Replaced when the setting changes.
+ */
+function setupAgentRootWatchers(): void {
+	disposeAgentRootWatchers();
+	for (const root of getConfiguredAgentRoots()) {
+		const targets: Array<[string, string, string]> = [];
+		if (root.sections.includes('commands')) {
+			targets.push([`${root.label} commands`, agentRootCommandsDirectory(root), root.commandFormat === 'toml' ? '**/*.toml' : '*.md']);
+		}
+		if (root.sections.includes('skills')) {
+			// Recursive (**) so folder-deletion of a whole skill (e.g. `npx skills remove`) is caught
+			targets.push([`${root.label} skills`, path.join(root.directory, 'skills'), '**']);
+		}
+		if (root.sections.includes('agents')) {
+			targets.push([`${root.label} agent definitions`, path.join(root.directory, 'agents'), '*.md']);
+		}
+		if (root.sections.includes('mcp') && root.mcpConfigPath) {
+			targets.push([root.mcpConfigPath, path.dirname(root.mcpConfigPath), path.basename(root.mcpConfigPath)]);
+		}
+		if (root.memoryPath) {
+			targets.push([root.memoryPath, path.dirname(root.memoryPath), path.basename(root.memoryPath)]);
+		}
+		if (root.settingsPath) {
+			targets.push([root.settingsPath, path.dirname(root.settingsPath), path.basename(root.settingsPath)]);
+		}
+		for (const [label, dir, glob] of targets) {
+			const watcher = createRefreshWatcher(label, dir, glob);
+			if (watcher) {
+				agentRootWatchers.push(watcher);
+			}
+		}
 	}
 }
 
-function setupClaudeJsonWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch ~/.claude.json for MCP registration changes (FR-009)
-	try {
-		const homeDir = os.homedir();
-		const homeDirUri = vscode.Uri.file(homeDir);
-		const pattern = new vscode.RelativePattern(homeDirUri, '.claude.json');
-		const watcher = vscode.workspace.createFileSystemWatcher(pattern);
-
-		watcher.onDidCreate(() => {
-			outputChannel.appendLine('~/.claude.json created, refreshing Agents view...');
-			refreshData();
-		});
-		watcher.onDidChange(() => {
-			outputChannel.appendLine('~/.claude.json changed, refreshing Agents view...');
-			refreshData();
-		});
-		watcher.onDidDelete(() => {
-			outputChannel.appendLine('~/.claude.json deleted, refreshing Agents view...');
-			refreshData();
-		});
-
-		outputChannel.appendLine('~/.claude.json file watcher created successfully');
-		return watcher;
-	} catch (error) {
-		outputChannel.appendLine(`Unable to watch ~/.claude.json: ${error instanceof Error ? error.message : String(error)}`);
-		return undefined;
+function disposeAgentRootWatchers(): void {
+	for (const watcher of agentRootWatchers) {
+		watcher.dispose();
 	}
+	agentRootWatchers = [];
 }
 
-function setupCursorMcpJsonWatcher(): vscode.FileSystemWatcher | undefined {
-	// Watch ~/.cursor/mcp.json for MCP registration changes (FR-010)
+function createRefreshWatcher(label: string, dir: string, glob: string): vscode.FileSystemWatcher | undefined {
 	try {
-		const homeDir = os.homedir();
-		const cursorDir = vscode.Uri.file(path.join(homeDir, '.cursor'));
-		const pattern = new vscode.RelativePattern(cursorDir, 'mcp.json');
+		const pattern = new vscode.RelativePattern(vscode.Uri.file(dir), glob);
 		const watcher = vscode.workspace.createFileSystemWatcher(pattern);
 
-		watcher.onDidCreate(() => {
-			outputChannel.appendLine('~/.cursor/mcp.json created, refreshing Agents view...');
-			refreshData();
+		watcher.onDidCreate((uri) => {
+			outputChannel.appendLine(`${label}: file created, refreshing...`);
+			refreshForFileChange(uri);
 		});
-		watcher.onDidChange(() => {
-			outputChannel.appendLine('~/.cursor/mcp.json changed, refreshing Agents view...');
-			refreshData();
+		watcher.onDidChange((uri) => {
+			outputChannel.appendLine(`${label}: file changed, refreshing...`);
+			refreshForFileChange(uri);
 		});
-		watcher.onDidDelete(() => {
-			outputChannel.appendLine('~/.cursor/mcp.json deleted, refreshing Agents view...');
-			refreshData();
+		watcher.onDidDelete((uri) => {
+			outputChannel.appendLine(`${label}: file deleted, refreshing...`);
+			refreshForFileChange(uri);
 		});
 
-		outputChannel.appendLine('~/.cursor/mcp.json file watcher created successfully');
+		outputChannel.appendLine(`${label} file watcher created successfully`);
 		return watcher;
 	} catch (error) {
-		outputChannel.appendLine(`Unable to watch ~/.cursor/mcp.json: ${error instanceof Error ? error.message : String(error)}`);
+		outputChannel.appendLine(`Unable to watch ${label}: ${error instanceof Error ? error.message : String(error)}`);
+		// Continue without this watcher - extension still functions
 		return undefined;
 	}
 }
@@ -2,9 +2,16 @@
 // Runs in the extension host; stdio server connects here when ACE_EXTENSION_PORT is set.
 
 import * as vscode from 'vscode';
+import * as os from 'os';
 import * as path from 'path';
 import type { ProjectDefinition } from '../types/project';
 import { McpTools } from './tools';
+import type { CompareProjectsInput, SearchContextInput, ResourceMetadata } from './types';
+import { McpResources } from './resources';
+import { toProjectResourceUri } from './resourceUris';
+import { SUBSCRIBE_CHANGES_METHOD, toResourceChange } from './resourceChanges';
+import type { ResourceChangeMessage } from './resourceChanges';
+import { getConfiguredAgentRoots } from '../services/agentRootSettings';
 
 export interface ProjectEntry {
 	projectKey: string;
@@ -62,9 +69,11 @@ export function normalizeParams(params: Record<string, unknown>): Record<string,
 }
 
 const TOOL_METHODS = [
-	'list_projects', 'list_rules', 'get_rule', 'list_commands', 'get_command',
-	'list_skills', 'get_skill', 'list_agents', 'get_agent',
-	'list_specs', 'get_spec', 'get_project'
+	'list_projects', 'list_rules', 'get_rule', 'get_rules_for_file', 'list_commands', 'get_command',
+	'list_skills', 'get_skill', 'get_skill_file', 'list_agents', 'get_agent',
+	'list_specs', 'get_spec', 'get_agents_md', 'get_agents_md_for_file', 'get_claude_memory', 'get_agent_settings', 'list_mcp_servers', 'get_project', 'search_context', 'get_compliance', 'compare_projects',
+	// Resource requests from the stdio server (project-templated ace:// URIs)
+	'list_resources', 'read_resource'
 ] as const;
 
 type ToolMethod = typeof TOOL_METHODS[number];
@@ -100,15 +109,20 @@ async function handleToolCall(
 		case 'get_rule': {
 			const name = p?.name;
 			if (typeof name !== 'string') {throw new Error('Missing name');}
-			const out = await McpTools.getRule({ name, projectPath });
+			const out = await McpTools.getRule({ name, expandReferences: p?.expandReferences === true, projectPath });
 			return out;
 		}
+		case 'get_rules_for_file': {
+			const filePath = p?.filePath ?? (p as Record<string, unknown>).file_path;
+			if (typeof filePath !== 'string') {throw new Error('Missing filePath');}
+			return McpTools.getRulesForFile({ filePath, projectPath });
+		}
 		case 'list_commands':
 			return McpTools.listCommands({ projectPath });
 		case 'get_command': {
 			const name = p?.name;
 			if (typeof name !== 'string') {throw new Error('Missing name');}
-			const out = await McpTools.getCommand({ name, projectPath });
+			const out = await McpTools.getCommand({ name, expandReferences: p?.expandReferences === true, projectPath });
 			return out;
 		}
 		case 'list_skills':
@@ -119,12 +133,23 @@ async function handleToolCall(
 			const out = await McpTools.getSkill({ name, projectPath });
 			return out;
 		}
+		case 'get_skill_file': {
+			const name = p?.name;
+			const filePath = p?.path;
+			if (typeof name !== 'string') {throw new Error('Missing name');}
+			if (typeof filePath !== 'string') {throw new Error('Missing path');}
+			return McpTools.getSkillFile({ name, path: filePath, projectPath });
+		}
 		case 'list_agents':
-			return McpTools.listAgentDefinitions({ projectPath });
+			return McpTools.listAgentDefinitions({
+				tool: typeof p?.tool === 'string' ? p.tool : undefined,
+				model: typeof p?.model === 'string' ? p.model : undefined,
+				projectPath
+			});
 		case 'get_agent': {
 			const name = p?.name;
 			if (typeof name !== 'string') {throw new Error('Missing name');}
-			const out = await McpTools.getAgentDefinition({ name, projectPath });
+			const out = await McpTools.getAgentDefinition({ name, stripFrontmatter: p?.stripFrontmatter === true, projectPath });
 			return out;
 		}
 		case 'list_specs':
@@ -135,8 +160,70 @@ async function handleToolCall(
 			const out = await McpTools.getSpec({ name, projectPath });
 			return out;
 		}
+		case 'get_agents_md':
+			return McpTools.getAgentsMd({
+				section: typeof p?.section === 'string' ? p.section : undefined,
+				projectPath
+			});
+		case 'get_agents_md_for_file': {
+			const filePath = p?.filePath ?? (p as Record<string, unknown>).file_path;
+			if (typeof filePath !== 'string') {throw new Error('Missing filePath');}
+			return McpTools.getAgentsMdForFile({ filePath, projectPath });
+		}
+		case 'get_claude_memory':
+			return McpTools.getClaudeMemory({
+				directory: typeof p?.directory === 'string' ? p.directory : undefined,
+				expandReferences: p?.expandReferences === true,
+				projectPath
+			});
+		case 'get_agent_settings':
+			return McpTools.getAgentSettings({ projectPath });
+		case 'list_mcp_servers':
+			return McpTools.listMcpServers({ projectPath });
 		case 'get_project':
 			return McpTools.getProject({ projectPath });
+		case 'search_context': {
+			const query = p?.query;
+			if (typeof query !== 'string') {throw new Error('Missing query');}
+			return McpTools.searchContext({
+				query,
+				kinds: Array.isArray(p.kinds) ? (p.kinds as SearchContextInput['kinds']) : undefined,
+				platform: typeof p.platform === 'string' ? (p.platform as SearchContextInput['platform']) : undefined,
+				location: typeof p.location === 'string' ? p.location : undefined,
+				limit: typeof p.limit === 'number' ? p.limit : undefined,
+				projectPath
+			});
+		}
+		case 'get_compliance':
+			return McpTools.getCompliance({ projectPath });
+		case 'compare_projects': {
+			const keyA = p?.projectKeyA;
+			const keyB = p?.projectKeyB;
+			if (typeof keyA !== 'string' || typeof keyB !== 'string') {throw new Error('Missing projectKeyA or projectKeyB');}
+			const a = resolveProjectKey(projectList, keyA);
+			if ('error' in a) {throw new Error(a.error);}
+			const b = resolveProjectKey(projectList, keyB);
+			if ('error' in b) {throw new Error(b.error);}
+			return McpTools.compareProjects({
+				projectPathA: a.path,
+				projectPathB: b.path,
+				kinds: Array.isArray(p.kinds) ? (p.kinds as CompareProjectsInput['kinds']) : undefined,
+				includeDiff: p.includeDiff === true
+			});
+		}
+		case 'list_resources': {
+			const out: ResourceMetadata[] = [];
+			for (const entry of projectList) {
+				const resources = await new McpResources(vscode.Uri.file(entry.path)).listResources();
+				out.push(...resources.map(r => ({ ...r, uri: toProjectResourceUri(entry.projectKey, r.uri) })));
+			}
+			return out;
+		}
+		case 'read_resource': {
+			const uri = p?.uri;
+			if (typeof uri !== 'string') {throw new Error('Missing uri');}
+			return new McpResources(vscode.Uri.file(projectPath)).getResource(uri);
+		}
 		default:
 			throw new Error(`Unknown method: ${method}`);
 	}
@@ -156,12 +243,14 @@ interface BackendResponse {
 	error?: string;
 }
 
-/**
- * Start the MCP extension backend. Listens on a random port; returns the port and a dispose function.
- * The stdio server (when ACE_EXTENSION_PORT is set) connects here for all tool calls.
- * @param getProjects - Callback to get workspace + added projects.
- * @param logLine - Optional callback to log one line per tool call (e.g. to extension output channel).
- */
+/** Running backend: port for the stdio server, change push for file watchers, dispose. */
+export interface ExtensionBackend {
+	port: number;
+	/** Push a resources_changed event to subscribed stdio servers (no-op when the file backs no resource). */
+	notifyFileChanged: (filePath: string) => Promise<void>;
+	dispose: () => void;
+}
+
 /** Load Node net module (extension host is Node; use require so bundler keeps it external). */
 function loadNet(): typeof import('node:net') {
 	 
@@ -171,13 +260,33 @@ function loadNet(): typeof import('node:net') {
 	throw new Error('net module not available (require("net") failed). Extension backend needs Node runtime.');
 }
 
+/**
+ * Start the MCP extension backend. Listens on a random port; returns the port, a change notifier and a dispose function.
+ * The stdio server (when ACE_EXTENSION_PORT is set) connects here for all tool calls, and keeps one
+ * connection open (subscribe_changes) to receive resources_changed events.
+ * @param getProjects - Callback to get workspace + added projects.
+ * @param logLine - Optional callback to log one line per tool call (e.g. to extension output channel).
+ */
 export function startExtensionBackend(
 	getProjects: () => Promise<ProjectDefinition[]>,
 	logLine?: (line: string) => void
-): Promise<{ port: number; dispose: () => void }> {
+): Promise<ExtensionBackend> {
 	return (async () => {
 		const net = loadNet();
-		return new Promise<{ port: number; dispose: () => void }>((resolve, reject) => {
+		const subscribers = new Set<import('node:net').Socket>();
+
+		async function notifyFileChanged(filePath: string): Promise<void> {
+			if (subscribers.size === 0) {return;}
+			const projectList = await buildProjectList(getProjects, vscode.workspace.workspaceFolders);
+			const change = toResourceChange(filePath, projectList, os.homedir(), getConfiguredAgentRoots());
+			if (!change) {return;}
+			const message: ResourceChangeMessage = { event: 'resources_changed', change };
+			for (const socket of subscribers) {
+				socket.write(JSON.stringify(message) + '\n');
+			}
+		}
+
+		return new Promise<ExtensionBackend>((resolve, reject) => {
 			const server = net.createServer(async (socket) => {
 			// Prevent idle sockets from keeping the Node event loop alive (important for unit tests).
 			socket.unref?.();
@@ -191,6 +300,13 @@ export function startExtensionBackend(
 					if (!line.trim()) {continue;}
 					try {
 						const req = JSON.parse(line) as BackendRequest;
+						if ((req.method as string) === SUBSCRIBE_CHANGES_METHOD) {
+							// Keep this connection open and push resources_changed lines until it closes
+							subscribers.add(socket);
+							socket.on('close', () => { subscribers.delete(socket); });
+							socket.write(JSON.stringify({ id: req.id, result: { subscribed: true } }) + '\n');
+							continue;
+						}
 						if (typeof req.id !== 'number' || !req.method || !isToolMethod(req.method)) {
 							socket.write(JSON.stringify({ id: req.id, error: 'Invalid request' }) + '\n');
 							continue;
@@ -226,7 +342,14 @@ export function startExtensionBackend(
 			}
 			resolve({
 				port,
-				dispose: () => { server.close(); }
+				notifyFileChanged,
+				dispose: () => {
+					for (const socket of subscribers) {
+						socket.destroy();
+					}
+					subscribers.clear();
+					server.close();
+				}
 			});
 		});
 		server.on('error', reject);
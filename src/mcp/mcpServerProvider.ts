@@ -5,6 +5,8 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import type { ProjectDefinition } from '../types/project';
 import { startExtensionBackend, buildProjectList } from './extensionBackend';
+import { AGENT_ROOTS_ENV } from '../scanner/core/agentRoots';
+import { getConfiguredAgentRoots } from '../services/agentRootSettings';
 
 /** Cursor MCP API - registerServer wires the server into Cursor's AI tools (see cursor.com/docs/context/mcp-extension-api) */
 function getCursorMcp():
@@ -27,6 +29,7 @@ export class McpServerProvider implements vscode.McpServerDefinitionProvider {
 	private cursorServerNames: string[] = [];
 	private backendPort: number | undefined;
 	private backendDispose: (() => void) | undefined;
+	private backendNotify: ((filePath: string) => Promise<void>) | undefined;
 	/** When backend is not used, we pass this to the server for standalone mode. */
 	private fallbackEnv: Record<string, string> = {};
 
@@ -47,17 +50,21 @@ export class McpServerProvider implements vscode.McpServerDefinitionProvider {
 		}
 		try {
 			const logLine = this.outputChannel ? (line: string) => { this.outputChannel!.appendLine(line); } : undefined;
-			const { port, dispose } = await startExtensionBackend(this.getProjects, logLine);
+			const { port, dispose, notifyFileChanged } = await startExtensionBackend(this.getProjects, logLine);
 			this.backendPort = port;
 			this.backendDispose = dispose;
-			this.context.subscriptions.push({ dispose: () => { this.backendDispose?.(); this.backendPort = undefined; } });
+			this.backendNotify = notifyFileChanged;
+			this.context.subscriptions.push({ dispose: () => { this.backendDispose?.(); this.backendPort = undefined; this.backendNotify = undefined; } });
 			this.fallbackEnv = {};
 			this.outputChannel?.appendLine(`MCP: backend started (bridge mode) on port ${port}`);
 			return { port, env: { ACE_EXTENSION_PORT: String(port) } };
 		} catch (err) {
-			// Fallback: pass project list so stdio server runs in standalone mode; MCP still exposed
+			// Fallback: pass project list and agent roots so stdio server runs in standalone mode; MCP still exposed
 			const projectList = await buildProjectList(this.getProjects, vscode.workspace.workspaceFolders);
-			this.fallbackEnv = projectList.length > 0 ? { ACE_PROJECT_PATHS: JSON.stringify(projectList) } : {};
+			this.fallbackEnv = {
+				...(projectList.length > 0 ? { ACE_PROJECT_PATHS: JSON.stringify(projectList) } : {}),
+				[AGENT_ROOTS_ENV]: JSON.stringify(getConfiguredAgentRoots())
+			};
 			this.outputChannel?.appendLine(`MCP: using standalone mode (backend failed: ${err instanceof Error ? err.message : String(err)})`);
 			return { env: this.fallbackEnv };
 		}
@@ -158,6 +165,16 @@ export class McpServerProvider implements vscode.McpServerDefinitionProvider {
 		}
 	}
 
+	/**
+	 * Forward a watched file change to connected stdio servers (bridge mode) so they can send
+	 * resources/updated and list_changed. No-op in standalone mode, where the server watches itself.
+	 */
+	notifyFileChanged(filePath: string): void {
+		this.backendNotify?.(filePath).catch((err) => {
+			this.outputChannel?.appendLine(`MCP: change notification failed: ${err instanceof Error ? err.message : String(err)}`);
+		});
+	}
+
 	/**
 	 * Notify VS Code that the server definitions have changed
 	 * Call this when workspaces change or server configuration updates
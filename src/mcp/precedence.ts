@@ -1,6 +1,7 @@
 // Name-collision precedence for get_rule/get_command/get_skill/get_agent (spec 011 FR-008).
 // When more than one artifact matches a lookup name, resolve deterministically: workspace
-// before global, then cursor before claude within the same tier.
+// before global, then cursor, claude, copilot, gemini, kiro, windsurf, cline, roo, continue
+// within the same tier.
 
 import type { CorePlatform } from '../scanner/core/types';
 
@@ -11,15 +12,20 @@ export interface PrecedenceKey {
 	platform: CorePlatform;
 }
 
-function precedenceRank(key: PrecedenceKey): number {
+/** Platform order within a location tier. */
+const PLATFORM_ORDER: CorePlatform[] = ['cursor', 'claude', 'copilot', 'gemini', 'kiro', 'windsurf', 'cline', 'roo', 'continue'];
+
+/** Lower rank wins. Exported for callers that order whole lists (e.g. get_rules_for_file). */
+export function precedenceRank(key: PrecedenceKey): number {
 	const locationRank = key.location === undefined || key.location === 'workspace' ? 0 : 1;
-	const platformRank = key.platform === 'cursor' ? 0 : 1;
-	return locationRank * 2 + platformRank;
+	const platformRank = PLATFORM_ORDER.indexOf(key.platform);
+	return locationRank * PLATFORM_ORDER.length + platformRank;
 }
 
 /**
  * Given all candidates matching a lookup name, return the one that wins by precedence
- * (workspace before global, cursor before claude). Returns undefined for an empty list.
+ * (workspace before global, then cursor, claude, copilot, gemini, kiro, windsurf, cline, roo,
+ * continue). Returns undefined for an empty list.
  */
 export function pickByPrecedence<T>(candidates: T[], keyOf: (item: T) => PrecedenceKey): T | undefined {
 	if (candidates.length === 0) {
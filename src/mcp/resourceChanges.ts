@@ -0,0 +1,122 @@
+// Resource change events - NO vscode dependency
+// Maps a changed file to the ace:// resources it affects. The extension backend pushes these over
+// the bridge socket (from its FileSystemWatchers); the standalone server derives them from fs.watch.
+// Either way the stdio server turns them into MCP resources/updated + list_changed notifications.
+
+import * as path from 'path';
+import { parseProjectResourceUri } from './resourceUris';
+import { agentRootCommandsDirectory, defaultAgentRoots, type AgentRootConfig } from '../scanner/core/agentRoots';
+
+/** First path segment of a project-relative resource URI (`ace://<type>[/<name>]`). */
+export type ResourceType = 'rules' | 'commands' | 'skills' | 'agents' | 'agents-md' | 'specs' | 'schemas';
+
+/**
+ * One change. `projectKey` is set when the file lives inside a known project; it is omitted for
+ * user-level agent roots (see `defaultAgentRoots`), which affect every project.
+ */
+export interface ResourceChange {
+	type: ResourceType;
+	projectKey?: string;
+}
+
+/** Bridge request that turns a backend connection into a change subscription (kept open). */
+export const SUBSCRIBE_CHANGES_METHOD = 'subscribe_changes';
+
+/** Line pushed by the extension backend to subscribed sockets. */
+export interface ResourceChangeMessage {
+	event: 'resources_changed';
+	change: ResourceChange;
+}
+
+/** Directory names of the built-in agent roots (`.cursor`, `.claude`, …), also read inside projects. */
+export const AGENT_ROOT_DIRS = defaultAgentRoots('').map(root => path.basename(root.directory));
+const AGENT_ROOT_TYPES: ResourceType[] = ['rules', 'commands', 'skills', 'agents'];
+
+/** GitHub Copilot directories under a project's `.github/`. */
+const COPILOT_DIR_TYPES = new Map<string, ResourceType>([
+	['instructions', 'rules'],
+	['prompts', 'commands'],
+	['chatmodes', 'agents']
+]);
+
+/** Kiro directories under a project's `.kiro/`. */
+const KIRO_DIR_TYPES = new Map<string, ResourceType>([
+	['steering', 'rules'],
+	['specs', 'specs']
+]);
+
+/** Rules-folder agents: a rules directory (`.windsurf/rules/`) or a single rules file (`.windsurfrules`). */
+const RULE_FOLDER_DIRS = [['.windsurf', 'rules'], ['.clinerules'], ['.continue', 'rules']];
+const RULE_FILES = ['.windsurfrules', '.clinerules'];
+
+/**
+ * Resource type for a path relative to a project root or user home, or undefined when the file
+ * backs no resource (e.g. `CLAUDE.md`, `~/.claude.json`, `~/.cursor/mcp.json`).
+ */
+export function resourceTypeForRelativePath(relativePath: string, isProject: boolean): ResourceType | undefined {
+	const segments = relativePath.split(/[\\/]+/).filter(s => s.length > 0);
+	if (segments.length === 0 || segments[0] === '..') {return undefined;}
+	if (AGENT_ROOT_DIRS.includes(segments[0]) && segments.length >= 2) {
+		const type = segments[1] as ResourceType;
+		return AGENT_ROOT_TYPES.includes(type) ? type : undefined;
+	}
+	if (!isProject) {return undefined;}
+	if (segments.length === 1 && segments[0] === 'AGENTS.md') {return 'agents-md';}
+	if (segments[0] === '.github') {
+		if (segments.length === 2 && segments[1] === 'copilot-instructions.md') {return 'rules';}
+		return segments.length >= 3 ? COPILOT_DIR_TYPES.get(segments[1]) : undefined;
+	}
+	if (segments[0] === '.kiro') {
+		return segments.length >= 3 ? KIRO_DIR_TYPES.get(segments[1]) : undefined;
+	}
+	if (segments.length === 1 && RULE_FILES.includes(segments[0])) {return 'rules';}
+	if (RULE_FOLDER_DIRS.some(dir => segments.length > dir.length && dir.every((segment, i) => segments[i] === segment))) {return 'rules';}
+	if (segments[0] === '.roo' && segments.length >= 3 && /^rules(-.+)?$/.test(segments[1])) {return 'rules';}
+	if (segments[0] === 'specs' && segments.length >= 2) {return 'specs';}
+	if (segments[0] === 'schemas' && segments.length >= 2) {return 'schemas';}
+	return undefined;
+}
+
+/**
+ * Classify a changed file against the known projects (deepest project root wins), falling back to
+ * the user-level agent roots (default: the built-in roots from `defaultAgentRoots(userRoot)`).
+ */
+export function toResourceChange(
+	filePath: string,
+	projects: Array<{ projectKey: string; path: string }>,
+	userRoot: string,
+	agentRoots: AgentRootConfig[] = defaultAgentRoots(userRoot)
+): ResourceChange | undefined {
+	const containing = projects
+		.filter(p => !path.relative(p.path, filePath).startsWith('..') && !path.isAbsolute(path.relative(p.path, filePath)))
+		.sort((a, b) => b.path.length - a.path.length);
+	for (const project of containing) {
+		const type = resourceTypeForRelativePath(path.relative(project.path, filePath), true);
+		if (type) {return { type, projectKey: project.projectKey };}
+	}
+	for (const root of agentRoots) {
+		// Codex keeps commands outside `<directory>/commands` (`~/.codex/prompts`)
+		if (segmentsBelow(agentRootCommandsDirectory(root), filePath)?.length) {return { type: 'commands' };}
+		const segments = segmentsBelow(root.directory, filePath);
+		if (!segments || segments.length < 2) {continue;}
+		const type = segments[0] as ResourceType;
+		if (AGENT_ROOT_TYPES.includes(type)) {return { type };}
+	}
+	return undefined;
+}
+
+/** Path segments of `filePath` below `dir`, or undefined when it is not inside `dir`. */
+function segmentsBelow(dir: string, filePath: string): string[] | undefined {
+	const relative = path.relative(dir, filePath);
+	if (relative.startsWith('..') || path.isAbsolute(relative)) {return undefined;}
+	return relative.split(/[\\/]+/).filter(s => s.length > 0);
+}
+
+/** Whether a project-templated URI (`ace://{projectKey}/<type>[/<name>]`) is affected by a change. */
+export function isResourceAffected(uri: string, change: ResourceChange): boolean {
+	const parsed = parseProjectResourceUri(uri);
+	if (!parsed) {return false;}
+	if (change.projectKey !== undefined && parsed.projectKey !== change.projectKey) {return false;}
+	const type = parsed.resourceUri.slice('ace://'.length).split('/')[0];
+	return type === change.type;
+}
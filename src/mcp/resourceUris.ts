@@ -0,0 +1,33 @@
+// Project-templated ace:// resource URIs - NO vscode dependency
+// McpResources (and the standalone equivalent) speak project-relative URIs (`ace://rules/security`).
+// The stdio server exposes them per project by inserting the projectKey as the first segment:
+// `ace://{projectKey}/rules/security`.
+
+/** URI template registered with the MCP server (`path` is a project-relative URI without `ace://`). */
+export const PROJECT_RESOURCE_TEMPLATE = 'ace://{projectKey}/{+path}';
+
+const SCHEME = 'ace://';
+
+/** `ace://rules/x` + `agency` → `ace://agency/rules/x`. */
+export function toProjectResourceUri(projectKey: string, resourceUri: string): string {
+	const rest = resourceUri.startsWith(SCHEME) ? resourceUri.slice(SCHEME.length) : resourceUri;
+	return `${SCHEME}${encodeURIComponent(projectKey)}/${rest}`;
+}
+
+/**
+ * `ace://agency/rules/x` → `{ projectKey: 'agency', resourceUri: 'ace://rules/x' }`.
+ * Returns undefined for other schemes or when no resource path follows the projectKey.
+ */
+export function parseProjectResourceUri(uri: string): { projectKey: string; resourceUri: string } | undefined {
+	if (!uri.startsWith(SCHEME)) {return undefined;}
+	const rest = uri.slice(SCHEME.length);
+	const slash = rest.indexOf('/');
+	if (slash <= 0 || slash === rest.length - 1) {return undefined;}
+	let projectKey: string;
+	try {
+		projectKey = decodeURIComponent(rest.slice(0, slash));
+	} catch {
+		return undefined;
+	}
+	return { projectKey, resourceUri: `${SCHEME}${rest.slice(slash + 1)}` };
+}
@@ -3,8 +3,14 @@
 import * as vscode from 'vscode';
 import { RulesScanner } from '../scanner/rulesScanner';
 import { CommandsScanner } from '../scanner/commandsScanner';
+import { SkillsScanner } from '../scanner/skillsScanner';
 import { AsdlcArtifactScanner } from '../scanner/asdlcArtifactScanner';
-import { ResourceMetadata, ResourceContent, toRuleInfo, toCommandInfo } from './types';
+import { ruleNameFromFileName } from '../scanner/core/ruleParsing';
+import { readSpecContentCore } from '../scanner/core/scanKiroCore';
+import { VSCodeFsAdapter } from '../scanner/adapters/vscodeFsAdapter';
+import { McpTools } from './tools';
+import { findSkillByName } from './toolsFind';
+import { ResourceMetadata, ResourceContent, toRuleInfo, toCommandInfo, toSkillInfo } from './types';
 
 /**
  * MCP Resources handler class
@@ -35,6 +41,14 @@ export class McpResources {
 		const commandsResources = await this.listCommandsResources();
 		resources.push(...commandsResources);
 
+		// Add skills resources
+		const skillsResources = await this.listSkillsResources();
+		resources.push(...skillsResources);
+
+		// Add agent definition resources
+		const agentsResources = await this.listAgentsResources();
+		resources.push(...agentsResources);
+
 		// Add ASDLC artifact resources
 		const asdlcResources = await this.listAsdlcResources();
 		resources.push(...asdlcResources);
@@ -47,14 +61,14 @@ export class McpResources {
 	 */
 	async listRulesResources(): Promise<ResourceMetadata[]> {
 		const scanner = new RulesScanner(this.workspaceUri);
-		const rules = await scanner.scanRules();
+		const rules = await scanner.scanAllRules();
 
 		// Add list resource
 		const resources: ResourceMetadata[] = [
 			{
 				uri: 'ace://rules',
 				name: 'All Rules',
-				description: `List of all ${rules.length} Cursor rules`,
+				description: `List of all ${rules.length} rules`,
 				mimeType: 'application/json'
 			}
 		];
@@ -78,14 +92,14 @@ export class McpResources {
 	 */
 	async listCommandsResources(): Promise<ResourceMetadata[]> {
 		const scanner = new CommandsScanner(this.workspaceUri);
-		const allCommands = await scanner.scanWorkspaceCommands();
+		const allCommands = await scanner.scanAllWorkspaceCommands();
 
 		// Add list resource
 		const resources: ResourceMetadata[] = [
 			{
 				uri: 'ace://commands',
 				name: 'All Commands',
-				description: `List of all ${allCommands.length} Cursor commands`,
+				description: `List of all ${allCommands.length} commands`,
 				mimeType: 'application/json'
 			}
 		];
@@ -105,6 +119,72 @@ export class McpResources {
 		return resources;
 	}
 
+	/**
+	 * List skills resources
+	 */
+	async listSkillsResources(): Promise<ResourceMetadata[]> {
+		const scanner = new SkillsScanner(this.workspaceUri);
+		const skills = await scanner.scanAllWorkspaceSkills();
+
+		// Add list resource
+		const resources: ResourceMetadata[] = [
+			{
+				uri: 'ace://skills',
+				name: 'All Skills',
+				description: `List of all ${skills.length} skills`,
+				mimeType: 'application/json'
+			}
+		];
+
+		// Add individual skill resources (first by precedence wins on name collisions)
+		const seen = new Set<string>();
+		for (const skill of skills) {
+			const info = toSkillInfo(skill);
+			if (seen.has(info.name)) {continue;}
+			seen.add(info.name);
+			resources.push({
+				uri: `ace://skills/${info.name}`,
+				name: info.name,
+				description: info.overview || info.title || `Skill: ${info.name}`,
+				mimeType: 'text/markdown'
+			});
+		}
+
+		return resources;
+	}
+
+	/**
+	 * List agent definition resources (workspace and user-level agent roots, as list_agents)
+	 */
+	async listAgentsResources(): Promise<ResourceMetadata[]> {
+		const agents = await McpTools.listAgentDefinitions({ projectPath: this.workspaceUri.fsPath });
+
+		// Add list resource
+		const resources: ResourceMetadata[] = [
+			{
+				uri: 'ace://agents',
+				name: 'All Agent Definitions',
+				description: `List of all ${agents.length} agent definitions`,
+				mimeType: 'application/json'
+			}
+		];
+
+		// Add individual agent resources (first by precedence wins on name collisions)
+		const seen = new Set<string>();
+		for (const agent of agents) {
+			if (seen.has(agent.name)) {continue;}
+			seen.add(agent.name);
+			resources.push({
+				uri: `ace://agents/${agent.name}`,
+				name: agent.displayName,
+				description: `Agent definition (${agent.location})`,
+				mimeType: 'text/markdown'
+			});
+		}
+
+		return resources;
+	}
+
 	/**
 	 * List ASDLC artifact resources
 	 */
@@ -189,6 +269,10 @@ export class McpResources {
 				return this.getRulesResource(resourceName);
 			case 'commands':
 				return this.getCommandsResource(resourceName);
+			case 'skills':
+				return this.getSkillsResource(resourceName);
+			case 'agents':
+				return this.getAgentsResource(resourceName);
 			case 'agents-md':
 				return this.getAgentsMdResource();
 			case 'specs':
@@ -205,7 +289,7 @@ export class McpResources {
 	 */
 	private async getRulesResource(name: string): Promise<ResourceContent | null> {
 		const scanner = new RulesScanner(this.workspaceUri);
-		const rules = await scanner.scanRules();
+		const rules = await scanner.scanAllRules();
 
 		// If no name, return list
 		if (!name) {
@@ -218,9 +302,9 @@ export class McpResources {
 		}
 
 		// Find specific rule
-		const normalizedName = name.toLowerCase().replace(/\.(mdc|md)$/, '');
+		const normalizedName = ruleNameFromFileName(name.toLowerCase());
 		const rule = rules.find(r => {
-			const ruleName = r.fileName.toLowerCase().replace(/\.(mdc|md)$/, '');
+			const ruleName = ruleNameFromFileName(r.fileName.toLowerCase());
 			return ruleName === normalizedName;
 		});
 
@@ -240,7 +324,7 @@ export class McpResources {
 	 */
 	private async getCommandsResource(name: string): Promise<ResourceContent | null> {
 		const scanner = new CommandsScanner(this.workspaceUri);
-		const allCommands = await scanner.scanWorkspaceCommands();
+		const allCommands = await scanner.scanAllWorkspaceCommands();
 
 		// If no name, return list
 		if (!name) {
@@ -270,6 +354,64 @@ export class McpResources {
 		};
 	}
 
+	/**
+	 * Get skills resource content
+	 */
+	private async getSkillsResource(name: string): Promise<ResourceContent | null> {
+		const scanner = new SkillsScanner(this.workspaceUri);
+		const skills = await scanner.scanAllWorkspaceSkills();
+
+		// If no name, return list
+		if (!name) {
+			return {
+				uri: 'ace://skills',
+				mimeType: 'application/json',
+				content: JSON.stringify(skills.map(toSkillInfo), null, 2)
+			};
+		}
+
+		// Find specific skill
+		const skill = findSkillByName(skills, name);
+		if (!skill) {
+			return null;
+		}
+
+		return {
+			uri: `ace://skills/${name}`,
+			mimeType: 'text/markdown',
+			content: skill.content
+		};
+	}
+
+	/**
+	 * Get agent definition resource content
+	 */
+	private async getAgentsResource(name: string): Promise<ResourceContent | null> {
+		const projectPath = this.workspaceUri.fsPath;
+
+		// If no name, return list
+		if (!name) {
+			const agents = await McpTools.listAgentDefinitions({ projectPath });
+			return {
+				uri: 'ace://agents',
+				mimeType: 'application/json',
+				content: JSON.stringify(agents, null, 2)
+			};
+		}
+
+		// Find specific agent definition
+		const agent = await McpTools.getAgentDefinition({ name, projectPath });
+		if (!agent) {
+			return null;
+		}
+
+		return {
+			uri: `ace://agents/${name}`,
+			mimeType: 'text/markdown',
+			content: agent.content
+		};
+	}
+
 	/**
 	 * Get AGENTS.md resource content
 	 */
@@ -323,9 +465,10 @@ export class McpResources {
 		}
 
 		try {
-			const fileUri = vscode.Uri.file(spec.path);
-			const fileData = await vscode.workspace.fs.readFile(fileUri);
-			const content = Buffer.from(fileData).toString('utf8');
+			const content = await readSpecContentCore(new VSCodeFsAdapter(), spec);
+			if (content === null) {
+				return null;
+			}
 
 			return {
 				uri: `ace://specs/${name}`,
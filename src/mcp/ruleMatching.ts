@@ -0,0 +1,151 @@
+// Glob-aware rule resolution for get_rules_for_file - NO vscode dependency
+// Decides which rules apply to a file: every always-apply rule plus every glob rule whose
+// `globs` match the path (relative to the project root), ordered by precedence.
+
+import * as path from 'path';
+import type { CorePlatform } from '../scanner/core/types';
+import { precedenceRank } from './precedence';
+
+/** Minimal rule shape shared by CoreRule (standalone) and Rule (extension). */
+export interface MatchableRule {
+	metadata: { globs?: string[] | string; alwaysApply?: boolean };
+	platform: CorePlatform;
+	fileName: string;
+}
+
+/** One applicable rule plus why it applies. */
+export interface RuleMatch<T> {
+	rule: T;
+	reason: 'always' | 'glob';
+	matchedGlobs: string[];
+}
+
+/**
+ * Normalize frontmatter `globs`: rule files use either a YAML list or a comma-separated string
+ * (`"*.ts, *.tsx"`). Commas inside `{a,b}` groups are kept.
+ */
+export function normalizeGlobs(globs: string[] | string | undefined): string[] {
+	if (!globs) {return [];}
+	const raw = Array.isArray(globs) ? globs : [globs];
+	const out: string[] = [];
+	for (const entry of raw) {
+		if (typeof entry !== 'string') {continue;}
+		let depth = 0;
+		let current = '';
+		for (const ch of entry) {
+			if (ch === '{') {depth++;}
+			if (ch === '}') {depth = Math.max(0, depth - 1);}
+			if (ch === ',' && depth === 0) {
+				out.push(current);
+				current = '';
+				continue;
+			}
+			current += ch;
+		}
+		out.push(current);
+	}
+	return out.map(g => g.trim()).filter(g => g.length > 0);
+}
+
+/**
+ * Compile a glob to a RegExp. Supports `**`, `*`, `?`, `[...]` and `{a,b}`.
+ * A pattern without `/` matches at any depth (`*.ts` behaves like `**\/*.ts`), as in Cursor rules.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+	if (pattern.startsWith('/')) {
+		pattern = pattern.slice(1);
+	} else if (!pattern.includes('/')) {
+		pattern = `**/${pattern}`;
+	}
+
+	let re = '';
+	let braceDepth = 0;
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i];
+		if (ch === '*') {
+			if (pattern[i + 1] === '*') {
+				const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+				i++;
+				if (atSegmentStart && pattern[i + 1] === '/') {
+					// `**/` — zero or more directories
+					i++;
+					re += '(?:[^/]*/)*';
+				} else {
+					re += '.*';
+				}
+			} else {
+				re += '[^/]*';
+			}
+		} else if (ch === '?') {
+			re += '[^/]';
+		} else if (ch === '[') {
+			const close = pattern.indexOf(']', i + 1);
+			if (close === -1) {
+				re += '\\[';
+			} else {
+				let body = pattern.slice(i + 1, close).replace(/\\/g, '\\\\');
+				if (body.startsWith('!')) {body = '^' + body.slice(1);}
+				re += `[${body}]`;
+				i = close;
+			}
+		} else if (ch === '{') {
+			braceDepth++;
+			re += '(?:';
+		} else if (ch === '}' && braceDepth > 0) {
+			braceDepth--;
+			re += ')';
+		} else if (ch === ',' && braceDepth > 0) {
+			re += '|';
+		} else {
+			re += ch.replace(/[.+^$()|\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${re}$`);
+}
+
+/** True when `relativePath` (forward slashes, relative to the project root) matches `glob`. */
+export function matchesGlob(relativePath: string, glob: string): boolean {
+	const normalized = relativePath.replace(/\\/g, '/').replace(/^\.\//, '');
+	return globToRegExp(glob).test(normalized);
+}
+
+/**
+ * Make `filePath` relative to `projectRoot` (forward slashes). Relative input is taken as-is.
+ * Returns undefined when the file lies outside the project root.
+ */
+export function toProjectRelativePath(projectRoot: string, filePath: string): string | undefined {
+	const rel = path.isAbsolute(filePath) ? path.relative(projectRoot, filePath) : path.normalize(filePath);
+	const normalized = rel.replace(/\\/g, '/').replace(/^\.\//, '');
+	if (normalized === '' || normalized === '..' || normalized.startsWith('../') || path.isAbsolute(normalized)) {
+		return undefined;
+	}
+	return normalized;
+}
+
+/**
+ * Rules that apply to `filePath`: always-apply rules plus glob rules with at least one matching
+ * glob. Ordered by precedence (cursor, claude, copilot, gemini, kiro, windsurf, cline, roo, continue), then always before glob, then by file name.
+ * Manual rules never apply. Files outside the project root get only the always-apply rules.
+ */
+export function selectRulesForFile<T extends MatchableRule>(rules: T[], projectRoot: string, filePath: string): RuleMatch<T>[] {
+	const relativePath = toProjectRelativePath(projectRoot, filePath);
+	const matches: RuleMatch<T>[] = [];
+	for (const rule of rules) {
+		if (rule.metadata.alwaysApply) {
+			matches.push({ rule, reason: 'always', matchedGlobs: [] });
+			continue;
+		}
+		if (relativePath === undefined) {continue;}
+		const matchedGlobs = normalizeGlobs(rule.metadata.globs).filter(g => matchesGlob(relativePath, g));
+		if (matchedGlobs.length > 0) {
+			matches.push({ rule, reason: 'glob', matchedGlobs });
+		}
+	}
+	const reasonRank = (r: RuleMatch<T>['reason']): number => (r === 'always' ? 0 : 1);
+	return matches.sort((a, b) =>
+		precedenceRank({ platform: a.rule.platform }) - precedenceRank({ platform: b.rule.platform }) ||
+		reasonRank(a.reason) - reasonRank(b.reason) ||
+		a.rule.fileName.localeCompare(b.rule.fileName)
+	);
+}
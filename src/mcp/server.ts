@@ -4,8 +4,10 @@
 // Otherwise: standalone with NodeFsAdapter (no vscode).
 
 import { z } from 'zod';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { watch, type FSWatcher } from 'fs';
 import * as fs from 'fs/promises';
 import * as net from 'net';
 import * as os from 'os';
@@ -15,17 +17,48 @@ import {
 	scanRulesCore,
 	scanCommandsCore,
 	scanSkillsCore,
-	scanAsdlcCore
+	readSkillFileCore,
+	scanAsdlcCore,
+	readAgentsMdChainCore,
+	readClaudeMemoryCore,
+	claudeUserMemoryPath,
+	claudeUserSettingsPath,
+	claudeSettingsFiles,
+	readClaudeSettingsCore,
+	scanMcpServersCore,
+	expandReferencesCore,
+	collectSearchDocumentsCore,
+	searchDocuments,
+	evaluateComplianceCore,
+	compareProjectsCore,
+	SEARCH_KINDS,
+	AGENT_ROOTS_ENV,
+	agentRootsFromEnv,
+	defaultAgentRoots,
+	rootsWithSection,
+	parseAgentFrontmatter,
+	filterAgentDefinitions,
+	summarizeCommand
 } from '../scanner/core';
+import type { AgentRootConfig, CoreCommandSummary, CoreExpandedContent, CoreSkillFile, CoreSkillIssue } from '../scanner/core';
 import {
 	scanWorkspaceAgentDefinitionsCore,
 	scanAgentDefinitionsInDirectory,
 	agentRootAgentsDirectory
 } from '../scanner/core/scanAgentDefinitionsCore';
-import type { CoreAgentDefinition, CorePlatform } from '../scanner/core/types';
-import type { AgentDefinitionInfo, AgentDefinitionLocation } from './types';
+import { ruleNameFromFileName } from '../scanner/core/ruleParsing';
+import { readSpecContentCore } from '../scanner/core/scanKiroCore';
+import type { CoreAgentDefinition, CoreCommand, CorePlatform, CoreSearchKind } from '../scanner/core/types';
+import type { AgentDefinitionInfo, AgentDefinitionLocation, ResourceContent, ResourceMetadata } from './types';
+import { extractAgentsMdSection, parseAgentsMd } from '../scanner/asdlcParsing';
+import { PROJECT_RESOURCE_TEMPLATE, parseProjectResourceUri, toProjectResourceUri } from './resourceUris';
+import { AGENT_ROOT_DIRS, SUBSCRIBE_CHANGES_METHOD, isResourceAffected, toResourceChange } from './resourceChanges';
+import type { ResourceChange, ResourceChangeMessage } from './resourceChanges';
 import { findSpecByName } from './toolsFind';
+import { normalizeProjectPath, projectRegistryFilePath, readProjectRegistryFile } from '../services/projectRegistryFile';
+import type { ProjectDefinition } from '../types/project';
 import { pickByPrecedence } from './precedence';
+import { selectRulesForFile } from './ruleMatching';
 
 // =============================================================================
 // Types (MCP tool output format)
@@ -40,9 +73,8 @@ interface RuleInfo {
 	platform: CorePlatform;
 }
 
-interface CommandInfo {
+interface CommandInfo extends CoreCommandSummary {
 	name: string;
-	description: string;
 	path: string;
 	location: 'workspace' | 'global';
 	platform: CorePlatform;
@@ -51,16 +83,21 @@ interface CommandInfo {
 interface SkillInfo {
 	name: string;
 	title?: string;
+	description?: string;
 	overview?: string;
 	path: string;
 	location: 'workspace' | 'global';
 	platform: CorePlatform;
+	/** Files next to SKILL.md, by path relative to the skill folder */
+	files: Array<{ relativePath: string; size: number }>;
+	/** Agent Skills conformance problems of the frontmatter */
+	issues: CoreSkillIssue[];
 }
 
 export function coreRuleToRuleInfo(r: { fileName: string; metadata: { description: string; globs?: string[]; alwaysApply?: boolean }; path: string; platform: CorePlatform }): RuleInfo {
 	const type = r.metadata.alwaysApply ? 'always' : (r.metadata.globs && r.metadata.globs.length > 0) ? 'glob' : 'manual';
 	return {
-		name: r.fileName.replace(/\.(mdc|md)$/, ''),
+		name: ruleNameFromFileName(r.fileName),
 		description: r.metadata.description || '',
 		type,
 		path: r.path,
@@ -69,38 +106,27 @@ export function coreRuleToRuleInfo(r: { fileName: string; metadata: { descriptio
 	};
 }
 
-export function coreCommandToCommandInfo(c: { fileName: string; content: string; path: string; location: 'workspace' | 'global'; platform: CorePlatform }): CommandInfo {
-	let description = '';
-	const overviewMatch = c.content.match(/## Overview\s*\n+([^\n#]+)/);
-	if (overviewMatch) {
-		description = overviewMatch[1].trim();
-	} else {
-		const lines = c.content.split('\n');
-		for (const line of lines) {
-			const trimmed = line.trim();
-			if (trimmed && !trimmed.startsWith('#') && !trimmed.startsWith('-')) {
-				description = trimmed.substring(0, 200);
-				break;
-			}
-		}
-	}
+export function coreCommandToCommandInfo(c: Pick<CoreCommand, 'fileName' | 'content' | 'path' | 'location' | 'platform' | 'description' | 'argumentHint' | 'allowedTools' | 'model' | 'arguments'>): CommandInfo {
 	return {
 		name: c.fileName,
-		description,
+		...summarizeCommand(c),
 		path: c.path,
 		location: c.location,
 		platform: c.platform
 	};
 }
 
-export function coreSkillToSkillInfo(s: { fileName: string; metadata?: { title?: string; overview?: string }; path: string; location: 'workspace' | 'global'; platform: CorePlatform }): SkillInfo {
+export function coreSkillToSkillInfo(s: { fileName: string; metadata?: { title?: string; description?: string; overview?: string }; path: string; location: 'workspace' | 'global'; platform: CorePlatform; files?: CoreSkillFile[]; issues?: CoreSkillIssue[] }): SkillInfo {
 	return {
 		name: s.fileName,
 		title: s.metadata?.title || s.fileName,
+		description: s.metadata?.description,
 		overview: s.metadata?.overview,
 		path: s.path,
 		location: s.location,
-		platform: s.platform
+		platform: s.platform,
+		files: (s.files ?? []).map(f => ({ relativePath: f.relativePath, size: f.size })),
+		issues: s.issues ?? []
 	};
 }
 
@@ -148,35 +174,33 @@ function coreAgentToInfo(c: CoreAgentDefinition, location: AgentDefinitionLocati
 		displayName: c.displayName,
 		path: c.path,
 		location,
-		platform: c.platform
+		platform: c.platform,
+		...(c.description !== undefined ? { description: c.description } : {}),
+		...(c.tools !== undefined ? { tools: c.tools } : {}),
+		...(c.model !== undefined ? { model: c.model } : {}),
+		...(c.color !== undefined ? { color: c.color } : {})
 	};
 }
 
-async function getTaggedCoreAgentDefinitions(workspacePath: string): Promise<Array<{ core: CoreAgentDefinition; location: AgentDefinitionLocation }>> {
+async function getTaggedCoreAgentDefinitions(workspacePath: string, agentRoots: AgentRootConfig[]): Promise<Array<{ core: CoreAgentDefinition; location: AgentDefinitionLocation }>> {
 	const fs = new NodeFsAdapter();
-	const userRoot = os.homedir();
 	const out: Array<{ core: CoreAgentDefinition; location: AgentDefinitionLocation }> = [];
 	const ws = await scanWorkspaceAgentDefinitionsCore(fs, workspacePath);
 	for (const c of ws) {
 		out.push({ core: c, location: 'workspace' });
 	}
-	const roots: Array<[AgentDefinitionLocation, string]> = [
-		['cursor', path.join(userRoot, '.cursor')],
-		['claude', path.join(userRoot, '.claude')],
-		['global', path.join(userRoot, '.agents')]
-	];
-	for (const [loc, root] of roots) {
-		const dir = agentRootAgentsDirectory(root);
+	for (const root of rootsWithSection(agentRoots, 'agents')) {
+		const dir = agentRootAgentsDirectory(root.directory);
 		const defs = await scanAgentDefinitionsInDirectory(fs, dir);
 		for (const c of defs) {
-			out.push({ core: c, location: loc });
+			out.push({ core: c, location: root.id });
 		}
 	}
 	return out;
 }
 
-async function getAgentDefinitionsAsInfo(workspacePath: string): Promise<AgentDefinitionInfo[]> {
-	const tagged = await getTaggedCoreAgentDefinitions(workspacePath);
+async function getAgentDefinitionsAsInfo(workspacePath: string, agentRoots: AgentRootConfig[]): Promise<AgentDefinitionInfo[]> {
+	const tagged = await getTaggedCoreAgentDefinitions(workspacePath, agentRoots);
 	return tagged.map(({ core, location }) => coreAgentToInfo(core, location));
 }
 
@@ -199,6 +223,268 @@ async function getAsdlcArtifacts(workspacePath: string) {
 	return scanAsdlcCore(fs, workspacePath);
 }
 
+// =============================================================================
+// Resources (standalone): same project-relative ace:// layout as McpResources
+// =============================================================================
+
+async function listStandaloneResources(workspacePath: string, agentRoots: AgentRootConfig[]): Promise<ResourceMetadata[]> {
+	const [rules, commands, skills, agents, asdlc] = await Promise.all([
+		getRulesAsInfo(workspacePath),
+		getCommandsAsInfo(workspacePath),
+		getSkillsAsInfo(workspacePath),
+		getAgentDefinitionsAsInfo(workspacePath, agentRoots),
+		getAsdlcArtifacts(workspacePath)
+	]);
+	const resources: ResourceMetadata[] = [];
+	const seen = new Set<string>();
+	const pushItem = (r: ResourceMetadata) => {
+		if (seen.has(r.uri)) {return;}
+		seen.add(r.uri);
+		resources.push(r);
+	};
+
+	resources.push({ uri: 'ace://rules', name: 'All Rules', description: `List of all ${rules.length} rules`, mimeType: 'application/json' });
+	for (const r of rules) {
+		pushItem({ uri: `ace://rules/${r.name}`, name: r.name, description: r.description || `Rule: ${r.name}`, mimeType: 'text/markdown' });
+	}
+	resources.push({ uri: 'ace://commands', name: 'All Commands', description: `List of all ${commands.length} commands`, mimeType: 'application/json' });
+	for (const c of commands) {
+		const locationSuffix = c.location === 'global' ? ' (global)' : '';
+		pushItem({ uri: `ace://commands/${c.name}`, name: c.name + locationSuffix, description: c.description || `Command: ${c.name}`, mimeType: 'text/markdown' });
+	}
+	resources.push({ uri: 'ace://skills', name: 'All Skills', description: `List of all ${skills.length} skills`, mimeType: 'application/json' });
+	for (const sk of skills) {
+		pushItem({ uri: `ace://skills/${sk.name}`, name: sk.name, description: sk.overview || sk.title || `Skill: ${sk.name}`, mimeType: 'text/markdown' });
+	}
+	resources.push({ uri: 'ace://agents', name: 'All Agent Definitions', description: `List of all ${agents.length} agent definitions`, mimeType: 'application/json' });
+	for (const a of agents) {
+		pushItem({ uri: `ace://agents/${a.name}`, name: a.displayName, description: `Agent definition (${a.location})`, mimeType: 'text/markdown' });
+	}
+	if (asdlc.agentsMd.exists && asdlc.agentsMd.path) {
+		const mission = asdlc.agentsMd.content ? parseAgentsMd(asdlc.agentsMd.content, asdlc.agentsMd.path).mission : undefined;
+		resources.push({ uri: 'ace://agents-md', name: 'AGENTS.md', description: mission || 'Project agent constitution', mimeType: 'text/markdown' });
+	}
+	if (asdlc.specs.exists) {
+		resources.push({ uri: 'ace://specs', name: 'All Specs', description: `List of all ${asdlc.specs.specs.length} specifications`, mimeType: 'application/json' });
+		for (const spec of asdlc.specs.specs) {
+			pushItem({ uri: `ace://specs/${spec.domain}`, name: spec.domain, description: `Specification: ${spec.domain}`, mimeType: 'text/markdown' });
+		}
+	}
+	if (asdlc.schemas.exists) {
+		resources.push({ uri: 'ace://schemas', name: 'All Schemas', description: `List of all ${asdlc.schemas.schemas.length} JSON schemas`, mimeType: 'application/json' });
+		for (const schema of asdlc.schemas.schemas) {
+			pushItem({ uri: `ace://schemas/${schema.name}`, name: schema.name, description: schema.schemaId || `Schema: ${schema.name}`, mimeType: 'application/json' });
+		}
+	}
+	return resources;
+}
+
+async function readTextFile(filePath: string): Promise<string | null> {
+	try {
+		return await fs.readFile(filePath, 'utf8');
+	} catch {
+		return null;
+	}
+}
+
+/** Expanded artifact text, followed by a JSON item listing the included files and unresolved references. */
+function expandedTextResult(expanded: CoreExpandedContent) {
+	const { content, ...report } = expanded;
+	return {
+		content: [
+			{ type: 'text' as const, text: content },
+			{ type: 'text' as const, text: JSON.stringify(report, null, 2) }
+		]
+	};
+}
+
+async function readStandaloneResource(workspacePath: string, uri: string, agentRoots: AgentRootConfig[]): Promise<ResourceContent | null> {
+	if (!uri.startsWith('ace://')) {return null;}
+	const parts = uri.substring('ace://'.length).split('/');
+	const resourceType = parts[0];
+	const name = parts.slice(1).join('/');
+	const json = (value: unknown): ResourceContent => ({ uri, mimeType: 'application/json', content: JSON.stringify(value, null, 2) });
+	const markdown = (content: string): ResourceContent => ({ uri, mimeType: 'text/markdown', content });
+
+	switch (resourceType) {
+		case 'rules': {
+			if (!name) {return json(await getRulesAsInfo(workspacePath));}
+			const normalizedName = ruleNameFromFileName(name.toLowerCase());
+			const rules = await getRules(workspacePath);
+			const rule = pickByPrecedence(rules.filter(r => ruleNameFromFileName(r.fileName.toLowerCase()) === normalizedName), r => ({ platform: r.platform }));
+			return rule ? markdown(rule.content) : null;
+		}
+		case 'commands': {
+			if (!name) {return json(await getCommandsAsInfo(workspacePath));}
+			const normalizedName = name.toLowerCase().replace(/\.md$/, '');
+			const commands = await getCommands(workspacePath);
+			const command = pickByPrecedence(commands.filter(c => c.fileName.toLowerCase() === normalizedName), c => ({ location: c.location, platform: c.platform }));
+			return command ? markdown(command.content) : null;
+		}
+		case 'skills': {
+			if (!name) {return json(await getSkillsAsInfo(workspacePath));}
+			const skills = await getSkills(workspacePath);
+			const skill = pickByPrecedence(skills.filter(sk => sk.fileName.toLowerCase() === name.toLowerCase()), sk => ({ location: sk.location, platform: sk.platform }));
+			return skill ? markdown(skill.content) : null;
+		}
+		case 'agents': {
+			if (!name) {return json(await getAgentDefinitionsAsInfo(workspacePath, agentRoots));}
+			const found = findCoreAgentByName(await getTaggedCoreAgentDefinitions(workspacePath, agentRoots), name);
+			return found ? markdown(found.core.content) : null;
+		}
+		case 'agents-md': {
+			const asdlc = await getAsdlcArtifacts(workspacePath);
+			if (!asdlc.agentsMd.exists || !asdlc.agentsMd.path) {return null;}
+			const text = await readTextFile(asdlc.agentsMd.path);
+			return text === null ? null : markdown(text);
+		}
+		case 'specs': {
+			const asdlc = await getAsdlcArtifacts(workspacePath);
+			if (!asdlc.specs.exists) {return null;}
+			if (!name) {return json(asdlc.specs.specs);}
+			const spec = asdlc.specs.specs.find(sp => sp.domain === name);
+			const text = spec ? await readSpecContentCore(new NodeFsAdapter(), spec) : null;
+			return text === null ? null : markdown(text);
+		}
+		case 'schemas': {
+			const asdlc = await getAsdlcArtifacts(workspacePath);
+			if (!asdlc.schemas.exists) {return null;}
+			if (!name) {return json(asdlc.schemas.schemas);}
+			const schema = asdlc.schemas.schemas.find(sc => sc.name === name);
+			const text = schema ? await readTextFile(schema.path) : null;
+			return text === null ? null : { uri, mimeType: 'application/json', content: text };
+		}
+		default:
+			return null;
+	}
+}
+
+/** Where project-templated resources come from: standalone scans or the extension bridge. */
+interface ProjectResourceSource {
+	listProjectKeys(): Promise<string[]>;
+	/** Project-templated resources for every project */
+	list(): Promise<ResourceMetadata[]>;
+	/** Read one project-templated URI; null when the project or resource does not exist */
+	read(uri: string): Promise<ResourceContent | null>;
+}
+
+/** Register the `ace://{projectKey}/...` resource template (list, read, projectKey completion). */
+function registerProjectResources(server: McpServer, source: ProjectResourceSource): void {
+	const template = new ResourceTemplate(PROJECT_RESOURCE_TEMPLATE, {
+		list: async () => {
+			const resources = await source.list();
+			return { resources: resources.map(r => ({ uri: r.uri, name: r.name, description: r.description, mimeType: r.mimeType })) };
+		},
+		complete: {
+			projectKey: async (value: string) => (await source.listProjectKeys()).filter(k => k.startsWith(value))
+		}
+	});
+	server.registerResource('ace-context', template, {
+		description: 'Project context by projectKey: rules, commands, skills, agents (with /<name>), agents-md, specs, schemas'
+	}, async (uri) => {
+		const content = await source.read(uri.href);
+		if (!content) {
+			throw new Error(`Resource "${uri.href}" not found`);
+		}
+		return { contents: [{ uri: uri.href, mimeType: content.mimeType, text: content.content }] };
+	});
+}
+
+// =============================================================================
+// Resource Change Notifications
+// =============================================================================
+
+/**
+ * Handle resources/subscribe + unsubscribe and return a notifier. Changes are coalesced for
+ * `debounceMs`, then the server sends one list_changed plus resources/updated for every subscribed
+ * URI the changes touch. Call before connecting (registers the `subscribe` capability).
+ */
+export function enableResourceNotifications(server: McpServer, debounceMs = 100): (change: ResourceChange) => void {
+	const subscribed = new Set<string>();
+	let pending: ResourceChange[] = [];
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+	server.server.setRequestHandler(SubscribeRequestSchema, async (req) => {
+		subscribed.add(req.params.uri);
+		return {};
+	});
+	server.server.setRequestHandler(UnsubscribeRequestSchema, async (req) => {
+		subscribed.delete(req.params.uri);
+		return {};
+	});
+
+	function flush(): void {
+		timer = undefined;
+		const changes = pending;
+		pending = [];
+		if (!server.isConnected()) {return;}
+		server.sendResourceListChanged();
+		for (const uri of subscribed) {
+			if (changes.some(c => isResourceAffected(uri, c))) {
+				server.server.sendResourceUpdated({ uri }).catch(() => { /* client gone */ });
+			}
+		}
+	}
+
+	return (change) => {
+		pending.push(change);
+		if (!timer) {
+			timer = setTimeout(flush, debounceMs);
+			timer.unref?.();
+		}
+	};
+}
+
+/**
+ * Standalone mode: watch the directories the scanners read (per project and under the user-level
+ * agent roots) and report resource changes. Directories that do not exist yet are not watched.
+ * Returns a function that closes every watcher.
+ */
+export function watchStandaloneResources(
+	projects: ProjectEntry[],
+	userRoot: string,
+	onChange: (change: ResourceChange) => void,
+	agentRoots: AgentRootConfig[] = defaultAgentRoots(userRoot)
+): () => void {
+	const watchers: FSWatcher[] = [];
+	const resourceDirs = ['rules', 'commands', 'skills', 'agents'];
+	const agentRootDirs = AGENT_ROOT_DIRS.flatMap(root => resourceDirs.map(type => path.join(root, type)));
+
+	function watchDir(dir: string, recursive: boolean): void {
+		try {
+			const watcher = watch(dir, { recursive }, (_event, fileName) => {
+				if (!fileName) {return;}
+				const change = toResourceChange(path.join(dir, fileName.toString()), projects, userRoot, agentRoots);
+				if (change) {onChange(change);}
+			});
+			watcher.on('error', () => { watcher.close(); });
+			watcher.unref();
+			watchers.push(watcher);
+		} catch {
+			// Missing directory (or no recursive watch support): nothing to watch
+		}
+	}
+
+	for (const project of projects) {
+		watchDir(project.path, false); // AGENTS.md
+		for (const dir of [...agentRootDirs, '.github', '.kiro', '.windsurf', '.clinerules', '.roo', '.continue', 'specs', 'schemas']) {
+			watchDir(path.join(project.path, dir), true);
+		}
+	}
+	for (const root of agentRoots) {
+		for (const dir of resourceDirs) {
+			watchDir(path.join(root.directory, dir), true);
+		}
+		if (root.commandsDirectory) {watchDir(root.commandsDirectory, true);}
+	}
+	return () => {
+		for (const watcher of watchers) {
+			watcher.close();
+		}
+	};
+}
+
 // =============================================================================
 // Server Setup
 // =============================================================================
@@ -218,6 +504,29 @@ export function getProjectKeyArg(args: unknown): string | undefined {
 	return typeof v === 'string' ? v : undefined;
 }
 
+/** Multi-project: use provided list (from extension) or single workspace (standalone). */
+function toStandaloneProjectList(workspacePath: string, projects?: ProjectEntry[]): ProjectEntry[] {
+	return projects && projects.length > 0
+		? projects
+		: [{ projectKey: path.basename(workspacePath), path: workspacePath, label: path.basename(workspacePath) }];
+}
+
+/**
+ * Standalone: append projects from the shared registry file (~/.agents/ace-projects.json) whose
+ * path is not already listed. Keys follow the extension's list (folder name).
+ */
+export function withRegistryProjects(projects: ProjectEntry[], registry: ProjectDefinition[]): ProjectEntry[] {
+	const paths = new Set(projects.map(p => normalizeProjectPath(p.path)));
+	const merged = [...projects];
+	for (const project of registry) {
+		const key = normalizeProjectPath(project.path);
+		if (paths.has(key)) {continue;}
+		paths.add(key);
+		merged.push({ projectKey: path.basename(project.path), path: project.path, label: project.name });
+	}
+	return merged;
+}
+
 /**
  * Real Zod raw shapes (not plain JSON-schema-like objects) — the MCP SDK's tool() overload
  * resolution requires shape values to be actual Zod types, or it silently misclassifies the
@@ -226,13 +535,55 @@ export function getProjectKeyArg(args: unknown): string | undefined {
  */
 const projectKeyShape = { projectKey: z.string().optional().describe('Optional project key (omit for current workspace)') };
 const nameAndProjectKeyShape = { name: z.string().describe('Item name'), projectKey: z.string().optional().describe('Optional project key (omit for current workspace)') };
+const expandReferencesArg = z.boolean().optional().describe('Inline files referenced with @path (relative to the artifact, within the project root, up to 5 levels deep) and report unresolved references (default false)');
+const expandableNameShape = { ...nameAndProjectKeyShape, expandReferences: expandReferencesArg };
+const agentsMdShape = {
+	section: z.string().optional().describe('Heading title to return, e.g. "Operational Boundaries" or "Tech Stack" (omit for the parsed structure)'),
+	projectKey: z.string().optional().describe('Optional project key (omit for current workspace)')
+};
+const searchContextShape = {
+	query: z.string().describe('Search terms (case-insensitive; every term must occur in the artifact)'),
+	kinds: z.array(z.enum(SEARCH_KINDS as [CoreSearchKind, ...CoreSearchKind[]])).optional().describe('Only these artifact kinds'),
+	platform: z.enum(['cursor', 'claude', 'copilot', 'gemini', 'kiro', 'windsurf', 'cline', 'roo', 'continue']).optional().describe('Only artifacts from this platform'),
+	location: z.string().optional().describe('Only artifacts from this location (workspace, global, cursor, claude)'),
+	limit: z.number().int().positive().optional().describe('Maximum hits (default 50)'),
+	projectKey: z.string().optional().describe('Optional project key (omit for current workspace)')
+};
+const compareProjectsShape = {
+	projectKeyA: z.string().describe('Project key of the first project (see list_projects)'),
+	projectKeyB: z.string().describe('Project key of the second project'),
+	kinds: z.array(z.enum(SEARCH_KINDS as [CoreSearchKind, ...CoreSearchKind[]])).optional().describe('Only these artifact kinds'),
+	includeDiff: z.boolean().optional().describe('Include a unified diff (A → B) for items whose content differs (default false)')
+};
+const claudeMemoryShape = {
+	directory: z.string().optional().describe('Directory (absolute, or relative to the project root); omit for the project root'),
+	expandReferences: expandReferencesArg,
+	projectKey: z.string().optional().describe('Optional project key (omit for current workspace)')
+};
+const skillFileShape = {
+	name: z.string().describe('Skill name'),
+	path: z.string().describe('File path relative to the skill folder, as listed in list_skills files (e.g. "scripts/extract.py")'),
+	projectKey: z.string().optional().describe('Optional project key (omit for current workspace)')
+};
+const listAgentsShape = {
+	tool: z.string().optional().describe('Only agents whose frontmatter tools include this tool (e.g. "Bash" also matches "Bash(git:*)")'),
+	model: z.string().optional().describe('Only agents whose frontmatter model matches (e.g. "sonnet")'),
+	projectKey: z.string().optional().describe('Optional project key (omit for current workspace)')
+};
+const getAgentShape = {
+	name: z.string().describe('Agent name (file stem)'),
+	stripFrontmatter: z.boolean().optional().describe('Return the body without its YAML frontmatter (default false)'),
+	projectKey: z.string().optional().describe('Optional project key (omit for current workspace)')
+};
+const filePathAndProjectKeyShape = { filePath: z.string().describe('File path (absolute, or relative to the project root)'), projectKey: z.string().optional().describe('Optional project key (omit for current workspace)') };
 
 /**
  * Create and configure the MCP server
  * @param workspacePath - Primary workspace (used when ACE_PROJECT_PATHS not set)
  * @param projects - When set (from ACE_PROJECT_PATHS), list_projects and resolve use this list
+ * @param agentRoots - User-level agent roots (from ACE_AGENT_ROOTS); `defaultAgentRoots` when omitted
  */
-export function createServer(workspacePath: string, projects?: ProjectEntry[]): McpServer {
+export function createServer(workspacePath: string, projects?: ProjectEntry[], agentRoots: AgentRootConfig[] = defaultAgentRoots(os.homedir())): McpServer {
 	const server = new McpServer(
 		{
 			name: 'ace-mcp',
@@ -246,10 +597,7 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 		}
 	);
 
-	// Multi-project: use provided list (from extension) or single workspace (standalone).
-	const projectList: ProjectEntry[] = projects && projects.length > 0
-		? projects
-		: [{ projectKey: path.basename(workspacePath), path: workspacePath, label: path.basename(workspacePath) }];
+	const projectList = toStandaloneProjectList(workspacePath, projects);
 	const defaultPath = projectList[0].path;
 
 	function resolveProjectRoot(projectKeyArg?: string): { path: string } | { error: string } {
@@ -264,6 +612,27 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 		return { path: entry.path };
 	}
 
+	// Resources: ace://{projectKey}/<rules|commands|skills|agents|agents-md|specs|schemas>[/<name>]
+	registerProjectResources(server, {
+		listProjectKeys: async () => projectList.map(p => p.projectKey),
+		list: async () => {
+			const out: ResourceMetadata[] = [];
+			for (const entry of projectList) {
+				const resources = await listStandaloneResources(entry.path, agentRoots);
+				out.push(...resources.map(r => ({ ...r, uri: toProjectResourceUri(entry.projectKey, r.uri) })));
+			}
+			return out;
+		},
+		read: async (uri) => {
+			const parsed = parseProjectResourceUri(uri);
+			if (!parsed) {return null;}
+			const resolved = resolveProjectRoot(parsed.projectKey);
+			if ('error' in resolved) {return null;}
+			const content = await readStandaloneResource(resolved.path, parsed.resourceUri, agentRoots);
+			return content ? { ...content, uri } : null;
+		}
+	});
+
 	// list_projects - List registered ACE projects (workspace + added projects when run from extension)
 	server.tool('list_projects', 'List registered ACE projects', async () => {
 		return {
@@ -272,7 +641,7 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 	});
 
 	// list_rules - List all rules with metadata (.cursor/rules and .claude/rules)
-	server.tool('list_rules', 'List all rules with metadata (.cursor/rules and .claude/rules)', projectKeyShape, async (args: any) => {
+	server.tool('list_rules', 'List all rules with metadata and platform (Cursor, Claude, Copilot, Kiro, Windsurf, Cline, Roo Code, Continue)', projectKeyShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
@@ -284,25 +653,46 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 	});
 
 	// get_rule - Get rule content by name
-	server.tool('get_rule', 'Get rule content by name', nameAndProjectKeyShape, async (args: any) => {
+	server.tool('get_rule', 'Get rule content by name; with expandReferences, @path references are inlined and a second item lists included files and unresolved references', expandableNameShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
 		}
 		const rules = await getRules(resolved.path);
-		const normalizedName = args.name.toLowerCase().replace(/\.(mdc|md)$/, '');
-		const matches = rules.filter(r => r.fileName.toLowerCase().replace(/\.(mdc|md)$/, '') === normalizedName);
+		const normalizedName = ruleNameFromFileName(args.name.toLowerCase());
+		const matches = rules.filter(r => ruleNameFromFileName(r.fileName.toLowerCase()) === normalizedName);
 		const rule = pickByPrecedence(matches, r => ({ platform: r.platform }));
 
 		if (!rule) {
 			return { content: [{ type: 'text' as const, text: `Rule "${args.name}" not found` }], isError: true };
 		}
 
+		if (args.expandReferences === true) {
+			return expandedTextResult(await expandReferencesCore(new NodeFsAdapter(), rule.content, rule.path, resolved.path));
+		}
 		return {
 			content: [{ type: 'text' as const, text: rule.content }]
 		};
 	});
 
+	// get_rules_for_file - Always-apply rules plus glob rules whose globs match the file
+	server.tool('get_rules_for_file', 'Get the rules that apply to a file (always-apply rules plus matching glob rules, in precedence order, with content)', filePathAndProjectKeyShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const rules = await getRules(resolved.path);
+		const applicable = selectRulesForFile(rules, resolved.path, args.filePath).map(({ rule, reason, matchedGlobs }) => ({
+			...coreRuleToRuleInfo(rule),
+			reason,
+			matchedGlobs,
+			content: rule.content
+		}));
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(applicable, null, 2) }]
+		};
+	});
+
 	// list_commands - List all commands with metadata (.cursor/commands and .claude/commands)
 	server.tool('list_commands', 'List all commands with metadata (.cursor/commands and .claude/commands)', projectKeyShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
@@ -316,7 +706,7 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 	});
 
 	// get_command - Get command content by name
-	server.tool('get_command', 'Get command content by name', nameAndProjectKeyShape, async (args: any) => {
+	server.tool('get_command', 'Get command content by name; with expandReferences, @path references are inlined and a second item lists included files and unresolved references', expandableNameShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
@@ -330,13 +720,16 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 			return { content: [{ type: 'text' as const, text: `Command "${args.name}" not found` }], isError: true };
 		}
 
+		if (args.expandReferences === true) {
+			return expandedTextResult(await expandReferencesCore(new NodeFsAdapter(), command.content, command.path, resolved.path));
+		}
 		return {
 			content: [{ type: 'text' as const, text: command.content }]
 		};
 	});
 
 	// list_skills - List all skills with metadata (.cursor/skills and .claude/skills)
-	server.tool('list_skills', 'List all skills with metadata (.cursor/skills and .claude/skills)', projectKeyShape, async (args: any) => {
+	server.tool('list_skills', 'List all skills with metadata, bundled files and Agent Skills frontmatter problems (.cursor/skills and .claude/skills)', projectKeyShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
@@ -367,35 +760,55 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 		};
 	});
 
-	// list_agents - Agent definition files (workspace + Cursor/Claude/Global agent roots)
-	server.tool('list_agents', 'List agent definition files (.cursor/agents, .claude/agents, and user-level agent roots)', projectKeyShape, async (args: any) => {
+	// get_skill_file - A file bundled with a skill (scripts/, references/, assets/, ...), by path relative to the skill folder
+	server.tool('get_skill_file', 'Get a file bundled with a skill (scripts, references, templates, assets) by skill name and path relative to the skill folder, as listed in list_skills files. Text is returned as-is; binary files as JSON with base64 content. Paths outside the skill folder are refused', skillFileShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
 		}
-		const list = await getAgentDefinitionsAsInfo(resolved.path);
+		const skills = await getSkills(resolved.path);
+		const normalizedName = args.name.toLowerCase();
+		const skill = pickByPrecedence(skills.filter(s => s.fileName.toLowerCase() === normalizedName), s => ({ location: s.location, platform: s.platform }));
+
+		if (!skill) {
+			return { content: [{ type: 'text' as const, text: `Skill "${args.name}" not found` }], isError: true };
+		}
+
+		const file = await readSkillFileCore(new NodeFsAdapter(), skill, args.path);
+		if ('error' in file) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: file.error }) }], isError: true };
+		}
+		return {
+			content: [{ type: 'text' as const, text: file.encoding === 'utf8' ? file.content : JSON.stringify(file, null, 2) }]
+		};
+	});
+
+	// list_agents - Agent definition files (workspace + configured agent roots)
+	server.tool('list_agents', 'List agent definition files (.cursor/agents, .claude/agents, and user-level agent roots) with their frontmatter description, tools and model; filter by tool or model', listAgentsShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const list = filterAgentDefinitions(await getAgentDefinitionsAsInfo(resolved.path, agentRoots), { tool: args.tool, model: args.model });
 		return {
 			content: [{ type: 'text' as const, text: JSON.stringify(list, null, 2) }]
 		};
 	});
 
 	// get_agent - Full agent definition markdown by name
-	server.tool('get_agent', 'Get agent definition content by name', nameAndProjectKeyShape, async (args: any) => {
+	server.tool('get_agent', 'Get agent definition content by name (stripFrontmatter returns only the body)', getAgentShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
 		}
-		const tagged = await getTaggedCoreAgentDefinitions(resolved.path);
+		const tagged = await getTaggedCoreAgentDefinitions(resolved.path, agentRoots);
 		const found = findCoreAgentByName(tagged, args.name);
 		if (!found) {
 			return { content: [{ type: 'text' as const, text: `Agent definition "${args.name}" not found` }], isError: true };
 		}
 		const payload = {
-			name: found.core.fileName,
-			displayName: found.core.displayName,
-			path: found.core.path,
-			location: found.location,
-			content: found.core.content
+			...coreAgentToInfo(found.core, found.location),
+			content: args.stripFrontmatter === true ? parseAgentFrontmatter(found.core.content).body : found.core.content
 		};
 		return {
 			content: [{ type: 'text' as const, text: JSON.stringify(payload, null, 2) }]
@@ -415,7 +828,7 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 	});
 
 	// get_spec - Full specs/<domain>/spec.md content
-	server.tool('get_spec', 'Get full spec.md content by domain (from list_specs) or path fragment', nameAndProjectKeyShape, async (args: any) => {
+	server.tool('get_spec', 'Get full spec content (spec.md, or every Kiro requirements/design/tasks document) by domain (from list_specs) or path fragment', nameAndProjectKeyShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
 		if ('error' in resolved) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
@@ -426,10 +839,15 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 		if (!spec) {
 			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: `Spec "${args.name}" not found` }) }], isError: true };
 		}
-		const text = await fs.readFile(spec.path, 'utf8');
+		const text = await readSpecContentCore(new NodeFsAdapter(), spec);
+		if (text === null) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: `Spec "${args.name}" could not be read` }) }], isError: true };
+		}
 		const payload = {
 			domain: spec.domain,
 			path: spec.path,
+			flavour: spec.flavour,
+			documents: spec.documents,
 			hasBlueprint: spec.hasBlueprint,
 			hasContract: spec.hasContract,
 			lastModified: spec.lastModified,
@@ -440,6 +858,133 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 		};
 	});
 
+	// get_agents_md - Parsed AGENTS.md or one section by heading title
+	server.tool('get_agents_md', 'Get parsed AGENTS.md (mission, core philosophy, tech stack, operational boundaries, sections) or one section\'s content by heading title', agentsMdShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const agentsMdPath = path.join(resolved.path, 'AGENTS.md');
+		const text = await readTextFile(agentsMdPath);
+		if (text === null) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: 'AGENTS.md not found' }) }], isError: true };
+		}
+		let payload: unknown = parseAgentsMd(text, agentsMdPath);
+		if (typeof args?.section === 'string') {
+			const section = extractAgentsMdSection(text, args.section);
+			if (!section) {
+				return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: `Section "${args.section}" not found in AGENTS.md` }) }], isError: true };
+			}
+			payload = { path: agentsMdPath, ...section };
+		}
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(payload, null, 2) }]
+		};
+	});
+
+	// get_agents_md_for_file - AGENTS.md chain from the project root down to the file's nearest one
+	server.tool('get_agents_md_for_file', 'Get the AGENTS.md files that apply to a file (monorepos): every AGENTS.md from the project root down to the nearest one, in application order (later entries take precedence), with content', filePathAndProjectKeyShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const chain = await readAgentsMdChainCore(new NodeFsAdapter(), resolved.path, args.filePath);
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(chain, null, 2) }]
+		};
+	});
+
+	// get_claude_memory - Claude Code memory stack (user, project, local, nested CLAUDE.md) for a directory
+	server.tool('get_claude_memory', 'Get the Claude Code memory files in effect for a directory, in load order (later entries take precedence): ~/.claude/CLAUDE.md, then CLAUDE.md, .claude/CLAUDE.md and CLAUDE.local.md of every directory from the project root down, with content', claudeMemoryShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const directory = typeof args?.directory === 'string' ? args.directory : '';
+		const nodeFs = new NodeFsAdapter();
+		const memory = await readClaudeMemoryCore(nodeFs, resolved.path, directory, claudeUserMemoryPath(agentRoots, os.homedir()));
+		const entries = args?.expandReferences === true
+			? await Promise.all(memory.map(async entry => ({ ...entry, ...await expandReferencesCore(nodeFs, entry.content, entry.path, resolved.path) })))
+			: memory;
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(entries, null, 2) }]
+		};
+	});
+
+	// get_agent_settings - Claude Code permissions, hooks and env merged from user, project and local settings
+	server.tool('get_agent_settings', 'Get Claude Code settings merged from ~/.claude/settings.json, .claude/settings.json and .claude/settings.local.json: permission rules (deny, ask, allow), hooks and the names of the effective env variables (values are omitted), each marked with the file it comes from', projectKeyShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const files = claudeSettingsFiles(resolved.path, claudeUserSettingsPath(agentRoots, os.homedir()));
+		const settings = await readClaudeSettingsCore(new NodeFsAdapter(), files);
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(settings, null, 2) }]
+		};
+	});
+
+	// list_mcp_servers - MCP server configs of the project (.mcp.json, .cursor/mcp.json, ~/.claude.json) and agent roots
+	server.tool('list_mcp_servers', 'List MCP server configs in user scope (agent root configs such as ~/.claude.json, ~/.cursor/mcp.json), project scope (.mcp.json, .cursor/mcp.json) and local scope (the project entry in ~/.claude.json), in precedence order with the source file; effective is false when a narrower scope defines the same name for that agent. Env values and headers are omitted; envKeys lists env variable names', projectKeyShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const servers = await scanMcpServersCore(new NodeFsAdapter(), resolved.path, agentRoots);
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(servers, null, 2) }]
+		};
+	});
+
+	// search_context - Ranked full-text hits across all scanned artifacts
+	server.tool('search_context', 'Search rules, commands, skills, agent definitions, AGENTS.md, specs and schemas; returns ranked hits with kind, name, path, line and snippet', searchContextShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const docs = await collectSearchDocumentsCore(new NodeFsAdapter(), resolved.path, os.homedir(), agentRoots);
+		const hits = searchDocuments(docs, args.query, {
+			kinds: args.kinds,
+			platform: args.platform,
+			location: args.location,
+			limit: args.limit
+		});
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(hits, null, 2) }]
+		};
+	});
+
+	// get_compliance - ASDLC compliance report
+	server.tool('get_compliance', 'ASDLC compliance report: pass/warn/fail checks per pillar (factory architecture, standardized parts, quality control) with recommendations', projectKeyShape, async (args: any) => {
+		const resolved = resolveProjectRoot(getProjectKeyArg(args));
+		if ('error' in resolved) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: resolved.error }) }], isError: true };
+		}
+		const report = await evaluateComplianceCore(new NodeFsAdapter(), resolved.path, os.homedir());
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(report, null, 2) }]
+		};
+	});
+
+	// compare_projects - Diff project-level context between two projects
+	server.tool('compare_projects', 'Compare rules, commands, skills, agent definitions, AGENTS.md, specs and schemas of two projects: items only in one, identical or changed, with content hashes and optional unified diffs', compareProjectsShape, async (args: any) => {
+		const a = resolveProjectRoot(args?.projectKeyA);
+		if ('error' in a) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: a.error }) }], isError: true };
+		}
+		const b = resolveProjectRoot(args?.projectKeyB);
+		if ('error' in b) {
+			return { content: [{ type: 'text' as const, text: JSON.stringify({ isError: true, message: b.error }) }], isError: true };
+		}
+		const comparison = await compareProjectsCore(new NodeFsAdapter(), a.path, b.path, os.homedir(), {
+			kinds: args?.kinds,
+			includeDiff: args?.includeDiff === true
+		});
+		return {
+			content: [{ type: 'text' as const, text: JSON.stringify(comparison, null, 2) }]
+		};
+	});
+
 	// get_project - Complete project snapshot
 	server.tool('get_project', 'Get complete project snapshot (rules, commands, skills, agent definitions, artifacts)', projectKeyShape, async (args: any) => {
 		const resolved = resolveProjectRoot(getProjectKeyArg(args));
@@ -450,7 +995,7 @@ export function createServer(workspacePath: string, projects?: ProjectEntry[]):
 			getRulesAsInfo(resolved.path),
 			getCommandsAsInfo(resolved.path),
 			getSkillsAsInfo(resolved.path),
-			getAgentDefinitionsAsInfo(resolved.path),
+			getAgentDefinitionsAsInfo(resolved.path, agentRoots),
 			getAsdlcArtifacts(resolved.path)
 		]);
 		const entry = projectList.find(p => p.path === resolved.path);
@@ -513,19 +1058,58 @@ export function bridgeCall(port: number, method: string, params: Record<string,
 	});
 }
 
+/**
+ * Open the long-lived change subscription to the extension backend; every pushed
+ * resources_changed line is passed to `onChange`. Returns a function that closes the socket.
+ */
+export function subscribeBridgeChanges(port: number, onChange: (change: ResourceChange) => void): () => void {
+	const socket = net.connect(port, '127.0.0.1', () => {
+		socket.write(JSON.stringify({ id: 0, method: SUBSCRIBE_CHANGES_METHOD, params: {} }) + '\n');
+	});
+	let buffer = '';
+	socket.setEncoding('utf8');
+	socket.on('data', (chunk) => {
+		buffer += chunk;
+		const lines = buffer.split('\n');
+		buffer = lines.pop() ?? '';
+		for (const line of lines) {
+			try {
+				const msg = JSON.parse(line) as Partial<ResourceChangeMessage>;
+				if (msg.event === 'resources_changed' && msg.change) {onChange(msg.change);}
+			} catch {
+				// ignore malformed lines
+			}
+		}
+	});
+	// Tool calls still work without live notifications; never crash the stdio server over it
+	socket.on('error', () => { socket.destroy(); });
+	socket.unref();
+	return () => { socket.destroy(); };
+}
+
 const BRIDGE_TOOLS: { name: string; description: string; inputSchema: Record<string, z.ZodTypeAny> }[] = [
 	{ name: 'list_projects', description: 'List registered ACE projects', inputSchema: {} },
-	{ name: 'list_rules', description: 'List all rules with metadata (.cursor/rules and .claude/rules)', inputSchema: projectKeyShape },
-	{ name: 'get_rule', description: 'Get rule content by name', inputSchema: nameAndProjectKeyShape },
+	{ name: 'list_rules', description: 'List all rules with metadata and platform (Cursor, Claude, Copilot, Kiro, Windsurf, Cline, Roo Code, Continue)', inputSchema: projectKeyShape },
+	{ name: 'get_rule', description: 'Get rule content by name; with expandReferences, @path references are inlined', inputSchema: expandableNameShape },
+	{ name: 'get_rules_for_file', description: 'Get the rules that apply to a file (always-apply rules plus matching glob rules, in precedence order, with content)', inputSchema: filePathAndProjectKeyShape },
 	{ name: 'list_commands', description: 'List all commands with metadata (.cursor/commands and .claude/commands)', inputSchema: projectKeyShape },
-	{ name: 'get_command', description: 'Get command content by name', inputSchema: nameAndProjectKeyShape },
-	{ name: 'list_skills', description: 'List all skills with metadata (.cursor/skills and .claude/skills)', inputSchema: projectKeyShape },
+	{ name: 'get_command', description: 'Get command content by name; with expandReferences, @path references are inlined', inputSchema: expandableNameShape },
+	{ name: 'list_skills', description: 'List all skills with metadata, bundled files and Agent Skills frontmatter problems (.cursor/skills and .claude/skills)', inputSchema: projectKeyShape },
 	{ name: 'get_skill', description: 'Get skill content by name', inputSchema: nameAndProjectKeyShape },
-	{ name: 'list_agents', description: 'List agent definition files (.cursor/agents, .claude/agents, and user-level agent roots)', inputSchema: projectKeyShape },
-	{ name: 'get_agent', description: 'Get agent definition content by name', inputSchema: nameAndProjectKeyShape },
+	{ name: 'get_skill_file', description: 'Get a file bundled with a skill by skill name and path relative to the skill folder (utf8 text, or base64 for binary files)', inputSchema: skillFileShape },
+	{ name: 'list_agents', description: 'List agent definition files (.cursor/agents, .claude/agents, and user-level agent roots) with their frontmatter description, tools and model; filter by tool or model', inputSchema: listAgentsShape },
+	{ name: 'get_agent', description: 'Get agent definition content by name (stripFrontmatter returns only the body)', inputSchema: getAgentShape },
 	{ name: 'list_specs', description: 'List available specifications', inputSchema: projectKeyShape },
-	{ name: 'get_spec', description: 'Get full spec.md by domain', inputSchema: nameAndProjectKeyShape },
-	{ name: 'get_project', description: 'Get complete project snapshot', inputSchema: projectKeyShape }
+	{ name: 'get_spec', description: 'Get a spec by domain: spec.md, or the requirements/design/tasks documents of a Kiro spec', inputSchema: nameAndProjectKeyShape },
+	{ name: 'get_agents_md', description: 'Get parsed AGENTS.md or one section by heading title', inputSchema: agentsMdShape },
+	{ name: 'get_agents_md_for_file', description: 'Get the AGENTS.md files that apply to a file, from the project root down to the nearest one (later entries take precedence)', inputSchema: filePathAndProjectKeyShape },
+	{ name: 'get_claude_memory', description: 'Get the Claude Code memory files (user, project, local and nested CLAUDE.md) in effect for a directory, in load order', inputSchema: claudeMemoryShape },
+	{ name: 'get_agent_settings', description: 'Get Claude Code permissions, hooks and env variable names merged from user, project and local settings files', inputSchema: projectKeyShape },
+	{ name: 'list_mcp_servers', description: 'List user, project and local scope MCP server configs with source file and effective winner', inputSchema: projectKeyShape },
+	{ name: 'get_project', description: 'Get complete project snapshot', inputSchema: projectKeyShape },
+	{ name: 'search_context', description: 'Search rules, commands, skills, agent definitions, AGENTS.md, specs and schemas; returns ranked hits with kind, name, path, line and snippet', inputSchema: searchContextShape },
+	{ name: 'get_compliance', description: 'ASDLC compliance report: pass/warn/fail checks per pillar (factory architecture, standardized parts, quality control) with recommendations', inputSchema: projectKeyShape },
+	{ name: 'compare_projects', description: 'Compare rules, commands, skills, agent definitions, AGENTS.md, specs and schemas of two projects: items only in one, identical or changed, with content hashes and optional unified diffs', inputSchema: compareProjectsShape }
 ];
 
 /** Ensure params for backend: SDK passes validated args; coerce to flat object. */
@@ -542,6 +1126,19 @@ export function createBridgeServer(port: number): McpServer {
 		{ name: 'ace-mcp', version: '1.0.0' },
 		{ capabilities: { tools: {}, resources: {} } }
 	);
+	registerProjectResources(server, {
+		listProjectKeys: async () => {
+			const projects = await bridgeCall(port, 'list_projects', {}) as ProjectEntry[];
+			return projects.map(p => p.projectKey);
+		},
+		list: async () => await bridgeCall(port, 'list_resources', {}) as ResourceMetadata[],
+		read: async (uri) => {
+			const parsed = parseProjectResourceUri(uri);
+			if (!parsed) {return null;}
+			const content = await bridgeCall(port, 'read_resource', { projectKey: parsed.projectKey, uri: parsed.resourceUri }) as ResourceContent | null;
+			return content ? { ...content, uri } : null;
+		}
+	});
 	for (const t of BRIDGE_TOOLS) {
 		server.tool(t.name, t.description, t.inputSchema as any, async (args: any) => {
 			const params = toBackendParams(args);
@@ -563,6 +1160,7 @@ async function main(): Promise<void> {
 		const port = parseInt(extensionPort, 10);
 		if (port > 0) {
 			const server = createBridgeServer(port);
+			subscribeBridgeChanges(port, enableResourceNotifications(server));
 			const transport = new StdioServerTransport(process.stdin!, process.stdout!);
 			await server.connect(transport);
 			console.error(`ACE MCP Server (bridge mode) → extension port ${port}`);
@@ -582,6 +1180,14 @@ async function main(): Promise<void> {
 			// ignore
 		}
 	}
+	try {
+		const registry = await readProjectRegistryFile(projectRegistryFilePath(os.homedir()));
+		if (registry.length > 0) {
+			projects = withRegistryProjects(toStandaloneProjectList(workspacePath, projects), registry);
+		}
+	} catch (error) {
+		console.error(`Ignoring project registry: ${error instanceof Error ? error.message : String(error)}`);
+	}
 	const primaryPath = projects?.[0]?.path ?? workspacePath;
 	try {
 		await fs.access(primaryPath);
@@ -589,7 +1195,9 @@ async function main(): Promise<void> {
 		console.error(`Workspace path does not exist: ${primaryPath}`);
 		process.exit(1);
 	}
-	const server = createServer(workspacePath, projects);
+	const agentRoots = agentRootsFromEnv(process.env[AGENT_ROOTS_ENV], os.homedir());
+	const server = createServer(workspacePath, projects, agentRoots);
+	watchStandaloneResources(toStandaloneProjectList(workspacePath, projects), os.homedir(), enableResourceNotifications(server), agentRoots);
 	const transport = new StdioServerTransport(process.stdin!, process.stdout!);
 	await server.connect(transport);
 	const projectCount = projects?.length ?? 1;
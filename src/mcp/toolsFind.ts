@@ -3,23 +3,24 @@ import type { Command } from '../scanner/commandsScanner';
 import type { Skill } from '../scanner/skillsScanner';
 import type { AgentDefinition } from '../scanner/agentsScanner';
 import type { SpecFile } from '../scanner/types';
+import { ruleNameFromFileName } from '../scanner/core/ruleParsing';
 import type { AgentDefinitionLocation } from './types';
 import { pickByPrecedence } from './precedence';
 
 /** Find a rule by logical name or path fragment (MCP get_rule). Resolves multiple
- * matches by fixed precedence (spec 011 FR-008): cursor before claude. */
+ * matches by fixed precedence (spec 011 FR-008): cursor, claude, copilot, gemini, kiro, windsurf, cline, roo, continue. */
 export function findRuleByName(rules: Rule[], name: string): Rule | undefined {
-	const normalizedName = name.toLowerCase().replace(/\.(mdc|md)$/, '');
+	const normalizedName = ruleNameFromFileName(name.toLowerCase());
 	const needle = name.toLowerCase();
 	const matches = rules.filter((r) => {
-		const ruleName = r.fileName.toLowerCase().replace(/\.(mdc|md)$/, '');
+		const ruleName = ruleNameFromFileName(r.fileName.toLowerCase());
 		return ruleName === normalizedName || r.uri.fsPath.toLowerCase().includes(needle);
 	});
 	return pickByPrecedence(matches, (r) => ({ platform: r.platform }));
 }
 
 /** Find a command by logical name or path fragment (MCP get_command). Resolves multiple
- * matches by fixed precedence (spec 011 FR-008): workspace before global, cursor before claude. */
+ * matches by fixed precedence (spec 011 FR-008): workspace before global, cursor, claude, copilot, gemini, kiro, windsurf, cline, roo, continue. */
 export function findCommandByName(commands: Command[], name: string): Command | undefined {
 	const normalizedName = name.toLowerCase().replace(/\.md$/, '');
 	const needle = name.toLowerCase();
@@ -31,7 +32,7 @@ export function findCommandByName(commands: Command[], name: string): Command |
 }
 
 /** Find a skill by directory name or path fragment (MCP get_skill). Resolves multiple
- * matches by fixed precedence (spec 011 FR-008): workspace before global, cursor before claude. */
+ * matches by fixed precedence (spec 011 FR-008): workspace before global, cursor, claude, copilot, gemini, kiro, windsurf, cline, roo, continue. */
 export function findSkillByName(skills: Skill[], name: string): Skill | undefined {
 	const normalizedName = name.toLowerCase();
 	const needle = name.toLowerCase();
@@ -49,7 +50,7 @@ export interface TaggedAgentDefinition {
 }
 
 /** Find an agent definition by stem, display name, or path fragment (MCP get_agent). Resolves
- * multiple matches by fixed precedence (spec 011 FR-008): workspace before global, cursor before claude. */
+ * multiple matches by fixed precedence (spec 011 FR-008): workspace before global, cursor, claude, copilot, gemini, kiro, windsurf, cline, roo, continue. */
 export function findAgentDefinitionByName(items: TaggedAgentDefinition[], name: string): TaggedAgentDefinition | undefined {
 	const normalizedName = name.toLowerCase().replace(/\.md$/, '');
 	const needle = name.toLowerCase();
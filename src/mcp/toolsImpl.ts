@@ -2,31 +2,65 @@
 
 import * as vscode from 'vscode';
 import * as os from 'os';
-import * as path from 'path';
 import { assertWorkspaceUriForMcp } from './toolsWorkspace';
 import { findRuleByName, findCommandByName, findSkillByName, findAgentDefinitionByName, findSpecByName } from './toolsFind';
 import { RulesScanner } from '../scanner/rulesScanner';
 import { CommandsScanner } from '../scanner/commandsScanner';
 import { SkillsScanner } from '../scanner/skillsScanner';
 import { AsdlcArtifactScanner } from '../scanner/asdlcArtifactScanner';
+import { selectRulesForFile } from './ruleMatching';
+import { VSCodeFsAdapter } from '../scanner/adapters/vscodeFsAdapter';
+import { collectSearchDocumentsCore, searchDocuments } from '../scanner/core/searchCore';
+import { evaluateComplianceCore } from '../scanner/core/complianceCore';
+import { compareProjectsCore } from '../scanner/core/compareCore';
+import { readSpecContentCore } from '../scanner/core/scanKiroCore';
+import { readAgentsMdChainCore } from '../scanner/core/agentsMdHierarchy';
+import { readClaudeMemoryCore } from '../scanner/core/claudeMemoryCore';
+import { expandReferencesCore } from '../scanner/core/referenceExpansion';
+import { claudeUserMemoryPath, claudeUserSettingsPath, rootsWithSection } from '../scanner/core/agentRoots';
+import { claudeSettingsFiles, readClaudeSettingsCore } from '../scanner/core/claudeSettingsCore';
+import { scanMcpServersCore } from '../scanner/core/mcpServersCore';
+import { readSkillFileCore } from '../scanner/core/skillFilesCore';
+import { filterAgentDefinitions } from '../scanner/core/agentParsing';
+import { getConfiguredAgentRoots } from '../services/agentRootSettings';
+import { extractAgentsMdSection, parseAgentsMd } from '../scanner/asdlcParsing';
 import { AgentsScanner, scanAgentDefinitionsForAgentRoot, type AgentDefinition } from '../scanner/agentsScanner';
 import {
 	RuleInfo,
 	RuleContent,
+	ApplicableRule,
 	CommandInfo,
 	CommandContent,
 	SkillInfo,
 	SkillContent,
+	SkillFileContent,
 	AgentDefinitionInfo,
 	AgentDefinitionContent,
 	AgentDefinitionLocation,
 	ProjectContext,
 	ProjectScopedInput,
 	GetRuleInput,
+	GetRulesForFileInput,
 	GetCommandInput,
 	GetSkillInput,
+	GetSkillFileInput,
 	GetAgentDefinitionInput,
+	ListAgentDefinitionsInput,
 	GetSpecInput,
+	GetAgentsMdInput,
+	AgentsMdInfo,
+	AgentsMdSectionResult,
+	GetAgentsMdForFileInput,
+	AgentsMdChainEntry,
+	GetClaudeMemoryInput,
+	ClaudeMemoryEntry,
+	AgentSettings,
+	McpServerInfo,
+	SearchContextInput,
+	SearchHit,
+	ComplianceReport,
+	CompareProjectsInput,
+	ProjectComparison,
 	SpecFile,
 	SpecContent,
 	toRuleInfo,
@@ -75,7 +109,27 @@ export class McpTools {
 			return null;
 		}
 
-		return toRuleContent(rule);
+		const content = toRuleContent(rule);
+		if (input.expandReferences) {
+			return { ...content, ...await expandReferencesCore(new VSCodeFsAdapter(), content.content, content.path, workspaceUri.fsPath) };
+		}
+		return content;
+	}
+
+	/**
+	 * get_rules_for_file - Always-apply rules plus glob rules matching a file, in precedence order
+	 */
+	static async getRulesForFile(input: GetRulesForFileInput): Promise<ApplicableRule[]> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+
+		const scanner = new RulesScanner(workspaceUri);
+		const rules = await scanner.scanAllRules();
+
+		return selectRulesForFile(rules, workspaceUri.fsPath, input.filePath).map(({ rule, reason, matchedGlobs }) => ({
+			...toRuleContent(rule),
+			reason,
+			matchedGlobs
+		}));
 	}
 
 	// =========================================================================
@@ -108,7 +162,11 @@ export class McpTools {
 			return null;
 		}
 
-		return toCommandContent(command);
+		const content = toCommandContent(command);
+		if (input.expandReferences) {
+			return { ...content, ...await expandReferencesCore(new VSCodeFsAdapter(), content.content, content.path, workspaceUri.fsPath) };
+		}
+		return content;
 	}
 
 	// =========================================================================
@@ -144,12 +202,32 @@ export class McpTools {
 		return toSkillContent(skill);
 	}
 
+	/**
+	 * get_skill_file - A file bundled with a skill, by path relative to the skill folder.
+	 * Null when the skill is unknown; throws when the path is outside the skill, unlisted or too large.
+	 */
+	static async getSkillFile(input: GetSkillFileInput): Promise<SkillFileContent | null> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+
+		const scanner = new SkillsScanner(workspaceUri);
+		const skill = findSkillByName(await scanner.scanAllWorkspaceSkills(), input.name);
+		if (!skill) {
+			return null;
+		}
+
+		const file = await readSkillFileCore(new VSCodeFsAdapter(), skill, input.path);
+		if ('error' in file) {
+			throw new Error(file.error);
+		}
+		return file;
+	}
+
 	// =========================================================================
 	// Agent definition tools
 	// =========================================================================
 
 	/**
-	 * Workspace `.cursor/agents` plus Cursor / Claude / Global agent roots (same layout as extension).
+	 * Workspace `.cursor/agents` plus the configured agent roots (same roots as the Agents view).
 	 */
 	private static async collectTaggedAgentDefinitions(workspaceUri: vscode.Uri): Promise<Array<{ def: AgentDefinition; location: AgentDefinitionLocation }>> {
 		const out: Array<{ def: AgentDefinition; location: AgentDefinitionLocation }> = [];
@@ -158,16 +236,10 @@ export class McpTools {
 		for (const def of workspaceAgents) {
 			out.push({ def, location: 'workspace' });
 		}
-		const home = os.homedir();
-		const roots: Array<[AgentDefinitionLocation, string]> = [
-			['cursor', path.join(home, '.cursor')],
-			['claude', path.join(home, '.claude')],
-			['global', path.join(home, '.agents')]
-		];
-		for (const [loc, root] of roots) {
-			const defs = await scanAgentDefinitionsForAgentRoot(root);
+		for (const root of rootsWithSection(getConfiguredAgentRoots(), 'agents')) {
+			const defs = await scanAgentDefinitionsForAgentRoot(root.directory);
 			for (const def of defs) {
-				out.push({ def, location: loc });
+				out.push({ def, location: root.id });
 			}
 		}
 		return out;
@@ -176,10 +248,11 @@ export class McpTools {
 	/**
 	 * list_agents — workspace and user-level agent roots
 	 */
-	static async listAgentDefinitions(input?: ProjectScopedInput): Promise<AgentDefinitionInfo[]> {
+	static async listAgentDefinitions(input?: ListAgentDefinitionsInput): Promise<AgentDefinitionInfo[]> {
 		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
 		const tagged = await McpTools.collectTaggedAgentDefinitions(workspaceUri);
-		return tagged.map(({ def, location }) => toAgentDefinitionInfo(def, location));
+		const infos = tagged.map(({ def, location }) => toAgentDefinitionInfo(def, location));
+		return filterAgentDefinitions(infos, { tool: input?.tool, model: input?.model });
 	}
 
 	/**
@@ -192,7 +265,7 @@ export class McpTools {
 		if (!found) {
 			return null;
 		}
-		return toAgentDefinitionContent(found.def, found.location);
+		return toAgentDefinitionContent(found.def, found.location, input.stripFrontmatter === true);
 	}
 
 	// =========================================================================
@@ -212,7 +285,7 @@ export class McpTools {
 	}
 
 	/**
-	 * get_spec - Full spec.md body for one domain (pairs with list_specs)
+	 * get_spec - Full spec body for one domain (pairs with list_specs); Kiro specs join their documents
 	 */
 	static async getSpec(input: GetSpecInput): Promise<SpecContent | null> {
 		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
@@ -221,12 +294,15 @@ export class McpTools {
 		if (!spec) {
 			return null;
 		}
-		const uri = vscode.Uri.file(spec.path);
-		const bytes = await vscode.workspace.fs.readFile(uri);
-		const content = Buffer.from(bytes).toString('utf8');
+		const content = await readSpecContentCore(new VSCodeFsAdapter(), spec);
+		if (content === null) {
+			return null;
+		}
 		return {
 			domain: spec.domain,
 			path: spec.path,
+			flavour: spec.flavour,
+			documents: spec.documents,
 			hasBlueprint: spec.hasBlueprint,
 			hasContract: spec.hasContract,
 			lastModified: spec.lastModified,
@@ -234,6 +310,131 @@ export class McpTools {
 		};
 	}
 
+	// =========================================================================
+	// AGENTS.md
+	// =========================================================================
+
+	/**
+	 * get_agents_md - Parsed AGENTS.md (mission, philosophy, tech stack, boundaries, sections),
+	 * or one section's content when `section` is given. Null when AGENTS.md or the section is missing.
+	 */
+	static async getAgentsMd(input?: GetAgentsMdInput): Promise<AgentsMdInfo | AgentsMdSectionResult | null> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+		const uri = vscode.Uri.joinPath(workspaceUri, 'AGENTS.md');
+		let content: string;
+		try {
+			const bytes = await vscode.workspace.fs.readFile(uri);
+			content = Buffer.from(bytes).toString('utf8');
+		} catch {
+			return null;
+		}
+		if (input?.section) {
+			const section = extractAgentsMdSection(content, input.section);
+			return section ? { path: uri.fsPath, ...section } : null;
+		}
+		return parseAgentsMd(content, uri.fsPath);
+	}
+
+	/**
+	 * get_agents_md_for_file - AGENTS.md files from the project root down to the file's nearest one
+	 * (application order: later entries take precedence)
+	 */
+	static async getAgentsMdForFile(input: GetAgentsMdForFileInput): Promise<AgentsMdChainEntry[]> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+		return readAgentsMdChainCore(new VSCodeFsAdapter(), workspaceUri.fsPath, input.filePath);
+	}
+
+	// =========================================================================
+	// CLAUDE.md memory
+	// =========================================================================
+
+	/**
+	 * get_claude_memory - Claude Code memory stack for a directory: user memory, then project, local and
+	 * nested CLAUDE.md files from the project root down (load order: later entries take precedence)
+	 */
+	static async getClaudeMemory(input?: GetClaudeMemoryInput): Promise<ClaudeMemoryEntry[]> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+		const userMemoryPath = claudeUserMemoryPath(getConfiguredAgentRoots(), os.homedir());
+		const fs = new VSCodeFsAdapter();
+		const memory = await readClaudeMemoryCore(fs, workspaceUri.fsPath, input?.directory ?? '', userMemoryPath);
+		if (!input?.expandReferences) {return memory;}
+		return Promise.all(memory.map(async entry => ({ ...entry, ...await expandReferencesCore(fs, entry.content, entry.path, workspaceUri.fsPath) })));
+	}
+
+	// =========================================================================
+	// Claude Code settings
+	// =========================================================================
+
+	/**
+	 * get_agent_settings - Permissions, hooks and env variable names merged from user, project and local Claude Code settings
+	 */
+	static async getAgentSettings(input?: ProjectScopedInput): Promise<AgentSettings> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+		const userSettingsPath = claudeUserSettingsPath(getConfiguredAgentRoots(), os.homedir());
+		return readClaudeSettingsCore(new VSCodeFsAdapter(), claudeSettingsFiles(workspaceUri.fsPath, userSettingsPath));
+	}
+
+	// =========================================================================
+	// MCP servers
+	// =========================================================================
+
+	/**
+	 * list_mcp_servers - User, project and local scope MCP server configs in precedence order
+	 */
+	static async listMcpServers(input?: ProjectScopedInput): Promise<McpServerInfo[]> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+		return scanMcpServersCore(new VSCodeFsAdapter(), workspaceUri.fsPath, getConfiguredAgentRoots());
+	}
+
+	// =========================================================================
+	// Search
+	// =========================================================================
+
+	/**
+	 * search_context - Ranked full-text hits across rules, commands, skills, agents and ASDLC artifacts
+	 */
+	static async searchContext(input: SearchContextInput): Promise<SearchHit[]> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+
+		const docs = await collectSearchDocumentsCore(new VSCodeFsAdapter(), workspaceUri.fsPath, os.homedir(), getConfiguredAgentRoots());
+		return searchDocuments(docs, input.query, {
+			kinds: input.kinds,
+			platform: input.platform,
+			location: input.location,
+			limit: input.limit
+		});
+	}
+
+	// =========================================================================
+	// Compliance
+	// =========================================================================
+
+	/**
+	 * get_compliance - ASDLC compliance report (pillar checks and recommendations)
+	 */
+	static async getCompliance(input?: ProjectScopedInput): Promise<ComplianceReport> {
+		const workspaceUri = assertWorkspaceUriForMcp(input?.projectPath);
+
+		return evaluateComplianceCore(new VSCodeFsAdapter(), workspaceUri.fsPath, os.homedir());
+	}
+
+	// =========================================================================
+	// Comparison
+	// =========================================================================
+
+	/**
+	 * compare_projects - Project-level artifacts of two projects matched by kind, platform and name
+	 */
+	static async compareProjects(input: CompareProjectsInput): Promise<ProjectComparison> {
+		const uriA = assertWorkspaceUriForMcp(input.projectPathA);
+		const uriB = assertWorkspaceUriForMcp(input.projectPathB);
+
+		return compareProjectsCore(new VSCodeFsAdapter(), uriA.fsPath, uriB.fsPath, os.homedir(), {
+			kinds: input.kinds,
+			includeDiff: input.includeDiff
+		});
+	}
+
 	// =========================================================================
 	// Combined Tools
 	// =========================================================================
@@ -4,8 +4,16 @@ import { Rule } from '../scanner/rulesScanner';
 import { Command } from '../scanner/commandsScanner';
 import { Skill } from '../scanner/skillsScanner';
 import type { AgentDefinition } from '../scanner/agentsScanner';
-import type { AsdlcArtifacts, SpecFile } from '../scanner/types';
-import type { CorePlatform } from '../scanner/core/types';
+import type { AgentsMdInfo, AgentsMdSectionContent, AsdlcArtifacts, ComplianceReport, SpecFile } from '../scanner/types';
+import type { CorePlatform, CoreProjectComparison, CoreSearchHit, CoreSearchKind } from '../scanner/core/types';
+import type { CoreUnresolvedReference } from '../scanner/core/referenceExpansion';
+import type { CoreClaudeSettings } from '../scanner/core/claudeSettingsCore';
+import type { CoreMcpServer } from '../scanner/core/mcpServersCore';
+import type { CoreSkillFileContent } from '../scanner/core/skillFilesCore';
+import type { CoreSkillIssue } from '../scanner/core/types';
+import { ruleNameFromFileName } from '../scanner/core/ruleParsing';
+import { parseAgentFrontmatter } from '../scanner/core/agentParsing';
+import { summarizeCommand, type CoreCommandSummary } from '../scanner/core/commandParsing';
 
 // =============================================================================
 // Rule Types (for MCP tools)
@@ -23,10 +31,20 @@ export interface RuleInfo {
 	platform: CorePlatform;
 }
 
+/**
+ * Result of expanding `@path` references (set only when `expandReferences` was requested)
+ */
+export interface ReferenceExpansion {
+	/** Files inlined into `content`, in the order they appear */
+	includedFiles?: string[];
+	/** References that could not be inlined (not found, outside the root, cycle, depth limit) */
+	unresolvedReferences?: CoreUnresolvedReference[];
+}
+
 /**
  * Full rule content for get_rule tool
  */
-export interface RuleContent {
+export interface RuleContent extends ReferenceExpansion {
 	name: string;
 	description: string;
 	type: 'always' | 'glob' | 'manual';
@@ -44,7 +62,7 @@ export function toRuleInfo(rule: Rule): RuleInfo {
 		(rule.metadata.globs && rule.metadata.globs.length > 0) ? 'glob' : 'manual';
 
 	return {
-		name: rule.fileName.replace(/\.(mdc|md)$/, ''),
+		name: ruleNameFromFileName(rule.fileName),
 		description: rule.metadata.description || '',
 		type,
 		path: rule.uri.fsPath,
@@ -61,7 +79,7 @@ export function toRuleContent(rule: Rule): RuleContent {
 		(rule.metadata.globs && rule.metadata.globs.length > 0) ? 'glob' : 'manual';
 
 	return {
-		name: rule.fileName.replace(/\.(mdc|md)$/, ''),
+		name: ruleNameFromFileName(rule.fileName),
 		description: rule.metadata.description || '',
 		type,
 		path: rule.uri.fsPath,
@@ -71,16 +89,25 @@ export function toRuleContent(rule: Rule): RuleContent {
 	};
 }
 
+/**
+ * Rule that applies to a file, for get_rules_for_file
+ * `reason` says whether it applies via alwaysApply or via one or more matching globs.
+ */
+export interface ApplicableRule extends RuleContent {
+	reason: 'always' | 'glob';
+	matchedGlobs: string[];
+}
+
 // =============================================================================
 // Command Types (for MCP tools)
 // =============================================================================
 
 /**
- * Command information for list_commands tool
+ * Command information for list_commands tool: description, Claude Code frontmatter
+ * (`argumentHint`, `allowedTools`, `model`, only when declared) and the placeholders used
  */
-export interface CommandInfo {
+export interface CommandInfo extends CoreCommandSummary {
 	name: string;
-	description: string;
 	path: string;
 	location: 'workspace' | 'global';
 	platform: CorePlatform;
@@ -89,36 +116,8 @@ export interface CommandInfo {
 /**
  * Full command content for get_command tool
  */
-export interface CommandContent {
-	name: string;
-	description: string;
-	path: string;
-	location: 'workspace' | 'global';
+export interface CommandContent extends CommandInfo, ReferenceExpansion {
 	content: string;
-	platform: CorePlatform;
-}
-
-/**
- * Extract description from command markdown content
- * Looks for ## Overview section or first paragraph
- */
-function extractCommandDescription(content: string): string {
-	// Try to find ## Overview section
-	const overviewMatch = content.match(/## Overview\s*\n+([^\n#]+)/);
-	if (overviewMatch) {
-		return overviewMatch[1].trim();
-	}
-
-	// Try to find first non-heading paragraph
-	const lines = content.split('\n');
-	for (const line of lines) {
-		const trimmed = line.trim();
-		if (trimmed && !trimmed.startsWith('#') && !trimmed.startsWith('-')) {
-			return trimmed.substring(0, 200);
-		}
-	}
-
-	return '';
 }
 
 /**
@@ -127,7 +126,7 @@ function extractCommandDescription(content: string): string {
 export function toCommandInfo(command: Command): CommandInfo {
 	return {
 		name: command.fileName.replace(/\.md$/, ''),
-		description: extractCommandDescription(command.content),
+		...summarizeCommand(command),
 		path: command.uri.fsPath,
 		location: command.location,
 		platform: command.platform
@@ -139,12 +138,8 @@ export function toCommandInfo(command: Command): CommandInfo {
  */
 export function toCommandContent(command: Command): CommandContent {
 	return {
-		name: command.fileName.replace(/\.md$/, ''),
-		description: extractCommandDescription(command.content),
-		path: command.uri.fsPath,
-		location: command.location,
-		content: command.content,
-		platform: command.platform
+		...toCommandInfo(command),
+		content: command.content
 	};
 }
 
@@ -152,29 +147,51 @@ export function toCommandContent(command: Command): CommandContent {
 // Skill Types (for MCP tools)
 // =============================================================================
 
+/**
+ * File bundled with a skill, as listed by list_skills; `relativePath` is what get_skill_file takes
+ */
+export interface SkillFileInfo {
+	relativePath: string;
+	size: number;
+}
+
 /**
  * Skill information for list_skills tool
  */
 export interface SkillInfo {
 	name: string;
 	title?: string;
+	/** Agent Skills `description` frontmatter */
+	description?: string;
 	overview?: string;
 	path: string;
 	location: 'workspace' | 'global';
 	platform: CorePlatform;
+	/** Files next to SKILL.md (scripts/, references/, assets/, ...) */
+	files: SkillFileInfo[];
+	/** Agent Skills conformance problems of the frontmatter (name, description, unknown keys, ...) */
+	issues: SkillIssue[];
 }
 
+/**
+ * Agent Skills format problem in a SKILL.md frontmatter; `field` is the frontmatter key
+ */
+export type SkillIssue = CoreSkillIssue;
+
 /**
  * Full skill content for get_skill tool
  */
 export interface SkillContent {
 	name: string;
 	title?: string;
+	description?: string;
 	overview?: string;
 	path: string;
 	location: 'workspace' | 'global';
 	content: string;
 	metadata?: {
+		allowedTools?: string[];
+		license?: string;
 		prerequisites?: string[];
 		steps?: string[];
 		tools?: string[];
@@ -189,10 +206,13 @@ export function toSkillInfo(skill: Skill): SkillInfo {
 	return {
 		name: skill.fileName,
 		title: skill.metadata?.title,
+		description: skill.metadata?.description,
 		overview: skill.metadata?.overview,
 		path: skill.uri.fsPath,
 		location: skill.location,
-		platform: skill.platform
+		platform: skill.platform,
+		files: (skill.files ?? []).map(f => ({ relativePath: f.relativePath, size: f.size })),
+		issues: skill.issues ?? []
 	};
 }
 
@@ -203,11 +223,14 @@ export function toSkillContent(skill: Skill): SkillContent {
 	return {
 		name: skill.fileName,
 		title: skill.metadata?.title,
+		description: skill.metadata?.description,
 		overview: skill.metadata?.overview,
 		path: skill.uri.fsPath,
 		location: skill.location,
 		content: skill.content,
 		metadata: {
+			allowedTools: skill.metadata?.allowedTools,
+			license: skill.metadata?.license,
 			prerequisites: skill.metadata?.prerequisites,
 			steps: skill.metadata?.steps,
 			tools: skill.metadata?.tools
@@ -220,30 +243,34 @@ export function toSkillContent(skill: Skill): SkillContent {
 // Agent definition types (for MCP tools)
 // =============================================================================
 
-/** Where an agent definition file was discovered (workspace vs user-level agent roots). */
-export type AgentDefinitionLocation = 'workspace' | 'cursor' | 'claude' | 'global';
+/**
+ * Where an agent definition file was discovered: `workspace`, or the id of the user-level agent root
+ * (built-in `cursor`, `claude`, `global`; others from `ace.agentRoots`).
+ */
+export type AgentDefinitionLocation = string;
 
 /**
  * Agent definition metadata for list_agents
  */
 export interface AgentDefinitionInfo {
 	name: string;
+	/** Frontmatter `name`, else the file stem */
 	displayName: string;
 	path: string;
 	location: AgentDefinitionLocation;
 	platform: CorePlatform;
+	description?: string;
+	tools?: string[];
+	model?: string;
+	color?: string;
 }
 
 /**
  * Full agent definition for get_agent
  */
-export interface AgentDefinitionContent {
-	name: string;
-	displayName: string;
-	path: string;
-	location: AgentDefinitionLocation;
+export interface AgentDefinitionContent extends AgentDefinitionInfo {
+	/** Full file, or the body after the frontmatter with `stripFrontmatter` */
 	content: string;
-	platform: CorePlatform;
 }
 
 export function toAgentDefinitionInfo(def: AgentDefinition, location: AgentDefinitionLocation): AgentDefinitionInfo {
@@ -252,14 +279,18 @@ export function toAgentDefinitionInfo(def: AgentDefinition, location: AgentDefin
 		displayName: def.displayName,
 		path: def.uri.fsPath,
 		location,
-		platform: def.platform
+		platform: def.platform,
+		...(def.description !== undefined ? { description: def.description } : {}),
+		...(def.tools !== undefined ? { tools: def.tools } : {}),
+		...(def.model !== undefined ? { model: def.model } : {}),
+		...(def.color !== undefined ? { color: def.color } : {})
 	};
 }
 
-export function toAgentDefinitionContent(def: AgentDefinition, location: AgentDefinitionLocation): AgentDefinitionContent {
+export function toAgentDefinitionContent(def: AgentDefinition, location: AgentDefinitionLocation, stripFrontmatter = false): AgentDefinitionContent {
 	return {
 		...toAgentDefinitionInfo(def, location),
-		content: def.content
+		content: stripFrontmatter ? parseAgentFrontmatter(def.content).body : def.content
 	};
 }
 
@@ -296,6 +327,16 @@ export interface ProjectScopedInput {
  */
 export interface GetRuleInput extends ProjectScopedInput {
 	name: string;
+	/** Inline `@path` references (default false) */
+	expandReferences?: boolean;
+}
+
+/**
+ * Input for get_rules_for_file tool
+ */
+export interface GetRulesForFileInput extends ProjectScopedInput {
+	/** Absolute path, or path relative to the project root */
+	filePath: string;
 }
 
 /**
@@ -303,6 +344,8 @@ export interface GetRuleInput extends ProjectScopedInput {
  */
 export interface GetCommandInput extends ProjectScopedInput {
 	name: string;
+	/** Inline `@path` references (default false) */
+	expandReferences?: boolean;
 }
 
 /**
@@ -312,11 +355,38 @@ export interface GetSkillInput extends ProjectScopedInput {
 	name: string;
 }
 
+/**
+ * Input for get_skill_file tool
+ */
+export interface GetSkillFileInput extends ProjectScopedInput {
+	/** Skill name */
+	name: string;
+	/** File path relative to the skill folder */
+	path: string;
+}
+
+/**
+ * Bundled skill file for get_skill_file: utf8 text, or base64 for binary files
+ */
+export type SkillFileContent = CoreSkillFileContent;
+
 /**
  * Input for get_agent tool
  */
 export interface GetAgentDefinitionInput extends ProjectScopedInput {
 	name: string;
+	/** Return the body without its YAML frontmatter (default false) */
+	stripFrontmatter?: boolean;
+}
+
+/**
+ * Input for list_agents tool
+ */
+export interface ListAgentDefinitionsInput extends ProjectScopedInput {
+	/** Only agents whose `tools` include this tool (`Bash` matches `Bash(git:*)`) */
+	tool?: string;
+	/** Only agents with this `model` */
+	model?: string;
 }
 
 /**
@@ -328,17 +398,119 @@ export interface GetSpecInput extends ProjectScopedInput {
 }
 
 /**
- * Full `specs/<domain>/spec.md` content for get_spec
+ * Full spec content for get_spec: `specs/<domain>/spec.md`, or for a Kiro spec every existing
+ * `.kiro/specs/<feature>/` document, each after an `<!-- <document> -->` marker line
  */
 export interface SpecContent {
 	domain: string;
 	path: string;
+	flavour: 'asdlc' | 'kiro';
+	documents: string[];
 	hasBlueprint: boolean;
 	hasContract: boolean;
 	lastModified?: string;
 	content: string;
 }
 
+/**
+ * Input for get_agents_md tool
+ */
+export interface GetAgentsMdInput extends ProjectScopedInput {
+	/** Heading title to return (e.g. "Operational Boundaries"); omit for the parsed structure */
+	section?: string;
+}
+
+/**
+ * One AGENTS.md section for get_agents_md with `section`
+ */
+export interface AgentsMdSectionResult extends AgentsMdSectionContent {
+	path: string;
+}
+
+/**
+ * Input for get_agents_md_for_file tool
+ */
+export interface GetAgentsMdForFileInput extends ProjectScopedInput {
+	/** Absolute path, or path relative to the project root */
+	filePath: string;
+}
+
+/**
+ * One AGENTS.md applying to a file, for get_agents_md_for_file (root first, nearest last)
+ */
+export interface AgentsMdChainEntry {
+	path: string;
+	/** Directory relative to the project root; '' for the root AGENTS.md */
+	directory: string;
+	content: string;
+}
+
+/**
+ * Input for get_claude_memory tool
+ */
+export interface GetClaudeMemoryInput extends ProjectScopedInput {
+	/** Absolute path, or path relative to the project root; omit for the project root */
+	directory?: string;
+	/** Inline `@path` imports of every memory file (default false) */
+	expandReferences?: boolean;
+}
+
+/**
+ * One Claude Code memory file, for get_claude_memory (load order: later entries take precedence)
+ */
+export interface ClaudeMemoryEntry extends ReferenceExpansion {
+	path: string;
+	/** `user` (~/.claude/CLAUDE.md), `project` (CLAUDE.md, .claude/CLAUDE.md), `local` (CLAUDE.local.md) or `nested` */
+	scope: 'user' | 'project' | 'local' | 'nested';
+	/** Directory relative to the project root; '' for the root and for user memory */
+	directory: string;
+	content: string;
+}
+
+/**
+ * Claude Code settings for get_agent_settings: files read (user, project, local), permission rules,
+ * hooks and effective env, each entry tagged with its file's `path` and `scope`
+ */
+export type AgentSettings = CoreClaudeSettings;
+
+/**
+ * MCP server config entry for list_mcp_servers: agent, scope (user, project, local), source file,
+ * transport and launch target; `effective` is false when a narrower scope defines the same name
+ */
+export type McpServerInfo = CoreMcpServer;
+
+/**
+ * Input for search_context tool
+ */
+export interface SearchContextInput extends ProjectScopedInput {
+	query: string;
+	kinds?: CoreSearchKind[];
+	platform?: CorePlatform;
+	location?: string;
+	limit?: number;
+}
+
+/**
+ * Ranked search_context hit (kind, name, path, 1-based line, snippet)
+ */
+export type SearchHit = CoreSearchHit;
+
+/**
+ * Input for compare_projects (both projects resolved from their projectKey)
+ */
+export interface CompareProjectsInput {
+	projectPathA: string;
+	projectPathB: string;
+	kinds?: CoreSearchKind[];
+	includeDiff?: boolean;
+}
+
+/**
+ * compare_projects result: per-item status (only-in-a, only-in-b, identical, differs), content hashes
+ * and optional unified diffs
+ */
+export type ProjectComparison = CoreProjectComparison;
+
 // =============================================================================
 // MCP Resource Types
 // =============================================================================
@@ -363,4 +535,4 @@ export interface ResourceContent {
 }
 
 // Re-export types from scanner for convenience
-export { AsdlcArtifacts, SpecFile };
+export { AgentsMdInfo, AsdlcArtifacts, ComplianceReport, SpecFile };
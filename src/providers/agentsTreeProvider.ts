@@ -1,20 +1,41 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import type { ProjectTreeItem } from './projectTreeProvider';
+import { agentDefinitionTooltip, claudeSettingsItems, describeClaudeSettings, decorateCommandItem, decorateSkillItem, describeMcpServerTarget, skillCollapsibleState, skillFileItems, skillTooltip, type ProjectTreeItem } from './projectTreeProvider';
 import type { Command } from '../scanner/commandsScanner';
 import type { Skill } from '../scanner/skillsScanner';
 import type { AgentDefinition } from '../scanner/agentsScanner';
+import { AGENT_ROOT_SECTIONS, type AgentRootSection } from '../scanner/core/agentRoots';
+import type { CoreClaudeSettings } from '../scanner/core/claudeSettingsCore';
+import type { CoreMcpServer } from '../scanner/core/mcpServersCore';
+import type { McpProbeMethod, McpProbeResult, McpProbeStep } from '../services/mcpProbe';
 
 export interface AgentRootDefinition {
 	id: string;
 	label: string;
 	description?: string;
-	icon?: string;
+	/** Codicon id (`AgentRootConfig.icon`) */
+	icon: string;
 	commands: Command[];
 	skills: Skill[];
 	/** Flat `agents/*.md` under this agent root (see `scanAgentDefinitionsForAgentRoot`). */
 	agentDefinitions: AgentDefinition[];
 	/** Names of registered MCP servers for this agent root. Read-only; populated by McpRegistrationScanner. */
 	mcpServers: string[];
+	/** Transport, command/args or URL and env names of `mcpServers`, when read; gives each server its details and Probe action. */
+	mcpServerDetails?: CoreMcpServer[];
+	/** User memory file (`memoryPath`, e.g. `~/.claude/CLAUDE.md`) when it exists; shown before the sections. */
+	memoryFile?: vscode.Uri;
+	/** User settings (`settingsPath`, e.g. `~/.claude/settings.json`) when readable; shown after the memory file. */
+	settings?: CoreClaudeSettings;
+	/** Subsections to show (from `ace.agentRoots`); all when omitted. */
+	sections?: AgentRootSection[];
+}
+
+const PROBE_STEP_NOUNS: Record<McpProbeMethod, string> = { 'initialize': '', 'tools/list': 'tools', 'prompts/list': 'prompts', 'resources/list': 'resources' };
+const PROBE_ITEM_ICONS: Record<McpProbeMethod, string> = { 'initialize': 'pass', 'tools/list': 'tools', 'prompts/list': 'comment', 'resources/list': 'file' };
+
+function probeKey(server: CoreMcpServer): string {
+	return `${server.path}\u0000${server.name}`;
 }
 
 export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeItem> {
@@ -22,12 +43,20 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 	readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
 	private agentRoots: AgentRootDefinition[] = [];
+	/** Latest probe of each server (by config file and name); `running` while a probe is in flight */
+	private probes = new Map<string, McpProbeResult | 'running'>();
 
 	setAgentRoots(roots: AgentRootDefinition[]): void {
 		this.agentRoots = roots;
 		this._onDidChangeTreeData.fire();
 	}
 
+	/** Show a probe in flight or its result under the server's node. */
+	setProbeResult(server: CoreMcpServer, result: McpProbeResult | 'running'): void {
+		this.probes.set(probeKey(server), result);
+		this._onDidChangeTreeData.fire();
+	}
+
 	refresh(): void {
 		this._onDidChangeTreeData.fire();
 	}
@@ -60,16 +89,14 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 					vscode.TreeItemCollapsibleState.Collapsed
 				) as ProjectTreeItem;
 				item.description = root.description;
-				// Use Cursor icon for agent-specific roots, globe for Global (~/.agents)
-				const iconId = root.id === 'global' ? 'globe' : 'device-desktop';
-				item.iconPath = new vscode.ThemeIcon(iconId);
+				item.iconPath = new vscode.ThemeIcon(root.icon);
 				item.contextValue = 'agent-root';
 				item.agentRootId = root.id;
 				return item;
 			});
 		}
 
-		// Section level under a specific agent root — Agents, Commands, Skills (alphabetical)
+		// Section level under a specific agent root — user memory file, Settings, then Agents, Commands, MCP, Skills (alphabetical)
 		if (element.contextValue === 'agent-root' && element.agentRootId) {
 			const root = this.agentRoots.find(r => r.id === element.agentRootId);
 			if (!root) {
@@ -118,11 +145,40 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 			mcpNode.iconPath = new vscode.ThemeIcon('mcp');
 			mcpNode.description = `${mcpServers.length} servers`;
 
-			const sections = [agentsNode, commandsNode, skillsNode, mcpNode];
+			const enabled = root.sections ?? AGENT_ROOT_SECTIONS;
+			const sections = [agentsNode, commandsNode, skillsNode, mcpNode]
+				.filter(node => node.agentSection !== undefined && enabled.includes(node.agentSection));
 			sections.sort((a, b) =>
 				String(a.label).localeCompare(String(b.label), undefined, { sensitivity: 'base' })
 			);
-			return sections;
+
+			const leading: ProjectTreeItem[] = [];
+			if (root.memoryFile) {
+				const memoryNode = new vscode.TreeItem(path.basename(root.memoryFile.fsPath), vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				memoryNode.contextValue = 'agent-memory';
+				memoryNode.agentRootId = root.id;
+				memoryNode.iconPath = new vscode.ThemeIcon('file-text');
+				memoryNode.description = 'user memory';
+				memoryNode.tooltip = root.memoryFile.fsPath;
+				memoryNode.command = { command: 'vscode.open', title: 'Open User Memory', arguments: [root.memoryFile] };
+				leading.push(memoryNode);
+			}
+			if (root.settings && root.settings.files.length > 0) {
+				const settingsNode = new vscode.TreeItem('Settings', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+				settingsNode.contextValue = 'agent-settings';
+				settingsNode.agentRootId = root.id;
+				settingsNode.iconPath = new vscode.ThemeIcon('settings-gear');
+				settingsNode.description = describeClaudeSettings(root.settings);
+				settingsNode.tooltip = root.settings.files.map(f => f.path).join('\n');
+				leading.push(settingsNode);
+			}
+			return [...leading, ...sections];
+		}
+
+		// Permissions and hooks of the root's user settings file
+		if (element.contextValue === 'agent-settings' && element.agentRootId) {
+			const settings = this.agentRoots.find(r => r.id === element.agentRootId)?.settings;
+			return settings ? claudeSettingsItems(settings) : [];
 		}
 
 		// Agent definition files under an agent root (`<root>/agents/*.md`)
@@ -150,7 +206,7 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 				item.contextValue = 'agent-definition';
 				item.agentRootId = root.id;
 				item.iconPath = new vscode.ThemeIcon('hubot');
-				item.tooltip = `${ad.uri.fsPath}\n\n${this.getContentPreview(ad.content)}`;
+				item.tooltip = agentDefinitionTooltip(ad, this.getContentPreview(ad.content));
 				item.command = {
 					command: 'vscode.open',
 					title: 'Open Agent Definition',
@@ -183,7 +239,7 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 				item.commandData = cmd;
 				item.contextValue = 'command';
 				item.iconPath = new vscode.ThemeIcon('terminal');
-				item.tooltip = cmd.content.substring(0, 100).trim();
+				decorateCommandItem(item, cmd, cmd.content.substring(0, 100).trim());
 				item.command = {
 					command: 'vscode.open',
 					title: 'Open Command',
@@ -212,13 +268,13 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 				const label = skill.metadata?.title ?? skill.fileName;
 				const item = new vscode.TreeItem(
 					label,
-					vscode.TreeItemCollapsibleState.None
+					skillCollapsibleState(skill)
 				) as ProjectTreeItem;
 				item.skillData = skill;
 				item.contextValue = 'skill';
-				// Use play icon for individual skills, consistent with Workspace view
-				item.iconPath = new vscode.ThemeIcon('play-circle');
-				item.tooltip = skill.metadata?.overview ?? '';
+				// Same play (or problem warning) icon and tooltip as the Workspace view
+				decorateSkillItem(item, skill);
+				item.tooltip = skillTooltip(skill) ?? '';
 				item.command = {
 					command: 'vscode.open',
 					title: 'Open Skill',
@@ -228,6 +284,11 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 			});
 		}
 
+		// Bundled files of a skill under an agent root
+		if (element.contextValue === 'skill' && element.skillData) {
+			return skillFileItems(element.skillData);
+		}
+
 		// MCP servers under an agent root
 		if (element.contextValue === 'agent-mcp' && element.agentRootId) {
 			const root = this.agentRoots.find(r => r.id === element.agentRootId);
@@ -245,12 +306,40 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 			}
 
 			return mcpServers.map(serverName => {
+				const details = root.mcpServerDetails?.find(s => s.name === serverName);
+				const probed = details !== undefined && this.probes.has(probeKey(details));
 				const item = new vscode.TreeItem(
 					serverName,
-					vscode.TreeItemCollapsibleState.None
+					details === undefined ? vscode.TreeItemCollapsibleState.None
+						: probed ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
 				) as ProjectTreeItem;
 				item.contextValue = 'mcp-server';
 				item.iconPath = new vscode.ThemeIcon('plug');
+				if (details) {
+					item.mcpServerData = details;
+					item.agentRootId = root.id;
+					item.description = details.transport;
+					item.tooltip = `${describeMcpServerTarget(details)}\n\n${details.path}`;
+				}
+				return item;
+			});
+		}
+
+		// Details of a registered MCP server, then its latest probe
+		if (element.contextValue === 'mcp-server' && element.mcpServerData) {
+			return [...this.mcpServerDetailItems(element.mcpServerData), ...this.probeItems(element.mcpServerData)];
+		}
+
+		// Tools, prompts or resources returned by one probe step
+		if (element.contextValue === 'mcp-probe-step' && element.mcpServerData && element.mcpProbeMethod) {
+			const method = element.mcpProbeMethod;
+			const probe = this.probes.get(probeKey(element.mcpServerData));
+			const step = probe && probe !== 'running' ? probe.steps.find(s => s.method === method) : undefined;
+			return (step?.items ?? []).map(entry => {
+				const item = new vscode.TreeItem(entry.name, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.contextValue = 'mcp-probe-item';
+				item.iconPath = new vscode.ThemeIcon(PROBE_ITEM_ICONS[method]);
+				item.tooltip = entry.description;
 				return item;
 			});
 		}
@@ -258,6 +347,78 @@ export class AgentsTreeProvider implements vscode.TreeDataProvider<ProjectTreeIt
 		return [];
 	}
 
+	/** Transport, command/args or URL, and env variables with their values redacted */
+	private mcpServerDetailItems(server: CoreMcpServer): ProjectTreeItem[] {
+		const detail = (label: string, description: string, icon: string): ProjectTreeItem => {
+			const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+			item.contextValue = 'mcp-server-detail';
+			item.description = description;
+			item.tooltip = description;
+			item.iconPath = new vscode.ThemeIcon(icon);
+			return item;
+		};
+		const items = [detail('transport', server.transport, 'plug')];
+		if (server.url) {
+			items.push(detail('url', server.url, 'link'));
+		}
+		if (server.command) {
+			items.push(detail('command', [server.command, ...(server.args ?? [])].join(' '), 'terminal'));
+		}
+		for (const key of server.envKeys ?? []) {
+			items.push(detail(key, '••••••', 'symbol-variable'));
+		}
+		return items;
+	}
+
+	/** Probe in flight, or its summary followed by one node per step */
+	private probeItems(server: CoreMcpServer): ProjectTreeItem[] {
+		const probe = this.probes.get(probeKey(server));
+		if (!probe) {
+			return [];
+		}
+		if (probe === 'running') {
+			return [{
+				label: 'Probing…',
+				collapsibleState: vscode.TreeItemCollapsibleState.None,
+				iconPath: new vscode.ThemeIcon('loading~spin')
+			} as ProjectTreeItem];
+		}
+
+		const summary = new vscode.TreeItem(probe.ok ? 'Probe succeeded' : 'Probe failed', vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+		summary.contextValue = 'mcp-probe';
+		summary.iconPath = new vscode.ThemeIcon(probe.ok ? 'pass' : 'error');
+		summary.description = [probe.server ? `${probe.server.name} ${probe.server.version}` : undefined, probe.error, `${probe.durationMs} ms`]
+			.filter(Boolean).join(' · ');
+		summary.tooltip = probe.stderr ? `${summary.description}\n\nstderr:\n${probe.stderr}` : summary.description;
+
+		const steps = probe.steps.map(step => this.probeStepItem(server, step));
+		return [summary, ...steps];
+	}
+
+	private probeStepItem(server: CoreMcpServer, step: McpProbeStep): ProjectTreeItem {
+		const count = step.items?.length ?? 0;
+		const item = new vscode.TreeItem(
+			step.method,
+			count > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+		) as ProjectTreeItem;
+		item.contextValue = 'mcp-probe-step';
+		item.mcpServerData = server;
+		item.mcpProbeMethod = step.method;
+		if (step.error) {
+			item.description = `${step.error} · ${step.durationMs} ms`;
+			item.iconPath = new vscode.ThemeIcon('error');
+		} else if (step.unsupported) {
+			item.description = 'not supported';
+			item.iconPath = new vscode.ThemeIcon('circle-slash');
+		} else {
+			const noun = PROBE_STEP_NOUNS[step.method];
+			item.description = step.items ? `${count} ${noun} · ${step.durationMs} ms` : `${step.durationMs} ms`;
+			item.iconPath = new vscode.ThemeIcon('pass');
+		}
+		item.tooltip = step.error ?? item.description;
+		return item;
+	}
+
 	/** Preview for tooltips (heading or first line), aligned with ProjectTreeProvider */
 	private getContentPreview(content: string): string {
 		const headingMatch = content.match(/^#+\s+(.+)$/m);
@@ -1,4 +1,5 @@
 // Tree Provider for Rules and State visualization
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { Rule } from '../scanner/rulesScanner';
 import { ProjectState } from '../scanner/types';
@@ -6,8 +7,19 @@ import { Command } from '../scanner/commandsScanner';
 import { Skill } from '../scanner/skillsScanner';
 import type { AgentDefinition } from '../scanner/agentsScanner';
 import { ProjectDefinition } from '../types/project';
-import { AsdlcArtifacts } from '../scanner/types';
-import type { ClaudeMdFile, ClaudeCodeArtifacts } from '../scanner/claudeCodeScanner';
+import { AsdlcArtifacts, NestedAgentsMdFile, ComplianceStatus, PillarCheck, PillarResult, SpecFile } from '../scanner/types';
+import { evaluateCompliance, PILLAR_TITLES } from '../scanner/compliance';
+import type { ClaudeMdFile, ClaudeMemoryFile, ClaudeCodeArtifacts } from '../scanner/claudeCodeScanner';
+import type { CopilotArtifacts } from '../scanner/copilotScanner';
+import type { GeminiMdFile, GeminiArtifacts } from '../scanner/geminiScanner';
+import type { KiroArtifacts } from '../scanner/kiroScanner';
+import { RULE_FOLDER_PLATFORMS, type RuleFolderArtifacts } from '../scanner/ruleFoldersScanner';
+import type { McpServerArtifacts } from '../scanner/mcpServersScanner';
+import type { CorePlatform } from '../scanner/core/types';
+import { parentAgentsMdDirectory } from '../scanner/core/agentsMdHierarchy';
+import type { CoreClaudeSettings, CoreClaudePermissionKind } from '../scanner/core/claudeSettingsCore';
+import type { CoreMcpServer } from '../scanner/core/mcpServersCore';
+import type { McpProbeMethod } from '../services/mcpProbe';
 
 export interface ProjectTreeItem extends vscode.TreeItem {
 	rule?: Rule;
@@ -19,19 +31,164 @@ export interface ProjectTreeItem extends vscode.TreeItem {
 	claudeCommandData?: Command;
 	claudeSkillData?: Skill;
 	claudeAgentDefinitionData?: AgentDefinition;
+	copilotRuleData?: Rule;
+	copilotCommandData?: Command;
+	copilotAgentDefinitionData?: AgentDefinition;
+	geminiMdData?: GeminiMdFile;
+	geminiCommandData?: Command;
+	kiroSteeringData?: Rule;
+	ruleFolderPlatform?: CorePlatform;
+	ruleFolderRuleData?: Rule;
+	mcpServerData?: CoreMcpServer;
+	/** Probe step of an Agents view MCP server node (`mcp-probe-step`) */
+	mcpProbeMethod?: McpProbeMethod;
+	specData?: SpecFile;
+	/** AGENTS.md directory relative to the project root ('' for the root AGENTS.md) */
+	agentsMdDirectory?: string;
 	stateItem?: any;
 	ruleType?: any;
 	category?: 'rules' | 'state' | 'projects' | 'ruleType' | 'commands'
-		| 'cursor' | 'agents' | 'skills'
-		| 'specs'
+		| 'cursor' | 'agents' | 'skills' | 'skill-file'
+		| 'specs' | 'agents-md'
+		| 'compliance' | 'compliance-pillar' | 'compliance-check'
 		| 'agent-definitions' | 'agent-definition'
 		| 'claude-code' | 'claude-md' | 'claude-rule' | 'claude-command' | 'claude-skill'
 		| 'claude-rules' | 'claude-commands' | 'claude-skills'
-		| 'claude-agent-definitions' | 'claude-agent-definition';
+		| 'claude-agent-definitions' | 'claude-agent-definition'
+		| 'claude-settings' | 'claude-setting'
+		| 'copilot' | 'copilot-rules' | 'copilot-rule' | 'copilot-commands' | 'copilot-command'
+		| 'copilot-agent-definitions' | 'copilot-agent-definition'
+		| 'gemini' | 'gemini-md' | 'gemini-commands' | 'gemini-command'
+		| 'kiro' | 'kiro-steering' | 'kiro-steering-rule' | 'kiro-spec' | 'kiro-spec-document'
+		| 'rule-folder' | 'rule-folder-rule'
+		| 'mcp-servers' | 'mcp-server';
 	directory?: string;
 	project?: ProjectDefinition;
 	agentRootId?: string;
 	agentSection?: 'commands' | 'skills' | 'agents' | 'mcp';
+	compliancePillar?: PillarResult;
+}
+
+const COMPLIANCE_ICONS: Record<ComplianceStatus, string> = { pass: 'pass', warn: 'warning', fail: 'error' };
+const PERMISSION_ICONS: Record<CoreClaudePermissionKind, string> = { allow: 'check', ask: 'question', deny: 'circle-slash' };
+
+/** Summary for a Settings node, e.g. `3 permissions, 1 hook` */
+export function describeClaudeSettings(settings: CoreClaudeSettings): string {
+	const permissions = settings.permissions.length;
+	const hooks = settings.hooks.length;
+	return `${permissions} ${permissions === 1 ? 'permission' : 'permissions'}, ${hooks} ${hooks === 1 ? 'hook' : 'hooks'}`;
+}
+
+/** `transport: command args` or `transport: url` of an MCP server config */
+export function describeMcpServerTarget(server: CoreMcpServer): string {
+	const target = server.url ?? [server.command, ...(server.args ?? [])].filter(Boolean).join(' ');
+	return target ? `${server.transport}: ${target}` : server.transport;
+}
+
+/**
+ * Leaves of a Claude Settings node (Claude section and Claude agent root): permission rules (deny, ask,
+ * allow), then hooks, each described by the scope of the file it comes from and opening that file.
+ */
+export function claudeSettingsItems(settings: CoreClaudeSettings): ProjectTreeItem[] {
+	if (settings.permissions.length === 0 && settings.hooks.length === 0) {
+		return [{
+			label: 'No permissions or hooks',
+			collapsibleState: vscode.TreeItemCollapsibleState.None,
+			description: settings.files.map(f => path.basename(f.path)).join(', ')
+		} as ProjectTreeItem];
+	}
+
+	const open = (filePath: string) => ({ command: 'vscode.open', title: 'Open Settings', arguments: [vscode.Uri.file(filePath)] });
+	const permissions = settings.permissions.map(permission => {
+		const item = new vscode.TreeItem(permission.rule, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+		item.category = 'claude-setting';
+		item.contextValue = 'claude-permission';
+		item.description = `${permission.kind} · ${permission.scope}`;
+		item.tooltip = permission.path;
+		item.iconPath = new vscode.ThemeIcon(PERMISSION_ICONS[permission.kind]);
+		item.command = open(permission.path);
+		return item;
+	});
+	const hooks = settings.hooks.map(hook => {
+		const item = new vscode.TreeItem(hook.matcher ? `${hook.event}: ${hook.matcher}` : hook.event, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+		item.category = 'claude-setting';
+		item.contextValue = 'claude-hook';
+		item.description = `${hook.type} hook · ${hook.scope}`;
+		item.tooltip = hook.command ? `${hook.command}\n\n${hook.path}` : hook.path;
+		item.iconPath = new vscode.ThemeIcon('zap');
+		item.command = open(hook.path);
+		return item;
+	});
+	return [...permissions, ...hooks];
+}
+
+/** `512 B`, `3.4 KB`, `1.2 MB` */
+export function formatFileSize(bytes: number): string {
+	if (bytes < 1024) {return `${bytes} B`;}
+	if (bytes < 1024 * 1024) {return `${(bytes / 1024).toFixed(1)} KB`;}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Tooltip of a skill node: its description (or legacy overview), then its Agent Skills frontmatter problems */
+export function skillTooltip(skill: Skill): string | undefined {
+	const summary = skill.metadata?.description || skill.metadata?.overview;
+	if (!skill.issues || skill.issues.length === 0) {return summary;}
+	const problems = `Agent Skills problems:\n${skill.issues.map(issue => `• ${issue.message}`).join('\n')}`;
+	return summary ? `${summary}\n\n${problems}` : problems;
+}
+
+/** Tooltip of an agent definition node: its path, then its frontmatter description (else `preview` of the file) and model */
+export function agentDefinitionTooltip(ad: AgentDefinition, preview: string): string {
+	const summary = ad.description ?? preview;
+	return ad.model ? `${ad.uri.fsPath}\n\n${summary}\n\nModel: ${ad.model}` : `${ad.uri.fsPath}\n\n${summary}`;
+}
+
+/**
+ * Fills a command node from its frontmatter: `argument-hint` as description; tooltip with the declared
+ * description (else `preview`), the hint, the `$ARGUMENTS` / `$n` (Gemini: `{{args}}`) placeholders, allowed tools and model.
+ */
+export function decorateCommandItem(item: ProjectTreeItem, cmd: Command, preview: string | undefined): void {
+	const all = cmd.platform === 'gemini' ? '{{args}}' : '$ARGUMENTS';
+	const placeholders = [...(cmd.arguments?.all ? [all] : []), ...(cmd.arguments?.positional ?? []).map(n => `$${n}`)];
+	const details = [
+		cmd.argumentHint ? `Arguments: ${cmd.argumentHint}` : undefined,
+		placeholders.length > 0 ? `Uses: ${placeholders.join(', ')}` : undefined,
+		cmd.allowedTools ? `Allowed tools: ${cmd.allowedTools.join(', ')}` : undefined,
+		cmd.model ? `Model: ${cmd.model}` : undefined
+	].filter((line): line is string => line !== undefined);
+	const summary = cmd.description ?? preview;
+	item.tooltip = details.length === 0 ? summary : [summary, details.join('\n')].filter(Boolean).join('\n\n');
+	if (cmd.argumentHint) {
+		item.description = cmd.argumentHint;
+	}
+}
+
+/** Marks a skill node whose frontmatter does not conform to the Agent Skills format: warning icon and problem count. */
+export function decorateSkillItem(item: ProjectTreeItem, skill: Skill): void {
+	const count = skill.issues?.length ?? 0;
+	item.iconPath = new vscode.ThemeIcon(count > 0 ? 'warning' : 'play-circle');
+	if (count > 0) {
+		item.description = `${count} ${count === 1 ? 'problem' : 'problems'}`;
+	}
+}
+
+/** Skill nodes (Skills, Claude Skills and agent-root Skills) expand into their bundled files. */
+export function skillCollapsibleState(skill: Skill): vscode.TreeItemCollapsibleState {
+	return skill.files && skill.files.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None;
+}
+
+/** Leaves of a skill node: the files bundled next to its SKILL.md, by relative path, each opening the file. */
+export function skillFileItems(skill: Skill): ProjectTreeItem[] {
+	return (skill.files ?? []).map(file => {
+		const item = new vscode.TreeItem(file.relativePath, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+		item.category = 'skill-file';
+		item.contextValue = 'skill-file';
+		item.description = formatFileSize(file.size);
+		item.tooltip = file.path;
+		item.iconPath = new vscode.ThemeIcon('file');
+		item.command = { command: 'vscode.open', title: 'Open Skill File', arguments: [vscode.Uri.file(file.path)] };
+		return item;
+	});
 }
 
 export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeItem> {
@@ -51,6 +208,11 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 			agentDefinitions: AgentDefinition[],
 			asdlcArtifacts: AsdlcArtifacts,
 			claudeCodeArtifacts?: ClaudeCodeArtifacts,
+			copilotArtifacts?: CopilotArtifacts,
+			geminiArtifacts?: GeminiArtifacts,
+			kiroArtifacts?: KiroArtifacts,
+			ruleFolderArtifacts?: RuleFolderArtifacts,
+			mcpServerArtifacts?: McpServerArtifacts,
 			cursorFolderExists?: boolean
 		}> = new Map(),
 		private projects: ProjectDefinition[] = [],
@@ -85,6 +247,11 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 			agentDefinitions: AgentDefinition[],
 			asdlcArtifacts: AsdlcArtifacts,
 			claudeCodeArtifacts?: ClaudeCodeArtifacts,
+			copilotArtifacts?: CopilotArtifacts,
+			geminiArtifacts?: GeminiArtifacts,
+			kiroArtifacts?: KiroArtifacts,
+			ruleFolderArtifacts?: RuleFolderArtifacts,
+			mcpServerArtifacts?: McpServerArtifacts,
 			cursorFolderExists?: boolean
 		}>,
 		projects: ProjectDefinition[],
@@ -148,11 +315,12 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 					return item;
 				});
 		} else if (element.category === 'projects' && element.project) {
-			// Project level: show platform sections (Cursor, Claude) only when their folder exists; Specs always shown
+			// Project level: show platform sections (Cursor, Claude, Copilot, Gemini, Kiro, Windsurf, Cline, Roo Code,
+			// Continue) only when present; Specs always shown
 			const project = element.project;
 			const currentProjectData = this.projectData.get(project.id);
 
-			const sections: { name: string; id: string; icon: string; description: string }[] = [];
+			const sections: { name: string; id: string; icon: string; description: string; platform?: CorePlatform }[] = [];
 
 			// Cursor section: shown only if .cursor/ folder exists at project root
 			if (currentProjectData?.cursorFolderExists === true) {
@@ -162,17 +330,52 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 			// Specs section: always shown (not platform-gated)
 			sections.push({ name: 'Specs', id: 'agents', icon: 'library', description: 'specs/' });
 
+			// Compliance section: always shown; evaluated from the already-scanned project data
+			sections.push({ name: 'Compliance', id: 'compliance', icon: 'checklist', description: 'ASDLC pillars' });
+
 			// Claude section: shown only if .claude/ folder exists at project root
 			const claudeCodeArtifacts = currentProjectData?.claudeCodeArtifacts;
 			if (claudeCodeArtifacts?.claudeFolderExists === true) {
 				sections.push({ name: 'Claude', id: 'claude-code', icon: 'device-desktop', description: 'Claude Code artifacts' });
 			}
 
+			// Copilot section: shown only if Copilot artifacts exist (.github/ alone is not a signal)
+			if (currentProjectData?.copilotArtifacts?.hasAnyArtifacts === true) {
+				sections.push({ name: 'Copilot', id: 'copilot', icon: 'copilot', description: 'GitHub Copilot artifacts' });
+			}
+
+			// Gemini section: shown if .gemini/ folder or GEMINI.md exists at project root
+			const geminiArtifacts = currentProjectData?.geminiArtifacts;
+			if (geminiArtifacts?.geminiFolderExists === true || geminiArtifacts?.geminiMd !== undefined) {
+				sections.push({ name: 'Gemini', id: 'gemini', icon: 'device-desktop', description: 'Gemini CLI artifacts' });
+			}
+
+			// Kiro section: shown only if .kiro/ folder exists at project root
+			if (currentProjectData?.kiroArtifacts?.kiroFolderExists === true) {
+				sections.push({ name: 'Kiro', id: 'kiro', icon: 'device-desktop', description: 'Kiro artifacts' });
+			}
+
+			// Windsurf, Cline, Roo Code, Continue: rules are their only artifact, so each is shown only when it has rules
+			const ruleFolderRules = currentProjectData?.ruleFolderArtifacts?.rules ?? [];
+			for (const { platform, label } of RULE_FOLDER_PLATFORMS) {
+				const count = ruleFolderRules.filter(r => r.platform === platform).length;
+				if (count > 0) {
+					sections.push({ name: label, id: 'rule-folder', icon: 'book', description: `${count} ${count === 1 ? 'rule' : 'rules'}`, platform });
+				}
+			}
+
+			// MCP Servers section: shown only if the project has project- or local-scope MCP server configs
+			const mcpServers = currentProjectData?.mcpServerArtifacts?.servers ?? [];
+			if (mcpServers.length > 0) {
+				sections.push({ name: 'MCP Servers', id: 'mcp-servers', icon: 'mcp', description: `${mcpServers.length} ${mcpServers.length === 1 ? 'server' : 'servers'}` });
+			}
+
 			sections.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
 
 			const items = sections.map((section) => {
 				const item = new vscode.TreeItem(section.name, vscode.TreeItemCollapsibleState.Expanded) as ProjectTreeItem;
-				item.category = section.id as 'cursor' | 'agents' | 'claude-code';
+				item.category = section.id as 'cursor' | 'agents' | 'claude-code' | 'copilot' | 'gemini' | 'kiro' | 'rule-folder' | 'compliance' | 'mcp-servers';
+				item.ruleFolderPlatform = section.platform;
 				item.project = project;
 				item.description = section.description;
 				item.iconPath = new vscode.ThemeIcon(section.icon);
@@ -205,20 +408,33 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				return item;
 			});
 		} else if (element.category === 'agents' && element.project) {
-			// Specs section: flat list of spec domains (specs/*/spec.md) — no nested folders, no schemas in tree
+			// Specs section: the AGENTS.md hierarchy (root AGENTS.md, nested ones under their nearest ancestor),
+			// then a flat list of spec domains (specs/*/spec.md) and Kiro specs (.kiro/specs/<feature>/)
+			// that expand into their documents — no schemas in tree
 			const projectData = this.projectData.get(element.project.id);
 			const asdlcArtifacts = projectData?.asdlcArtifacts;
 			const specs = asdlcArtifacts?.specs.specs || [];
+			const agentsMdItems = asdlcArtifacts ? this.agentsMdChildren(asdlcArtifacts, undefined, element.project) : [];
 
 			if (!asdlcArtifacts?.specs.exists || specs.length === 0) {
-				return [{
+				return [...agentsMdItems, {
 					label: 'No specs found',
 					collapsibleState: vscode.TreeItemCollapsibleState.None,
 					description: 'Add a specs/ directory with feature folders'
 				} as ProjectTreeItem];
 			}
 
-			return specs.map(spec => {
+			return [...agentsMdItems, ...specs.map(spec => {
+				if (spec.flavour === 'kiro') {
+					const item = new vscode.TreeItem(spec.domain, vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+					item.category = 'kiro-spec';
+					item.specData = spec;
+					item.project = element.project;
+					item.tooltip = `.kiro/specs/${spec.domain}/`;
+					item.description = `Kiro: ${spec.documents.map(d => d.replace(/\.md$/, '')).join(', ')}`;
+					item.iconPath = new vscode.ThemeIcon('file-code');
+					return item;
+				}
 				const item = new vscode.TreeItem(
 					spec.domain,
 					vscode.TreeItemCollapsibleState.None
@@ -236,6 +452,44 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 					arguments: [vscode.Uri.file(spec.path)]
 				};
 				return item;
+			})];
+		} else if (element.category === 'agents-md' && element.project && element.agentsMdDirectory !== undefined) {
+			// AGENTS.md → the nested AGENTS.md files it is the nearest ancestor of
+			const asdlcArtifacts = this.projectData.get(element.project.id)?.asdlcArtifacts;
+			return asdlcArtifacts ? this.agentsMdChildren(asdlcArtifacts, element.agentsMdDirectory, element.project) : [];
+		} else if (element.category === 'compliance' && element.project) {
+			// Compliance section: one node per ASDLC pillar with its status
+			const projectData = this.projectData.get(element.project.id);
+			if (!projectData) {return [];}
+			const claude = projectData.claudeCodeArtifacts;
+			const copilot = projectData.copilotArtifacts;
+			const kiro = projectData.kiroArtifacts;
+			const ruleFolders = projectData.ruleFolderArtifacts;
+			const report = evaluateCompliance(element.project.path, {
+				asdlc: projectData.asdlcArtifacts,
+				rules: [...projectData.rules, ...(claude?.rules ?? []), ...(copilot?.rules ?? []), ...(kiro?.steering ?? []), ...(ruleFolders?.rules ?? [])],
+				skills: [...projectData.skills, ...(claude?.skills ?? [])]
+			});
+
+			return report.pillars.map(pillar => {
+				const item = new vscode.TreeItem(PILLAR_TITLES[pillar.pillar], vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+				item.category = 'compliance-pillar';
+				item.project = element.project;
+				item.compliancePillar = pillar;
+				item.description = pillar.status;
+				item.tooltip = pillar.summary;
+				item.iconPath = new vscode.ThemeIcon(COMPLIANCE_ICONS[pillar.status]);
+				return item;
+			});
+		} else if (element.category === 'compliance-pillar' && element.compliancePillar) {
+			return element.compliancePillar.checks.map((check: PillarCheck) => {
+				const item = new vscode.TreeItem(check.message, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.category = 'compliance-check';
+				item.project = element.project;
+				item.description = check.name;
+				item.tooltip = check.details?.length ? `${check.message}\n\n${check.details.join('\n')}` : check.message;
+				item.iconPath = new vscode.ThemeIcon(COMPLIANCE_ICONS[check.status]);
+				return item;
 			});
 		} else if (element.category === 'commands' && element.project) {
 			// Commands section for specific project - single workspace-only list
@@ -258,7 +512,7 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				item.commandData = cmd;
 				item.category = 'commands';
 				item.project = element.project;
-				item.tooltip = this.getCommandPreview(cmd.content);
+				decorateCommandItem(item, cmd, this.getCommandPreview(cmd.content));
 				item.contextValue = 'command';
 				item.iconPath = new vscode.ThemeIcon('terminal');
 
@@ -269,6 +523,8 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				};
 				return item;
 			});
+		} else if (element.category === 'skills' && element.skillData) {
+			return skillFileItems(element.skillData);
 		} else if (element.category === 'skills' && element.project) {
 			// Skills section: single workspace-only list
 			const projectData = this.projectData.get(element.project.id);
@@ -285,14 +541,14 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 			return skills.map((skill: Skill) => {
 				const item = new vscode.TreeItem(
 					skill.metadata?.title || skill.fileName,
-					vscode.TreeItemCollapsibleState.None
+					skillCollapsibleState(skill)
 				) as ProjectTreeItem;
 				item.skillData = skill;
 				item.category = 'skills';
 				item.project = element.project;
-				item.tooltip = skill.metadata?.overview || skill.fileName;
+				item.tooltip = skillTooltip(skill) || skill.fileName;
 				item.contextValue = 'skill';
-				item.iconPath = new vscode.ThemeIcon('play-circle');
+				decorateSkillItem(item, skill);
 
 				item.command = {
 					command: 'vscode.open',
@@ -321,7 +577,7 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				item.agentDefinitionData = ad;
 				item.category = 'agent-definition';
 				item.project = element.project;
-				item.tooltip = `${ad.uri.fsPath}\n\n${this.getCommandPreview(ad.content)}`;
+				item.tooltip = agentDefinitionTooltip(ad, this.getCommandPreview(ad.content));
 				item.contextValue = 'agent-definition';
 				item.iconPath = new vscode.ThemeIcon('hubot');
 				item.command = {
@@ -368,19 +624,28 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				return item;
 			});
 		} else if (element.category === 'claude-code' && element.project) {
-			// Claude Code section: CLAUDE.md item + Agents/Rules/Commands/Skills group nodes
+			// Claude Code section: memory files in load order (CLAUDE.md, .claude/CLAUDE.md, CLAUDE.local.md,
+			// nested CLAUDE.md) + Agents/Rules/Commands/Settings/Skills group nodes
 			const projectData = this.projectData.get(element.project.id);
 			const artifacts = projectData?.claudeCodeArtifacts;
 			const items: ProjectTreeItem[] = [];
 
-			if (artifacts?.claudeMd) {
-				const item = new vscode.TreeItem('CLAUDE.md', vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
-				item.claudeMdData = artifacts.claudeMd;
+			const memoryFiles: ClaudeMemoryFile[] = artifacts?.memoryFiles
+				?? (artifacts?.claudeMd ? [{ ...artifacts.claudeMd, scope: 'project', directory: '' }] : []);
+			for (const memoryFile of memoryFiles) {
+				const relativePath = path.relative(element.project.path, memoryFile.path).split(path.sep).join('/');
+				const item = new vscode.TreeItem(
+					relativePath && !relativePath.startsWith('..') ? relativePath : path.basename(memoryFile.path),
+					vscode.TreeItemCollapsibleState.None
+				) as ProjectTreeItem;
+				item.claudeMdData = memoryFile;
 				item.category = 'claude-md';
 				item.project = element.project;
+				item.description = memoryFile.scope;
+				item.tooltip = memoryFile.path;
 				item.iconPath = new vscode.ThemeIcon('file-text');
 				item.contextValue = 'claude-md';
-				item.command = { command: 'vscode.open', title: 'Open CLAUDE.md', arguments: [artifacts.claudeMd.uri] };
+				item.command = { command: 'vscode.open', title: 'Open CLAUDE.md', arguments: [memoryFile.uri] };
 				items.push(item);
 			}
 
@@ -425,14 +690,24 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				items.push(item);
 			}
 
-			// Sort group items (excluding CLAUDE.md leaf) alphabetically by label
-			const claudeMdItem = items.find(i => i.category === 'claude-md');
+			// Settings group — shown when .claude/settings.json or settings.local.json could be read
+			if (artifacts?.settings && artifacts.settings.files.length > 0) {
+				const item = new vscode.TreeItem('Settings', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+				item.description = describeClaudeSettings(artifacts.settings);
+				item.category = 'claude-settings';
+				item.project = element.project;
+				item.iconPath = new vscode.ThemeIcon('settings-gear');
+				items.push(item);
+			}
+
+			// Sort group items (excluding the memory leaves, kept in load order) alphabetically by label
+			const memoryItems = items.filter(i => i.category === 'claude-md');
 			const groupItems = items.filter(i => i.category !== 'claude-md');
 			groupItems.sort((a, b) =>
 				(a.label as string).localeCompare(b.label as string, undefined, { sensitivity: 'base' })
 			);
 
-			return claudeMdItem ? [claudeMdItem, ...groupItems] : groupItems;
+			return [...memoryItems, ...groupItems];
 		} else if (element.category === 'claude-agent-definitions' && element.project) {
 			// Claude → Agents subsection: list .claude/agents/*.md leaves
 			const projectData = this.projectData.get(element.project.id);
@@ -454,7 +729,7 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				item.claudeAgentDefinitionData = ad;
 				item.category = 'claude-agent-definition';
 				item.project = element.project;
-				item.tooltip = `${ad.uri.fsPath}\n\n${this.getCommandPreview(ad.content)}`;
+				item.tooltip = agentDefinitionTooltip(ad, this.getCommandPreview(ad.content));
 				item.contextValue = 'claude-agent-definition';
 				item.iconPath = new vscode.ThemeIcon('hubot');
 				item.command = {
@@ -464,6 +739,9 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				};
 				return item;
 			});
+		} else if (element.category === 'claude-settings' && element.project) {
+			const settings = this.projectData.get(element.project.id)?.claudeCodeArtifacts?.settings;
+			return settings ? claudeSettingsItems(settings) : [];
 		} else if (element.category === 'claude-rules' && element.project) {
 			const projectData = this.projectData.get(element.project.id);
 			const rules = projectData?.claudeCodeArtifacts?.rules || [];
@@ -489,11 +767,14 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 				item.claudeCommandData = cmd;
 				item.category = 'claude-command';
 				item.project = element.project;
+				decorateCommandItem(item, cmd, this.getCommandPreview(cmd.content));
 				item.contextValue = 'claude-command';
 				item.iconPath = new vscode.ThemeIcon('terminal');
 				item.command = { command: 'vscode.open', title: 'Open Command', arguments: [cmd.uri] };
 				return item;
 			});
+		} else if (element.category === 'claude-skill' && element.claudeSkillData) {
+			return skillFileItems(element.claudeSkillData);
 		} else if (element.category === 'claude-skills' && element.project) {
 			const projectData = this.projectData.get(element.project.id);
 			const skills = projectData?.claudeCodeArtifacts?.skills || [];
@@ -501,17 +782,202 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 			return skills.map((skill: Skill) => {
 				const item = new vscode.TreeItem(
 					skill.metadata?.title ?? skill.fileName,
-					vscode.TreeItemCollapsibleState.None
+					skillCollapsibleState(skill)
 				) as ProjectTreeItem;
 				item.claudeSkillData = skill;
 				item.category = 'claude-skill';
 				item.project = element.project;
-				item.tooltip = skill.metadata?.overview;
+				item.tooltip = skillTooltip(skill);
 				item.contextValue = 'claude-skill';
-				item.iconPath = new vscode.ThemeIcon('play-circle');
+				decorateSkillItem(item, skill);
 				item.command = { command: 'vscode.open', title: 'Open Skill', arguments: [skill.uri] };
 				return item;
 			});
+		} else if (element.category === 'copilot' && element.project) {
+			// Copilot section: Agents (chat modes), Commands (prompt files), Rules (instructions) — non-empty groups only
+			const artifacts = this.projectData.get(element.project.id)?.copilotArtifacts;
+			const groups = [
+				{ name: 'Agents', id: 'copilot-agent-definitions', icon: 'hubot', count: artifacts?.agentDefinitions.length || 0, noun: 'agent' },
+				{ name: 'Commands', id: 'copilot-commands', icon: 'terminal', count: artifacts?.commands.length || 0, noun: 'command' },
+				{ name: 'Rules', id: 'copilot-rules', icon: 'bookmark', count: artifacts?.rules.length || 0, noun: 'rule' }
+			];
+
+			return groups.filter(group => group.count > 0).map((group) => {
+				const item = new vscode.TreeItem(group.name, vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+				item.description = `${group.count} ${group.count === 1 ? group.noun : `${group.noun}s`}`;
+				item.category = group.id as 'copilot-agent-definitions' | 'copilot-commands' | 'copilot-rules';
+				item.project = element.project;
+				item.iconPath = new vscode.ThemeIcon(group.icon);
+				return item;
+			});
+		} else if (element.category === 'copilot-agent-definitions' && element.project) {
+			const defs = this.projectData.get(element.project.id)?.copilotArtifacts?.agentDefinitions || [];
+
+			return defs.map((ad: AgentDefinition) => {
+				const item = new vscode.TreeItem(ad.displayName, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.copilotAgentDefinitionData = ad;
+				item.category = 'copilot-agent-definition';
+				item.project = element.project;
+				item.tooltip = agentDefinitionTooltip(ad, this.getCommandPreview(ad.content));
+				item.contextValue = 'copilot-agent-definition';
+				item.iconPath = new vscode.ThemeIcon('hubot');
+				item.command = { command: 'vscode.open', title: 'Open Agent Definition', arguments: [ad.uri] };
+				return item;
+			});
+		} else if (element.category === 'copilot-commands' && element.project) {
+			const commands = this.projectData.get(element.project.id)?.copilotArtifacts?.commands || [];
+
+			return commands.map((cmd: Command) => {
+				const item = new vscode.TreeItem(cmd.fileName, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.copilotCommandData = cmd;
+				item.category = 'copilot-command';
+				item.project = element.project;
+				decorateCommandItem(item, cmd, this.getCommandPreview(cmd.content));
+				item.contextValue = 'copilot-command';
+				item.iconPath = new vscode.ThemeIcon('terminal');
+				item.command = { command: 'vscode.open', title: 'Open Command', arguments: [cmd.uri] };
+				return item;
+			});
+		} else if (element.category === 'copilot-rules' && element.project) {
+			const rules = this.projectData.get(element.project.id)?.copilotArtifacts?.rules || [];
+
+			return rules.map((rule: Rule) => {
+				const item = new vscode.TreeItem(rule.fileName, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.copilotRuleData = rule;
+				item.category = 'copilot-rule';
+				item.project = element.project;
+				item.tooltip = rule.metadata.description;
+				item.contextValue = 'copilot-rule';
+				item.iconPath = new vscode.ThemeIcon('bookmark');
+				item.command = { command: 'vscode.open', title: 'Open Rule', arguments: [rule.uri] };
+				return item;
+			});
+		} else if (element.category === 'gemini' && element.project) {
+			// Gemini section: GEMINI.md leaf first, then the Commands group (always shown)
+			const artifacts = this.projectData.get(element.project.id)?.geminiArtifacts;
+			const items: ProjectTreeItem[] = [];
+
+			if (artifacts?.geminiMd) {
+				const item = new vscode.TreeItem('GEMINI.md', vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.geminiMdData = artifacts.geminiMd;
+				item.category = 'gemini-md';
+				item.project = element.project;
+				item.iconPath = new vscode.ThemeIcon('file-text');
+				item.contextValue = 'gemini-md';
+				item.command = { command: 'vscode.open', title: 'Open GEMINI.md', arguments: [artifacts.geminiMd.uri] };
+				items.push(item);
+			}
+
+			const commandsCount = artifacts?.commands.length || 0;
+			const commandsItem = new vscode.TreeItem('Commands', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+			commandsItem.description = `${commandsCount} ${commandsCount === 1 ? 'command' : 'commands'}`;
+			commandsItem.category = 'gemini-commands';
+			commandsItem.project = element.project;
+			commandsItem.iconPath = new vscode.ThemeIcon('terminal');
+			items.push(commandsItem);
+
+			return items;
+		} else if (element.category === 'gemini-commands' && element.project) {
+			// Gemini → Commands: TOML commands named by path (`git/commit.toml` → `git:commit`)
+			const commands = this.projectData.get(element.project.id)?.geminiArtifacts?.commands || [];
+
+			if (commands.length === 0) {
+				return [{
+					label: 'No commands found',
+					collapsibleState: vscode.TreeItemCollapsibleState.None,
+					description: 'Add TOML files to .gemini/commands/'
+				} as ProjectTreeItem];
+			}
+
+			return commands.map((cmd: Command) => {
+				const item = new vscode.TreeItem(cmd.fileName, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.geminiCommandData = cmd;
+				item.category = 'gemini-command';
+				item.project = element.project;
+				decorateCommandItem(item, cmd, undefined);
+				item.contextValue = 'gemini-command';
+				item.iconPath = new vscode.ThemeIcon('terminal');
+				item.command = { command: 'vscode.open', title: 'Open Command', arguments: [cmd.uri] };
+				return item;
+			});
+		} else if (element.category === 'kiro' && element.project) {
+			// Kiro section: Steering group (always shown); Kiro specs are listed under Specs
+			const steeringCount = this.projectData.get(element.project.id)?.kiroArtifacts?.steering.length || 0;
+			const item = new vscode.TreeItem('Steering', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+			item.description = `${steeringCount} ${steeringCount === 1 ? 'rule' : 'rules'}`;
+			item.category = 'kiro-steering';
+			item.project = element.project;
+			item.iconPath = new vscode.ThemeIcon('bookmark');
+			return [item];
+		} else if (element.category === 'kiro-steering' && element.project) {
+			const rules = this.projectData.get(element.project.id)?.kiroArtifacts?.steering || [];
+
+			if (rules.length === 0) {
+				return [{
+					label: 'No steering files found',
+					collapsibleState: vscode.TreeItemCollapsibleState.None,
+					description: 'Add Markdown files to .kiro/steering/'
+				} as ProjectTreeItem];
+			}
+
+			return rules.map((rule: Rule) => {
+				const item = new vscode.TreeItem(rule.fileName, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.kiroSteeringData = rule;
+				item.category = 'kiro-steering-rule';
+				item.project = element.project;
+				item.description = rule.metadata.alwaysApply ? 'always' : (rule.metadata.globs?.length ? 'fileMatch' : 'manual');
+				item.tooltip = rule.metadata.description;
+				item.contextValue = 'kiro-steering-rule';
+				item.iconPath = new vscode.ThemeIcon('bookmark');
+				item.command = { command: 'vscode.open', title: 'Open Steering File', arguments: [rule.uri] };
+				return item;
+			});
+		} else if (element.category === 'kiro-spec' && element.specData) {
+			// Kiro spec → its requirements/design/tasks documents
+			const dir = path.dirname(element.specData.path);
+			return element.specData.documents.map(document => {
+				const uri = vscode.Uri.file(path.join(dir, document));
+				const item = new vscode.TreeItem(document, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.category = 'kiro-spec-document';
+				item.project = element.project;
+				item.tooltip = uri.fsPath;
+				item.iconPath = new vscode.ThemeIcon('file-text');
+				item.command = { command: 'vscode.open', title: 'Open Spec Document', arguments: [uri] };
+				return item;
+			});
+		} else if (element.category === 'rule-folder' && element.project && element.ruleFolderPlatform) {
+			// Windsurf / Cline / Roo Code / Continue section: that platform's rules
+			const platform = element.ruleFolderPlatform;
+			const rules = (this.projectData.get(element.project.id)?.ruleFolderArtifacts?.rules || []).filter(r => r.platform === platform);
+
+			return rules.map((rule: Rule) => {
+				const item = new vscode.TreeItem(rule.fileName, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.ruleFolderRuleData = rule;
+				item.category = 'rule-folder-rule';
+				item.project = element.project;
+				item.description = rule.metadata.alwaysApply ? 'always' : (rule.metadata.globs?.length ? 'glob' : 'manual');
+				item.tooltip = rule.metadata.description;
+				item.contextValue = 'rule-folder-rule';
+				item.iconPath = new vscode.ThemeIcon('book');
+				item.command = { command: 'vscode.open', title: 'Open Rule', arguments: [rule.uri] };
+				return item;
+			});
+		} else if (element.category === 'mcp-servers' && element.project) {
+			// MCP Servers section: local, project (.mcp.json, .cursor/mcp.json) scope servers in precedence order
+			const servers = this.projectData.get(element.project.id)?.mcpServerArtifacts?.servers || [];
+
+			return servers.map(server => {
+				const item = new vscode.TreeItem(server.name, vscode.TreeItemCollapsibleState.None) as ProjectTreeItem;
+				item.mcpServerData = server;
+				item.category = 'mcp-server';
+				item.project = element.project;
+				item.description = `${server.agent} · ${server.scope}${server.effective ? '' : ' · overridden'}`;
+				item.tooltip = `${describeMcpServerTarget(server)}\n\n${server.path}`;
+				item.contextValue = 'project-mcp-server';
+				item.iconPath = new vscode.ThemeIcon(server.effective ? 'plug' : 'debug-disconnect');
+				item.command = { command: 'vscode.open', title: 'Open MCP Config', arguments: [vscode.Uri.file(server.path)] };
+				return item;
+			});
 		}
 
 		return [];
@@ -525,11 +991,47 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<ProjectTreeI
 		}
 	}
 
+	/**
+	 * AGENTS.md hierarchy items below `parentDirectory`: with no parent, the root AGENTS.md (or, without one,
+	 * the top-most nested files); under an AGENTS.md, the nested files it is the nearest ancestor of.
+	 */
+	private agentsMdChildren(asdlc: AsdlcArtifacts, parentDirectory: string | undefined, project: ProjectDefinition): ProjectTreeItem[] {
+		const nested = asdlc.nestedAgentsMd || [];
+		const directories = nested.map(n => n.directory);
+		const childrenOf = (directory: string): NestedAgentsMdFile[] =>
+			nested.filter(n => parentAgentsMdDirectory(n.directory, directories) === (directory === '' ? undefined : directory));
+		const toItem = (filePath: string, directory: string): ProjectTreeItem => {
+			const hasChildren = childrenOf(directory).length > 0;
+			const item = new vscode.TreeItem(
+				directory === '' ? 'AGENTS.md' : directory,
+				hasChildren ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+			) as ProjectTreeItem;
+			item.category = 'agents-md';
+			item.agentsMdDirectory = directory;
+			item.project = project;
+			item.description = directory === '' ? 'project root' : 'AGENTS.md';
+			item.tooltip = filePath;
+			item.iconPath = new vscode.ThemeIcon('book');
+			item.command = { command: 'vscode.open', title: 'Open AGENTS.md', arguments: [vscode.Uri.file(filePath)] };
+			return item;
+		};
+
+		if (parentDirectory === undefined) {
+			const root = asdlc.agentsMd;
+			if (root.exists && root.path) {
+				return [toItem(root.path, '')];
+			}
+			return childrenOf('').map(n => toItem(n.path, n.directory));
+		}
+		return childrenOf(parentDirectory).map(n => toItem(n.path, n.directory));
+	}
+
 	/**
 	 * Generate preview text for command tooltip
-	 * Extracts first heading or first non-empty line from command content
+	 * Extracts first heading or first non-empty line from command content (after any frontmatter)
 	 */
-	private getCommandPreview(content: string): string {
+	private getCommandPreview(text: string): string {
+		const content = text.replace(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/, '');
 		// Try to find first heading
 		const headingMatch = content.match(/^#+\s+(.+)$/m);
 		if (headingMatch) {
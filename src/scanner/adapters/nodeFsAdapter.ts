@@ -34,7 +34,7 @@ export class NodeFsAdapter implements IFileSystem {
 		return result;
 	}
 
-	async stat(filePath: string): Promise<{ type: FileTypeValue; mtime?: number }> {
+	async stat(filePath: string): Promise<{ type: FileTypeValue; mtime?: number; size?: number }> {
 		const stat = await fs.stat(filePath);
 		let type: FileTypeValue = FileType.Unknown;
 		if (stat.isDirectory()) {
@@ -46,7 +46,8 @@ export class NodeFsAdapter implements IFileSystem {
 		}
 		return {
 			type,
-			mtime: stat.mtimeMs
+			mtime: stat.mtimeMs,
+			size: stat.size
 		};
 	}
 }
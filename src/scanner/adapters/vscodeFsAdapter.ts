@@ -23,12 +23,13 @@ export class VSCodeFsAdapter implements IFileSystem {
 		return entries.map(([name, type]) => [name, type as FileTypeValue]);
 	}
 
-	async stat(filePath: string): Promise<{ type: FileTypeValue; mtime?: number }> {
+	async stat(filePath: string): Promise<{ type: FileTypeValue; mtime?: number; size?: number }> {
 		const uri = vscode.Uri.file(filePath);
 		const stat = await vscode.workspace.fs.stat(uri);
 		return {
 			type: stat.type as FileTypeValue,
-			mtime: stat.mtime
+			mtime: stat.mtime,
+			size: stat.size
 		};
 	}
 }
@@ -6,15 +6,25 @@ import {
 	scanAgentDefinitionsInDirectory,
 	scanWorkspaceAgentDefinitionsCore
 } from './core/scanAgentDefinitionsCore';
-import type { CorePlatform } from './core/types';
+import type { CoreAgentDefinition, CorePlatform } from './core/types';
 
 export interface AgentDefinition {
 	uri: vscode.Uri;
 	content: string;
 	/** Display stem (basename without `.md`) */
 	fileName: string;
+	/** Frontmatter `name`, else `fileName` */
 	displayName: string;
 	platform: CorePlatform;
+	description?: string;
+	tools?: string[];
+	model?: string;
+	color?: string;
+}
+
+function toAgentDefinition(c: CoreAgentDefinition): AgentDefinition {
+	const { path, ...rest } = c;
+	return { uri: vscode.Uri.file(path), ...rest };
 }
 
 export class AgentsScanner {
@@ -30,13 +40,7 @@ export class AgentsScanner {
 		try {
 			const fs = new VSCodeFsAdapter();
 			const core = await scanWorkspaceAgentDefinitionsCore(fs, this.workspaceRoot.fsPath);
-			return core.map((c) => ({
-				uri: vscode.Uri.file(c.path),
-				content: c.content,
-				fileName: c.fileName,
-				displayName: c.displayName,
-				platform: c.platform
-			}));
+			return core.map(toAgentDefinition);
 		} catch {
 			return [];
 		}
@@ -52,13 +56,7 @@ export async function scanAgentDefinitionsForAgentRoot(agentRootAbsolutePath: st
 		const fs = new VSCodeFsAdapter();
 		const agentsDir = agentRootAgentsDirectory(agentRootAbsolutePath);
 		const core = await scanAgentDefinitionsInDirectory(fs, agentsDir);
-		return core.map((c) => ({
-			uri: vscode.Uri.file(c.path),
-			content: c.content,
-			fileName: c.fileName,
-			displayName: c.displayName,
-			platform: c.platform
-		}));
+		return core.map(toAgentDefinition);
 	} catch {
 		return [];
 	}
@@ -2,15 +2,8 @@
 // Uses shared scanAsdlcCore with VSCodeFsAdapter
 // See: specs/scanners/spec.md for architecture and contracts
 import * as vscode from 'vscode';
-import {
-	AgentsMdInfo,
-	SpecsInfo,
-	SpecFile,
-	SchemasInfo,
-	SchemaFile,
-	AsdlcArtifacts
-} from './types';
-import { parseAgentsMd as parseAgentsMdContent } from './asdlcParsing';
+import { AsdlcArtifacts } from './types';
+import { toAsdlcArtifacts } from './asdlcParsing';
 import { VSCodeFsAdapter } from './adapters/vscodeFsAdapter';
 import { scanAsdlcCore } from './core/scanAsdlcCore';
 
@@ -32,40 +25,9 @@ export class AsdlcArtifactScanner {
 	async scanAll(): Promise<AsdlcArtifacts> {
 		try {
 			const fs = new VSCodeFsAdapter();
-			const core = await scanAsdlcCore(fs, this.workspaceRoot.fsPath);
+			const core = await scanAsdlcCore(fs, this.workspaceRoot.fsPath, { nestedAgentsMd: true });
 
-			const agentsMd: AgentsMdInfo = core.agentsMd.exists && core.agentsMd.content && core.agentsMd.path
-				? parseAgentsMdContent(core.agentsMd.content, core.agentsMd.path)
-				: { exists: false, sections: [] };
-
-			const specs: SpecsInfo = {
-				exists: core.specs.exists,
-				path: core.specs.path,
-				specs: core.specs.specs.map((s) => ({
-					domain: s.domain,
-					path: s.path,
-					hasBlueprint: s.hasBlueprint,
-					hasContract: s.hasContract,
-					lastModified: s.lastModified
-				}))
-			};
-
-			const schemas: SchemasInfo = {
-				exists: core.schemas.exists,
-				path: core.schemas.path,
-				schemas: core.schemas.schemas.map((s) => ({
-					name: s.name,
-					path: s.path,
-					schemaId: s.schemaId
-				}))
-			};
-
-			return {
-				agentsMd,
-				specs,
-				schemas,
-				hasAnyArtifacts: core.hasAnyArtifacts
-			};
+			return toAsdlcArtifacts(core);
 		} catch {
 			return {
 				agentsMd: { exists: false, sections: [] },
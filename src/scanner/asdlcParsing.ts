@@ -4,9 +4,12 @@
 import type {
 	AgentsMdInfo,
 	AgentsMdSection,
+	AgentsMdSectionContent,
+	AsdlcArtifacts,
 	TechStackInfo,
 	OperationalBoundaries
 } from './types';
+import type { CoreAsdlcArtifacts } from './core/types';
 
 /**
  * Parse AGENTS.md content into structured info
@@ -30,6 +33,43 @@ export function parseAgentsMd(content: string, path: string): AgentsMdInfo {
 	};
 }
 
+/**
+ * Convert a core ASDLC scan into AsdlcArtifacts (AGENTS.md parsed for mission, tech stack, boundaries)
+ */
+export function toAsdlcArtifacts(core: CoreAsdlcArtifacts): AsdlcArtifacts {
+	const agentsMd: AgentsMdInfo = core.agentsMd.exists && core.agentsMd.content && core.agentsMd.path
+		? parseAgentsMd(core.agentsMd.content, core.agentsMd.path)
+		: { exists: false, sections: [] };
+
+	return {
+		agentsMd,
+		nestedAgentsMd: core.nestedAgentsMd.map((n) => ({ path: n.path, directory: n.directory })),
+		specs: {
+			exists: core.specs.exists,
+			path: core.specs.path,
+			specs: core.specs.specs.map((s) => ({
+				domain: s.domain,
+				path: s.path,
+				hasBlueprint: s.hasBlueprint,
+				hasContract: s.hasContract,
+				lastModified: s.lastModified,
+				flavour: s.flavour,
+				documents: s.documents
+			}))
+		},
+		schemas: {
+			exists: core.schemas.exists,
+			path: core.schemas.path,
+			schemas: core.schemas.schemas.map((s) => ({
+				name: s.name,
+				path: s.path,
+				schemaId: s.schemaId
+			}))
+		},
+		hasAnyArtifacts: core.hasAnyArtifacts
+	};
+}
+
 /**
  * Parse markdown headings into section structure
  */
@@ -63,6 +103,42 @@ export function parseSections(lines: string[]): AgentsMdSection[] {
 	return sections;
 }
 
+function normalizeHeading(title: string): string {
+	return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Find a section by heading title (case- and punctuation-insensitive; exact match before substring match)
+ */
+export function findSection(sections: AgentsMdSection[], title: string): AgentsMdSection | undefined {
+	const needle = normalizeHeading(title);
+	if (!needle) {return undefined;}
+	return sections.find(s => normalizeHeading(s.title) === needle)
+		?? sections.find(s => normalizeHeading(s.title).includes(needle));
+}
+
+/**
+ * Extract one AGENTS.md section by heading title. The section runs until the next heading
+ * of the same or higher level, so subsections are included.
+ */
+export function extractAgentsMdSection(content: string, title: string): AgentsMdSectionContent | undefined {
+	const lines = content.split('\n');
+	const sections = parseSections(lines);
+	const section = findSection(sections, title);
+	if (!section) {
+		return undefined;
+	}
+
+	const next = sections.slice(sections.indexOf(section) + 1).find(s => s.level <= section.level);
+	const endLine = next ? next.startLine - 1 : lines.length - 1;
+
+	return {
+		...section,
+		endLine,
+		content: lines.slice(section.startLine, endLine + 1).join('\n').trimEnd()
+	};
+}
+
 /**
  * Extract mission from blockquote: > **Project Mission:** ...
  */
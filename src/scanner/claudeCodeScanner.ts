@@ -1,8 +1,10 @@
 // Claude Code project-level artifact scanner
-// Scans CLAUDE.md, .claude/rules/, .claude/commands/, .claude/skills/, .claude/agents/
+// Scans CLAUDE.md memory files, .claude/rules/, .claude/commands/, .claude/skills/, .claude/agents/, .claude/settings*.json
 import * as vscode from 'vscode';
 import { VSCodeFsAdapter } from './adapters/vscodeFsAdapter';
 import { scanClaudeCodeCore } from './core/scanClaudeCodeCore';
+import type { CoreClaudeMemoryScope } from './core/claudeMemoryCore';
+import type { CoreClaudeSettings } from './core/claudeSettingsCore';
 import { RulesScanner, type Rule } from './rulesScanner';
 import { CommandsScanner, type Command } from './commandsScanner';
 import { SkillsScanner, type Skill } from './skillsScanner';
@@ -13,12 +15,22 @@ export interface ClaudeMdFile {
 	path: string;
 }
 
+/** A Claude Code memory file; `directory` is relative to the project root ('' for the root) */
+export interface ClaudeMemoryFile extends ClaudeMdFile {
+	scope: CoreClaudeMemoryScope;
+	directory: string;
+}
+
 export interface ClaudeCodeArtifacts {
 	claudeMd: ClaudeMdFile | undefined;
+	/** Project memory files in load order (CLAUDE.md, .claude/CLAUDE.md, CLAUDE.local.md, nested CLAUDE.md) */
+	memoryFiles?: ClaudeMemoryFile[];
 	rules: Rule[];
 	commands: Command[];
 	skills: Skill[];
 	agentDefinitions: AgentDefinition[];
+	/** Merged permissions, hooks and env of .claude/settings.json and .claude/settings.local.json */
+	settings?: CoreClaudeSettings;
 	claudeFolderExists: boolean;
 	hasAnyArtifacts: boolean;
 }
@@ -37,7 +49,7 @@ export class ClaudeCodeScanner {
 			// claudeMdPath/claudeFolderExists/hasAnyArtifacts are unrelated to the four artifact
 			// types unified in spec 011 — sourced from scanClaudeCodeCore() unchanged.
 			const [core, allRules, allCommands, allSkills, allAgentDefinitions] = await Promise.all([
-				scanClaudeCodeCore(fs, this.workspaceRoot.fsPath),
+				scanClaudeCodeCore(fs, this.workspaceRoot.fsPath, { nestedMemory: true }),
 				rulesScanner.scanAllRules(),
 				commandsScanner.scanAllWorkspaceCommands(),
 				skillsScanner.scanAllWorkspaceSkills(),
@@ -48,10 +60,12 @@ export class ClaudeCodeScanner {
 				claudeMd: core.claudeMdPath
 					? { uri: vscode.Uri.file(core.claudeMdPath), path: core.claudeMdPath }
 					: undefined,
+				memoryFiles: core.memoryFiles.map(f => ({ uri: vscode.Uri.file(f.path), path: f.path, scope: f.scope, directory: f.directory })),
 				rules: allRules.filter(r => r.platform === 'claude'),
 				commands: allCommands.filter(c => c.platform === 'claude'),
 				skills: allSkills.filter(s => s.platform === 'claude'),
 				agentDefinitions: allAgentDefinitions.filter(a => a.platform === 'claude'),
+				settings: core.settings,
 				claudeFolderExists: core.claudeFolderExists,
 				hasAnyArtifacts: core.hasAnyArtifacts
 			};
@@ -68,7 +82,7 @@ export class ClaudeCodeScanner {
 		}
 	}
 
-	watchAll(callback: () => void): vscode.Disposable[] {
+	watchAll(callback: (uri: vscode.Uri) => void): vscode.Disposable[] {
 		const patterns = [
 			'.claude/rules/**/*.{mdc,md}',
 			'.claude/commands/*.md',
@@ -77,7 +91,10 @@ export class ClaudeCodeScanner {
 			// won't match the deleted parent folder.
 			'.claude/skills/**',
 			'.claude/agents/*.md',
-			'CLAUDE.md'
+			'.claude/CLAUDE.md',
+			'.claude/settings{,.local}.json',
+			'**/CLAUDE.md',
+			'**/CLAUDE.local.md'
 		];
 
 		return patterns.map(pattern => {
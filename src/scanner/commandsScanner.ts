@@ -4,7 +4,7 @@ import * as vscode from 'vscode';
 import * as os from 'os';
 import { VSCodeFsAdapter } from './adapters/vscodeFsAdapter';
 import { scanCommandsCore } from './core/scanCommandsCore';
-import type { CorePlatform } from './core/types';
+import type { CoreCommand, CoreCommandArguments, CorePlatform } from './core/types';
 
 export interface Command {
 	uri: vscode.Uri;
@@ -12,6 +12,17 @@ export interface Command {
 	fileName: string;
 	location: 'workspace' | 'global';
 	platform: CorePlatform;
+	description?: string;
+	argumentHint?: string;
+	allowedTools?: string[];
+	model?: string;
+	arguments?: CoreCommandArguments;
+}
+
+/** Core command with a `vscode.Uri` in place of its path */
+export function toCommand(c: CoreCommand): Command {
+	const { path, ...rest } = c;
+	return { uri: vscode.Uri.file(path), ...rest };
 }
 
 export class CommandsScanner {
@@ -22,7 +33,7 @@ export class CommandsScanner {
 		return all.filter((c) => c.platform === 'cursor');
 	}
 
-	/** All workspace commands from both `.cursor/commands/` and `.claude/commands/`, platform-tagged (spec 011). */
+	/** All workspace commands (`.cursor/commands/`, `.claude/commands/`, Copilot prompts, Gemini TOML), platform-tagged (spec 011). */
 	async scanAllWorkspaceCommands(): Promise<Command[]> {
 		const all = await this.scanAll();
 		return all.filter((c) => c.location === 'workspace');
@@ -37,13 +48,7 @@ export class CommandsScanner {
 		try {
 			const fs = new VSCodeFsAdapter();
 			const coreCommands = await scanCommandsCore(fs, this.workspaceRoot.fsPath, os.homedir());
-			return coreCommands.map((c) => ({
-				uri: vscode.Uri.file(c.path),
-				content: c.content,
-				fileName: c.fileName,
-				location: c.location,
-				platform: c.platform
-			}));
+			return coreCommands.map(toCommand);
 		} catch {
 			return [];
 		}
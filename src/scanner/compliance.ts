@@ -0,0 +1,212 @@
+// ASDLC compliance evaluation - pure functions over scanned artifacts (NO vscode runtime dependency)
+// Produces a ComplianceReport for the three ASDLC pillars from AGENTS.md, specs/, schemas/, rules and skills.
+// Used by get_compliance (standalone + bridge) and the Compliance node in the Workspaces tree.
+// See: specs/scanners/spec.md
+import type {
+	AsdlcArtifacts,
+	ComplianceReport,
+	ComplianceStatus,
+	PillarCheck,
+	PillarName,
+	PillarResult
+} from './types';
+import { NO_RULE_DESCRIPTION } from './core/ruleParsing';
+
+/** Rule fields compliance looks at (satisfied by Rule and CoreRule). Parsers fill in NO_RULE_DESCRIPTION. */
+export interface ComplianceRuleInput {
+	fileName: string;
+	metadata: { description: string };
+}
+
+/** Skill fields compliance looks at (satisfied by Skill and CoreSkill). */
+export interface ComplianceSkillInput {
+	fileName: string;
+	location: 'workspace' | 'global';
+	metadata?: { description?: string };
+}
+
+export interface ComplianceInput {
+	asdlc: AsdlcArtifacts;
+	/** Project rules (.cursor/rules and .claude/rules) */
+	rules: ComplianceRuleInput[];
+	/** Skills; only workspace skills count toward the project */
+	skills: ComplianceSkillInput[];
+}
+
+/** A check plus the recommendation reported when it does not pass. */
+interface EvaluatedCheck extends PillarCheck {
+	recommendation?: string;
+}
+
+/** Display titles for the pillars (report summaries, tree labels). */
+export const PILLAR_TITLES: Record<PillarName, string> = {
+	'factory-architecture': 'Factory Architecture',
+	'standardized-parts': 'Standardized Parts',
+	'quality-control': 'Quality Control'
+};
+
+function check(
+	name: string,
+	status: ComplianceStatus,
+	message: string,
+	recommendation?: string,
+	details?: string[]
+): EvaluatedCheck {
+	return {
+		name,
+		status,
+		message,
+		...(details && details.length > 0 ? { details } : {}),
+		...(status !== 'pass' && recommendation ? { recommendation } : {})
+	};
+}
+
+/** Worst status wins: fail > warn > pass. */
+export function combineStatus(statuses: ComplianceStatus[]): ComplianceStatus {
+	if (statuses.includes('fail')) {return 'fail';}
+	if (statuses.includes('warn')) {return 'warn';}
+	return 'pass';
+}
+
+/** Factory Architecture: AGENTS.md with mission, tech stack and 3-tier operational boundaries. */
+function factoryArchitectureChecks(asdlc: AsdlcArtifacts): EvaluatedCheck[] {
+	const agentsMd = asdlc.agentsMd;
+	if (!agentsMd.exists) {
+		return [check('agents-md', 'fail', 'AGENTS.md not found at project root',
+			'Add an AGENTS.md with a project mission, tech stack and operational boundaries')];
+	}
+
+	const checks: EvaluatedCheck[] = [check('agents-md', 'pass', 'AGENTS.md found')];
+	checks.push(agentsMd.mission
+		? check('mission', 'pass', 'Project mission defined')
+		: check('mission', 'warn', 'AGENTS.md has no project mission',
+			'Add a "> **Project Mission:** ..." blockquote to AGENTS.md'));
+
+	const techStack = agentsMd.techStack;
+	const hasTechStack = !!techStack && (techStack.languages.length + techStack.frameworks.length + techStack.buildTools.length + techStack.testing.length > 0 || !!techStack.packageManager);
+	checks.push(hasTechStack
+		? check('tech-stack', 'pass', 'Tech stack documented')
+		: check('tech-stack', 'warn', 'AGENTS.md does not document the tech stack',
+			'Add a "## Tech Stack" section listing languages, frameworks, build tools and testing'));
+
+	const boundaries = agentsMd.operationalBoundaries;
+	if (!boundaries) {
+		checks.push(check('operational-boundaries', 'fail', 'No operational boundaries defined',
+			'Add a "## Operational Boundaries" section with Tier 1 (ALWAYS), Tier 2 (ASK) and Tier 3 (NEVER) rules'));
+	} else {
+		const missing = [
+			boundaries.tier1Always.length === 0 ? 'Tier 1 (ALWAYS)' : undefined,
+			boundaries.tier2Ask.length === 0 ? 'Tier 2 (ASK)' : undefined,
+			boundaries.tier3Never.length === 0 ? 'Tier 3 (NEVER)' : undefined
+		].filter((t): t is string => t !== undefined);
+		checks.push(missing.length === 0
+			? check('operational-boundaries', 'pass', 'All three boundary tiers defined')
+			: check('operational-boundaries', 'warn', `Operational boundaries missing ${missing.length} tier(s)`,
+				'Fill in every boundary tier with at least one bullet', missing));
+	}
+	return checks;
+}
+
+/** Standardized Parts: specs with Blueprint + Contract, schemas with $id. */
+function standardizedPartsChecks(asdlc: AsdlcArtifacts): EvaluatedCheck[] {
+	const checks: EvaluatedCheck[] = [];
+	const specs = asdlc.specs.specs;
+	if (!asdlc.specs.exists || specs.length === 0) {
+		checks.push(check('specs', 'warn', 'No specs found (specs/<domain>/spec.md)',
+			'Add living specs under specs/<domain>/spec.md'));
+	} else {
+		checks.push(check('specs', 'pass', `${specs.length} spec(s) found`));
+		// Blueprint/Contract is the ASDLC spec layout; Kiro specs use requirements/design/tasks instead
+		const incomplete = specs
+			.filter(s => s.flavour === 'asdlc' && (!s.hasBlueprint || !s.hasContract))
+			.map(s => `${s.domain}: missing ${[!s.hasBlueprint ? 'Blueprint' : '', !s.hasContract ? 'Contract' : ''].filter(Boolean).join(' and ')}`);
+		checks.push(incomplete.length === 0
+			? check('spec-structure', 'pass', 'Every spec has Blueprint and Contract sections')
+			: check('spec-structure', 'warn', `${incomplete.length} spec(s) missing Blueprint or Contract`,
+				'Give every spec a "## Blueprint" and a "## Contract" section', incomplete));
+	}
+
+	// Schemas are optional; only checked when present
+	const schemas = asdlc.schemas.schemas;
+	if (asdlc.schemas.exists && schemas.length > 0) {
+		const withoutId = schemas.filter(s => !s.schemaId).map(s => `${s.name}.json`);
+		checks.push(withoutId.length === 0
+			? check('schema-ids', 'pass', `All ${schemas.length} schema(s) declare $id`)
+			: check('schema-ids', 'warn', `${withoutId.length} schema(s) without $id`,
+				'Declare a $id in every JSON schema under schemas/', withoutId));
+	}
+	return checks;
+}
+
+function isUndescribed(description: string | undefined): boolean {
+	const trimmed = description?.trim();
+	return !trimmed || trimmed === NO_RULE_DESCRIPTION;
+}
+
+/** Quality Control: rules (with descriptions) and project skills. */
+function qualityControlChecks(input: ComplianceInput): EvaluatedCheck[] {
+	const checks: EvaluatedCheck[] = [];
+	if (input.rules.length === 0) {
+		checks.push(check('rules', 'warn', 'No project rules found',
+			'Add rules under .cursor/rules or .claude/rules to encode project standards'));
+	} else {
+		checks.push(check('rules', 'pass', `${input.rules.length} rule(s) found`));
+		const undescribed = input.rules.filter(r => isUndescribed(r.metadata.description)).map(r => r.fileName);
+		checks.push(undescribed.length === 0
+			? check('rule-descriptions', 'pass', 'Every rule has a description')
+			: check('rule-descriptions', 'warn', `${undescribed.length} rule(s) without a description`,
+				'Add a description to each rule\'s frontmatter so agents know when it applies', undescribed));
+	}
+
+	const skills = input.skills.filter(s => s.location === 'workspace');
+	if (skills.length === 0) {
+		checks.push(check('skills', 'warn', 'No project skills found',
+			'Capture repeatable workflows as skills (.cursor/skills/<name>/SKILL.md or .claude/skills)'));
+	} else {
+		checks.push(check('skills', 'pass', `${skills.length} skill(s) found`));
+		// The Agent Skills `description` is what agents read to decide when to use a skill
+		const undescribed = skills.filter(s => !s.metadata?.description?.trim()).map(s => s.fileName);
+		if (undescribed.length > 0) {
+			checks.push(check('skill-descriptions', 'warn', `${undescribed.length} skill(s) without a description`,
+				'Add a description (what the skill does and when to use it) to each SKILL.md frontmatter', undescribed));
+		}
+	}
+	return checks;
+}
+
+function toPillar(pillar: PillarName, evaluated: EvaluatedCheck[]): PillarResult {
+	const checks = evaluated.map(({ recommendation: _recommendation, ...c }) => c);
+	const count = (s: ComplianceStatus) => checks.filter(c => c.status === s).length;
+	return {
+		pillar,
+		status: combineStatus(checks.map(c => c.status)),
+		checks,
+		summary: `${PILLAR_TITLES[pillar]}: ${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`
+	};
+}
+
+/**
+ * Evaluate ASDLC compliance. Pillar status is the worst of its checks; overall status the worst
+ * pillar. Recommendations come from every non-passing check, failures first.
+ */
+export function evaluateCompliance(projectPath: string, input: ComplianceInput, now: Date = new Date()): ComplianceReport {
+	const evaluated: Array<[PillarName, EvaluatedCheck[]]> = [
+		['factory-architecture', factoryArchitectureChecks(input.asdlc)],
+		['standardized-parts', standardizedPartsChecks(input.asdlc)],
+		['quality-control', qualityControlChecks(input)]
+	];
+	const pillars = evaluated.map(([name, checks]) => toPillar(name, checks));
+	const all = evaluated.flatMap(([, checks]) => checks);
+	const recommendations = [
+		...all.filter(c => c.status === 'fail'),
+		...all.filter(c => c.status === 'warn')
+	].map(c => c.recommendation).filter((r): r is string => !!r);
+
+	return {
+		timestamp: now.toISOString(),
+		projectPath,
+		overallStatus: combineStatus(pillars.map(p => p.status)),
+		pillars,
+		recommendations
+	};
+}
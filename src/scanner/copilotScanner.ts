@@ -0,0 +1,58 @@
+// GitHub Copilot project-level artifact scanner
+// Scans .github/copilot-instructions.md, .github/instructions/, .github/prompts/, .github/chatmodes/
+import * as vscode from 'vscode';
+import { RulesScanner, type Rule } from './rulesScanner';
+import { CommandsScanner, type Command } from './commandsScanner';
+import { AgentsScanner, type AgentDefinition } from './agentsScanner';
+
+export interface CopilotArtifacts {
+	rules: Rule[];
+	commands: Command[];
+	agentDefinitions: AgentDefinition[];
+	hasAnyArtifacts: boolean;
+}
+
+export class CopilotScanner {
+	constructor(private workspaceRoot: vscode.Uri) {}
+
+	async scan(): Promise<CopilotArtifacts> {
+		try {
+			const [allRules, allCommands, allAgentDefinitions] = await Promise.all([
+				new RulesScanner(this.workspaceRoot).scanAllRules(),
+				new CommandsScanner(this.workspaceRoot).scanAllWorkspaceCommands(),
+				new AgentsScanner(this.workspaceRoot).scanAllWorkspaceAgentDefinitions()
+			]);
+
+			const rules = allRules.filter(r => r.platform === 'copilot');
+			const commands = allCommands.filter(c => c.platform === 'copilot');
+			const agentDefinitions = allAgentDefinitions.filter(a => a.platform === 'copilot');
+			return {
+				rules,
+				commands,
+				agentDefinitions,
+				hasAnyArtifacts: rules.length > 0 || commands.length > 0 || agentDefinitions.length > 0
+			};
+		} catch {
+			return { rules: [], commands: [], agentDefinitions: [], hasAnyArtifacts: false };
+		}
+	}
+
+	watchAll(callback: (uri: vscode.Uri) => void): vscode.Disposable[] {
+		const patterns = [
+			'.github/copilot-instructions.md',
+			'.github/instructions/*.instructions.md',
+			'.github/prompts/*.prompt.md',
+			'.github/chatmodes/*.chatmode.md'
+		];
+
+		return patterns.map(pattern => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(this.workspaceRoot, pattern)
+			);
+			watcher.onDidCreate(callback);
+			watcher.onDidChange(callback);
+			watcher.onDidDelete(callback);
+			return watcher;
+		});
+	}
+}
@@ -0,0 +1,53 @@
+// Agent definition frontmatter parsing - NO vscode dependency
+// Claude Code and Cursor subagents (`name`, `description`, `tools`, `model`, `color`) and Copilot chat modes
+import matter from 'gray-matter';
+import type { CoreAgentDefinition, CoreAgentFrontmatter, CorePlatform } from './types';
+import { parseAllowedTools } from '../skillParsing';
+
+/**
+ * Split an agent definition into its frontmatter fields and its body (the markdown after the
+ * frontmatter). Unparseable frontmatter yields no fields and the whole text as body.
+ */
+export function parseAgentFrontmatter(text: string): { frontmatter: CoreAgentFrontmatter; body: string } {
+	try {
+		const parsed = matter(text);
+		const data = parsed.data;
+		const str = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+		const tools = parseAllowedTools(data.tools);
+		const frontmatter: CoreAgentFrontmatter = {
+			...(str(data.name) ? { name: str(data.name) } : {}),
+			...(str(data.description) ? { description: str(data.description) } : {}),
+			...(tools && tools.length > 0 ? { tools } : {}),
+			...(str(data.model) ? { model: str(data.model) } : {}),
+			...(str(data.color) ? { color: str(data.color) } : {})
+		};
+		return { frontmatter, body: parsed.content.replace(/^(\r?\n)+/, '') };
+	} catch {
+		return { frontmatter: {}, body: text };
+	}
+}
+
+/** Agent definition read from `filePath`: the declared `name` (else the file stem) is its display name. */
+export function toCoreAgentDefinition(filePath: string, text: string, stem: string, platform: CorePlatform): CoreAgentDefinition {
+	const { frontmatter } = parseAgentFrontmatter(text);
+	const { name, ...fields } = frontmatter;
+	return { path: filePath, content: text, fileName: stem, displayName: name ?? stem, platform, ...fields };
+}
+
+/**
+ * Agent definitions matching a list_agents filter: `tool` matches a `tools` entry by name, ignoring
+ * case and any argument pattern (`Bash` matches `Bash(git:*)`); `model` matches `model` ignoring case.
+ * Definitions without a `tools` list do not match a tool filter.
+ */
+export function filterAgentDefinitions<T extends { tools?: string[]; model?: string }>(defs: T[], filter: { tool?: string; model?: string }): T[] {
+	const tool = filter.tool?.trim().toLowerCase();
+	const model = filter.model?.trim().toLowerCase();
+	return defs.filter(def => {
+		if (tool && !(def.tools ?? []).some(t => {
+			const name = t.toLowerCase();
+			return name === tool || name.startsWith(`${tool}(`);
+		})) {return false;}
+		if (model && def.model?.toLowerCase() !== model) {return false;}
+		return true;
+	});
+}
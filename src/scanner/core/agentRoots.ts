@@ -0,0 +1,183 @@
+// User-level agent roots - NO vscode dependency
+// Built-in Cursor / Claude / Gemini / Codex / Global roots and normalization of the `ace.agentRoots` setting.
+// Shared by the Agents view, its watchers and the MCP server (standalone gets them via ACE_AGENT_ROOTS).
+import * as path from 'path';
+
+/** Subsections scanned (and shown) under an agent root. */
+export type AgentRootSection = 'agents' | 'commands' | 'skills' | 'mcp';
+
+export const AGENT_ROOT_SECTIONS: AgentRootSection[] = ['agents', 'commands', 'skills', 'mcp'];
+
+/** Command file format under an agent root: flat `*.md` files, or Gemini CLI `*.toml` files (recursive). */
+export type AgentRootCommandFormat = 'markdown' | 'toml';
+
+/** Env var carrying the resolved roots (JSON `AgentRootConfig[]`) to the standalone MCP server. */
+export const AGENT_ROOTS_ENV = 'ACE_AGENT_ROOTS';
+
+/**
+ * One user-level agent root with absolute paths. `id` tags artifacts from this root
+ * (e.g. the `location` of agent definitions in list_agents).
+ */
+export interface AgentRootConfig {
+	id: string;
+	label: string;
+	directory: string;
+	icon: string;
+	/** MCP registrations file (e.g. `~/.claude.json`); without it the MCP section lists no servers */
+	mcpConfigPath?: string;
+	/** Commands directory when it is not `<directory>/commands` (Codex keeps prompts in `prompts/`) */
+	commandsDirectory?: string;
+	/** Command file format; `markdown` when omitted (Gemini: `toml`) */
+	commandFormat?: AgentRootCommandFormat;
+	/** User memory file loaded into every session (Claude: `~/.claude/CLAUDE.md`, Gemini: `~/.gemini/GEMINI.md`); shown first under the root */
+	memoryPath?: string;
+	/** User settings file with permissions and hooks (Claude: `~/.claude/settings.json`); shown under the root */
+	settingsPath?: string;
+	sections: AgentRootSection[];
+}
+
+/**
+ * Built-in roots, used when `ace.agentRoots` is not set: `~/.cursor`, `~/.claude`, `~/.gemini` and
+ * `~/.codex` (commands and MCP servers only) and `~/.agents` (Global).
+ */
+export function defaultAgentRoots(userRoot: string): AgentRootConfig[] {
+	return [
+		{
+			id: 'cursor',
+			label: 'Cursor',
+			directory: path.join(userRoot, '.cursor'),
+			icon: 'device-desktop',
+			mcpConfigPath: path.join(userRoot, '.cursor', 'mcp.json'),
+			sections: [...AGENT_ROOT_SECTIONS]
+		},
+		{
+			id: 'claude',
+			label: 'Claude',
+			directory: path.join(userRoot, '.claude'),
+			icon: 'device-desktop',
+			mcpConfigPath: path.join(userRoot, '.claude.json'),
+			memoryPath: path.join(userRoot, '.claude', 'CLAUDE.md'),
+			settingsPath: path.join(userRoot, '.claude', 'settings.json'),
+			sections: [...AGENT_ROOT_SECTIONS]
+		},
+		{
+			id: 'gemini',
+			label: 'Gemini',
+			directory: path.join(userRoot, '.gemini'),
+			icon: 'device-desktop',
+			mcpConfigPath: path.join(userRoot, '.gemini', 'settings.json'),
+			commandFormat: 'toml',
+			memoryPath: path.join(userRoot, '.gemini', 'GEMINI.md'),
+			sections: ['commands', 'mcp']
+		},
+		{
+			id: 'codex',
+			label: 'Codex',
+			directory: path.join(userRoot, '.codex'),
+			icon: 'device-desktop',
+			mcpConfigPath: path.join(userRoot, '.codex', 'config.toml'),
+			commandsDirectory: path.join(userRoot, '.codex', 'prompts'),
+			sections: ['commands', 'mcp']
+		},
+		{
+			id: 'global',
+			label: 'Global',
+			directory: path.join(userRoot, '.agents'),
+			icon: 'globe',
+			sections: [...AGENT_ROOT_SECTIONS]
+		}
+	];
+}
+
+/**
+ * Expand `~` / `~/…` to `userRoot`; other relative paths resolve against `userRoot` too.
+ */
+export function expandUserPath(p: string, userRoot: string): string {
+	if (p === '~') {return userRoot;}
+	if (p.startsWith('~/') || p.startsWith('~\\')) {return path.join(userRoot, p.slice(2));}
+	return path.resolve(userRoot, p);
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+/**
+ * Normalize `ace.agentRoots` entries into AgentRootConfig. A non-array value means "not configured"
+ * and yields the built-in roots; an empty array means no agent roots. Entries without an `id` and
+ * `directory` are dropped, as are repeated ids (first wins). `label` defaults to the id, `icon` to
+ * `device-desktop` and `sections` to all sections; unknown section names are ignored.
+ */
+export function resolveAgentRoots(raw: unknown, userRoot: string): AgentRootConfig[] {
+	if (!Array.isArray(raw)) {
+		return defaultAgentRoots(userRoot);
+	}
+	const roots: AgentRootConfig[] = [];
+	for (const entry of raw) {
+		if (!entry || typeof entry !== 'object') {continue;}
+		const e = entry as Record<string, unknown>;
+		const id = nonEmptyString(e.id);
+		const directory = nonEmptyString(e.directory);
+		if (!id || !directory || roots.some(r => r.id === id)) {continue;}
+		const mcpConfigPath = nonEmptyString(e.mcpConfigPath);
+		const commandsDirectory = nonEmptyString(e.commandsDirectory);
+		const commandFormat = e.commandFormat === 'toml' || e.commandFormat === 'markdown' ? e.commandFormat : undefined;
+		const memoryPath = nonEmptyString(e.memoryPath);
+		const settingsPath = nonEmptyString(e.settingsPath);
+		const sections = Array.isArray(e.sections)
+			? AGENT_ROOT_SECTIONS.filter(s => (e.sections as unknown[]).includes(s))
+			: [...AGENT_ROOT_SECTIONS];
+		roots.push({
+			id,
+			label: nonEmptyString(e.label) ?? id,
+			directory: expandUserPath(directory, userRoot),
+			icon: nonEmptyString(e.icon) ?? 'device-desktop',
+			...(mcpConfigPath ? { mcpConfigPath: expandUserPath(mcpConfigPath, userRoot) } : {}),
+			...(commandsDirectory ? { commandsDirectory: expandUserPath(commandsDirectory, userRoot) } : {}),
+			...(commandFormat ? { commandFormat } : {}),
+			...(memoryPath ? { memoryPath: expandUserPath(memoryPath, userRoot) } : {}),
+			...(settingsPath ? { settingsPath: expandUserPath(settingsPath, userRoot) } : {}),
+			sections
+		});
+	}
+	return roots;
+}
+
+/**
+ * Agent roots from the ACE_AGENT_ROOTS env value; unset or invalid JSON → built-in roots.
+ */
+export function agentRootsFromEnv(value: string | undefined, userRoot: string): AgentRootConfig[] {
+	if (!value) {
+		return defaultAgentRoots(userRoot);
+	}
+	try {
+		return resolveAgentRoots(JSON.parse(value), userRoot);
+	} catch {
+		return defaultAgentRoots(userRoot);
+	}
+}
+
+/** Directory scanned for a root's commands: `commandsDirectory`, else `<directory>/commands`. */
+export function agentRootCommandsDirectory(root: AgentRootConfig): string {
+	return root.commandsDirectory ?? path.join(root.directory, 'commands');
+}
+
+/**
+ * Claude Code user memory: the `claude` root's `memoryPath` when configured, else `~/.claude/CLAUDE.md`
+ * (where Claude Code reads it whatever ACE shows).
+ */
+export function claudeUserMemoryPath(roots: AgentRootConfig[], userRoot: string): string {
+	return roots.find(r => r.id === 'claude')?.memoryPath ?? path.join(userRoot, '.claude', 'CLAUDE.md');
+}
+
+/**
+ * Claude Code user settings: the `claude` root's `settingsPath` when configured, else `~/.claude/settings.json`.
+ */
+export function claudeUserSettingsPath(roots: AgentRootConfig[], userRoot: string): string {
+	return roots.find(r => r.id === 'claude')?.settingsPath ?? path.join(userRoot, '.claude', 'settings.json');
+}
+
+/** Roots that include a section (e.g. `agents` for list_agents). */
+export function rootsWithSection(roots: AgentRootConfig[], section: AgentRootSection): AgentRootConfig[] {
+	return roots.filter(r => r.sections.includes(section));
+}
@@ -0,0 +1,77 @@
+// Hierarchical AGENTS.md resolution - NO vscode dependency
+// Monorepos keep an AGENTS.md per package; the nearest one to a file overrides its ancestors.
+import * as path from 'path';
+import type { IFileSystem, CoreNestedAgentsMd } from './types';
+import { FileType } from './types';
+import { findFilesByName } from './listFiles';
+
+/** How many directories below the project root nested AGENTS.md files are searched for. */
+export const NESTED_AGENTS_MD_DEPTH = 6;
+
+/** One AGENTS.md in the chain that applies to a file. `directory` is `''` for the project root. */
+export interface CoreAgentsMdChainEntry {
+	path: string;
+	directory: string;
+	content: string;
+}
+
+function toRelativeDirectory(projectRoot: string, dir: string): string {
+	return path.relative(projectRoot, dir).split(path.sep).join('/');
+}
+
+/**
+ * AGENTS.md files below the project root (the root AGENTS.md itself excluded), sorted by directory.
+ * Hidden directories (.git, ...) and dependency / build output folders (node_modules, dist, ...) are skipped.
+ */
+export async function scanNestedAgentsMdCore(fs: IFileSystem, projectRoot: string): Promise<CoreNestedAgentsMd[]> {
+	const filePaths = await findFilesByName(fs, projectRoot, ['AGENTS.md'], NESTED_AGENTS_MD_DEPTH);
+	return filePaths
+		.map(filePath => ({ path: filePath, directory: toRelativeDirectory(projectRoot, path.dirname(filePath)) }))
+		.filter(entry => entry.directory !== '')
+		.sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+/**
+ * Nearest ancestor of `directory` among `directories` (project-relative, `/`-separated), or
+ * undefined when only the project root is above it.
+ */
+export function parentAgentsMdDirectory(directory: string, directories: string[]): string | undefined {
+	let best: string | undefined;
+	for (const candidate of directories) {
+		if (candidate !== directory && directory.startsWith(`${candidate}/`) && (best === undefined || candidate.length > best.length)) {
+			best = candidate;
+		}
+	}
+	return best;
+}
+
+/**
+ * AGENTS.md files that apply to `filePath` (absolute, or relative to the project root), in application
+ * order: the project root first, the nearest one last so it takes precedence. Every directory from the
+ * project root down to the file's directory is checked. Files outside the project get the root AGENTS.md only.
+ */
+export async function readAgentsMdChainCore(
+	fs: IFileSystem,
+	projectRoot: string,
+	filePath: string
+): Promise<CoreAgentsMdChainEntry[]> {
+	const absolute = path.resolve(projectRoot, filePath);
+	const relativeDir = path.relative(projectRoot, path.dirname(absolute));
+	const inside = relativeDir !== '..' && !relativeDir.startsWith(`..${path.sep}`) && !path.isAbsolute(relativeDir);
+	const segments = inside && relativeDir !== '' ? relativeDir.split(path.sep) : [];
+
+	const chain: CoreAgentsMdChainEntry[] = [];
+	for (let depth = 0; depth <= segments.length; depth++) {
+		const dir = path.join(projectRoot, ...segments.slice(0, depth));
+		const agentsMdPath = path.join(dir, 'AGENTS.md');
+		try {
+			const stat = await fs.stat(agentsMdPath);
+			if (stat.type !== FileType.File && stat.type !== FileType.SymbolicLink) {continue;}
+			const content = (await fs.readFile(agentsMdPath)).toString('utf8');
+			chain.push({ path: agentsMdPath, directory: segments.slice(0, depth).join('/'), content });
+		} catch {
+			// No AGENTS.md at this level
+		}
+	}
+	return chain;
+}
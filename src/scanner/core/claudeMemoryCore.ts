@@ -0,0 +1,109 @@
+// Claude Code memory hierarchy - NO vscode dependency
+// User memory (~/.claude/CLAUDE.md), project memory (CLAUDE.md, .claude/CLAUDE.md), local memory
+// (CLAUDE.local.md) and nested per-directory CLAUDE.md files, in the order Claude Code loads them.
+import * as path from 'path';
+import type { IFileSystem } from './types';
+import { FileType } from './types';
+import { findFilesByName } from './listFiles';
+
+/** How many directories below the project root nested CLAUDE.md files are searched for. */
+export const NESTED_CLAUDE_MD_DEPTH = 6;
+
+/** `user`: ~/.claude/CLAUDE.md; `project`: CLAUDE.md or .claude/CLAUDE.md at the root; `local`: CLAUDE.local.md; `nested`: CLAUDE.md in a subdirectory */
+export type CoreClaudeMemoryScope = 'user' | 'project' | 'local' | 'nested';
+
+export interface CoreClaudeMemoryFile {
+	path: string;
+	scope: CoreClaudeMemoryScope;
+	/** Directory relative to the project root with `/` separators; `''` for the root and for user memory */
+	directory: string;
+}
+
+export interface CoreClaudeMemoryEntry extends CoreClaudeMemoryFile {
+	content: string;
+}
+
+/** Memory files of one directory, in load order (CLAUDE.local.md last so it overrides). */
+function memoryFileNames(isRoot: boolean): Array<[string[], CoreClaudeMemoryScope]> {
+	return isRoot
+		? [[['CLAUDE.md'], 'project'], [['.claude', 'CLAUDE.md'], 'project'], [['CLAUDE.local.md'], 'local']]
+		: [[['CLAUDE.md'], 'nested'], [['CLAUDE.local.md'], 'local']];
+}
+
+async function isFile(fs: IFileSystem, filePath: string): Promise<boolean> {
+	try {
+		const stat = await fs.stat(filePath);
+		return stat.type === FileType.File || stat.type === FileType.SymbolicLink;
+	} catch {
+		return false;
+	}
+}
+
+function toRelativeDirectory(projectRoot: string, dir: string): string {
+	return path.relative(projectRoot, dir).split(path.sep).join('/');
+}
+
+/**
+ * Project memory files in load order: CLAUDE.md, .claude/CLAUDE.md and CLAUDE.local.md at the root, then
+ * CLAUDE.md / CLAUDE.local.md of each subdirectory (sorted by directory), found in one walk. Hidden
+ * directories and dependency / build output folders are skipped. `nested: false` stats the root files only.
+ */
+export async function scanClaudeMemoryCore(fs: IFileSystem, projectRoot: string, nested = true): Promise<CoreClaudeMemoryFile[]> {
+	const files: CoreClaudeMemoryFile[] = [];
+	for (const [segments, scope] of memoryFileNames(true)) {
+		const filePath = path.join(projectRoot, ...segments);
+		if (await isFile(fs, filePath)) {
+			files.push({ path: filePath, scope, directory: '' });
+		}
+	}
+	if (!nested) {return files;}
+
+	const nestedFiles: CoreClaudeMemoryFile[] = (await findFilesByName(fs, projectRoot, ['CLAUDE.md', 'CLAUDE.local.md'], NESTED_CLAUDE_MD_DEPTH))
+		.map(filePath => ({
+			path: filePath,
+			scope: path.basename(filePath) === 'CLAUDE.local.md' ? 'local' as const : 'nested' as const,
+			directory: toRelativeDirectory(projectRoot, path.dirname(filePath))
+		}))
+		.filter(file => file.directory !== '');
+	nestedFiles.sort((a, b) => a.directory.localeCompare(b.directory) || (a.scope === 'local' ? 1 : 0) - (b.scope === 'local' ? 1 : 0));
+	return [...files, ...nestedFiles];
+}
+
+/**
+ * Effective memory stack for `directory` (absolute, or relative to the project root), in load order:
+ * user memory, then the memory files of every directory from the project root down to `directory`.
+ * Later entries take precedence. Directories outside the project get user and root memory only.
+ */
+export async function readClaudeMemoryCore(
+	fs: IFileSystem,
+	projectRoot: string,
+	directory: string,
+	userMemoryPath: string | undefined
+): Promise<CoreClaudeMemoryEntry[]> {
+	const relative = path.relative(projectRoot, path.resolve(projectRoot, directory));
+	const inside = relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+	const segments = inside && relative !== '' ? relative.split(path.sep) : [];
+
+	const candidates: CoreClaudeMemoryFile[] = [];
+	if (userMemoryPath) {
+		candidates.push({ path: userMemoryPath, scope: 'user', directory: '' });
+	}
+	for (let depth = 0; depth <= segments.length; depth++) {
+		const dir = path.join(projectRoot, ...segments.slice(0, depth));
+		for (const [names, scope] of memoryFileNames(depth === 0)) {
+			candidates.push({ path: path.join(dir, ...names), scope, directory: segments.slice(0, depth).join('/') });
+		}
+	}
+
+	const entries: CoreClaudeMemoryEntry[] = [];
+	for (const candidate of candidates) {
+		try {
+			if (!await isFile(fs, candidate.path)) {continue;}
+			const content = (await fs.readFile(candidate.path)).toString('utf8');
+			entries.push({ ...candidate, content });
+		} catch {
+			// Unreadable memory file
+		}
+	}
+	return entries;
+}
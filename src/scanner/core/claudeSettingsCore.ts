@@ -0,0 +1,169 @@
+// Claude Code settings - NO vscode dependency
+// Permissions, hooks and env from ~/.claude/settings.json (user), .claude/settings.json (project) and
+// .claude/settings.local.json (local). Same safe contract as McpRegistrationScanner: a missing, unreadable
+// or malformed file contributes nothing, and nothing here throws. Env values (often API keys) are never
+// returned; only variable names are, as in mcpServersCore.
+import * as path from 'path';
+import type { IFileSystem } from './types';
+
+/** `user`: ~/.claude/settings.json; `project`: .claude/settings.json; `local`: .claude/settings.local.json */
+export type CoreClaudeSettingsScope = 'user' | 'project' | 'local';
+
+export type CoreClaudePermissionKind = 'allow' | 'ask' | 'deny';
+
+const PERMISSION_KINDS: CoreClaudePermissionKind[] = ['deny', 'ask', 'allow'];
+
+export interface CoreClaudeSettingsFile {
+	path: string;
+	scope: CoreClaudeSettingsScope;
+}
+
+export interface CoreClaudePermission extends CoreClaudeSettingsFile {
+	kind: CoreClaudePermissionKind;
+	/** Permission rule as written, e.g. `Bash(npm run test:*)` or `Read(./.env)` */
+	rule: string;
+}
+
+export interface CoreClaudeHook extends CoreClaudeSettingsFile {
+	/** Hook event, e.g. `PreToolUse`, `PostToolUse`, `Stop` */
+	event: string;
+	/** Tool matcher (`Bash`, `Edit|Write`); absent for events without matchers */
+	matcher?: string;
+	/** Hook type (`command`) */
+	type: string;
+	command?: string;
+	/** Timeout in seconds */
+	timeout?: number;
+}
+
+/** An env variable set by a settings file; its value is never read out */
+export interface CoreClaudeEnvVar extends CoreClaudeSettingsFile {
+	name: string;
+}
+
+export interface CoreClaudeSettings {
+	/** Settings files that were read, in load order (later files take precedence) */
+	files: CoreClaudeSettingsFile[];
+	/** Permission rules of every file: deny, then ask, then allow, each in load order */
+	permissions: CoreClaudePermission[];
+	/** Hooks of every file (Claude Code runs them all), in load order */
+	hooks: CoreClaudeHook[];
+	/** Names of the effective environment variables, with the file that sets them last */
+	env: CoreClaudeEnvVar[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Settings files for a project, in load order: user (when `userSettingsPath` is set), project, local.
+ * Omit `projectRoot` for user settings only.
+ */
+export function claudeSettingsFiles(projectRoot: string | undefined, userSettingsPath: string | undefined): CoreClaudeSettingsFile[] {
+	const files: CoreClaudeSettingsFile[] = [];
+	if (userSettingsPath) {
+		files.push({ path: userSettingsPath, scope: 'user' });
+	}
+	if (projectRoot) {
+		files.push(
+			{ path: path.join(projectRoot, '.claude', 'settings.json'), scope: 'project' },
+			{ path: path.join(projectRoot, '.claude', 'settings.local.json'), scope: 'local' }
+		);
+	}
+	return files;
+}
+
+/**
+ * Parse one settings file. Returns undefined when the text is not a JSON object; malformed
+ * `permissions`, `hooks` or `env` entries are skipped.
+ */
+export function parseClaudeSettings(text: string, file: CoreClaudeSettingsFile): Omit<CoreClaudeSettings, 'files'> | undefined {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+	if (!isRecord(parsed)) {return undefined;}
+
+	const permissions: CoreClaudePermission[] = [];
+	if (isRecord(parsed.permissions)) {
+		for (const kind of PERMISSION_KINDS) {
+			const rules = parsed.permissions[kind];
+			if (!Array.isArray(rules)) {continue;}
+			for (const rule of rules) {
+				if (typeof rule === 'string' && rule.trim()) {
+					permissions.push({ ...file, kind, rule: rule.trim() });
+				}
+			}
+		}
+	}
+
+	const hooks: CoreClaudeHook[] = [];
+	if (isRecord(parsed.hooks)) {
+		for (const [event, matchers] of Object.entries(parsed.hooks)) {
+			if (!Array.isArray(matchers)) {continue;}
+			for (const entry of matchers) {
+				if (!isRecord(entry) || !Array.isArray(entry.hooks)) {continue;}
+				const matcher = typeof entry.matcher === 'string' && entry.matcher ? entry.matcher : undefined;
+				for (const hook of entry.hooks) {
+					if (!isRecord(hook) || typeof hook.type !== 'string') {continue;}
+					hooks.push({
+						...file,
+						event,
+						...(matcher !== undefined ? { matcher } : {}),
+						type: hook.type,
+						...(typeof hook.command === 'string' ? { command: hook.command } : {}),
+						...(typeof hook.timeout === 'number' ? { timeout: hook.timeout } : {})
+					});
+				}
+			}
+		}
+	}
+
+	const env: CoreClaudeEnvVar[] = [];
+	if (isRecord(parsed.env)) {
+		for (const [name, value] of Object.entries(parsed.env)) {
+			if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+				env.push({ ...file, name });
+			}
+		}
+	}
+
+	return { permissions, hooks, env };
+}
+
+/**
+ * Read and merge settings files (see `claudeSettingsFiles`). Files that are missing, unreadable or not a
+ * JSON object are left out of `files`.
+ */
+export async function readClaudeSettingsCore(fs: IFileSystem, files: CoreClaudeSettingsFile[]): Promise<CoreClaudeSettings> {
+	const read: CoreClaudeSettingsFile[] = [];
+	const parts: Array<Omit<CoreClaudeSettings, 'files'>> = [];
+	for (const file of files) {
+		let text: string;
+		try {
+			text = (await fs.readFile(file.path)).toString('utf8');
+		} catch {
+			continue;
+		}
+		const settings = parseClaudeSettings(text, file);
+		if (settings) {
+			read.push(file);
+			parts.push(settings);
+		}
+	}
+
+	const permissions = PERMISSION_KINDS.flatMap(kind => parts.flatMap(p => p.permissions.filter(entry => entry.kind === kind)));
+	const env = new Map<string, CoreClaudeEnvVar>();
+	for (const variable of parts.flatMap(p => p.env)) {
+		env.set(variable.name, variable);
+	}
+	return {
+		files: read,
+		permissions,
+		hooks: parts.flatMap(p => p.hooks),
+		env: [...env.values()].sort((a, b) => a.name.localeCompare(b.name))
+	};
+}
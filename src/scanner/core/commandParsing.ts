@@ -0,0 +1,111 @@
+// Command frontmatter and argument parsing - NO vscode dependency
+// Claude Code commands declare `description`, `argument-hint`, `allowed-tools` and `model`, and use `$ARGUMENTS` / `$1..$n`
+import matter from 'gray-matter';
+import type { CoreCommand, CoreCommandArguments, CoreCommandFrontmatter, CorePlatform } from './types';
+import { parseAllowedTools } from '../skillParsing';
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/** `key: value` lines of a frontmatter block, for frontmatter YAML rejects (`argument-hint: [a] [b]`) */
+function frontmatterLines(block: string): Record<string, string> {
+	const fields: Record<string, string> = {};
+	for (const line of block.split(/\r?\n/)) {
+		const match = line.match(/^([\w-]+):\s*(.*)$/);
+		if (match) {
+			fields[match[1]] = match[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+		}
+	}
+	return fields;
+}
+
+/**
+ * Split a Markdown command into its frontmatter fields and its body (the prompt after the
+ * frontmatter). `argument-hint` is kept as written (`[pr-number] [priority]`), which YAML reads
+ * as a list or rejects; when YAML rejects the block, plain `key: value` lines are still read.
+ */
+export function parseCommandFrontmatter(text: string): { frontmatter: CoreCommandFrontmatter; body: string } {
+	const match = text.match(FRONTMATTER);
+	if (!match) {
+		return { frontmatter: {}, body: text };
+	}
+	const lines = frontmatterLines(match[1]);
+	let data: Record<string, unknown>;
+	try {
+		// Options bypass gray-matter's cache, which keeps an empty result for text it failed to parse
+		data = matter(text, {}).data;
+	} catch {
+		data = lines;
+	}
+	const str = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+	const argumentHint = str(lines['argument-hint']);
+	const allowedTools = parseAllowedTools(data['allowed-tools']);
+	const frontmatter: CoreCommandFrontmatter = {
+		...(str(data.description) ? { description: str(data.description) } : {}),
+		...(argumentHint ? { argumentHint } : {}),
+		...(allowedTools && allowedTools.length > 0 ? { allowedTools } : {}),
+		...(str(data.model) ? { model: str(data.model) } : {})
+	};
+	return { frontmatter, body: text.slice(match[0].length).replace(/^(\r?\n)+/, '') };
+}
+
+/** `$n` not inside a word or number, and not an amount such as `$20/month`, `$5.99` or `$1,000` */
+const POSITIONAL_PATTERN = /(?<![\w$])\$([1-9]\d*)(?![\w/%]|[.,]\d)/g;
+
+/**
+ * Placeholders in a command body. Claude Code and Cursor use `$ARGUMENTS` and `$1`..`$n`
+ * (`$0` and `$ARGUMENTS_X` are not placeholders); positional ones count only when `$1` is among
+ * them, so prices like "costs $5" are not read as arguments. Gemini CLI has `{{args}}` only.
+ */
+export function commandArguments(body: string, platform?: CorePlatform): CoreCommandArguments {
+	if (platform === 'gemini') {
+		return { all: body.includes('{{args}}'), positional: [] };
+	}
+	const positional = new Set<number>();
+	for (const match of body.matchAll(POSITIONAL_PATTERN)) {
+		positional.add(Number(match[1]));
+	}
+	return {
+		all: /\$ARGUMENTS(?!\w)/.test(body),
+		positional: positional.has(1) ? [...positional].sort((a, b) => a - b) : []
+	};
+}
+
+/** Markdown command read from `filePath`: frontmatter fields plus the placeholders its body uses. */
+export function toCoreCommand(filePath: string, text: string, stem: string, location: 'workspace' | 'global', platform: CorePlatform): CoreCommand {
+	const { frontmatter, body } = parseCommandFrontmatter(text);
+	return { path: filePath, content: text, fileName: stem, location, platform, ...frontmatter, arguments: commandArguments(body, platform) };
+}
+
+/** Command fields shared by list_commands / get_command in both MCP modes */
+export interface CoreCommandSummary extends Omit<CoreCommandFrontmatter, 'description'> {
+	description: string;
+	arguments: CoreCommandArguments;
+}
+
+/**
+ * Description and frontmatter of a command for MCP output. Without a declared description, the
+ * body's `## Overview` paragraph or first plain line (up to 200 characters) is used.
+ */
+export function summarizeCommand(c: Pick<CoreCommand, 'content' | 'description' | 'argumentHint' | 'allowedTools' | 'model' | 'arguments'>): CoreCommandSummary {
+	return {
+		description: c.description ?? describeCommandBody(parseCommandFrontmatter(c.content).body),
+		...(c.argumentHint !== undefined ? { argumentHint: c.argumentHint } : {}),
+		...(c.allowedTools !== undefined ? { allowedTools: c.allowedTools } : {}),
+		...(c.model !== undefined ? { model: c.model } : {}),
+		arguments: c.arguments ?? { all: false, positional: [] }
+	};
+}
+
+function describeCommandBody(body: string): string {
+	const overviewMatch = body.match(/## Overview\s*\n+([^\n#]+)/);
+	if (overviewMatch) {
+		return overviewMatch[1].trim();
+	}
+	for (const line of body.split('\n')) {
+		const trimmed = line.trim();
+		if (trimmed && !trimmed.startsWith('#') && !trimmed.startsWith('-')) {
+			return trimmed.substring(0, 200);
+		}
+	}
+	return '';
+}
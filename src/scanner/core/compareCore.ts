@@ -0,0 +1,83 @@
+// Cross-project comparison - NO vscode dependency
+// Matches project-level artifacts of two projects by kind, platform and name and reports which exist
+// in only one project and which have diverged. Used by compare_projects and the Compare Projects command.
+import { createHash } from 'crypto';
+import * as path from 'path';
+import type {
+	CoreCompareItem,
+	CoreCompareOptions,
+	CoreCompareStatus,
+	CoreProjectComparison,
+	CoreSearchDocument,
+	IFileSystem
+} from './types';
+import { collectSearchDocumentsCore, SEARCH_KINDS } from './searchCore';
+import { unifiedDiff } from './unifiedDiff';
+
+/** sha256 of the text with CRLF normalized, so checkouts on different platforms compare equal. */
+export function contentHash(text: string): string {
+	return createHash('sha256').update(text.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+function itemKey(doc: CoreSearchDocument): string {
+	return `${doc.kind}\u0000${doc.platform ?? ''}\u0000${doc.name}`;
+}
+
+/** Project-level artifacts only: user-level commands, skills and agents are the same for both projects. */
+async function collectProjectDocuments(fs: IFileSystem, projectRoot: string, userRoot: string): Promise<Map<string, CoreSearchDocument>> {
+	const docs = await collectSearchDocumentsCore(fs, projectRoot, userRoot, []);
+	return new Map(docs.filter(d => d.location === 'workspace').map(d => [itemKey(d), d]));
+}
+
+/**
+ * Compare rules, commands, skills, agent definitions, AGENTS.md, specs and schemas of two projects.
+ * Items are matched by kind, platform and name; content is compared by hash.
+ */
+export async function compareProjectsCore(
+	fs: IFileSystem,
+	projectA: string,
+	projectB: string,
+	userRoot: string,
+	options: CoreCompareOptions = {}
+): Promise<CoreProjectComparison> {
+	const [docsA, docsB] = await Promise.all([
+		collectProjectDocuments(fs, projectA, userRoot),
+		collectProjectDocuments(fs, projectB, userRoot)
+	]);
+	const kinds = options.kinds && options.kinds.length > 0 ? options.kinds : SEARCH_KINDS;
+
+	const items: CoreCompareItem[] = [];
+	for (const key of new Set([...docsA.keys(), ...docsB.keys()])) {
+		const a = docsA.get(key);
+		const b = docsB.get(key);
+		const doc = (a ?? b)!;
+		if (!kinds.includes(doc.kind)) {continue;}
+
+		const hashA = a ? contentHash(a.text) : undefined;
+		const hashB = b ? contentHash(b.text) : undefined;
+		const status: CoreCompareStatus = !b ? 'only-in-a' : !a ? 'only-in-b' : hashA === hashB ? 'identical' : 'differs';
+		const item: CoreCompareItem = {
+			kind: doc.kind,
+			name: doc.name,
+			...(doc.platform ? { platform: doc.platform } : {}),
+			status,
+			...(a ? { pathA: a.path, hashA } : {}),
+			...(b ? { pathB: b.path, hashB } : {})
+		};
+		if (status === 'differs' && options.includeDiff && a && b) {
+			item.diff = unifiedDiff(a.text, b.text, `a/${path.relative(projectA, a.path)}`, `b/${path.relative(projectB, b.path)}`);
+		}
+		items.push(item);
+	}
+
+	items.sort((x, y) =>
+		SEARCH_KINDS.indexOf(x.kind) - SEARCH_KINDS.indexOf(y.kind)
+		|| x.name.localeCompare(y.name)
+		|| (x.platform ?? '').localeCompare(y.platform ?? ''));
+
+	const summary: Record<CoreCompareStatus, number> = { 'only-in-a': 0, 'only-in-b': 0, identical: 0, differs: 0 };
+	for (const item of items) {
+		summary[item.status]++;
+	}
+	return { projectA, projectB, summary, items };
+}
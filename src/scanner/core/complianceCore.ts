@@ -0,0 +1,22 @@
+// Shared ASDLC compliance scan - NO vscode dependency
+// Scans AGENTS.md/specs/schemas, rules and skills for a project, then evaluates the compliance report.
+import type { IFileSystem } from './types';
+import type { ComplianceReport } from '../types';
+import { scanAsdlcCore } from './scanAsdlcCore';
+import { scanRulesCore } from './scanRulesCore';
+import { scanSkillsCore } from './scanSkillsCore';
+import { toAsdlcArtifacts } from '../asdlcParsing';
+import { evaluateCompliance } from '../compliance';
+
+export async function evaluateComplianceCore(
+	fs: IFileSystem,
+	projectRoot: string,
+	userRoot: string
+): Promise<ComplianceReport> {
+	const [asdlc, rules, skills] = await Promise.all([
+		scanAsdlcCore(fs, projectRoot),
+		scanRulesCore(fs, projectRoot, userRoot),
+		scanSkillsCore(fs, projectRoot, userRoot)
+	]);
+	return evaluateCompliance(projectRoot, { asdlc: toAsdlcArtifacts(asdlc), rules, skills });
+}
@@ -0,0 +1,109 @@
+// Project discovery - NO vscode dependency
+// Walks a parent folder for directories holding agent artifacts (ace.discoverProjects).
+// Each match is summarised with scanClaudeCodeCore and scanAsdlcCore.
+import * as path from 'path';
+import type { IFileSystem } from './types';
+import { FileType } from './types';
+import { SKIPPED_DIRECTORIES } from './listFiles';
+import { scanAsdlcCore } from './scanAsdlcCore';
+import { scanClaudeCodeCore } from './scanClaudeCodeCore';
+
+/** Entries that mark a directory as a project with agent context. */
+export const PROJECT_MARKERS = ['.cursor', '.claude', 'AGENTS.md', 'CLAUDE.md', 'specs'];
+
+/** Default depth below the chosen folder (1 = its direct children). */
+export const DEFAULT_DISCOVERY_DEPTH = 2;
+
+export interface DiscoveredProjectSummary {
+	agentsMd: boolean;
+	claudeMd: boolean;
+	specs: number;
+	schemas: number;
+	claudeRules: number;
+	claudeCommands: number;
+	claudeSkills: number;
+	claudeAgents: number;
+}
+
+export interface DiscoveredProject {
+	name: string;
+	path: string;
+	/** PROJECT_MARKERS present at the directory root */
+	markers: string[];
+	summary: DiscoveredProjectSummary;
+}
+
+/**
+ * Find directories under `rootDir` (including `rootDir` itself) that contain any PROJECT_MARKERS,
+ * down to `maxDepth` levels. Hidden and build/dependency directories are not descended into;
+ * matches are still descended so nested packages are found. Results are sorted by path.
+ */
+export async function discoverProjectsCore(
+	fs: IFileSystem,
+	rootDir: string,
+	maxDepth: number = DEFAULT_DISCOVERY_DEPTH
+): Promise<DiscoveredProject[]> {
+	const found: Array<{ dir: string; markers: string[] }> = [];
+
+	async function walk(dir: string, depth: number): Promise<void> {
+		let entries: Awaited<ReturnType<IFileSystem['readDirectory']>>;
+		try {
+			entries = await fs.readDirectory(dir);
+		} catch {
+			return; // unreadable directory
+		}
+		const names = new Set(entries.map(([name]) => name));
+		const markers = PROJECT_MARKERS.filter(m => names.has(m));
+		if (markers.length > 0) {
+			found.push({ dir, markers });
+		}
+		if (depth >= maxDepth) {return;}
+		for (const [name, type] of entries) {
+			if (type !== FileType.Directory || name.startsWith('.') || SKIPPED_DIRECTORIES.has(name)) {continue;}
+			await walk(path.join(dir, name), depth + 1);
+		}
+	}
+
+	await walk(rootDir, 0);
+	found.sort((a, b) => a.dir.localeCompare(b.dir));
+
+	const projects: DiscoveredProject[] = [];
+	for (const { dir, markers } of found) {
+		const [claude, asdlc] = await Promise.all([scanClaudeCodeCore(fs, dir), scanAsdlcCore(fs, dir)]);
+		projects.push({
+			name: path.basename(dir),
+			path: dir,
+			markers,
+			summary: {
+				agentsMd: asdlc.agentsMd.exists,
+				claudeMd: claude.claudeMdPath !== undefined,
+				specs: asdlc.specs.specs.length,
+				schemas: asdlc.schemas.schemas.length,
+				claudeRules: claude.rules.length,
+				claudeCommands: claude.commands.length,
+				claudeSkills: claude.skills.length,
+				claudeAgents: claude.agentDefinitions.length
+			}
+		});
+	}
+	return projects;
+}
+
+/** One-line description of what a discovered project has, e.g. "AGENTS.md · 3 specs · .cursor/". */
+export function describeDiscoveredProject(project: DiscoveredProject): string {
+	const s = project.summary;
+	const count = (n: number, noun: string) => n > 0 ? `${n} ${noun}${n === 1 ? '' : 's'}` : undefined;
+	const parts = [
+		s.agentsMd ? 'AGENTS.md' : undefined,
+		s.claudeMd ? 'CLAUDE.md' : undefined,
+		count(s.specs, 'spec'),
+		count(s.schemas, 'schema'),
+		count(s.claudeRules, 'Claude rule'),
+		count(s.claudeCommands, 'Claude command'),
+		count(s.claudeSkills, 'Claude skill'),
+		count(s.claudeAgents, 'Claude agent'),
+		project.markers.includes('.cursor') ? '.cursor/' : undefined,
+		project.markers.includes('.claude') && !(s.claudeRules + s.claudeCommands + s.claudeSkills + s.claudeAgents) ? '.claude/' : undefined
+	];
+	return parts.filter((p): p is string => p !== undefined).join(' · ');
+}
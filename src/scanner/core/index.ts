@@ -4,4 +4,27 @@ export * from './listFiles';
 export { scanRulesCore } from './scanRulesCore';
 export { scanCommandsCore } from './scanCommandsCore';
 export { scanSkillsCore } from './scanSkillsCore';
+export { SKILL_FILES_DEPTH, SKILL_FILES_LIMIT, SKILL_FILE_MAX_BYTES, listSkillFilesCore, readSkillFileCore } from './skillFilesCore';
+export type { CoreSkillFileContent } from './skillFilesCore';
 export { scanAsdlcCore } from './scanAsdlcCore';
+export { parseAgentFrontmatter, toCoreAgentDefinition, filterAgentDefinitions } from './agentParsing';
+export { parseCommandFrontmatter, commandArguments, toCoreCommand, summarizeCommand } from './commandParsing';
+export type { CoreCommandSummary } from './commandParsing';
+export { NESTED_AGENTS_MD_DEPTH, scanNestedAgentsMdCore, parentAgentsMdDirectory, readAgentsMdChainCore } from './agentsMdHierarchy';
+export type { CoreAgentsMdChainEntry } from './agentsMdHierarchy';
+export { NESTED_CLAUDE_MD_DEPTH, scanClaudeMemoryCore, readClaudeMemoryCore } from './claudeMemoryCore';
+export type { CoreClaudeMemoryScope, CoreClaudeMemoryFile, CoreClaudeMemoryEntry } from './claudeMemoryCore';
+export { claudeSettingsFiles, parseClaudeSettings, readClaudeSettingsCore } from './claudeSettingsCore';
+export type { CoreClaudeSettingsScope, CoreClaudePermissionKind, CoreClaudeSettingsFile, CoreClaudePermission, CoreClaudeHook, CoreClaudeEnvVar, CoreClaudeSettings } from './claudeSettingsCore';
+export { stripJsonComments, parseMcpConfig, mcpServersTable, mcpServerEntries, scanMcpServersCore } from './mcpServersCore';
+export type { CoreMcpServerScope, CoreMcpTransport, CoreMcpServer } from './mcpServersCore';
+export { REFERENCE_EXPANSION_DEPTH, expandReferencesCore } from './referenceExpansion';
+export type { CoreUnresolvedReason, CoreUnresolvedReference, CoreExpandedContent } from './referenceExpansion';
+export { collectSearchDocumentsCore, searchDocuments, SEARCH_KINDS } from './searchCore';
+export { evaluateComplianceCore } from './complianceCore';
+export { compareProjectsCore, contentHash } from './compareCore';
+export { unifiedDiff } from './unifiedDiff';
+export { PROJECT_MARKERS, DEFAULT_DISCOVERY_DEPTH, discoverProjectsCore, describeDiscoveredProject } from './discoverProjectsCore';
+export type { DiscoveredProject, DiscoveredProjectSummary } from './discoverProjectsCore';
+export { AGENT_ROOT_SECTIONS, AGENT_ROOTS_ENV, defaultAgentRoots, resolveAgentRoots, agentRootsFromEnv, rootsWithSection, agentRootCommandsDirectory, claudeUserMemoryPath, claudeUserSettingsPath } from './agentRoots';
+export type { AgentRootCommandFormat, AgentRootConfig, AgentRootSection } from './agentRoots';
@@ -80,3 +80,41 @@ export async function listFilesFlat(
 
 	return results;
 }
+
+/** Directories never descended into when searching a project tree (dependencies and build output). */
+export const SKIPPED_DIRECTORIES = new Set(['node_modules', 'out', 'dist', 'build', 'vendor', 'target']);
+
+/**
+ * Find files named exactly one of `fileNames` below rootPath in a single walk, at most `maxDepth`
+ * directories deep (0 = rootPath itself). Hidden directories (`.git`, `.venv`, ...) and
+ * SKIPPED_DIRECTORIES are not descended into. Returns sorted paths.
+ */
+export async function findFilesByName(
+	fs: IFileSystem,
+	rootPath: string,
+	fileNames: string[],
+	maxDepth: number
+): Promise<string[]> {
+	const results: string[] = [];
+
+	async function walk(dirPath: string, depth: number): Promise<void> {
+		let entries: [string, FileTypeValue][];
+		try {
+			entries = await fs.readDirectory(dirPath);
+		} catch {
+			return; // Directory doesn't exist or can't be read
+		}
+		for (const [name, fileType] of entries) {
+			const fullPath = path.join(dirPath, name);
+			if (fileType === FileType.Directory) {
+				if (depth >= maxDepth || name.startsWith('.') || SKIPPED_DIRECTORIES.has(name)) {continue;}
+				await walk(fullPath, depth + 1);
+			} else if (fileNames.includes(name) && (fileType === FileType.File || fileType === FileType.SymbolicLink)) {
+				results.push(fullPath);
+			}
+		}
+	}
+
+	await walk(rootPath, 0);
+	return results.sort();
+}
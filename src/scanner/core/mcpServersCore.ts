@@ -0,0 +1,173 @@
+// MCP server configurations - NO vscode dependency
+// User scope: each agent root's `mcpConfigPath` (~/.claude.json, ~/.cursor/mcp.json, ~/.gemini/settings.json,
+// ~/.codex/config.toml). Project scope: `.mcp.json` (Claude Code) and `.cursor/mcp.json` (Cursor). Local scope:
+// the project's `projects["<path>"].mcpServers` entry in ~/.claude.json. Unreadable or malformed files contribute nothing.
+// Env and header values are never returned; only env variable names are.
+import * as path from 'path';
+import type { IFileSystem } from './types';
+import type { AgentRootConfig } from './agentRoots';
+import { parseToml } from './tomlParsing';
+
+/** `user`: agent root config; `project`: checked into the project; `local`: per-project entry in ~/.claude.json */
+export type CoreMcpServerScope = 'user' | 'project' | 'local';
+
+export type CoreMcpTransport = 'stdio' | 'http' | 'sse';
+
+/** Precedence when an agent has several servers of the same name: local, then project, then user. */
+const SCOPE_RANK: Record<CoreMcpServerScope, number> = { local: 2, project: 1, user: 0 };
+
+/** Project-scope config files and the agent reading them. */
+const PROJECT_MCP_CONFIGS: Array<{ segments: string[]; agent: string }> = [
+	{ segments: ['.mcp.json'], agent: 'claude' },
+	{ segments: ['.cursor', 'mcp.json'], agent: 'cursor' }
+];
+
+export interface CoreMcpServer {
+	name: string;
+	/** Agent the config belongs to (agent root id: `claude`, `cursor`, `gemini`, `codex`, ...) */
+	agent: string;
+	scope: CoreMcpServerScope;
+	/** Config file the entry comes from */
+	path: string;
+	transport: CoreMcpTransport;
+	command?: string;
+	args?: string[];
+	url?: string;
+	/** Names of the env variables set for the server; values are never read out */
+	envKeys?: string[];
+	/** False when a server of the same agent and name in a narrower scope wins */
+	effective: boolean;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Remove `//` and `/* *\/` comments outside of JSON strings. */
+export function stripJsonComments(text: string): string {
+	let out = '';
+	let i = 0;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === '"') {
+			const start = i++;
+			while (i < text.length && text[i] !== '"') {
+				i += text[i] === '\\' ? 2 : 1;
+			}
+			out += text.slice(start, ++i);
+		} else if (text.startsWith('//', i)) {
+			while (i < text.length && text[i] !== '\n') {i++;}
+		} else if (text.startsWith('/*', i)) {
+			const end = text.indexOf('*/', i + 2);
+			i = end === -1 ? text.length : end + 2;
+		} else {
+			out += ch;
+			i++;
+		}
+	}
+	return out;
+}
+
+/**
+ * Parse an MCP config file: JSON (comments allowed) or TOML when `filePath` ends in `.toml`.
+ * Returns undefined when the text does not parse to an object.
+ */
+export function parseMcpConfig(text: string, filePath: string): Record<string, unknown> | undefined {
+	try {
+		const isToml = path.extname(filePath).toLowerCase() === '.toml';
+		const parsed: unknown = isToml ? parseToml(text) : JSON.parse(stripJsonComments(text));
+		return isRecord(parsed) ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** The servers table of a parsed config: `mcpServers` (JSON) or `mcp_servers` (TOML). */
+export function mcpServersTable(config: Record<string, unknown>, filePath: string): Record<string, unknown> {
+	const servers = config[path.extname(filePath).toLowerCase() === '.toml' ? 'mcp_servers' : 'mcpServers'];
+	return isRecord(servers) ? servers : {};
+}
+
+function transportOf(entry: Record<string, unknown>, url: string | undefined): CoreMcpTransport {
+	const type = typeof entry.type === 'string' ? entry.type.toLowerCase() : undefined;
+	if (type === 'sse') {return 'sse';}
+	if (type === 'http' || type === 'streamable-http') {return 'http';}
+	if (type === 'stdio') {return 'stdio';}
+	// Gemini CLI: `url` is SSE, `httpUrl` streamable HTTP
+	if (typeof entry.httpUrl === 'string') {return 'http';}
+	return url ? 'http' : 'stdio';
+}
+
+/** Servers of a config's servers table (see `mcpServersTable`), in file order, all marked effective. */
+export function mcpServerEntries(table: Record<string, unknown>, agent: string, scope: CoreMcpServerScope, filePath: string): CoreMcpServer[] {
+	return Object.entries(table).map(([name, raw]) => {
+		const entry = isRecord(raw) ? raw : {};
+		const url = typeof entry.url === 'string' ? entry.url : typeof entry.httpUrl === 'string' ? entry.httpUrl : undefined;
+		const args = Array.isArray(entry.args) ? entry.args.filter((a): a is string => typeof a === 'string') : undefined;
+		const envKeys = isRecord(entry.env) ? Object.keys(entry.env) : [];
+		return {
+			name,
+			agent,
+			scope,
+			path: filePath,
+			transport: transportOf(entry, url),
+			...(typeof entry.command === 'string' ? { command: entry.command } : {}),
+			...(args && args.length > 0 ? { args } : {}),
+			...(url ? { url } : {}),
+			...(envKeys.length > 0 ? { envKeys } : {}),
+			effective: true
+		};
+	});
+}
+
+async function readConfig(fs: IFileSystem, filePath: string): Promise<Record<string, unknown> | undefined> {
+	try {
+		return parseMcpConfig((await fs.readFile(filePath)).toString('utf8'), filePath);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * MCP servers of a project and of the agent roots, in precedence order (local, project, user; file order
+ * within a scope). Omit `projectRoot` for user scope only. Env and header values are never returned.
+ */
+export async function scanMcpServersCore(
+	fs: IFileSystem,
+	projectRoot: string | undefined,
+	agentRoots: AgentRootConfig[]
+): Promise<CoreMcpServer[]> {
+	const servers: CoreMcpServer[] = [];
+	for (const root of agentRoots) {
+		if (!root.mcpConfigPath) {continue;}
+		const config = await readConfig(fs, root.mcpConfigPath);
+		if (!config) {continue;}
+		servers.push(...mcpServerEntries(mcpServersTable(config, root.mcpConfigPath), root.id, 'user', root.mcpConfigPath));
+		// ~/.claude.json keeps per-project (local scope) servers under projects["<absolute path>"]
+		const projectEntry = projectRoot && isRecord(config.projects) ? config.projects[projectRoot] : undefined;
+		if (isRecord(projectEntry) && isRecord(projectEntry.mcpServers)) {
+			servers.push(...mcpServerEntries(projectEntry.mcpServers, root.id, 'local', root.mcpConfigPath));
+		}
+	}
+	if (projectRoot) {
+		for (const { segments, agent } of PROJECT_MCP_CONFIGS) {
+			const filePath = path.join(projectRoot, ...segments);
+			const config = await readConfig(fs, filePath);
+			if (config) {
+				servers.push(...mcpServerEntries(mcpServersTable(config, filePath), agent, 'project', filePath));
+			}
+		}
+	}
+
+	const ordered = servers
+		.map((server, index) => ({ server, index }))
+		.sort((a, b) => SCOPE_RANK[b.server.scope] - SCOPE_RANK[a.server.scope] || a.index - b.index)
+		.map(({ server }) => server);
+	const winners = new Set<string>();
+	for (const server of ordered) {
+		const key = `${server.agent}\u0000${server.name}`;
+		server.effective = !winners.has(key);
+		winners.add(key);
+	}
+	return ordered;
+}
@@ -0,0 +1,152 @@
+// `@path` reference expansion - NO vscode dependency
+// CLAUDE.md imports (`@path/to/file`) and Cursor rule file references (`@file.ts`) are inlined so MCP
+// clients see the referenced content. References resolve relative to the file that contains them.
+import * as path from 'path';
+import type { IFileSystem } from './types';
+import { FileType } from './types';
+
+/** Maximum import hops, as in Claude Code (the artifact itself is depth 0). */
+export const REFERENCE_EXPANSION_DEPTH = 5;
+
+/** `@` followed by a path-like token; emails do not match. See isFileReference for what counts as a file. */
+const REFERENCE_PATTERN = /(^|[\s(])@((?:~\/|\.{1,2}\/|\/)?[\w.\-/]*[\w\-/][\w.\-/]*)/g;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const PATH_PREFIX = /^(~\/|\.{1,2}\/|\/)/;
+
+export type CoreUnresolvedReason = 'not-found' | 'outside-root' | 'symlink' | 'cycle' | 'depth-limit';
+
+export interface CoreUnresolvedReference {
+	/** Reference as written, without the `@` */
+	reference: string;
+	/** File that contains the reference */
+	from: string;
+	reason: CoreUnresolvedReason;
+}
+
+export interface CoreExpandedContent {
+	content: string;
+	/** Files inlined, in the order they appear */
+	includedFiles: string[];
+	unresolvedReferences: CoreUnresolvedReference[];
+}
+
+function isWithin(root: string, filePath: string): boolean {
+	const relative = path.relative(root, filePath);
+	return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Whether a token names a file: it starts with `./`, `../`, `/` or `~/`, or its last segment has an
+ * extension. `@mentions` and package names such as `@types/node` or `@scope/pkg` do not.
+ */
+function isFileReference(reference: string): boolean {
+	return PATH_PREFIX.test(reference) || /.\.\w+$/.test(path.posix.basename(reference));
+}
+
+/**
+ * Whether `target` is a regular file reached from `boundary` without following symlinks: every
+ * segment below `boundary` must be listed by its parent as a directory (the last one as a file), as
+ * in listSkillFilesCore. A stat would follow a link and let it point anywhere.
+ */
+async function isPlainFile(fs: IFileSystem, boundary: string, target: string): Promise<boolean> {
+	const segments = path.relative(boundary, target).split(path.sep);
+	let dir = boundary;
+	for (const [i, segment] of segments.entries()) {
+		const entries = await fs.readDirectory(dir);
+		const type = entries.find(([name]) => name === segment)?.[1];
+		if (type !== (i === segments.length - 1 ? FileType.File : FileType.Directory)) {return false;}
+		dir = path.join(dir, segment);
+	}
+	return true;
+}
+
+/** References on one line, ignoring inline code spans. */
+function referencesInLine(line: string): string[] {
+	const withoutCode = line.replace(/`[^`]*`/g, m => ' '.repeat(m.length));
+	const references: string[] = [];
+	for (const match of withoutCode.matchAll(REFERENCE_PATTERN)) {
+		const reference = match[2].replace(/[.]+$/, '');
+		if (isFileReference(reference) && !references.includes(reference)) {
+			references.push(reference);
+		}
+	}
+	return references;
+}
+
+/**
+ * Inline `@path` references of `content` (the text of `sourcePath`). Each referenced file is inserted after
+ * the line that references it, between `<!-- @ref -->` and `<!-- /@ref -->` markers, and expanded in turn up
+ * to `maxDepth` hops. References inside code blocks and code spans are left alone. Files must stay within
+ * `projectRoot` (or, for artifacts outside the project such as user memory, within the artifact's own
+ * directory) and are not followed through symlinks; a file already inlined is not inlined again.
+ * Everything that cannot be inlined is reported.
+ */
+export async function expandReferencesCore(
+	fs: IFileSystem,
+	content: string,
+	sourcePath: string,
+	projectRoot: string,
+	maxDepth: number = REFERENCE_EXPANSION_DEPTH
+): Promise<CoreExpandedContent> {
+	const boundary = isWithin(projectRoot, sourcePath) ? projectRoot : path.dirname(sourcePath);
+	const includedFiles: string[] = [];
+	const unresolvedReferences: CoreUnresolvedReference[] = [];
+
+	async function expand(text: string, filePath: string, depth: number, chain: string[]): Promise<string> {
+		const out: string[] = [];
+		let inFence = false;
+		for (const line of text.split('\n')) {
+			out.push(line);
+			if (FENCE_PATTERN.test(line)) {
+				inFence = !inFence;
+				continue;
+			}
+			if (inFence) {continue;}
+
+			for (const reference of referencesInLine(line)) {
+				const target = path.resolve(path.dirname(filePath), reference);
+				const unresolved = (reason: CoreUnresolvedReason) => unresolvedReferences.push({ reference, from: filePath, reason });
+
+				// Home-relative imports always leave the root
+				if (reference.startsWith('~/') || !isWithin(boundary, target)) {
+					unresolved('outside-root');
+					continue;
+				}
+				if (chain.includes(target)) {
+					unresolved('cycle');
+					continue;
+				}
+				if (includedFiles.includes(target)) {continue;}
+				if (depth + 1 > maxDepth) {
+					unresolved('depth-limit');
+					continue;
+				}
+
+				let referenced: string;
+				try {
+					const stat = await fs.stat(target);
+					if ((stat.type & FileType.File) === 0) {
+						unresolved('not-found');
+						continue;
+					}
+					// A symlink inside the boundary can still point outside it
+					if (!await isPlainFile(fs, boundary, target)) {
+						unresolved('symlink');
+						continue;
+					}
+					referenced = (await fs.readFile(target)).toString('utf8');
+				} catch {
+					unresolved('not-found');
+					continue;
+				}
+				includedFiles.push(target);
+				const expanded = await expand(referenced.trimEnd(), target, depth + 1, [...chain, target]);
+				out.push(`<!-- @${reference} -->`, expanded, `<!-- /@${reference} -->`);
+			}
+		}
+		return out.join('\n');
+	}
+
+	const expanded = await expand(content, sourcePath, 0, [sourcePath]);
+	return { content: expanded, includedFiles, unresolvedReferences };
+}
@@ -3,11 +3,14 @@
 import matter from 'gray-matter';
 import type { CoreRuleMetadata } from './types';
 
+/** Description filled in for a rule whose frontmatter declares none */
+export const NO_RULE_DESCRIPTION = 'No description';
+
 export function parseRuleFromString(text: string): { metadata: CoreRuleMetadata; content: string } {
 	try {
 		const parsed = matter(text);
 		const metadata: CoreRuleMetadata = {
-			description: parsed.data.description || 'No description',
+			description: parsed.data.description || NO_RULE_DESCRIPTION,
 			globs: parsed.data.globs || [],
 			alwaysApply: parsed.data.alwaysApply || false
 		};
@@ -22,3 +25,108 @@ export function parseRuleFromString(text: string): { metadata: CoreRuleMetadata;
 		};
 	}
 }
+
+/**
+ * Copilot `.instructions.md` files: `applyTo` (a YAML list or comma-separated string) is the
+ * rule's globs. They are never always-apply; `.github/copilot-instructions.md` is.
+ */
+export function parseCopilotInstructionsFromString(text: string): { metadata: CoreRuleMetadata; content: string } {
+	try {
+		const parsed = matter(text);
+		const metadata: CoreRuleMetadata = {
+			description: parsed.data.description || NO_RULE_DESCRIPTION,
+			globs: parsed.data.applyTo || [],
+			alwaysApply: false
+		};
+		return {
+			metadata,
+			content: parsed.content.trim()
+		};
+	} catch {
+		return {
+			metadata: { description: 'Error parsing file' },
+			content: 'Error reading file content'
+		};
+	}
+}
+
+/**
+ * Kiro steering files: `inclusion: always` (the default) is always-apply, `inclusion: fileMatch`
+ * applies to `fileMatchPattern` (the rule's globs) and `inclusion: manual` is attached by hand.
+ */
+export function parseKiroSteeringFromString(text: string): { metadata: CoreRuleMetadata; content: string } {
+	try {
+		const parsed = matter(text);
+		const inclusion = typeof parsed.data.inclusion === 'string' ? parsed.data.inclusion : 'always';
+		const metadata: CoreRuleMetadata = {
+			description: parsed.data.description || NO_RULE_DESCRIPTION,
+			globs: inclusion === 'fileMatch' ? parsed.data.fileMatchPattern || [] : [],
+			alwaysApply: inclusion === 'always'
+		};
+		return {
+			metadata,
+			content: parsed.content.trim()
+		};
+	} catch {
+		return {
+			metadata: { description: 'Error parsing file' },
+			content: 'Error reading file content'
+		};
+	}
+}
+
+/**
+ * Windsurf rules: `trigger: always_on` is always-apply, `trigger: glob` applies to `globs`, and
+ * `model_decision` / `manual` (the default) are attached on request.
+ */
+export function parseWindsurfRuleFromString(text: string): { metadata: CoreRuleMetadata; content: string } {
+	try {
+		const parsed = matter(text);
+		const trigger = typeof parsed.data.trigger === 'string' ? parsed.data.trigger : 'manual';
+		const metadata: CoreRuleMetadata = {
+			description: parsed.data.description || NO_RULE_DESCRIPTION,
+			globs: trigger === 'glob' ? parsed.data.globs || [] : [],
+			alwaysApply: trigger === 'always_on'
+		};
+		return {
+			metadata,
+			content: parsed.content.trim()
+		};
+	} catch {
+		return {
+			metadata: { description: 'Error parsing file' },
+			content: 'Error reading file content'
+		};
+	}
+}
+
+/**
+ * Continue rules: `alwaysApply: true` is always-apply; without `alwaysApply` a rule with no `globs`
+ * is always applied too, and one with `globs` applies to matching files.
+ */
+export function parseContinueRuleFromString(text: string): { metadata: CoreRuleMetadata; content: string } {
+	try {
+		const parsed = matter(text);
+		const globs = parsed.data.globs || [];
+		const hasGlobs = Array.isArray(globs) ? globs.length > 0 : String(globs).length > 0;
+		const metadata: CoreRuleMetadata = {
+			description: parsed.data.description || parsed.data.name || NO_RULE_DESCRIPTION,
+			globs,
+			alwaysApply: parsed.data.alwaysApply === true || (parsed.data.alwaysApply === undefined && !hasGlobs)
+		};
+		return {
+			metadata,
+			content: parsed.content.trim()
+		};
+	} catch {
+		return {
+			metadata: { description: 'Error parsing file' },
+			content: 'Error reading file content'
+		};
+	}
+}
+
+/** Logical rule name: file name without `.mdc`/`.md`, and without Copilot's `.instructions` infix. */
+export function ruleNameFromFileName(fileName: string): string {
+	return fileName.replace(/(\.instructions)?\.(mdc|md)$/, '');
+}
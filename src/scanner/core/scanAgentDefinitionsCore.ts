@@ -3,7 +3,9 @@ import * as path from 'path';
 import type { IFileSystem } from './types';
 import type { CoreAgentDefinition, CorePlatform } from './types';
 import { listFilesFlat } from './listFiles';
+import { toCoreAgentDefinition } from './agentParsing';
 import { scanClaudeAgentDefs } from './scanClaudeCodeCore';
+import { scanCopilotAgentDefs } from './scanCopilotCore';
 
 /**
  * Absolute path to workspace-scoped agent definitions: `<projectRoot>/.cursor/agents`.
@@ -46,14 +48,7 @@ export async function scanAgentDefinitionsInDirectory(
 		const displayName = path.basename(base, '.md');
 		try {
 			const content = await fs.readFile(filePath);
-			const text = content.toString('utf8');
-			results.push({
-				path: filePath,
-				content: text,
-				fileName: displayName,
-				displayName,
-				platform
-			});
+			results.push(toCoreAgentDefinition(filePath, content.toString('utf8'), displayName, platform));
 		} catch {
 			results.push({
 				path: filePath,
@@ -69,7 +64,7 @@ export async function scanAgentDefinitionsInDirectory(
 }
 
 /**
- * Workspace project: `.cursor/agents/*.md` + `.claude/agents/*.md`.
+ * Workspace project: `.cursor/agents/*.md` + `.claude/agents/*.md` + `.github/chatmodes/*.chatmode.md`.
  */
 export async function scanWorkspaceAgentDefinitionsCore(
 	fs: IFileSystem,
@@ -78,5 +73,6 @@ export async function scanWorkspaceAgentDefinitionsCore(
 	const dir = workspaceAgentsDirectory(projectRoot);
 	const cursorDefs = await scanAgentDefinitionsInDirectory(fs, dir, 'cursor');
 	const claudeDefs = await scanClaudeAgentDefs(fs, projectRoot);
-	return [...cursorDefs, ...claudeDefs];
+	const copilotDefs = await scanCopilotAgentDefs(fs, projectRoot);
+	return [...cursorDefs, ...claudeDefs, ...copilotDefs];
 }
@@ -3,28 +3,38 @@ import * as path from 'path';
 import type { IFileSystem } from './types';
 import type {
 	CoreAsdlcArtifacts,
+	CoreAsdlcScanOptions,
 	CoreAgentsMdInfo,
 	CoreSpecFile,
 	CoreSchemaFile
 } from './types';
 import { FileType } from './types';
 import { hasSection, extractSchemaId, parseSections } from './asdlcHelpers';
+import { scanKiroSpecs } from './scanKiroCore';
+import { scanNestedAgentsMdCore } from './agentsMdHierarchy';
 
+/**
+ * Scan AGENTS.md, specs/ and schemas/. The nested AGENTS.md walk (up to 6 levels) is opt-in:
+ * only the tree lists those files; readAgentsMdChainCore checks each ancestor directly.
+ */
 export async function scanAsdlcCore(
 	fs: IFileSystem,
-	projectRoot: string
+	projectRoot: string,
+	options: CoreAsdlcScanOptions = {}
 ): Promise<CoreAsdlcArtifacts> {
-	const [agentsMd, specs, schemas] = await Promise.all([
+	const [agentsMd, nestedAgentsMd, specs, schemas] = await Promise.all([
 		scanAgentsMdCore(fs, projectRoot),
+		options.nestedAgentsMd ? scanNestedAgentsMdCore(fs, projectRoot) : Promise.resolve([]),
 		scanSpecsCore(fs, projectRoot),
 		scanSchemasCore(fs, projectRoot)
 	]);
 
 	return {
 		agentsMd,
+		nestedAgentsMd,
 		specs,
 		schemas,
-		hasAnyArtifacts: agentsMd.exists || specs.exists || schemas.exists
+		hasAnyArtifacts: agentsMd.exists || nestedAgentsMd.length > 0 || specs.exists || schemas.exists
 	};
 }
 
@@ -61,9 +71,31 @@ async function scanAgentsMdCore(
 	}
 }
 
+/**
+ * ASDLC specs (`specs/<domain>/spec.md`) followed by Kiro specs (`.kiro/specs/<feature>/`).
+ * `path` is `specs/`, or `.kiro/specs/` when only Kiro specs exist.
+ */
 async function scanSpecsCore(
 	fs: IFileSystem,
 	projectRoot: string
+): Promise<{ exists: boolean; path?: string; specs: CoreSpecFile[] }> {
+	const [asdlc, kiroSpecs] = await Promise.all([
+		scanAsdlcSpecsCore(fs, projectRoot),
+		scanKiroSpecs(fs, projectRoot)
+	]);
+	if (kiroSpecs.length === 0) {
+		return asdlc;
+	}
+	return {
+		exists: true,
+		path: asdlc.path ?? path.join(projectRoot, '.kiro', 'specs'),
+		specs: [...asdlc.specs, ...kiroSpecs]
+	};
+}
+
+async function scanAsdlcSpecsCore(
+	fs: IFileSystem,
+	projectRoot: string
 ): Promise<{ exists: boolean; path?: string; specs: CoreSpecFile[] }> {
 	const specsPath = path.join(projectRoot, 'specs');
 
@@ -92,7 +124,9 @@ async function scanSpecsCore(
 					path: specFilePath,
 					hasBlueprint: hasSection(text, 'Blueprint'),
 					hasContract: hasSection(text, 'Contract'),
-					lastModified: stat.mtime ? new Date(stat.mtime).toISOString() : undefined
+					lastModified: stat.mtime ? new Date(stat.mtime).toISOString() : undefined,
+					flavour: 'asdlc',
+					documents: ['spec.md']
 				});
 			} catch {
 				// spec.md doesn't exist or can't be read
@@ -4,43 +4,62 @@ import type { IFileSystem, CoreRule, CoreCommand, CoreSkill, CoreAgentDefinition
 import { FileType } from './types';
 import { listFilesRecursive, listFilesFlat } from './listFiles';
 import { parseRuleFromString } from './ruleParsing';
-import { parseSKILLMetadata } from '../skillParsing';
+import { parseSKILLMetadata, validateSkillFrontmatter } from '../skillParsing';
+import { listSkillFilesCore } from './skillFilesCore';
+import { toCoreAgentDefinition } from './agentParsing';
+import { toCoreCommand } from './commandParsing';
+import { scanClaudeMemoryCore, type CoreClaudeMemoryFile } from './claudeMemoryCore';
+import { claudeSettingsFiles, readClaudeSettingsCore, type CoreClaudeSettings } from './claudeSettingsCore';
 
 export interface CoreClaudeCodeArtifacts {
+	/** Project memory: CLAUDE.md, else .claude/CLAUDE.md */
 	claudeMdPath: string | undefined;
+	/** Project memory files (CLAUDE.md, .claude/CLAUDE.md, CLAUDE.local.md, nested when requested) in load order */
+	memoryFiles: CoreClaudeMemoryFile[];
 	rules: CoreRule[];
 	commands: CoreCommand[];
 	skills: CoreSkill[];
 	agentDefinitions: CoreAgentDefinition[];
+	/** Merged .claude/settings.json and .claude/settings.local.json */
+	settings: CoreClaudeSettings;
 	claudeFolderExists: boolean;
 	hasAnyArtifacts: boolean;
 }
 
+export interface CoreClaudeCodeScanOptions {
+	/** Walk subdirectories for nested CLAUDE.md / CLAUDE.local.md (the tree only; root memory files otherwise) */
+	nestedMemory?: boolean;
+}
+
 /**
- * Scan for Claude Code project-level artifacts in {projectRoot}/.claude/ and CLAUDE.md.
+ * Scan for Claude Code project-level artifacts in {projectRoot}/.claude/ (including settings) and the CLAUDE.md memory files.
  * All scans run in parallel. Missing directories are silently skipped.
  */
 export async function scanClaudeCodeCore(
 	fs: IFileSystem,
-	projectRoot: string
+	projectRoot: string,
+	options: CoreClaudeCodeScanOptions = {}
 ): Promise<CoreClaudeCodeArtifacts> {
-	const [claudeMdPath, rules, commands, skills, agentDefinitions, claudeFolderExists] = await Promise.all([
-		statClaudeMd(fs, projectRoot),
+	const [memoryFiles, rules, commands, skills, agentDefinitions, settings, claudeFolderExists] = await Promise.all([
+		scanClaudeMemoryCore(fs, projectRoot, options.nestedMemory === true),
 		scanClaudeRules(fs, projectRoot),
 		scanClaudeCommands(fs, projectRoot),
 		scanClaudeSkills(fs, projectRoot),
 		scanClaudeAgentDefs(fs, projectRoot),
+		readClaudeSettingsCore(fs, claudeSettingsFiles(projectRoot, undefined)),
 		statClaudeFolder(fs, projectRoot)
 	]);
 
+	const claudeMdPath = memoryFiles.find(f => f.scope === 'project')?.path;
 	const hasAnyArtifacts =
-		claudeMdPath !== undefined ||
+		memoryFiles.length > 0 ||
 		rules.length > 0 ||
 		commands.length > 0 ||
 		skills.length > 0 ||
-		agentDefinitions.length > 0;
+		agentDefinitions.length > 0 ||
+		settings.files.length > 0;
 
-	return { claudeMdPath, rules, commands, skills, agentDefinitions, claudeFolderExists, hasAnyArtifacts };
+	return { claudeMdPath, memoryFiles, rules, commands, skills, agentDefinitions, settings, claudeFolderExists, hasAnyArtifacts };
 }
 
 /**
@@ -76,14 +95,7 @@ export async function scanClaudeAgentDefs(fs: IFileSystem, projectRoot: string):
 		const displayName = path.basename(base, '.md');
 		try {
 			const content = await fs.readFile(filePath);
-			const text = content.toString('utf8');
-			results.push({
-				path: filePath,
-				content: text,
-				fileName: displayName,
-				displayName,
-				platform: 'claude'
-			});
+			results.push(toCoreAgentDefinition(filePath, content.toString('utf8'), displayName, 'claude'));
 		} catch {
 			results.push({
 				path: filePath,
@@ -97,16 +109,6 @@ export async function scanClaudeAgentDefs(fs: IFileSystem, projectRoot: string):
 	return results;
 }
 
-async function statClaudeMd(fs: IFileSystem, projectRoot: string): Promise<string | undefined> {
-	const claudeMdPath = path.join(projectRoot, 'CLAUDE.md');
-	try {
-		const stat = await fs.stat(claudeMdPath);
-		return stat.type === FileType.File ? claudeMdPath : undefined;
-	} catch {
-		return undefined;
-	}
-}
-
 export async function scanClaudeRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
 	const rulesDir = path.join(projectRoot, '.claude', 'rules');
 	const rules: CoreRule[] = [];
@@ -139,14 +141,7 @@ export async function scanClaudeCommands(fs: IFileSystem, projectRoot: string):
 	for (const filePath of filePaths) {
 		try {
 			const content = await fs.readFile(filePath);
-			const text = content.toString('utf8');
-			commands.push({
-				path: filePath,
-				content: text,
-				fileName: path.basename(filePath, '.md'),
-				location: 'workspace',
-				platform: 'claude'
-			});
+			commands.push(toCoreCommand(filePath, content.toString('utf8'), path.basename(filePath, '.md'), 'workspace', 'claude'));
 		} catch {
 			commands.push({
 				path: filePath,
@@ -180,13 +175,21 @@ export async function scanClaudeSkills(fs: IFileSystem, projectRoot: string): Pr
 					location: 'workspace',
 					platform: 'claude',
 					metadata: metadata ? {
+						name: metadata.name,
+						description: metadata.description,
+						allowedTools: metadata.allowedTools,
+						license: metadata.license,
+						compatibility: metadata.compatibility,
+						metadata: metadata.metadata,
 						title: metadata.title,
 						overview: metadata.overview,
 						prerequisites: metadata.prerequisites,
 						steps: metadata.steps,
 						tools: metadata.tools,
 						guidance: metadata.guidance
-					} : undefined
+					} : undefined,
+					files: await listSkillFilesCore(fs, skillPath),
+					issues: validateSkillFrontmatter(text, name)
 				});
 			} catch {
 				skills.push({
@@ -194,7 +197,8 @@ export async function scanClaudeSkills(fs: IFileSystem, projectRoot: string): Pr
 					content: 'Error reading file content',
 					fileName: name,
 					location: 'workspace',
-					platform: 'claude'
+					platform: 'claude',
+					files: await listSkillFilesCore(fs, skillPath)
 				});
 			}
 		}
@@ -2,11 +2,16 @@
 import * as path from 'path';
 import type { IFileSystem } from './types';
 import type { CoreCommand } from './types';
+import type { AgentRootCommandFormat } from './agentRoots';
 import { listFilesFlat } from './listFiles';
+import { toCoreCommand } from './commandParsing';
 import { scanClaudeCommands } from './scanClaudeCodeCore';
+import { scanCopilotCommands } from './scanCopilotCore';
+import { scanGeminiCommands, scanGeminiCommandsInDirectory } from './scanGeminiCore';
 
 /**
- * Scan for commands in project .cursor/commands/ + .claude/commands/ (workspace only).
+ * Scan for commands in project .cursor/commands/ + .claude/commands/ + .github/prompts/ + .gemini/commands/
+ * (workspace only).
  * No global fallback — the Agents view (scanAgentCommandsCore below) is the dedicated,
  * non-project-scoped way to browse a user's global command roots.
  */
@@ -24,14 +29,7 @@ export async function scanCommandsCore(
 	for (const filePath of projectFiles) {
 		try {
 			const content = await fs.readFile(filePath);
-			const text = content.toString('utf8');
-			commands.push({
-				path: filePath,
-				content: text,
-				fileName: path.basename(filePath, '.md'),
-				location: 'workspace',
-				platform: 'cursor'
-			});
+			commands.push(toCoreCommand(filePath, content.toString('utf8'), path.basename(filePath, '.md'), 'workspace', 'cursor'));
 		} catch {
 			commands.push({
 				path: filePath,
@@ -46,34 +44,39 @@ export async function scanCommandsCore(
 	// Project commands (Claude Code)
 	commands.push(...await scanClaudeCommands(fs, projectRoot));
 
+	// Project prompt files (GitHub Copilot)
+	commands.push(...await scanCopilotCommands(fs, projectRoot));
+
+	// Project TOML commands (Gemini CLI)
+	commands.push(...await scanGeminiCommands(fs, projectRoot));
+
 	return commands;
 }
 
 /**
- * Scan commands for an agent root (e.g. ~/.cursor, ~/.claude, ~/.agents).
- * Looks for flat Markdown files in <agentRoot>/commands.
+ * Scan commands for an agent root (e.g. ~/.cursor, ~/.claude, ~/.agents, ~/.gemini).
+ * Looks for flat Markdown files in <agentRoot>/commands or, for `format: 'toml'` (~/.gemini), for
+ * Gemini CLI `*.toml` commands anywhere below it (namespaced by subdirectory). `commandsDir`
+ * overrides the directory (Codex prompts: ~/.codex/prompts).
  */
 export async function scanAgentCommandsCore(
 	fs: IFileSystem,
-	agentRoot: string
+	agentRoot: string,
+	commandsDir: string = path.join(agentRoot, 'commands'),
+	format: AgentRootCommandFormat = 'markdown'
 ): Promise<CoreCommand[]> {
+	if (format === 'toml') {
+		return scanGeminiCommandsInDirectory(fs, commandsDir, 'global');
+	}
 	const commands: CoreCommand[] = [];
-	const commandsDir = path.join(agentRoot, 'commands');
 	const files = await listFilesFlat(fs, commandsDir, ['.md'], ['README.md']);
 
 	for (const filePath of files) {
 		try {
 			const content = await fs.readFile(filePath);
-			const text = content.toString('utf8');
-			commands.push({
-				path: filePath,
-				content: text,
-				fileName: path.basename(filePath, '.md'),
-				location: 'global',
-				// Agent-root scans (Agents view: Cursor/Claude/Global roots) aren't platform-filtered by
-				// any consumer — this field is only meaningful for project-level scanCommandsCore above.
-				platform: 'cursor'
-			});
+			// Agent-root scans (Agents view: Cursor/Claude/Global roots) aren't platform-filtered by
+			// any consumer — the platform is only meaningful for project-level scanCommandsCore above.
+			commands.push(toCoreCommand(filePath, content.toString('utf8'), path.basename(filePath, '.md'), 'global', 'cursor'));
 		} catch {
 			commands.push({
 				path: filePath,
@@ -0,0 +1,105 @@
+// Shared GitHub Copilot project-level scanning - NO vscode dependency
+// Scans .github/copilot-instructions.md, .github/instructions/, .github/prompts/ and .github/chatmodes/
+import * as path from 'path';
+import type { IFileSystem, CoreRule, CoreCommand, CoreAgentDefinition } from './types';
+import { FileType } from './types';
+import { listFilesFlat } from './listFiles';
+import { parseCopilotInstructionsFromString, parseRuleFromString } from './ruleParsing';
+import { toCoreAgentDefinition } from './agentParsing';
+import { toCoreCommand } from './commandParsing';
+
+/** Copilot file-name suffixes; the part before the suffix is the artifact name. */
+const COPILOT_INSTRUCTIONS_SUFFIX = '.instructions.md';
+const COPILOT_PROMPT_SUFFIX = '.prompt.md';
+const COPILOT_CHATMODE_SUFFIX = '.chatmode.md';
+
+/** Flat `*<suffix>` files in a directory, sorted by artifact name. */
+async function listSuffixedFiles(fs: IFileSystem, dirPath: string, suffix: string): Promise<string[]> {
+	const filePaths = await listFilesFlat(fs, dirPath, ['.md']);
+	return filePaths
+		.filter(p => path.basename(p).toLowerCase().endsWith(suffix) && path.basename(p).length > suffix.length)
+		.sort((a, b) => stripSuffix(a, suffix).localeCompare(stripSuffix(b, suffix), undefined, { sensitivity: 'base' }));
+}
+
+function stripSuffix(filePath: string, suffix: string): string {
+	const base = path.basename(filePath);
+	return base.slice(0, base.length - suffix.length);
+}
+
+/**
+ * Rules: `.github/copilot-instructions.md` (always applied) plus `.github/instructions/*.instructions.md`,
+ * whose `applyTo` frontmatter becomes the rule's globs.
+ */
+export async function scanCopilotRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const rules: CoreRule[] = [];
+
+	const repoInstructionsPath = path.join(projectRoot, '.github', 'copilot-instructions.md');
+	try {
+		const stat = await fs.stat(repoInstructionsPath);
+		if (stat.type === FileType.File) {
+			const text = (await fs.readFile(repoInstructionsPath)).toString('utf8');
+			const { metadata, content } = parseRuleFromString(text);
+			rules.push({
+				path: repoInstructionsPath,
+				metadata: { ...metadata, alwaysApply: true },
+				content,
+				fileName: 'copilot-instructions.md',
+				platform: 'copilot'
+			});
+		}
+	} catch {
+		// No repository-wide instructions
+	}
+
+	const instructionsDir = path.join(projectRoot, '.github', 'instructions');
+	for (const filePath of await listSuffixedFiles(fs, instructionsDir, COPILOT_INSTRUCTIONS_SUFFIX)) {
+		try {
+			const text = (await fs.readFile(filePath)).toString('utf8');
+			const { metadata, content } = parseCopilotInstructionsFromString(text);
+			rules.push({ path: filePath, metadata, content, fileName: path.basename(filePath), platform: 'copilot' });
+		} catch {
+			rules.push({
+				path: filePath,
+				metadata: { description: 'Error parsing file' },
+				content: 'Error reading file content',
+				fileName: path.basename(filePath),
+				platform: 'copilot'
+			});
+		}
+	}
+	return rules;
+}
+
+/** Commands: `.github/prompts/*.prompt.md` (name without `.prompt.md`). */
+export async function scanCopilotCommands(fs: IFileSystem, projectRoot: string): Promise<CoreCommand[]> {
+	const promptsDir = path.join(projectRoot, '.github', 'prompts');
+	const commands: CoreCommand[] = [];
+
+	for (const filePath of await listSuffixedFiles(fs, promptsDir, COPILOT_PROMPT_SUFFIX)) {
+		const fileName = stripSuffix(filePath, COPILOT_PROMPT_SUFFIX);
+		try {
+			const content = await fs.readFile(filePath);
+			commands.push(toCoreCommand(filePath, content.toString('utf8'), fileName, 'workspace', 'copilot'));
+		} catch {
+			commands.push({ path: filePath, content: 'Error reading file content', fileName, location: 'workspace', platform: 'copilot' });
+		}
+	}
+	return commands;
+}
+
+/** Agent definitions: `.github/chatmodes/*.chatmode.md` (name without `.chatmode.md`). */
+export async function scanCopilotAgentDefs(fs: IFileSystem, projectRoot: string): Promise<CoreAgentDefinition[]> {
+	const chatmodesDir = path.join(projectRoot, '.github', 'chatmodes');
+	const results: CoreAgentDefinition[] = [];
+
+	for (const filePath of await listSuffixedFiles(fs, chatmodesDir, COPILOT_CHATMODE_SUFFIX)) {
+		const displayName = stripSuffix(filePath, COPILOT_CHATMODE_SUFFIX);
+		try {
+			const content = await fs.readFile(filePath);
+			results.push(toCoreAgentDefinition(filePath, content.toString('utf8'), displayName, 'copilot'));
+		} catch {
+			results.push({ path: filePath, content: 'Error reading file content', fileName: displayName, displayName, platform: 'copilot' });
+		}
+	}
+	return results;
+}
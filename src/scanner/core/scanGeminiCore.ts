@@ -0,0 +1,123 @@
+// Shared Gemini CLI scanning - NO vscode dependency
+// Scans GEMINI.md and .gemini/commands/**/*.toml (project), and <agentRoot>/commands/**/*.toml (~/.gemini)
+import * as path from 'path';
+import type { IFileSystem, CoreCommand } from './types';
+import { FileType } from './types';
+import { listFilesRecursive } from './listFiles';
+import { parseToml } from './tomlParsing';
+import { commandArguments } from './commandParsing';
+
+export interface CoreGeminiArtifacts {
+	geminiMdPath: string | undefined;
+	commands: CoreCommand[];
+	geminiFolderExists: boolean;
+	hasAnyArtifacts: boolean;
+}
+
+/** A Gemini CLI custom command file: `prompt` is required, `description` optional. */
+export interface GeminiCommandDefinition {
+	description?: string;
+	prompt: string;
+}
+
+/**
+ * Scan for Gemini CLI project-level artifacts: {projectRoot}/GEMINI.md and .gemini/commands/.
+ * Missing files and directories are silently skipped.
+ */
+export async function scanGeminiCore(
+	fs: IFileSystem,
+	projectRoot: string
+): Promise<CoreGeminiArtifacts> {
+	const [geminiMdPath, commands, geminiFolderExists] = await Promise.all([
+		statGeminiMd(fs, projectRoot),
+		scanGeminiCommands(fs, projectRoot),
+		statGeminiFolder(fs, projectRoot)
+	]);
+
+	const hasAnyArtifacts = geminiMdPath !== undefined || commands.length > 0;
+	return { geminiMdPath, commands, geminiFolderExists, hasAnyArtifacts };
+}
+
+async function statGeminiMd(fs: IFileSystem, projectRoot: string): Promise<string | undefined> {
+	const geminiMdPath = path.join(projectRoot, 'GEMINI.md');
+	try {
+		const stat = await fs.stat(geminiMdPath);
+		return stat.type === FileType.File ? geminiMdPath : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+async function statGeminiFolder(fs: IFileSystem, projectRoot: string): Promise<boolean> {
+	try {
+		const stat = await fs.stat(path.join(projectRoot, '.gemini'));
+		return stat.type === FileType.Directory;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Parse a Gemini CLI command file (`description = "…"`, `prompt = """…"""`).
+ * Throws when the TOML is malformed or `prompt` is missing.
+ */
+export function parseGeminiCommand(text: string): GeminiCommandDefinition {
+	const parsed = parseToml(text);
+	if (typeof parsed.prompt !== 'string') {
+		throw new Error('Gemini command is missing a "prompt" string');
+	}
+	return {
+		...(typeof parsed.description === 'string' ? { description: parsed.description } : {}),
+		prompt: parsed.prompt
+	};
+}
+
+/** Command name from its path below `commands/`: subdirectories become namespaces (`git/commit.toml` → `git:commit`). */
+export function geminiCommandName(commandsDir: string, filePath: string): string {
+	const relative = path.relative(commandsDir, filePath).replace(/\.toml$/i, '');
+	return relative.split(/[\\/]+/).join(':');
+}
+
+/**
+ * Scan `*.toml` command files (recursive) in a commands directory. `content` is the command's
+ * prompt and `arguments.all` whether it uses `{{args}}`; a file that fails to parse keeps its raw text with an "Error parsing file" description.
+ */
+export async function scanGeminiCommandsInDirectory(
+	fs: IFileSystem,
+	commandsDir: string,
+	location: 'workspace' | 'global'
+): Promise<CoreCommand[]> {
+	const filePaths = await listFilesRecursive(fs, commandsDir, ['.toml']);
+	const commands: CoreCommand[] = [];
+
+	for (const filePath of filePaths.sort()) {
+		const fileName = geminiCommandName(commandsDir, filePath);
+		let text: string;
+		try {
+			text = (await fs.readFile(filePath)).toString('utf8');
+		} catch {
+			commands.push({ path: filePath, content: 'Error reading file content', fileName, location, platform: 'gemini' });
+			continue;
+		}
+		try {
+			const command = parseGeminiCommand(text);
+			commands.push({
+				path: filePath,
+				content: command.prompt,
+				description: command.description,
+				fileName,
+				location,
+				platform: 'gemini',
+				arguments: commandArguments(command.prompt, 'gemini')
+			});
+		} catch {
+			commands.push({ path: filePath, content: text, description: 'Error parsing file', fileName, location, platform: 'gemini' });
+		}
+	}
+	return commands;
+}
+
+/** Project commands: `.gemini/commands/**\/*.toml`. */
+export async function scanGeminiCommands(fs: IFileSystem, projectRoot: string): Promise<CoreCommand[]> {
+	return scanGeminiCommandsInDirectory(fs, path.join(projectRoot, '.gemini', 'commands'), 'workspace');
+}
@@ -0,0 +1,113 @@
+// Shared Kiro project-level scanning - NO vscode dependency
+// Scans .kiro/steering/*.md (rules) and .kiro/specs/<feature>/{requirements,design,tasks}.md (specs)
+import * as path from 'path';
+import type { IFileSystem, CoreRule, CoreSpecFile, FileTypeValue } from './types';
+import { FileType } from './types';
+import { listFilesFlat } from './listFiles';
+import { hasSection } from './asdlcHelpers';
+import { parseKiroSteeringFromString } from './ruleParsing';
+
+/** Documents of a Kiro spec, in the order Kiro writes them. */
+export const KIRO_SPEC_DOCUMENTS = ['requirements.md', 'design.md', 'tasks.md'];
+
+/**
+ * Steering files (`.kiro/steering/*.md`) as rules: `inclusion` always / fileMatch / manual maps onto
+ * always-apply / glob (`fileMatchPattern`) / manual rules.
+ */
+export async function scanKiroSteering(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const steeringDir = path.join(projectRoot, '.kiro', 'steering');
+	const filePaths = await listFilesFlat(fs, steeringDir, ['.md']);
+	const rules: CoreRule[] = [];
+
+	for (const filePath of filePaths.sort()) {
+		const fileName = path.basename(filePath);
+		try {
+			const text = (await fs.readFile(filePath)).toString('utf8');
+			const { metadata, content } = parseKiroSteeringFromString(text);
+			rules.push({ path: filePath, metadata, content, fileName, platform: 'kiro' });
+		} catch {
+			rules.push({
+				path: filePath,
+				metadata: { description: 'Error parsing file' },
+				content: 'Error reading file content',
+				fileName,
+				platform: 'kiro'
+			});
+		}
+	}
+	return rules;
+}
+
+/**
+ * Kiro specs: one per `.kiro/specs/<feature>/` folder holding at least one of requirements.md,
+ * design.md or tasks.md. `path` is the first of those that exists.
+ */
+export async function scanKiroSpecs(fs: IFileSystem, projectRoot: string): Promise<CoreSpecFile[]> {
+	const specsDir = path.join(projectRoot, '.kiro', 'specs');
+	let entries: [string, FileTypeValue][];
+	try {
+		entries = await fs.readDirectory(specsDir);
+	} catch {
+		return [];
+	}
+
+	const specs: CoreSpecFile[] = [];
+	for (const [name, fileType] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+		if (fileType !== FileType.Directory) {continue;}
+
+		const documents: string[] = [];
+		const texts: string[] = [];
+		let lastModified: number | undefined;
+		for (const document of KIRO_SPEC_DOCUMENTS) {
+			const documentPath = path.join(specsDir, name, document);
+			try {
+				const stat = await fs.stat(documentPath);
+				if (stat.type !== FileType.File) {continue;}
+				texts.push((await fs.readFile(documentPath)).toString('utf8'));
+				documents.push(document);
+				if (stat.mtime && (lastModified === undefined || stat.mtime > lastModified)) {
+					lastModified = stat.mtime;
+				}
+			} catch {
+				// Document missing or unreadable
+			}
+		}
+		if (documents.length === 0) {continue;}
+
+		specs.push({
+			domain: name,
+			path: path.join(specsDir, name, documents[0]),
+			hasBlueprint: texts.some(t => hasSection(t, 'Blueprint')),
+			hasContract: texts.some(t => hasSection(t, 'Contract')),
+			lastModified: lastModified ? new Date(lastModified).toISOString() : undefined,
+			flavour: 'kiro',
+			documents
+		});
+	}
+	return specs;
+}
+
+/**
+ * Full text of a spec: `spec.md` for ASDLC specs; for Kiro specs every existing document, each
+ * preceded by an `<!-- <document> -->` marker line. Null when nothing can be read.
+ */
+export async function readSpecContentCore(fs: IFileSystem, spec: CoreSpecFile): Promise<string | null> {
+	if (spec.flavour !== 'kiro') {
+		try {
+			return (await fs.readFile(spec.path)).toString('utf8');
+		} catch {
+			return null;
+		}
+	}
+	const dir = path.dirname(spec.path);
+	const parts: string[] = [];
+	for (const document of spec.documents) {
+		try {
+			const text = (await fs.readFile(path.join(dir, document))).toString('utf8');
+			parts.push(`<!-- ${document} -->\n${text.trimEnd()}\n`);
+		} catch {
+			// Removed since the scan
+		}
+	}
+	return parts.length > 0 ? parts.join('\n') : null;
+}
@@ -0,0 +1,140 @@
+// Shared scanning for rules-folder agents - NO vscode dependency
+// Windsurf (.windsurf/rules/, .windsurfrules), Cline (.clinerules file or folder),
+// Roo Code (.roo/rules/, .roo/rules-<mode>/) and Continue (.continue/rules/)
+import * as path from 'path';
+import type { IFileSystem, CoreRule, CorePlatform, CoreRuleMetadata, FileTypeValue } from './types';
+import { FileType } from './types';
+import { listFilesFlat, listFilesRecursive } from './listFiles';
+import { NO_RULE_DESCRIPTION, parseContinueRuleFromString, parseRuleFromString, parseWindsurfRuleFromString } from './ruleParsing';
+
+type RuleParser = (text: string) => { metadata: CoreRuleMetadata; content: string };
+
+/** Plain Markdown rules (Cline, Roo Code) have no inclusion frontmatter: they are always applied. */
+function parseAlwaysAppliedRule(text: string): { metadata: CoreRuleMetadata; content: string } {
+	const { metadata, content } = parseRuleFromString(text);
+	return { metadata: { ...metadata, alwaysApply: true }, content };
+}
+
+async function readRule(
+	fs: IFileSystem,
+	filePath: string,
+	platform: CorePlatform,
+	parse: RuleParser,
+	defaultDescription?: string
+): Promise<CoreRule> {
+	const fileName = path.basename(filePath);
+	try {
+		const text = (await fs.readFile(filePath)).toString('utf8');
+		const { metadata, content } = parse(text);
+		if (defaultDescription && metadata.description === NO_RULE_DESCRIPTION) {
+			metadata.description = defaultDescription;
+		}
+		return { path: filePath, metadata, content, fileName, platform };
+	} catch {
+		return {
+			path: filePath,
+			metadata: { description: 'Error parsing file' },
+			content: 'Error reading file content',
+			fileName,
+			platform
+		};
+	}
+}
+
+async function statType(fs: IFileSystem, filePath: string): Promise<FileTypeValue | undefined> {
+	try {
+		return (await fs.stat(filePath)).type;
+	} catch {
+		return undefined;
+	}
+}
+
+/** A single rules file at the project root (`.windsurfrules`, `.clinerules`); skipped when it cannot be read. */
+async function readRootRuleFile(fs: IFileSystem, filePath: string, platform: CorePlatform): Promise<CoreRule[]> {
+	try {
+		const text = (await fs.readFile(filePath)).toString('utf8');
+		const { metadata, content } = parseAlwaysAppliedRule(text);
+		return [{ path: filePath, metadata, content, fileName: path.basename(filePath), platform }];
+	} catch {
+		return [];
+	}
+}
+
+/** Windsurf: `.windsurf/rules/*.md` (`trigger` frontmatter) plus the legacy always-on `.windsurfrules`. */
+export async function scanWindsurfRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const rules: CoreRule[] = [];
+	const legacyPath = path.join(projectRoot, '.windsurfrules');
+	if (await statType(fs, legacyPath) === FileType.File) {
+		rules.push(...await readRootRuleFile(fs, legacyPath, 'windsurf'));
+	}
+	const filePaths = await listFilesFlat(fs, path.join(projectRoot, '.windsurf', 'rules'), ['.md']);
+	for (const filePath of filePaths.sort()) {
+		rules.push(await readRule(fs, filePath, 'windsurf', parseWindsurfRuleFromString));
+	}
+	return rules;
+}
+
+/** Cline: `.clinerules` is either one rules file or a folder of `*.md` rules; both are always applied. */
+export async function scanClineRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const clinePath = path.join(projectRoot, '.clinerules');
+	const type = await statType(fs, clinePath);
+	if (type === FileType.File) {
+		return readRootRuleFile(fs, clinePath, 'cline');
+	}
+	if (type !== FileType.Directory) {return [];}
+	const filePaths = await listFilesFlat(fs, clinePath, ['.md']);
+	const rules: CoreRule[] = [];
+	for (const filePath of filePaths.sort()) {
+		rules.push(await readRule(fs, filePath, 'cline', parseAlwaysAppliedRule));
+	}
+	return rules;
+}
+
+/**
+ * Roo Code: `.roo/rules/` (every mode) and `.roo/rules-<mode>/` (one mode), read recursively and
+ * always applied. Mode-specific rules without a description are described as `Mode: <mode>`.
+ */
+export async function scanRooRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const rooDir = path.join(projectRoot, '.roo');
+	let entries: [string, FileTypeValue][];
+	try {
+		entries = await fs.readDirectory(rooDir);
+	} catch {
+		return [];
+	}
+
+	const rules: CoreRule[] = [];
+	const ruleDirs = entries
+		.filter(([name, fileType]) => fileType === FileType.Directory && (name === 'rules' || name.startsWith('rules-')))
+		.map(([name]) => name)
+		.sort();
+	for (const dirName of ruleDirs) {
+		const mode = dirName === 'rules' ? undefined : dirName.slice('rules-'.length);
+		const filePaths = await listFilesRecursive(fs, path.join(rooDir, dirName), ['.md']);
+		for (const filePath of filePaths.sort()) {
+			rules.push(await readRule(fs, filePath, 'roo', parseAlwaysAppliedRule, mode ? `Mode: ${mode}` : undefined));
+		}
+	}
+	return rules;
+}
+
+/** Continue: `.continue/rules/*.md` (`globs` / `alwaysApply` frontmatter). */
+export async function scanContinueRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const filePaths = await listFilesFlat(fs, path.join(projectRoot, '.continue', 'rules'), ['.md']);
+	const rules: CoreRule[] = [];
+	for (const filePath of filePaths.sort()) {
+		rules.push(await readRule(fs, filePath, 'continue', parseContinueRuleFromString));
+	}
+	return rules;
+}
+
+/** All rules-folder agents, in precedence order: Windsurf, Cline, Roo Code, Continue. */
+export async function scanRuleFoldersCore(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
+	const [windsurf, cline, roo, continueRules] = await Promise.all([
+		scanWindsurfRules(fs, projectRoot),
+		scanClineRules(fs, projectRoot),
+		scanRooRules(fs, projectRoot),
+		scanContinueRules(fs, projectRoot)
+	]);
+	return [...windsurf, ...cline, ...roo, ...continueRules];
+}
@@ -5,10 +5,14 @@ import type { CoreRule } from './types';
 import { listFilesRecursive } from './listFiles';
 import { parseRuleFromString } from './ruleParsing';
 import { scanClaudeRules } from './scanClaudeCodeCore';
+import { scanCopilotRules } from './scanCopilotCore';
+import { scanKiroSteering } from './scanKiroCore';
+import { scanRuleFoldersCore } from './scanRuleFoldersCore';
 
 /**
- * Scan for rules in project .cursor/rules/ and .claude/rules/ (workspace only —
- * no global scan for either platform; see spec 011 FR-007).
+ * Scan for rules in project .cursor/rules/, .claude/rules/, Copilot's .github/ instructions,
+ * Kiro's .kiro/steering/ and the Windsurf, Cline, Roo Code and Continue rules folders
+ * (workspace only — no global scan for any platform; see spec 011 FR-007).
  */
 export async function scanRulesCore(
 	fs: IFileSystem,
@@ -17,7 +21,10 @@ export async function scanRulesCore(
 ): Promise<CoreRule[]> {
 	const cursorRules = await scanCursorRules(fs, projectRoot);
 	const claudeRules = await scanClaudeRules(fs, projectRoot);
-	return [...cursorRules, ...claudeRules];
+	const copilotRules = await scanCopilotRules(fs, projectRoot);
+	const kiroRules = await scanKiroSteering(fs, projectRoot);
+	const ruleFolderRules = await scanRuleFoldersCore(fs, projectRoot);
+	return [...cursorRules, ...claudeRules, ...copilotRules, ...kiroRules, ...ruleFolderRules];
 }
 
 async function scanCursorRules(fs: IFileSystem, projectRoot: string): Promise<CoreRule[]> {
@@ -3,14 +3,15 @@ import * as path from 'path';
 import type { IFileSystem } from './types';
 import type { CoreSkill, CorePlatform } from './types';
 import { FileType } from './types';
-import { parseSKILLMetadata } from '../skillParsing';
+import { parseSKILLMetadata, validateSkillFrontmatter } from '../skillParsing';
 import { scanClaudeSkills } from './scanClaudeCodeCore';
+import { listSkillFilesCore } from './skillFilesCore';
 
 /**
  * Scan for skills in project .cursor/skills/ + .claude/skills/ (workspace only).
  * No global fallback — the Agents view (scanAgentSkillsCore below) is the dedicated,
  * non-project-scoped way to browse a user's global skill roots.
- * One level: each subdir contains SKILL.md.
+ * One level: each subdir contains SKILL.md; its other files are listed as the skill's `files`.
  */
 export async function scanSkillsCore(
 	fs: IFileSystem,
@@ -55,13 +56,21 @@ async function scanSkillsInDir(
 					location,
 					platform,
 					metadata: metadata ? {
+						name: metadata.name,
+						description: metadata.description,
+						allowedTools: metadata.allowedTools,
+						license: metadata.license,
+						compatibility: metadata.compatibility,
+						metadata: metadata.metadata,
 						title: metadata.title,
 						overview: metadata.overview,
 						prerequisites: metadata.prerequisites,
 						steps: metadata.steps,
 						tools: metadata.tools,
 						guidance: metadata.guidance
-					} : undefined
+					} : undefined,
+					files: await listSkillFilesCore(fs, skillPath),
+					issues: validateSkillFrontmatter(text, name)
 				});
 			} catch {
 				results.push({
@@ -69,7 +78,8 @@ async function scanSkillsInDir(
 					content: 'Error reading file content',
 					fileName: name,
 					location,
-					platform
+					platform,
+					files: await listSkillFilesCore(fs, skillPath)
 				});
 			}
 		}
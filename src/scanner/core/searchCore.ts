@@ -0,0 +1,177 @@
+// Shared full-text search over scanned artifacts - NO vscode dependency
+// Collects rules, commands, skills, agent definitions and ASDLC artifacts as raw text, then ranks
+// line hits for a query. Used by search_context (standalone + bridge) and the search quick pick.
+import * as path from 'path';
+import type {
+	CoreSearchDocument,
+	CoreSearchHit,
+	CoreSearchKind,
+	CoreSearchOptions,
+	IFileSystem
+} from './types';
+import { scanRulesCore } from './scanRulesCore';
+import { ruleNameFromFileName } from './ruleParsing';
+import { scanCommandsCore } from './scanCommandsCore';
+import { scanSkillsCore } from './scanSkillsCore';
+import { scanAsdlcCore } from './scanAsdlcCore';
+import {
+	agentRootAgentsDirectory,
+	scanAgentDefinitionsInDirectory,
+	scanWorkspaceAgentDefinitionsCore
+} from './scanAgentDefinitionsCore';
+import { defaultAgentRoots, rootsWithSection, type AgentRootConfig } from './agentRoots';
+
+/** All searchable kinds, for input validation (search_context `kinds`). */
+export const SEARCH_KINDS: readonly CoreSearchKind[] = ['rule', 'command', 'skill', 'agent', 'spec', 'agents-md', 'schema'];
+
+const DEFAULT_LIMIT = 50;
+const MAX_HITS_PER_DOCUMENT = 3;
+const SNIPPET_LENGTH = 160;
+
+async function readText(fs: IFileSystem, filePath: string, fallback: string): Promise<string> {
+	try {
+		const buf = await fs.readFile(filePath);
+		return buf.toString('utf8');
+	} catch {
+		return fallback;
+	}
+}
+
+/**
+ * Collect every searchable artifact for a project. Text is the raw file (frontmatter included) so
+ * hit line numbers match the file on disk. Agent definitions include the user-level agent roots
+ * (built-in `~/.cursor`, `~/.claude`, `~/.agents` unless configured), tagged like list_agents.
+ */
+export async function collectSearchDocumentsCore(
+	fs: IFileSystem,
+	projectRoot: string,
+	userRoot: string,
+	agentRoots: AgentRootConfig[] = defaultAgentRoots(userRoot)
+): Promise<CoreSearchDocument[]> {
+	const [rules, commands, skills, workspaceAgents, asdlc] = await Promise.all([
+		scanRulesCore(fs, projectRoot, userRoot),
+		scanCommandsCore(fs, projectRoot, userRoot),
+		scanSkillsCore(fs, projectRoot, userRoot),
+		scanWorkspaceAgentDefinitionsCore(fs, projectRoot),
+		scanAsdlcCore(fs, projectRoot)
+	]);
+
+	const docs: CoreSearchDocument[] = [];
+	for (const r of rules) {
+		docs.push({
+			kind: 'rule',
+			name: ruleNameFromFileName(r.fileName),
+			path: r.path,
+			platform: r.platform,
+			location: 'workspace',
+			text: await readText(fs, r.path, r.content)
+		});
+	}
+	for (const c of commands) {
+		docs.push({ kind: 'command', name: c.fileName, path: c.path, platform: c.platform, location: c.location, text: c.content });
+	}
+	for (const s of skills) {
+		docs.push({ kind: 'skill', name: s.fileName, path: s.path, platform: s.platform, location: s.location, text: s.content });
+	}
+	for (const a of workspaceAgents) {
+		docs.push({ kind: 'agent', name: a.fileName, path: a.path, platform: a.platform, location: 'workspace', text: a.content });
+	}
+	for (const root of rootsWithSection(agentRoots, 'agents')) {
+		const defs = await scanAgentDefinitionsInDirectory(fs, agentRootAgentsDirectory(root.directory));
+		for (const a of defs) {
+			docs.push({ kind: 'agent', name: a.fileName, path: a.path, platform: a.platform, location: root.id, text: a.content });
+		}
+	}
+	if (asdlc.agentsMd.exists && asdlc.agentsMd.path) {
+		docs.push({ kind: 'agents-md', name: 'AGENTS.md', path: asdlc.agentsMd.path, location: 'workspace', text: asdlc.agentsMd.content ?? '' });
+	}
+	for (const s of asdlc.specs.specs) {
+		// One document per file so hit line numbers point into it (Kiro: requirements, design, tasks)
+		for (const document of s.documents) {
+			const documentPath = path.join(path.dirname(s.path), document);
+			docs.push({ kind: 'spec', name: s.domain, path: documentPath, location: 'workspace', text: await readText(fs, documentPath, '') });
+		}
+	}
+	for (const s of asdlc.schemas.schemas) {
+		docs.push({ kind: 'schema', name: s.name, path: s.path, location: 'workspace', text: await readText(fs, s.path, '') });
+	}
+	return docs;
+}
+
+function makeSnippet(line: string, term: string): string {
+	const trimmed = line.trim();
+	if (trimmed.length <= SNIPPET_LENGTH) {return trimmed;}
+	const idx = Math.max(0, trimmed.toLowerCase().indexOf(term));
+	const start = Math.max(0, Math.min(idx - SNIPPET_LENGTH / 4, trimmed.length - SNIPPET_LENGTH));
+	const body = trimmed.slice(start, start + SNIPPET_LENGTH);
+	return `${start > 0 ? '…' : ''}${body}${start + SNIPPET_LENGTH < trimmed.length ? '…' : ''}`;
+}
+
+/**
+ * Rank line hits for `query` (whitespace-separated terms, case-insensitive). A document matches
+ * when every term occurs in its name or text; each line containing a term is a candidate hit,
+ * scored by distinct terms on the line, exact phrase, headings and name matches. At most three
+ * hits per document are kept. Sorted by score, then kind, name and line.
+ */
+export function searchDocuments(docs: CoreSearchDocument[], query: string, options: CoreSearchOptions = {}): CoreSearchHit[] {
+	const terms = Array.from(new Set(query.toLowerCase().split(/\s+/).filter(t => t.length > 0)));
+	if (terms.length === 0) {return [];}
+	const phrase = terms.join(' ');
+
+	const hits: CoreSearchHit[] = [];
+	for (const doc of docs) {
+		if (options.kinds && options.kinds.length > 0 && !options.kinds.includes(doc.kind)) {continue;}
+		if (options.platform && doc.platform !== options.platform) {continue;}
+		if (options.location && doc.location !== options.location) {continue;}
+
+		const name = doc.name.toLowerCase();
+		const haystack = `${name}\n${doc.text.toLowerCase()}`;
+		if (!terms.every(t => haystack.includes(t))) {continue;}
+		const nameBonus = terms.filter(t => name.includes(t)).length * 2;
+
+		const lines = doc.text.split(/\r?\n/);
+		const docHits: CoreSearchHit[] = [];
+		lines.forEach((line, i) => {
+			const lower = line.toLowerCase();
+			const onLine = terms.filter(t => lower.includes(t));
+			if (onLine.length === 0) {return;}
+			let score = onLine.length + nameBonus;
+			if (terms.length > 1 && lower.includes(phrase)) {score += 3;}
+			if (line.trim().startsWith('#')) {score += 1;}
+			docHits.push({
+				kind: doc.kind,
+				name: doc.name,
+				path: doc.path,
+				platform: doc.platform,
+				location: doc.location,
+				line: i + 1,
+				snippet: makeSnippet(line, onLine[0]),
+				score
+			});
+		});
+		if (docHits.length === 0) {
+			// Matched on name only: point at the top of the file
+			const first = lines.findIndex(l => l.trim().length > 0);
+			docHits.push({
+				kind: doc.kind,
+				name: doc.name,
+				path: doc.path,
+				platform: doc.platform,
+				location: doc.location,
+				line: first >= 0 ? first + 1 : 1,
+				snippet: first >= 0 ? makeSnippet(lines[first], terms[0]) : '',
+				score: nameBonus
+			});
+		}
+		docHits.sort((a, b) => b.score - a.score || a.line - b.line);
+		hits.push(...docHits.slice(0, MAX_HITS_PER_DOCUMENT));
+	}
+
+	hits.sort((a, b) =>
+		b.score - a.score ||
+		a.kind.localeCompare(b.kind) ||
+		a.name.localeCompare(b.name) ||
+		a.line - b.line
+	);
+	return hits.slice(0, options.limit && options.limit > 0 ? options.limit : DEFAULT_LIMIT);
+}
@@ -0,0 +1,102 @@
+// Skill bundled files - NO vscode dependency
+// A skill folder holds SKILL.md plus whatever it references: scripts/, references/, templates/, assets/, ...
+
+import * as path from 'path';
+import type { IFileSystem, FileTypeValue, CoreSkill, CoreSkillFile } from './types';
+import { FileType } from './types';
+import { SKIPPED_DIRECTORIES } from './listFiles';
+
+/** Directories below the skill folder that are listed (0 = the skill folder itself) */
+export const SKILL_FILES_DEPTH = 4;
+
+/** Files listed per skill; the rest of a larger folder is left out of the manifest */
+export const SKILL_FILES_LIMIT = 200;
+
+/** Largest bundled file returned by readSkillFileCore */
+export const SKILL_FILE_MAX_BYTES = 1024 * 1024;
+
+/** Leading bytes checked for NUL to tell binary files from text */
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface CoreSkillFileContent extends CoreSkillFile {
+	/** `base64` for binary files (images, archives, ...), `utf8` otherwise */
+	encoding: 'utf8' | 'base64';
+	content: string;
+}
+
+/**
+ * List the files bundled with the skill whose SKILL.md is `skillPath`, sorted by relative path.
+ * Hidden entries, SKIPPED_DIRECTORIES and symlinks are left out, so every listed file is inside the
+ * skill folder; so is SKILL.md itself, which is the skill's content.
+ */
+export async function listSkillFilesCore(fs: IFileSystem, skillPath: string): Promise<CoreSkillFile[]> {
+	const skillDir = path.dirname(skillPath);
+	const files: CoreSkillFile[] = [];
+
+	async function walk(dirPath: string, depth: number): Promise<void> {
+		let entries: [string, FileTypeValue][];
+		try {
+			entries = await fs.readDirectory(dirPath);
+		} catch {
+			return; // Directory doesn't exist or can't be read
+		}
+		for (const [name, fileType] of [...entries].sort(([a], [b]) => a.localeCompare(b))) {
+			if (files.length >= SKILL_FILES_LIMIT) {return;}
+			if (name.startsWith('.')) {continue;}
+			const fullPath = path.join(dirPath, name);
+			if (fileType === FileType.Directory) {
+				if (depth >= SKILL_FILES_DEPTH || SKIPPED_DIRECTORIES.has(name)) {continue;}
+				await walk(fullPath, depth + 1);
+			} else if (fileType === FileType.File) {
+				if (depth === 0 && name === 'SKILL.md') {continue;}
+				let size = 0;
+				try {
+					size = (await fs.stat(fullPath)).size ?? 0;
+				} catch {
+					continue; // Removed while listing
+				}
+				files.push({ relativePath: path.relative(skillDir, fullPath).split(path.sep).join('/'), path: fullPath, size });
+			}
+		}
+	}
+
+	await walk(skillDir, 0);
+	return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Read one of `skill`'s bundled files by its path relative to the skill folder.
+ * Only files in the skill's manifest (`skill.files`) are served, which keeps reads inside the skill
+ * folder; `..`, absolute paths and anything not listed are refused with an error message.
+ */
+export async function readSkillFileCore(
+	fs: IFileSystem,
+	skill: Pick<CoreSkill, 'fileName' | 'files'>,
+	relativePath: string
+): Promise<CoreSkillFileContent | { error: string }> {
+	const requested = relativePath.trim().replace(/\\/g, '/').replace(/^(\.\/)+/, '');
+	if (path.posix.isAbsolute(requested) || path.win32.isAbsolute(relativePath) || requested.split('/').includes('..')) {
+		return { error: `Path must be relative to the skill folder and stay inside it: ${relativePath}` };
+	}
+	const file = skill.files?.find(f => f.relativePath === requested);
+	if (!file) {
+		return { error: `File not found in skill "${skill.fileName}": ${relativePath}` };
+	}
+	if (file.size > SKILL_FILE_MAX_BYTES) {
+		return { error: `File is too large to return (${file.size} bytes, limit ${SKILL_FILE_MAX_BYTES}): ${file.relativePath}` };
+	}
+
+	let buffer: Buffer;
+	try {
+		buffer = await fs.readFile(file.path);
+	} catch {
+		return { error: `Failed to read file: ${file.relativePath}` };
+	}
+	const binary = buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+	return {
+		...file,
+		size: buffer.length,
+		encoding: binary ? 'base64' : 'utf8',
+		content: buffer.toString(binary ? 'base64' : 'utf8')
+	};
+}
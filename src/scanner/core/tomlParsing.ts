@@ -0,0 +1,316 @@
+// TOML parsing - NO vscode dependency
+// Covers the TOML that agent tools write (Gemini CLI commands, Codex config): tables, arrays of
+// tables, dotted keys, basic/literal/multi-line strings, numbers, booleans, arrays and inline tables.
+// Dates and times are returned as their source text.
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+export interface TomlTable {
+	[key: string]: TomlValue;
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+const VALUE_END = /[\s,\]}#]/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?([Zz]|[+-]\d{2}:\d{2})?$|^\d{2}:\d{2}:\d{2}(\.\d+)?$/;
+const ESCAPES: Record<string, string> = { b: '\b', t: '\t', n: '\n', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+
+function isTable(value: TomlValue | undefined): value is TomlTable {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+class TomlParser {
+	private pos = 0;
+
+	constructor(private readonly src: string) {}
+
+	parse(): TomlTable {
+		const root: TomlTable = {};
+		let current = root;
+		for (;;) {
+			this.skipBlank(true);
+			if (this.pos >= this.src.length) {break;}
+			if (this.src.startsWith('[[', this.pos)) {
+				this.pos += 2;
+				const keys = this.parseKey();
+				this.expect(']]');
+				current = this.arrayTable(root, keys);
+			} else if (this.src[this.pos] === '[') {
+				this.pos++;
+				const keys = this.parseKey();
+				this.expect(']');
+				current = this.descend(root, keys);
+			} else {
+				this.parseKeyValue(current);
+			}
+			this.skipBlank(false);
+			if (this.pos < this.src.length && !this.atNewline()) {
+				this.fail('Expected a new line');
+			}
+		}
+		return root;
+	}
+
+	private fail(message: string): never {
+		const line = this.src.slice(0, this.pos).split('\n').length;
+		throw new Error(`Invalid TOML at line ${line}: ${message}`);
+	}
+
+	private atNewline(): boolean {
+		return this.src[this.pos] === '\n' || this.src.startsWith('\r\n', this.pos);
+	}
+
+	/** Skip spaces, tabs and comments; with `newlines`, also line breaks. */
+	private skipBlank(newlines: boolean): void {
+		while (this.pos < this.src.length) {
+			const ch = this.src[this.pos];
+			if (ch === ' ' || ch === '\t' || (newlines && (ch === '\n' || ch === '\r'))) {
+				this.pos++;
+			} else if (ch === '#') {
+				while (this.pos < this.src.length && this.src[this.pos] !== '\n') {this.pos++;}
+			} else {
+				break;
+			}
+		}
+	}
+
+	private expect(token: string): void {
+		this.skipBlank(false);
+		if (!this.src.startsWith(token, this.pos)) {this.fail(`Expected "${token}"`);}
+		this.pos += token.length;
+	}
+
+	private parseKey(): string[] {
+		const keys: string[] = [];
+		for (;;) {
+			this.skipBlank(false);
+			const ch = this.src[this.pos];
+			if (ch === '"') {
+				keys.push(this.parseBasicString());
+			} else if (ch === '\'') {
+				keys.push(this.parseLiteralString());
+			} else {
+				const start = this.pos;
+				while (this.pos < this.src.length && BARE_KEY.test(this.src[this.pos])) {this.pos++;}
+				if (start === this.pos) {this.fail('Expected a key');}
+				keys.push(this.src.slice(start, this.pos));
+			}
+			this.skipBlank(false);
+			if (this.src[this.pos] !== '.') {return keys;}
+			this.pos++;
+		}
+	}
+
+	private parseKeyValue(target: TomlTable): void {
+		const keys = this.parseKey();
+		this.expect('=');
+		this.skipBlank(false);
+		const value = this.parseValue();
+		const parent = this.descend(target, keys.slice(0, -1));
+		const last = keys[keys.length - 1];
+		if (Object.prototype.hasOwnProperty.call(parent, last)) {this.fail(`Duplicate key "${keys.join('.')}"`);}
+		parent[last] = value;
+	}
+
+	/** Walk (creating) nested tables; an array of tables resolves to its last element. */
+	private descend(from: TomlTable, keys: string[]): TomlTable {
+		let table = from;
+		for (const key of keys) {
+			const existing: TomlValue | undefined = table[key];
+			if (existing === undefined) {
+				const created: TomlTable = {};
+				table[key] = created;
+				table = created;
+			} else if (Array.isArray(existing) && isTable(existing[existing.length - 1])) {
+				table = existing[existing.length - 1] as TomlTable;
+			} else if (isTable(existing)) {
+				table = existing;
+			} else {
+				this.fail(`Key "${key}" is not a table`);
+			}
+		}
+		return table;
+	}
+
+	private arrayTable(root: TomlTable, keys: string[]): TomlTable {
+		const parent = this.descend(root, keys.slice(0, -1));
+		const last = keys[keys.length - 1];
+		const existing = parent[last];
+		const entry: TomlTable = {};
+		if (existing === undefined) {
+			parent[last] = [entry];
+		} else if (Array.isArray(existing)) {
+			existing.push(entry);
+		} else {
+			this.fail(`Key "${keys.join('.')}" is not an array of tables`);
+		}
+		return entry;
+	}
+
+	private parseValue(): TomlValue {
+		const ch = this.src[this.pos];
+		if (this.src.startsWith('"""', this.pos)) {return this.parseMultilineBasicString();}
+		if (this.src.startsWith('\'\'\'', this.pos)) {return this.parseMultilineLiteralString();}
+		if (ch === '"') {return this.parseBasicString();}
+		if (ch === '\'') {return this.parseLiteralString();}
+		if (ch === '[') {return this.parseArray();}
+		if (ch === '{') {return this.parseInlineTable();}
+
+		const start = this.pos;
+		while (this.pos < this.src.length && !VALUE_END.test(this.src[this.pos])) {this.pos++;}
+		// Local date-times may use a space instead of `T`
+		if (/^\d{4}-\d{2}-\d{2}$/.test(this.src.slice(start, this.pos)) && /^ \d{2}:/.test(this.src.slice(this.pos, this.pos + 4))) {
+			this.pos++;
+			while (this.pos < this.src.length && !VALUE_END.test(this.src[this.pos])) {this.pos++;}
+		}
+		const token = this.src.slice(start, this.pos);
+		if (token === 'true') {return true;}
+		if (token === 'false') {return false;}
+		if (DATE_TIME.test(token)) {return token;}
+		return this.parseNumber(token);
+	}
+
+	private parseNumber(token: string): number {
+		const clean = token.replace(/_/g, '');
+		if (/^[+-]?inf$/.test(clean)) {return clean.startsWith('-') ? -Infinity : Infinity;}
+		if (/^[+-]?nan$/.test(clean)) {return NaN;}
+		if (/^0x[0-9A-Fa-f]+$/.test(clean)) {return parseInt(clean.slice(2), 16);}
+		if (/^0o[0-7]+$/.test(clean)) {return parseInt(clean.slice(2), 8);}
+		if (/^0b[01]+$/.test(clean)) {return parseInt(clean.slice(2), 2);}
+		if (/^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(clean)) {return Number(clean);}
+		this.fail(token ? `Invalid value "${token}"` : 'Expected a value');
+	}
+
+	private parseEscape(): string {
+		const ch = this.src[this.pos++];
+		if (ch in ESCAPES) {return ESCAPES[ch];}
+		if (ch === 'u' || ch === 'U') {
+			const length = ch === 'u' ? 4 : 8;
+			const hex = this.src.slice(this.pos, this.pos + length);
+			if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {this.fail('Invalid unicode escape');}
+			this.pos += length;
+			return String.fromCodePoint(parseInt(hex, 16));
+		}
+		this.fail(`Invalid escape "\\${ch ?? ''}"`);
+	}
+
+	private parseBasicString(): string {
+		this.pos++; // opening "
+		let out = '';
+		for (;;) {
+			const ch = this.src[this.pos];
+			if (ch === undefined || ch === '\n') {this.fail('Unterminated string');}
+			this.pos++;
+			if (ch === '"') {return out;}
+			out += ch === '\\' ? this.parseEscape() : ch;
+		}
+	}
+
+	private parseLiteralString(): string {
+		const start = ++this.pos;
+		const end = this.src.indexOf('\'', start);
+		const newline = this.src.indexOf('\n', start);
+		if (end === -1 || (newline !== -1 && newline < end)) {this.fail('Unterminated string');}
+		this.pos = end + 1;
+		return this.src.slice(start, end);
+	}
+
+	/** Skip the line break that directly follows an opening `"""` / `'''`. */
+	private skipLeadingNewline(): void {
+		if (this.src.startsWith('\r\n', this.pos)) {
+			this.pos += 2;
+		} else if (this.src[this.pos] === '\n') {
+			this.pos++;
+		}
+	}
+
+	/** Closing delimiter at `pos`, allowing up to two quotes of content right before it (`""""` ends with `"`). */
+	private closingQuotes(quote: string): number {
+		let count = 0;
+		while (this.src[this.pos + count] === quote) {count++;}
+		return count >= 3 ? Math.min(count - 3, 2) : -1;
+	}
+
+	private parseMultilineBasicString(): string {
+		this.pos += 3;
+		this.skipLeadingNewline();
+		let out = '';
+		for (;;) {
+			if (this.pos >= this.src.length) {this.fail('Unterminated string');}
+			const extra = this.src[this.pos] === '"' ? this.closingQuotes('"') : -1;
+			if (extra >= 0) {
+				out += '"'.repeat(extra);
+				this.pos += extra + 3;
+				return out;
+			}
+			const ch = this.src[this.pos++];
+			if (ch !== '\\') {
+				out += ch;
+			} else if (/^[ \t]*\r?\n/.test(this.src.slice(this.pos, this.pos + 64))) {
+				// Line-ending backslash: drop the break and the whitespace that follows
+				while (/\s/.test(this.src[this.pos] ?? '')) {this.pos++;}
+			} else {
+				out += this.parseEscape();
+			}
+		}
+	}
+
+	private parseMultilineLiteralString(): string {
+		this.pos += 3;
+		this.skipLeadingNewline();
+		const start = this.pos;
+		for (;;) {
+			if (this.pos >= this.src.length) {this.fail('Unterminated string');}
+			const extra = this.src[this.pos] === '\'' ? this.closingQuotes('\'') : -1;
+			if (extra >= 0) {
+				const text = this.src.slice(start, this.pos + extra);
+				this.pos += extra + 3;
+				return text;
+			}
+			this.pos++;
+		}
+	}
+
+	private parseArray(): TomlValue[] {
+		this.pos++; // [
+		const items: TomlValue[] = [];
+		for (;;) {
+			this.skipBlank(true);
+			if (this.src[this.pos] === ']') {
+				this.pos++;
+				return items;
+			}
+			items.push(this.parseValue());
+			this.skipBlank(true);
+			if (this.src[this.pos] === ',') {
+				this.pos++;
+			} else if (this.src[this.pos] !== ']') {
+				this.fail('Expected "," or "]" in array');
+			}
+		}
+	}
+
+	private parseInlineTable(): TomlTable {
+		this.pos++; // {
+		const table: TomlTable = {};
+		this.skipBlank(false);
+		if (this.src[this.pos] === '}') {
+			this.pos++;
+			return table;
+		}
+		for (;;) {
+			this.parseKeyValue(table);
+			this.skipBlank(false);
+			const ch = this.src[this.pos++];
+			if (ch === '}') {return table;}
+			if (ch !== ',') {this.fail('Expected "," or "}" in inline table');}
+			this.skipBlank(false);
+		}
+	}
+}
+
+/**
+ * Parse a TOML document into plain objects. Throws an `Invalid TOML at line N: …` error on
+ * malformed input.
+ */
+export function parseToml(text: string): TomlTable {
+	return new TomlParser(text.replace(/^\uFEFF/, '')).parse();
+}
@@ -18,7 +18,7 @@ export type FileTypeValue = (typeof FileType)[keyof typeof FileType];
 export interface IFileSystem {
 	readFile(path: string): Promise<Buffer>;
 	readDirectory(path: string): Promise<[string, FileTypeValue][]>;
-	stat(path: string): Promise<{ type: FileTypeValue; mtime?: number }>;
+	stat(path: string): Promise<{ type: FileTypeValue; mtime?: number; size?: number }>;
 }
 
 /** Rule metadata (path-based, no vscode.Uri) */
@@ -29,7 +29,7 @@ export interface CoreRuleMetadata {
 }
 
 /** Source directory convention an artifact was scanned from. */
-export type CorePlatform = 'cursor' | 'claude';
+export type CorePlatform = 'cursor' | 'claude' | 'copilot' | 'gemini' | 'kiro' | 'windsurf' | 'cline' | 'roo' | 'continue';
 
 export interface CoreRule {
 	path: string;
@@ -39,15 +39,42 @@ export interface CoreRule {
 	platform: CorePlatform;
 }
 
-export interface CoreCommand {
+/** Placeholders a command prompt uses: `$ARGUMENTS` (all arguments) and `$1`..`$n` (ascending, no duplicates) */
+export interface CoreCommandArguments {
+	all: boolean;
+	positional: number[];
+}
+
+/** Claude Code command frontmatter; `allowedTools` is `allowed-tools` split into tool names */
+export interface CoreCommandFrontmatter {
+	description?: string;
+	argumentHint?: string;
+	allowedTools?: string[];
+	model?: string;
+}
+
+export interface CoreCommand extends CoreCommandFrontmatter {
 	path: string;
 	content: string;
 	fileName: string;
 	location: 'workspace' | 'global';
 	platform: CorePlatform;
+	/**
+	 * Declared description: frontmatter `description` of Markdown commands, TOML `description` of
+	 * Gemini commands. Without one, `summarizeCommand` derives it from the body.
+	 */
+	description?: string;
+	/** Placeholders used by a Markdown command's body */
+	arguments?: CoreCommandArguments;
 }
 
 export interface CoreSkillMetadata {
+	name?: string;
+	description?: string;
+	allowedTools?: string[];
+	license?: string;
+	compatibility?: string;
+	metadata?: Record<string, string>;
 	title?: string;
 	overview?: string;
 	prerequisites?: string[];
@@ -56,6 +83,20 @@ export interface CoreSkillMetadata {
 	guidance?: Record<string, unknown>;
 }
 
+/** Agent Skills format problem in a SKILL.md frontmatter (`field` is the frontmatter key) */
+export interface CoreSkillIssue {
+	field: string;
+	message: string;
+}
+
+/** File bundled with a skill: anything in the skill folder but its SKILL.md */
+export interface CoreSkillFile {
+	/** Path relative to the skill folder, `/`-separated */
+	relativePath: string;
+	path: string;
+	size: number;
+}
+
 export interface CoreSkill {
 	path: string;
 	content: string;
@@ -63,25 +104,46 @@ export interface CoreSkill {
 	location: 'workspace' | 'global';
 	metadata?: CoreSkillMetadata;
 	platform: CorePlatform;
+	/** Bundled files (scripts/, references/, templates/, assets/, ...) sorted by `relativePath` */
+	files?: CoreSkillFile[];
+	/** Agent Skills conformance problems of the frontmatter; empty when it conforms */
+	issues?: CoreSkillIssue[];
+}
+
+/** Subagent / chat mode frontmatter fields; `tools` is split into tool names (`Read`, `Bash(git:*)`) */
+export interface CoreAgentFrontmatter {
+	name?: string;
+	description?: string;
+	tools?: string[];
+	model?: string;
+	color?: string;
 }
 
 /** Agent definition file (flat `agents/*.md`) — core layer, no vscode.Uri */
-export interface CoreAgentDefinition {
+export interface CoreAgentDefinition extends Omit<CoreAgentFrontmatter, 'name'> {
 	path: string;
 	content: string;
-	/** Basename without `.md` — tree label */
+	/** Basename without `.md` */
 	fileName: string;
+	/** Frontmatter `name`, else `fileName` — tree label */
 	displayName: string;
 	platform: CorePlatform;
 }
 
+/** Spec layout: ASDLC `specs/<domain>/spec.md` or Kiro `.kiro/specs/<feature>/{requirements,design,tasks}.md` */
+export type SpecFlavour = 'asdlc' | 'kiro';
+
 /** Core ASDLC artifacts - reuses structure from scanner/types with path strings */
 export interface CoreSpecFile {
 	domain: string;
+	/** `spec.md`, or the first existing Kiro document (requirements → design → tasks) */
 	path: string;
 	hasBlueprint: boolean;
 	hasContract: boolean;
 	lastModified?: string;
+	flavour: SpecFlavour;
+	/** File names present in the spec folder, e.g. `['spec.md']` or `['requirements.md', 'tasks.md']` */
+	documents: string[];
 }
 
 export interface CoreSchemaFile {
@@ -97,8 +159,17 @@ export interface CoreAgentsMdInfo {
 	sections: Array<{ level: number; title: string; startLine: number; endLine: number }>;
 }
 
+/** An AGENTS.md below the project root (a monorepo package, service, ...). */
+export interface CoreNestedAgentsMd {
+	path: string;
+	/** Directory holding it, relative to the project root with `/` separators (e.g. `packages/api`) */
+	directory: string;
+}
+
 export interface CoreAsdlcArtifacts {
 	agentsMd: CoreAgentsMdInfo;
+	/** Nested AGENTS.md files, sorted by directory */
+	nestedAgentsMd: CoreNestedAgentsMd[];
 	specs: {
 		exists: boolean;
 		path?: string;
@@ -111,3 +182,76 @@ export interface CoreAsdlcArtifacts {
 	};
 	hasAnyArtifacts: boolean;
 }
+
+export interface CoreAsdlcScanOptions {
+	/** Walk the project for nested AGENTS.md files (the tree only; left empty otherwise) */
+	nestedAgentsMd?: boolean;
+}
+
+/** Artifact kinds covered by full-text search (search_context). */
+export type CoreSearchKind = 'rule' | 'command' | 'skill' | 'agent' | 'spec' | 'agents-md' | 'schema';
+
+/** One searchable artifact: raw file text plus the identity fields reported in hits. */
+export interface CoreSearchDocument {
+	kind: CoreSearchKind;
+	name: string;
+	path: string;
+	/** Unset for ASDLC artifacts (AGENTS.md, specs, schemas), which are platform-neutral */
+	platform?: CorePlatform;
+	/** 'workspace' | 'global', or an agent root id ('cursor' | 'claude') for agent definitions */
+	location: string;
+	text: string;
+}
+
+export interface CoreSearchOptions {
+	kinds?: CoreSearchKind[];
+	platform?: CorePlatform;
+	location?: string;
+	/** Maximum hits returned (default 50) */
+	limit?: number;
+}
+
+export interface CoreSearchHit {
+	kind: CoreSearchKind;
+	name: string;
+	path: string;
+	platform?: CorePlatform;
+	location: string;
+	/** 1-based line number in the artifact file */
+	line: number;
+	snippet: string;
+	score: number;
+}
+
+/** How one artifact compares between two projects (compare_projects). */
+export type CoreCompareStatus = 'only-in-a' | 'only-in-b' | 'identical' | 'differs';
+
+/** One artifact matched by kind, platform and name across projects A and B. */
+export interface CoreCompareItem {
+	kind: CoreSearchKind;
+	name: string;
+	/** Unset for ASDLC artifacts (AGENTS.md, specs, schemas) */
+	platform?: CorePlatform;
+	status: CoreCompareStatus;
+	pathA?: string;
+	pathB?: string;
+	/** sha256 (hex) of the file content with line endings normalized */
+	hashA?: string;
+	hashB?: string;
+	/** Unified diff A → B, only for `differs` when requested */
+	diff?: string;
+}
+
+export interface CoreCompareOptions {
+	kinds?: CoreSearchKind[];
+	/** Include a unified diff for items whose content differs */
+	includeDiff?: boolean;
+}
+
+export interface CoreProjectComparison {
+	projectA: string;
+	projectB: string;
+	summary: Record<CoreCompareStatus, number>;
+	/** Sorted by kind, name and platform */
+	items: CoreCompareItem[];
+}
@@ -0,0 +1,101 @@
+// Line-based unified diff - NO vscode dependency
+// Used by compare_projects for same-named artifacts whose content differs.
+
+/** Above this many LCS cells the changed middle is reported as one replace block. */
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOp = { type: ' ' | '-' | '+'; text: string };
+
+function splitLines(text: string): string[] {
+	const lines = text.replace(/\r\n/g, '\n').split('\n');
+	if (lines.length > 0 && lines[lines.length - 1] === '') {lines.pop();}
+	return lines;
+}
+
+/** Edit script for a → b (longest common subsequence after trimming the common prefix and suffix). */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {prefix++;}
+	let suffix = 0;
+	while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {suffix++;}
+
+	const midA = a.slice(prefix, a.length - suffix);
+	const midB = b.slice(prefix, b.length - suffix);
+	const ops: DiffOp[] = a.slice(0, prefix).map(text => ({ type: ' ' as const, text }));
+
+	const n = midA.length;
+	const m = midB.length;
+	if (n * m > MAX_LCS_CELLS) {
+		ops.push(...midA.map(text => ({ type: '-' as const, text })), ...midB.map(text => ({ type: '+' as const, text })));
+	} else {
+		// lcs[i][j] = LCS length of midA[i..] and midB[j..]
+		const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+		for (let i = n - 1; i >= 0; i--) {
+			for (let j = m - 1; j >= 0; j--) {
+				lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+			}
+		}
+		let i = 0;
+		let j = 0;
+		while (i < n || j < m) {
+			if (i < n && j < m && midA[i] === midB[j]) {
+				ops.push({ type: ' ', text: midA[i++] });
+				j++;
+			} else if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+				// Deletions before insertions, as in diff -u
+				ops.push({ type: '-', text: midA[i++] });
+			} else {
+				ops.push({ type: '+', text: midB[j++] });
+			}
+		}
+	}
+
+	ops.push(...a.slice(a.length - suffix).map(text => ({ type: ' ' as const, text })));
+	return ops;
+}
+
+function hunkRange(start: number, count: number): string {
+	// An empty range points at the line before it (diff -u convention)
+	const first = count === 0 ? start : start + 1;
+	return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * Unified diff of two texts with `context` lines around each change. Returns an empty string
+ * when the texts have the same lines.
+ */
+export function unifiedDiff(a: string, b: string, labelA: string, labelB: string, context = 3): string {
+	const ops = diffLines(splitLines(a), splitLines(b));
+	const changed = ops.map((op, i) => op.type === ' ' ? -1 : i).filter(i => i >= 0);
+	if (changed.length === 0) {return '';}
+
+	// Line positions (0-based) in a and b before each op
+	const posA: number[] = [];
+	const posB: number[] = [];
+	let lineA = 0;
+	let lineB = 0;
+	for (const op of ops) {
+		posA.push(lineA);
+		posB.push(lineB);
+		if (op.type !== '+') {lineA++;}
+		if (op.type !== '-') {lineB++;}
+	}
+
+	const out = [`--- ${labelA}`, `+++ ${labelB}`];
+	let k = 0;
+	while (k < changed.length) {
+		const start = Math.max(0, changed[k] - context);
+		let last = changed[k];
+		while (k + 1 < changed.length && changed[k + 1] - last <= 2 * context) {
+			last = changed[++k];
+		}
+		k++;
+		const end = Math.min(ops.length, last + context + 1);
+		const slice = ops.slice(start, end);
+		const countA = slice.filter(op => op.type !== '+').length;
+		const countB = slice.filter(op => op.type !== '-').length;
+		out.push(`@@ -${hunkRange(posA[start], countA)} +${hunkRange(posB[start], countB)} @@`);
+		out.push(...slice.map(op => `${op.type}${op.text}`));
+	}
+	return out.join('\n') + '\n';
+}
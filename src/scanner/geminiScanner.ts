@@ -0,0 +1,59 @@
+// Gemini CLI project-level artifact scanner
+// Scans GEMINI.md and .gemini/commands/**/*.toml
+import * as vscode from 'vscode';
+import { VSCodeFsAdapter } from './adapters/vscodeFsAdapter';
+import { scanGeminiCore } from './core/scanGeminiCore';
+import { CommandsScanner, type Command } from './commandsScanner';
+
+export interface GeminiMdFile {
+	uri: vscode.Uri;
+	path: string;
+}
+
+export interface GeminiArtifacts {
+	geminiMd: GeminiMdFile | undefined;
+	commands: Command[];
+	geminiFolderExists: boolean;
+	hasAnyArtifacts: boolean;
+}
+
+export class GeminiScanner {
+	constructor(private workspaceRoot: vscode.Uri) {}
+
+	async scan(): Promise<GeminiArtifacts> {
+		try {
+			const [core, allCommands] = await Promise.all([
+				scanGeminiCore(new VSCodeFsAdapter(), this.workspaceRoot.fsPath),
+				new CommandsScanner(this.workspaceRoot).scanAllWorkspaceCommands()
+			]);
+
+			return {
+				geminiMd: core.geminiMdPath
+					? { uri: vscode.Uri.file(core.geminiMdPath), path: core.geminiMdPath }
+					: undefined,
+				commands: allCommands.filter(c => c.platform === 'gemini'),
+				geminiFolderExists: core.geminiFolderExists,
+				hasAnyArtifacts: core.hasAnyArtifacts
+			};
+		} catch {
+			return { geminiMd: undefined, commands: [], geminiFolderExists: false, hasAnyArtifacts: false };
+		}
+	}
+
+	watchAll(callback: (uri: vscode.Uri) => void): vscode.Disposable[] {
+		const patterns = [
+			'.gemini/commands/**/*.toml',
+			'GEMINI.md'
+		];
+
+		return patterns.map(pattern => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(this.workspaceRoot, pattern)
+			);
+			watcher.onDidCreate(callback);
+			watcher.onDidChange(callback);
+			watcher.onDidDelete(callback);
+			return watcher;
+		});
+	}
+}
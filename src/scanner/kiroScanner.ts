@@ -0,0 +1,54 @@
+// Kiro project-level artifact scanner
+// Scans .kiro/steering/ (rules); Kiro specs (.kiro/specs/) are listed with the ASDLC specs
+import * as vscode from 'vscode';
+import { RulesScanner, type Rule } from './rulesScanner';
+
+export interface KiroArtifacts {
+	steering: Rule[];
+	kiroFolderExists: boolean;
+	hasAnyArtifacts: boolean;
+}
+
+export class KiroScanner {
+	constructor(private workspaceRoot: vscode.Uri) {}
+
+	async scan(): Promise<KiroArtifacts> {
+		try {
+			const [allRules, kiroFolderExists] = await Promise.all([
+				new RulesScanner(this.workspaceRoot).scanAllRules(),
+				this.kiroFolderExists()
+			]);
+
+			const steering = allRules.filter(r => r.platform === 'kiro');
+			return { steering, kiroFolderExists, hasAnyArtifacts: steering.length > 0 };
+		} catch {
+			return { steering: [], kiroFolderExists: false, hasAnyArtifacts: false };
+		}
+	}
+
+	private async kiroFolderExists(): Promise<boolean> {
+		try {
+			const stat = await vscode.workspace.fs.stat(vscode.Uri.joinPath(this.workspaceRoot, '.kiro'));
+			return stat.type === vscode.FileType.Directory;
+		} catch {
+			return false;
+		}
+	}
+
+	watchAll(callback: (uri: vscode.Uri) => void): vscode.Disposable[] {
+		const patterns = [
+			'.kiro/steering/*.md',
+			'.kiro/specs/*/{requirements,design,tasks}.md'
+		];
+
+		return patterns.map(pattern => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(this.workspaceRoot, pattern)
+			);
+			watcher.onDidCreate(callback);
+			watcher.onDidChange(callback);
+			watcher.onDidDelete(callback);
+			return watcher;
+		});
+	}
+}
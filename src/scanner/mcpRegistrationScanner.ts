@@ -1,51 +1,50 @@
 /**
  * McpRegistrationScanner
  *
- * Reads the top-level `mcpServers` key from a JSON config file and returns
- * the list of registered MCP server names.
+ * Reads the top-level `mcpServers` key from a JSON config file, or the
+ * `[mcp_servers.*]` tables from a TOML config file (`.toml` extension), and
+ * returns the registered MCP servers: their names, or with `scanServers` the
+ * transport, command/args or URL and env variable names of each.
  *
  * Used by the Agents view to display registered MCP servers under each agent
- * root (Claude Code: ~/.claude.json; Cursor: ~/.cursor/mcp.json).
+ * root (Claude Code: ~/.claude.json; Cursor: ~/.cursor/mcp.json; Gemini CLI:
+ * ~/.gemini/settings.json; Codex: ~/.codex/config.toml). JSON comments are
+ * allowed, as Gemini CLI's settings file accepts them.
  *
  * Safe contract: returns [] on missing file, parse error, or any IO failure.
  * Never throws.
  */
 import * as fs from 'fs';
+import { mcpServerEntries, mcpServersTable, parseMcpConfig, type CoreMcpServer } from './core/mcpServersCore';
 
 export class McpRegistrationScanner {
 	constructor(private readonly configFilePath: string) {}
 
 	/**
 	 * Read and parse the config file, returning the names (keys) of all
-	 * servers listed under the top-level `mcpServers` object.
+	 * servers listed under the top-level `mcpServers` object (JSON) or
+	 * `mcp_servers` table (TOML).
 	 *
 	 * Returns an empty array if:
 	 * - the file does not exist
 	 * - the file cannot be read
-	 * - the file contains malformed JSON
-	 * - the `mcpServers` key is absent or not an object
+	 * - the file contains malformed JSON or TOML
+	 * - the servers key is absent or not an object
 	 */
 	async scanServerNames(): Promise<string[]> {
+		return (await this.scanServers('')).map(s => s.name);
+	}
+
+	/**
+	 * The registered servers as user-scope `CoreMcpServer` entries of `agent`
+	 * (agent root id), in file order. Env values are not read out. Returns an
+	 * empty array in the same cases as `scanServerNames`.
+	 */
+	async scanServers(agent: string): Promise<CoreMcpServer[]> {
 		try {
 			const raw = fs.readFileSync(this.configFilePath, 'utf-8');
-			const parsed: unknown = JSON.parse(raw);
-			if (
-				parsed === null ||
-				typeof parsed !== 'object' ||
-				Array.isArray(parsed)
-			) {
-				return [];
-			}
-			const obj = parsed as Record<string, unknown>;
-			const mcpServers = obj['mcpServers'];
-			if (
-				mcpServers === null ||
-				typeof mcpServers !== 'object' ||
-				Array.isArray(mcpServers)
-			) {
-				return [];
-			}
-			return Object.keys(mcpServers as Record<string, unknown>);
+			const config = parseMcpConfig(raw, this.configFilePath);
+			return config ? mcpServerEntries(mcpServersTable(config, this.configFilePath), agent, 'user', this.configFilePath) : [];
 		} catch {
 			return [];
 		}
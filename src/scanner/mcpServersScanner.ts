@@ -0,0 +1,41 @@
+// Project-scoped MCP server scanner
+// Scans .mcp.json (Claude Code), .cursor/mcp.json (Cursor) and the project's entry in ~/.claude.json
+import * as vscode from 'vscode';
+import { VSCodeFsAdapter } from './adapters/vscodeFsAdapter';
+import { scanMcpServersCore, type CoreMcpServer } from './core/mcpServersCore';
+import type { AgentRootConfig } from './core/agentRoots';
+
+export interface McpServerArtifacts {
+	/** Project and local scope servers, in precedence order; user-scope servers are shown in the Agents view */
+	servers: CoreMcpServer[];
+	hasAnyArtifacts: boolean;
+}
+
+export class McpServersScanner {
+	constructor(private workspaceRoot: vscode.Uri) {}
+
+	/** `agentRoots` locate ~/.claude.json and decide which project servers are overridden. */
+	async scan(agentRoots: AgentRootConfig[]): Promise<McpServerArtifacts> {
+		try {
+			const all = await scanMcpServersCore(new VSCodeFsAdapter(), this.workspaceRoot.fsPath, agentRoots);
+			const servers = all.filter(s => s.scope !== 'user');
+			return { servers, hasAnyArtifacts: servers.length > 0 };
+		} catch {
+			return { servers: [], hasAnyArtifacts: false };
+		}
+	}
+
+	watchAll(callback: (uri: vscode.Uri) => void): vscode.Disposable[] {
+		const patterns = ['.mcp.json', '.cursor/mcp.json'];
+
+		return patterns.map(pattern => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(this.workspaceRoot, pattern)
+			);
+			watcher.onDidCreate(callback);
+			watcher.onDidChange(callback);
+			watcher.onDidDelete(callback);
+			return watcher;
+		});
+	}
+}
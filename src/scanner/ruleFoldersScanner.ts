@@ -0,0 +1,54 @@
+// Rules-folder agent scanner (Windsurf, Cline, Roo Code, Continue)
+// Scans .windsurf/rules/, .windsurfrules, .clinerules, .roo/rules*/ and .continue/rules/
+import * as vscode from 'vscode';
+import { RulesScanner, type Rule } from './rulesScanner';
+import type { CorePlatform } from './core/types';
+
+/** Rules-folder agents in precedence order, with their display labels. */
+export const RULE_FOLDER_PLATFORMS: { platform: CorePlatform; label: string }[] = [
+	{ platform: 'windsurf', label: 'Windsurf' },
+	{ platform: 'cline', label: 'Cline' },
+	{ platform: 'roo', label: 'Roo Code' },
+	{ platform: 'continue', label: 'Continue' }
+];
+
+export interface RuleFolderArtifacts {
+	/** Rules of every rules-folder agent, tagged by `platform` */
+	rules: Rule[];
+	hasAnyArtifacts: boolean;
+}
+
+export class RuleFoldersScanner {
+	constructor(private workspaceRoot: vscode.Uri) {}
+
+	async scan(): Promise<RuleFolderArtifacts> {
+		try {
+			const allRules = await new RulesScanner(this.workspaceRoot).scanAllRules();
+			const rules = allRules.filter(r => RULE_FOLDER_PLATFORMS.some(p => p.platform === r.platform));
+			return { rules, hasAnyArtifacts: rules.length > 0 };
+		} catch {
+			return { rules: [], hasAnyArtifacts: false };
+		}
+	}
+
+	watchAll(callback: (uri: vscode.Uri) => void): vscode.Disposable[] {
+		const patterns = [
+			'.windsurf/rules/*.md',
+			'.windsurfrules',
+			'.clinerules',
+			'.clinerules/*.md',
+			'.roo/rules*/**/*.md',
+			'.continue/rules/*.md'
+		];
+
+		return patterns.map(pattern => {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(this.workspaceRoot, pattern)
+			);
+			watcher.onDidCreate(callback);
+			watcher.onDidChange(callback);
+			watcher.onDidDelete(callback);
+			return watcher;
+		});
+	}
+}
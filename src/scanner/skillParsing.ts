@@ -1,8 +1,28 @@
 // Pure parsing for SKILL.md frontmatter and metadata
 // Extracted for unit testing without vscode
 import matter from 'gray-matter';
+import type { CoreSkillIssue } from './core/types';
+
+/** Limits and name format of the Agent Skills format (agentskills.io) */
+export const SKILL_NAME_MAX_LENGTH = 64;
+export const SKILL_DESCRIPTION_MAX_LENGTH = 1024;
+export const SKILL_COMPATIBILITY_MAX_LENGTH = 500;
+const SKILL_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/** Frontmatter keys defined by the Agent Skills format; anything else is reported as unknown */
+export const SKILL_FRONTMATTER_KEYS = ['name', 'description', 'license', 'compatibility', 'allowed-tools', 'metadata'];
 
 export interface SkillMetadata {
+	/** Agent Skills `name`: lowercase letters, digits and hyphens, matching the skill folder */
+	name?: string;
+	/** Agent Skills `description`: what the skill does and when to use it */
+	description?: string;
+	/** `allowed-tools`, split into tool patterns such as `Bash(git:*)` */
+	allowedTools?: string[];
+	license?: string;
+	compatibility?: string;
+	/** Free-form `metadata` map */
+	metadata?: Record<string, string>;
 	title?: string;
 	overview?: string;
 	prerequisites?: string[];
@@ -36,7 +56,14 @@ export function parseSKILLMetadata(content: string): SkillMetadata | undefined {
 			return undefined;
 		}
 
+		const data = parsed.data;
 		return {
+			name: typeof data.name === 'string' ? data.name : undefined,
+			description: typeof data.description === 'string' ? data.description.trim() : undefined,
+			allowedTools: parseAllowedTools(data['allowed-tools']),
+			license: typeof data.license === 'string' ? data.license : undefined,
+			compatibility: typeof data.compatibility === 'string' ? data.compatibility : undefined,
+			metadata: isStringMap(data.metadata) ? data.metadata : undefined,
 			title: parsed.data.title,
 			overview: parsed.data.overview,
 			prerequisites: Array.isArray(parsed.data.prerequisites) ? parsed.data.prerequisites : undefined,
@@ -58,3 +85,95 @@ export function parseSKILLMetadata(content: string): SkillMetadata | undefined {
 		return undefined;
 	}
 }
+
+function isStringMap(value: unknown): value is Record<string, string> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value)
+		&& Object.values(value).every(v => typeof v === 'string');
+}
+
+/**
+ * `allowed-tools` as a list of tool patterns. The Agent Skills format uses a space-separated string;
+ * Claude Code also accepts commas and YAML lists. Separators inside parentheses (`Bash(git status:*)`) are kept.
+ */
+export function parseAllowedTools(value: unknown): string[] | undefined {
+	if (Array.isArray(value)) {
+		return value.filter((t): t is string => typeof t === 'string' && t.trim() !== '').map(t => t.trim());
+	}
+	if (typeof value !== 'string') {return undefined;}
+	const tools: string[] = [];
+	let current = '';
+	let depth = 0;
+	for (const ch of value) {
+		if (ch === '(') {depth++;}
+		if (ch === ')') {depth = Math.max(0, depth - 1);}
+		if (depth === 0 && (ch === ',' || /\s/.test(ch))) {
+			if (current) {tools.push(current);}
+			current = '';
+		} else {
+			current += ch;
+		}
+	}
+	if (current) {tools.push(current);}
+	return tools;
+}
+
+/**
+ * Check SKILL.md frontmatter against the Agent Skills format: `name` present, lowercase-hyphen,
+ * at most 64 characters and equal to the skill folder name; `description` present and at most
+ * 1024 characters; `compatibility`, `metadata` and `allowed-tools` well-formed; no unknown keys.
+ */
+export function validateSkillFrontmatter(content: string, folderName: string): CoreSkillIssue[] {
+	let data: Record<string, unknown>;
+	try {
+		data = matter(content).data;
+	} catch {
+		return [{ field: 'frontmatter', message: 'Frontmatter is not valid YAML' }];
+	}
+	if (Object.keys(data).length === 0) {
+		return [{ field: 'frontmatter', message: 'No frontmatter: name and description are required' }];
+	}
+
+	const issues: CoreSkillIssue[] = [];
+	const name = data.name;
+	if (typeof name !== 'string' || name.trim() === '') {
+		issues.push({ field: 'name', message: 'name is missing' });
+	} else {
+		if (name.length > SKILL_NAME_MAX_LENGTH) {
+			issues.push({ field: 'name', message: `name is ${name.length} characters (max ${SKILL_NAME_MAX_LENGTH})` });
+		}
+		if (!SKILL_NAME_PATTERN.test(name)) {
+			issues.push({ field: 'name', message: `name "${name}" must be lowercase letters, digits and single hyphens, not starting or ending with a hyphen` });
+		}
+		if (name !== folderName) {
+			issues.push({ field: 'name', message: `name "${name}" does not match the skill folder "${folderName}"` });
+		}
+	}
+
+	const description = data.description;
+	if (typeof description !== 'string' || description.trim() === '') {
+		issues.push({ field: 'description', message: 'description is missing' });
+	} else if (description.trim().length > SKILL_DESCRIPTION_MAX_LENGTH) {
+		issues.push({ field: 'description', message: `description is ${description.trim().length} characters (max ${SKILL_DESCRIPTION_MAX_LENGTH})` });
+	}
+
+	if (data.compatibility !== undefined) {
+		if (typeof data.compatibility !== 'string') {
+			issues.push({ field: 'compatibility', message: 'compatibility must be a string' });
+		} else if (data.compatibility.length > SKILL_COMPATIBILITY_MAX_LENGTH) {
+			issues.push({ field: 'compatibility', message: `compatibility is ${data.compatibility.length} characters (max ${SKILL_COMPATIBILITY_MAX_LENGTH})` });
+		}
+	}
+	if (data.metadata !== undefined && !isStringMap(data.metadata)) {
+		issues.push({ field: 'metadata', message: 'metadata must be a map of string keys to string values' });
+	}
+	if (data['allowed-tools'] !== undefined && parseAllowedTools(data['allowed-tools']) === undefined) {
+		issues.push({ field: 'allowed-tools', message: 'allowed-tools must be a space-separated string' });
+	}
+
+	for (const key of Object.keys(data)) {
+		if (!SKILL_FRONTMATTER_KEYS.includes(key)) {
+			issues.push({ field: key, message: `Unknown frontmatter key "${key}"` });
+		}
+	}
+	return issues;
+}
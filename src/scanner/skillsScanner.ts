@@ -5,7 +5,7 @@ import * as os from 'os';
 import { VSCodeFsAdapter } from './adapters/vscodeFsAdapter';
 import { scanSkillsCore } from './core/scanSkillsCore';
 import type { SkillMetadata } from './skillParsing';
-import type { CorePlatform } from './core/types';
+import type { CorePlatform, CoreSkillFile, CoreSkillIssue } from './core/types';
 
 export type { SkillMetadata } from './skillParsing';
 
@@ -16,6 +16,10 @@ export interface Skill {
 	location: 'workspace' | 'global';
 	metadata?: SkillMetadata;
 	platform: CorePlatform;
+	/** Bundled files next to SKILL.md (scripts/, references/, assets/, ...) */
+	files?: CoreSkillFile[];
+	/** Agent Skills conformance problems of the frontmatter */
+	issues?: CoreSkillIssue[];
 }
 
 export class SkillsScanner {
@@ -42,7 +46,9 @@ export class SkillsScanner {
 				fileName: s.fileName,
 				location: s.location,
 				metadata: s.metadata as SkillMetadata | undefined,
-				platform: s.platform
+				platform: s.platform,
+				files: s.files,
+				issues: s.issues
 			}));
 		} catch {
 			return [];
@@ -353,6 +353,13 @@ export interface AgentsMdSection {
 	endLine: number;
 }
 
+/**
+ * One AGENTS.md section with its body (heading through the end of its subsections)
+ */
+export interface AgentsMdSectionContent extends AgentsMdSection {
+	content: string;
+}
+
 /**
  * Tech stack information from AGENTS.md
  */
@@ -386,15 +393,25 @@ export interface AgentsMdInfo {
 	operationalBoundaries?: OperationalBoundaries;
 }
 
+/**
+ * AGENTS.md below the project root (monorepo packages); the nearest one to a file overrides its ancestors
+ */
+export interface NestedAgentsMdFile {
+	path: string;
+	directory: string;    // Relative to the project root, e.g. "packages/api"
+}
+
 /**
  * Individual spec file information
  */
 export interface SpecFile {
 	domain: string;       // e.g., "user-authentication", "scanners"
-	path: string;
+	path: string;         // spec.md, or the first Kiro document (requirements → design → tasks)
 	hasBlueprint: boolean;
 	hasContract: boolean;
 	lastModified?: string;
+	flavour: 'asdlc' | 'kiro';
+	documents: string[];  // e.g. ['spec.md'] or ['requirements.md', 'design.md', 'tasks.md']
 }
 
 /**
@@ -429,6 +446,7 @@ export interface SchemasInfo {
  */
 export interface AsdlcArtifacts {
 	agentsMd: AgentsMdInfo;
+	nestedAgentsMd?: NestedAgentsMdFile[];
 	specs: SpecsInfo;
 	schemas: SchemasInfo;
 	hasAnyArtifacts: boolean;
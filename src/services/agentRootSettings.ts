@@ -0,0 +1,16 @@
+// Agent Root Settings - Read the ace.agentRoots setting (Agents view, watchers, MCP)
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { resolveAgentRoots, type AgentRootConfig } from '../scanner/core/agentRoots';
+
+/** Full setting id, for `affectsConfiguration` checks. */
+export const AGENT_ROOTS_SETTING = 'ace.agentRoots';
+
+/**
+ * Configured agent roots, resolved against the home directory. Falls back to `defaultAgentRoots`
+ * when the setting is not set (it declares no default, so that list stays the only one).
+ */
+export function getConfiguredAgentRoots(): AgentRootConfig[] {
+	const raw = vscode.workspace.getConfiguration('ace').get<unknown>('agentRoots');
+	return resolveAgentRoots(raw, os.homedir());
+}
@@ -0,0 +1,235 @@
+// MCP Server Probe - NO vscode dependency
+// Launches a configured stdio server (or connects to a local HTTP/SSE one), runs `initialize`, then
+// `tools/list`, `prompts/list` and `resources/list`, timing each step. Backs ace.probeMcpServer.
+import * as fs from 'fs/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { mcpServersTable, parseMcpConfig, type CoreMcpServer, type CoreMcpTransport } from '../scanner/core/mcpServersCore';
+
+/** Limit for each probe request, `initialize` included */
+export const MCP_PROBE_TIMEOUT_MS = 15000;
+
+/** Pages read per list request */
+const MAX_LIST_PAGES = 10;
+
+/** Tail of the server's stderr kept for a failed probe */
+const MAX_STDERR_LENGTH = 2000;
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', '::1']);
+
+export type McpProbeMethod = 'initialize' | 'tools/list' | 'prompts/list' | 'resources/list';
+
+export interface McpProbeItem {
+	name: string;
+	description?: string;
+}
+
+export interface McpProbeStep {
+	method: McpProbeMethod;
+	durationMs: number;
+	/** Tools, prompts or resources (by name, with the URI as description) returned by a list step */
+	items?: McpProbeItem[];
+	/** The server does not advertise the capability, so the list request was not sent */
+	unsupported?: boolean;
+	error?: string;
+}
+
+export interface McpProbeResult {
+	/** `initialize` and every supported list request succeeded */
+	ok: boolean;
+	durationMs: number;
+	server?: { name: string; version: string };
+	steps: McpProbeStep[];
+	/** Failure before `initialize` could be sent (no command, remote URL, ...) */
+	error?: string;
+	/** Tail of a stdio server's stderr, kept when the probe fails */
+	stderr?: string;
+}
+
+/** What is needed to start or reach a server; unlike `CoreMcpServer`, carries env and header values. */
+export interface McpLaunchConfig {
+	transport: CoreMcpTransport;
+	command?: string;
+	args?: string[];
+	env?: Record<string, string>;
+	url?: string;
+	headers?: Record<string, string>;
+}
+
+export interface McpProbeOptions {
+	/** Working directory of a stdio server */
+	cwd?: string;
+	timeoutMs?: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function stringRecord(value: unknown, env: NodeJS.ProcessEnv): Record<string, string> | undefined {
+	if (!isRecord(value)) {return undefined;}
+	const out: Record<string, string> = {};
+	for (const [key, v] of Object.entries(value)) {
+		if (typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean') {
+			out[key] = expandEnvVars(String(v), env);
+		}
+	}
+	return out;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/** Expand `${VAR}` and `${VAR:-default}` as Claude Code does in MCP configs; unset variables become ''. */
+export function expandEnvVars(value: string, env: NodeJS.ProcessEnv = process.env): string {
+	return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) =>
+		env[name] ?? fallback ?? ''
+	);
+}
+
+/** True for http(s) URLs on localhost, 127.0.0.1 or ::1 — the only HTTP servers a probe connects to. */
+export function isLocalUrl(url: string): boolean {
+	try {
+		const parsed = new URL(url);
+		return (parsed.protocol === 'http:' || parsed.protocol === 'https:') && LOCAL_HOSTS.has(parsed.hostname);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Launch settings of `server` read back from its config file's servers table (user and project scope),
+ * with `${VAR}` references expanded. Undefined when the file or the entry is gone.
+ */
+export async function readMcpLaunchConfig(server: CoreMcpServer, env: NodeJS.ProcessEnv = process.env): Promise<McpLaunchConfig | undefined> {
+	let config: Record<string, unknown> | undefined;
+	try {
+		config = parseMcpConfig(await fs.readFile(server.path, 'utf-8'), server.path);
+	} catch {
+		return undefined;
+	}
+	const entry = config ? mcpServersTable(config, server.path)[server.name] : undefined;
+	if (!isRecord(entry)) {return undefined;}
+
+	const url = typeof entry.url === 'string' ? entry.url : typeof entry.httpUrl === 'string' ? entry.httpUrl : undefined;
+	const launchEnv = stringRecord(entry.env, env);
+	const headers = stringRecord(entry.headers, env);
+	return {
+		transport: server.transport,
+		...(typeof entry.command === 'string' ? { command: expandEnvVars(entry.command, env) } : {}),
+		...(Array.isArray(entry.args) ? { args: entry.args.filter((a): a is string => typeof a === 'string').map(a => expandEnvVars(a, env)) } : {}),
+		...(launchEnv ? { env: launchEnv } : {}),
+		...(url ? { url: expandEnvVars(url, env) } : {}),
+		...(headers ? { headers } : {})
+	};
+}
+
+function createTransport(launch: McpLaunchConfig, cwd: string | undefined): Transport {
+	if (launch.transport === 'stdio') {
+		if (!launch.command) {throw new Error('No command configured');}
+		return new StdioClientTransport({ command: launch.command, args: launch.args, env: launch.env, cwd, stderr: 'pipe' });
+	}
+	if (!launch.url) {throw new Error('No URL configured');}
+	if (!isLocalUrl(launch.url)) {throw new Error(`Only local servers are probed (localhost, 127.0.0.1, ::1): ${launch.url}`);}
+	const requestInit = launch.headers ? { headers: launch.headers } : undefined;
+	return launch.transport === 'sse'
+		? new SSEClientTransport(new URL(launch.url), { requestInit })
+		: new StreamableHTTPClientTransport(new URL(launch.url), { requestInit });
+}
+
+/** Read every page of a list request, up to `MAX_LIST_PAGES`. */
+async function listAll(list: (cursor: string | undefined) => Promise<{ items: McpProbeItem[]; nextCursor?: string }>): Promise<McpProbeItem[]> {
+	const items: McpProbeItem[] = [];
+	let cursor: string | undefined;
+	for (let page = 0; page < MAX_LIST_PAGES; page++) {
+		const result = await list(cursor);
+		items.push(...result.items);
+		cursor = result.nextCursor;
+		if (!cursor) {break;}
+	}
+	return items;
+}
+
+/**
+ * Probe a server: connect and `initialize`, then list tools, prompts and resources the server advertises.
+ * Never throws; failures are reported on the step that failed (or as `error` before `initialize`).
+ * The stdio process is stopped and the connection closed before returning.
+ */
+export async function probeMcpServer(launch: McpLaunchConfig, options: McpProbeOptions = {}): Promise<McpProbeResult> {
+	const started = Date.now();
+	const timeout = options.timeoutMs ?? MCP_PROBE_TIMEOUT_MS;
+	const steps: McpProbeStep[] = [];
+
+	let transport: Transport;
+	try {
+		transport = createTransport(launch, options.cwd);
+	} catch (error) {
+		return { ok: false, durationMs: Date.now() - started, steps, error: errorMessage(error) };
+	}
+	let stderr = '';
+	if (transport instanceof StdioClientTransport) {
+		transport.stderr?.on('data', (chunk: Buffer) => {
+			stderr = (stderr + chunk.toString('utf8')).slice(-MAX_STDERR_LENGTH);
+		});
+	}
+
+	const client = new Client({ name: 'agent-context-explorer-probe', version: '1.0.0' });
+	const done = (): McpProbeResult => {
+		const ok = steps.every(s => !s.error);
+		const version = client.getServerVersion();
+		return {
+			ok,
+			durationMs: Date.now() - started,
+			...(version ? { server: { name: version.name, version: version.version } } : {}),
+			steps,
+			...(!ok && stderr.trim() ? { stderr: stderr.trim() } : {})
+		};
+	};
+
+	try {
+		const initStarted = Date.now();
+		try {
+			await client.connect(transport, { timeout });
+			steps.push({ method: 'initialize', durationMs: Date.now() - initStarted });
+		} catch (error) {
+			steps.push({ method: 'initialize', durationMs: Date.now() - initStarted, error: errorMessage(error) });
+			return done();
+		}
+
+		const capabilities = client.getServerCapabilities() ?? {};
+		const lists: Array<[McpProbeMethod, boolean, (cursor: string | undefined) => Promise<{ items: McpProbeItem[]; nextCursor?: string }>]> = [
+			['tools/list', !!capabilities.tools, async (cursor) => {
+				const r = await client.listTools(cursor ? { cursor } : undefined, { timeout });
+				return { items: r.tools.map(t => ({ name: t.name, ...(t.description ? { description: t.description } : {}) })), nextCursor: r.nextCursor };
+			}],
+			['prompts/list', !!capabilities.prompts, async (cursor) => {
+				const r = await client.listPrompts(cursor ? { cursor } : undefined, { timeout });
+				return { items: r.prompts.map(p => ({ name: p.name, ...(p.description ? { description: p.description } : {}) })), nextCursor: r.nextCursor };
+			}],
+			['resources/list', !!capabilities.resources, async (cursor) => {
+				const r = await client.listResources(cursor ? { cursor } : undefined, { timeout });
+				return { items: r.resources.map(res => ({ name: res.name, description: res.uri })), nextCursor: r.nextCursor };
+			}]
+		];
+		for (const [method, supported, list] of lists) {
+			if (!supported) {
+				steps.push({ method, durationMs: 0, unsupported: true });
+				continue;
+			}
+			const stepStarted = Date.now();
+			try {
+				const items = await listAll(list);
+				steps.push({ method, durationMs: Date.now() - stepStarted, items });
+			} catch (error) {
+				steps.push({ method, durationMs: Date.now() - stepStarted, error: errorMessage(error) });
+			}
+		}
+		return done();
+	} finally {
+		await client.close().catch(() => undefined);
+	}
+}
@@ -1,16 +1,48 @@
 // Project Manager - Handle multiple project definitions
+// Projects live in the workspace registry (workspaceState) and, per ace.projectRegistry, in a user-global
+// registry: globalState (shared by every window) or ~/.agents/ace-projects.json (also read by the standalone MCP server).
 import * as vscode from 'vscode';
-import { ProjectDefinition, ProjectRegistry } from '../types/project';
+import * as os from 'os';
+import { ProjectDefinition, ProjectRegistry, ProjectRegistryScope } from '../types/project';
+import {
+	generateProjectId,
+	mergeProjectLists,
+	normalizeProjectPath,
+	projectRegistryFilePath,
+	readProjectRegistryFile,
+	writeProjectRegistryFile
+} from './projectRegistryFile';
+
+/** Full setting id, for `affectsConfiguration` checks. */
+export const PROJECT_REGISTRY_SETTING = 'ace.projectRegistry';
+
+const REGISTRY_SCOPES: ProjectRegistryScope[] = ['workspace', 'global', 'file'];
+
+/** Configured registry for added projects; unknown values fall back to `workspace`. */
+export function getConfiguredProjectRegistryScope(): ProjectRegistryScope {
+	const value = vscode.workspace.getConfiguration('ace').get<string>('projectRegistry', 'workspace');
+	return REGISTRY_SCOPES.includes(value as ProjectRegistryScope) ? value as ProjectRegistryScope : 'workspace';
+}
+
+export interface ProjectImportResult {
+	added: ProjectDefinition[];
+	/** Entries whose path is already registered */
+	skipped: number;
+}
 
 export class ProjectManager {
 	private static readonly STORAGE_KEY = 'aceExplorer.projects';
 	private static readonly CURRENT_PROJECT_KEY = 'aceExplorer.currentProject';
 
-	constructor(private context: vscode.ExtensionContext) {}
+	constructor(private context: vscode.ExtensionContext, private userRoot: string = os.homedir()) {}
 
+	/**
+	 * Projects from every active registry, deduplicated by path. The configured user-global registry
+	 * comes first, so its entry wins over a workspace entry for the same path.
+	 */
 	async getProjects(): Promise<ProjectDefinition[]> {
-		const registry = await this.getRegistry();
-		return registry.projects;
+		const lists = await Promise.all(this.activeScopes().map(scope => this.readScope(scope)));
+		return mergeProjectLists(lists);
 	}
 
 	async getCurrentProject(): Promise<ProjectDefinition | null> {
@@ -21,32 +53,70 @@ export class ProjectManager {
 		return projects.find(p => p.id === currentProjectId) || null;
 	}
 
-	async addProject(project: Omit<ProjectDefinition, 'id' | 'lastAccessed' | 'active'>): Promise<ProjectDefinition> {
-		const projects = await this.getProjects();
-
-		// Check if project with same path already exists
-		const existing = projects.find(p => p.path === project.path);
+	async addProject(project: Omit<ProjectDefinition, 'id' | 'lastAccessed' | 'active' | 'scope'>): Promise<ProjectDefinition> {
+		// Check if project with same path already exists (in any active registry)
+		const existing = (await this.getProjects()).find(p => normalizeProjectPath(p.path) === normalizeProjectPath(project.path));
 		if (existing) {
 			throw new Error(`Project with path "${project.path}" already exists`);
 		}
 
+		const scope = getConfiguredProjectRegistryScope();
+		const projects = await this.readScope(scope);
 		const newProject: ProjectDefinition = {
 			...project,
-			id: this.generateId(),
+			id: generateProjectId(),
 			lastAccessed: new Date(),
 			active: false
 		};
 
 		projects.push(newProject);
-		await this.saveProjects(projects);
+		await this.saveProjects(scope, projects);
 
-		return newProject;
+		return { ...newProject, scope };
+	}
+
+	/**
+	 * Add projects read from an export file to the configured registry. Paths that are already
+	 * registered (or repeated in the import) are skipped; colliding ids are regenerated.
+	 */
+	async importProjects(projects: ProjectDefinition[]): Promise<ProjectImportResult> {
+		const known = await this.getProjects();
+		const knownPaths = new Set(known.map(p => normalizeProjectPath(p.path)));
+		const knownIds = new Set(known.map(p => p.id));
+		const scope = getConfiguredProjectRegistryScope();
+		const stored = await this.readScope(scope);
+
+		const added: ProjectDefinition[] = [];
+		for (const project of projects) {
+			const key = normalizeProjectPath(project.path);
+			if (knownPaths.has(key)) {continue;}
+			knownPaths.add(key);
+			const id = knownIds.has(project.id) ? generateProjectId() : project.id;
+			knownIds.add(id);
+			const { scope: _scope, ...fields } = project;
+			const imported: ProjectDefinition = { ...fields, id, active: false };
+			stored.push(imported);
+			added.push({ ...imported, scope });
+		}
+
+		if (added.length > 0) {
+			await this.saveProjects(scope, stored);
+		}
+		return { added, skipped: projects.length - added.length };
 	}
 
 	async removeProject(projectId: string): Promise<void> {
-		const projects = await this.getProjects();
-		const filtered = projects.filter(p => p.id !== projectId);
-		await this.saveProjects(filtered);
+		const removed = (await this.getProjects()).find(p => p.id === projectId);
+		const removedPath = removed ? normalizeProjectPath(removed.path) : undefined;
+
+		// Drop the entry and any duplicate of its path hidden in another registry
+		for (const scope of this.activeScopes()) {
+			const projects = await this.readScope(scope);
+			const filtered = projects.filter(p => p.id !== projectId && normalizeProjectPath(p.path) !== removedPath);
+			if (filtered.length !== projects.length) {
+				await this.saveProjects(scope, filtered);
+			}
+		}
 
 		// If we removed the current project, clear it
 		const currentProjectId = this.context.workspaceState.get<string>(ProjectManager.CURRENT_PROJECT_KEY);
@@ -57,17 +127,20 @@ export class ProjectManager {
 
 	async setCurrentProject(projectId: string | null): Promise<void> {
 		if (projectId) {
-			// Update last accessed time
-			const projects = await this.getProjects();
-			const project = projects.find(p => p.id === projectId);
-			if (project) {
+			const owner = await this.findScope(projectId);
+			if (owner) {
+				// Update last accessed time
+				const project = owner.projects[owner.index];
 				project.lastAccessed = new Date();
 				project.active = true;
 				// Set all others to inactive
-				projects.forEach(p => {
-					if (p.id !== projectId) {p.active = false;}
-				});
-				await this.saveProjects(projects);
+				for (const scope of this.activeScopes()) {
+					const projects = scope === owner.scope ? owner.projects : await this.readScope(scope);
+					projects.forEach(p => {
+						if (p.id !== projectId) {p.active = false;}
+					});
+					await this.saveProjects(scope, projects);
+				}
 			}
 		}
 
@@ -75,17 +148,18 @@ export class ProjectManager {
 	}
 
 	async updateProject(projectId: string, updates: Partial<ProjectDefinition>): Promise<ProjectDefinition> {
-		const projects = await this.getProjects();
-		const index = projects.findIndex(p => p.id === projectId);
+		const owner = await this.findScope(projectId);
 
-		if (index === -1) {
+		if (!owner) {
 			throw new Error(`Project with id "${projectId}" not found`);
 		}
 
-		projects[index] = { ...projects[index], ...updates };
-		await this.saveProjects(projects);
+		const { scope: _scope, ...fields } = updates;
+		const { projects, index, scope } = owner;
+		projects[index] = { ...projects[index], ...fields };
+		await this.saveProjects(scope, projects);
 
-		return projects[index];
+		return { ...projects[index], scope };
 	}
 
 	async validateProjectPath(path: string): Promise<boolean> {
@@ -98,20 +172,50 @@ export class ProjectManager {
 		}
 	}
 
-	private async getRegistry(): Promise<ProjectRegistry> {
-		const stored = this.context.workspaceState.get<ProjectRegistry>(ProjectManager.STORAGE_KEY);
-		return stored || { projects: [] };
+	/** Registries read for this window: the configured one, then the workspace registry. */
+	private activeScopes(): ProjectRegistryScope[] {
+		const configured = getConfiguredProjectRegistryScope();
+		return configured === 'workspace' ? ['workspace'] : [configured, 'workspace'];
 	}
 
-	private async saveProjects(projects: ProjectDefinition[]): Promise<void> {
-		const registry: ProjectRegistry = {
-			projects,
-			currentProject: this.context.workspaceState.get<string>(ProjectManager.CURRENT_PROJECT_KEY)
-		};
-		await this.context.workspaceState.update(ProjectManager.STORAGE_KEY, registry);
+	private async findScope(projectId: string): Promise<{ scope: ProjectRegistryScope; projects: ProjectDefinition[]; index: number } | undefined> {
+		for (const scope of this.activeScopes()) {
+			const projects = await this.readScope(scope);
+			const index = projects.findIndex(p => p.id === projectId);
+			if (index !== -1) {
+				return { scope, projects, index };
+			}
+		}
+		return undefined;
 	}
 
-	private generateId(): string {
-		return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+	private async readScope(scope: ProjectRegistryScope): Promise<ProjectDefinition[]> {
+		let projects: ProjectDefinition[];
+		if (scope === 'file') {
+			projects = await readProjectRegistryFile(projectRegistryFilePath(this.userRoot));
+		} else {
+			projects = this.getRegistry(scope).projects;
+		}
+		return projects.map(({ scope: _scope, ...p }) => ({ ...p, scope }));
+	}
+
+	private getRegistry(scope: 'workspace' | 'global'): ProjectRegistry {
+		const state = scope === 'global' ? this.context.globalState : this.context.workspaceState;
+		const stored = state?.get<ProjectRegistry>(ProjectManager.STORAGE_KEY);
+		return stored || { projects: [] };
+	}
+
+	private async saveProjects(scope: ProjectRegistryScope, projects: ProjectDefinition[]): Promise<void> {
+		const stripped = projects.map(({ scope: _scope, ...p }) => p);
+		if (scope === 'file') {
+			await writeProjectRegistryFile(projectRegistryFilePath(this.userRoot), stripped);
+			return;
+		}
+		const registry: ProjectRegistry = { projects: stripped };
+		if (scope === 'workspace') {
+			registry.currentProject = this.context.workspaceState.get<string>(ProjectManager.CURRENT_PROJECT_KEY);
+		}
+		const state = scope === 'global' ? this.context.globalState : this.context.workspaceState;
+		await state.update(ProjectManager.STORAGE_KEY, registry);
 	}
 }
@@ -0,0 +1,97 @@
+// Project Registry File - NO vscode dependency
+// ~/.agents/ace-projects.json: user-global project registry shared by the extension (ace.projectRegistry = "file")
+// and the standalone MCP server. Also the format written by ace.exportProjects and read by ace.importProjects.
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { ProjectDefinition } from '../types/project';
+
+export const PROJECT_REGISTRY_FILE_NAME = 'ace-projects.json';
+
+/** `<userRoot>/.agents/ace-projects.json` */
+export function projectRegistryFilePath(userRoot: string): string {
+	return path.join(userRoot, '.agents', PROJECT_REGISTRY_FILE_NAME);
+}
+
+export function generateProjectId(): string {
+	return `project_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/** Path key used to detect the same project registered twice (resolved; case-insensitive on Windows). */
+export function normalizeProjectPath(p: string): string {
+	const resolved = path.resolve(p);
+	return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * Projects from a parsed registry document: `{ projects: [...] }` or a bare array. Entries need a
+ * `path`; `name` defaults to the folder name, `id` is generated when missing and `lastAccessed`
+ * defaults to now. Anything else yields no projects.
+ */
+export function parseProjectRegistry(raw: unknown): ProjectDefinition[] {
+	const entries = Array.isArray(raw)
+		? raw
+		: raw && typeof raw === 'object' && Array.isArray((raw as { projects?: unknown }).projects)
+			? (raw as { projects: unknown[] }).projects
+			: [];
+	const projects: ProjectDefinition[] = [];
+	for (const entry of entries) {
+		if (!entry || typeof entry !== 'object') {continue;}
+		const e = entry as Record<string, unknown>;
+		if (typeof e.path !== 'string' || e.path.trim().length === 0) {continue;}
+		const projectPath = e.path.trim();
+		const lastAccessed = typeof e.lastAccessed === 'string' || typeof e.lastAccessed === 'number'
+			? new Date(e.lastAccessed)
+			: new Date();
+		projects.push({
+			id: typeof e.id === 'string' && e.id.length > 0 ? e.id : generateProjectId(),
+			name: typeof e.name === 'string' && e.name.trim().length > 0 ? e.name.trim() : path.basename(projectPath),
+			path: projectPath,
+			...(typeof e.description === 'string' && e.description.length > 0 ? { description: e.description } : {}),
+			lastAccessed: isNaN(lastAccessed.getTime()) ? new Date() : lastAccessed,
+			active: e.active === true
+		});
+	}
+	return projects;
+}
+
+/** Registry document for the file store and exports (`scope` is dropped). */
+export function serializeProjectRegistry(projects: ProjectDefinition[]): string {
+	return JSON.stringify({ projects: projects.map(({ scope: _scope, ...p }) => p) }, null, 2) + '\n';
+}
+
+/** Concatenate project lists, keeping the first entry for each path. */
+export function mergeProjectLists(lists: ProjectDefinition[][]): ProjectDefinition[] {
+	const seen = new Set<string>();
+	const merged: ProjectDefinition[] = [];
+	for (const project of lists.flat()) {
+		const key = normalizeProjectPath(project.path);
+		if (seen.has(key)) {continue;}
+		seen.add(key);
+		merged.push(project);
+	}
+	return merged;
+}
+
+/**
+ * Read a registry file. A missing file is an empty registry; malformed JSON throws so callers
+ * never overwrite a file they could not read.
+ */
+export async function readProjectRegistryFile(filePath: string): Promise<ProjectDefinition[]> {
+	let text: string;
+	try {
+		text = await fs.readFile(filePath, 'utf8');
+	} catch (e) {
+		if ((e as NodeJS.ErrnoException).code === 'ENOENT') {return [];}
+		throw e;
+	}
+	try {
+		return parseProjectRegistry(JSON.parse(text));
+	} catch (e) {
+		throw new Error(`Invalid project registry ${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+	}
+}
+
+export async function writeProjectRegistryFile(filePath: string, projects: ProjectDefinition[]): Promise<void> {
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(filePath, serializeProjectRegistry(projects), 'utf8');
+}
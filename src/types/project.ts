@@ -1,4 +1,10 @@
 // Project definition types
+/**
+ * Where added projects are stored: this workspace only (workspaceState), every window (globalState),
+ * or ~/.agents/ace-projects.json, which the standalone MCP server reads too.
+ */
+export type ProjectRegistryScope = 'workspace' | 'global' | 'file';
+
 export interface ProjectDefinition {
 	id: string;
 	name: string;
@@ -6,6 +12,8 @@ export interface ProjectDefinition {
 	description?: string;
 	lastAccessed: Date;
 	active: boolean;
+	/** Registry the project was read from (set by ProjectManager, not persisted) */
+	scope?: ProjectRegistryScope;
 }
 
 export interface ProjectRegistry {
@@ -0,0 +1,44 @@
+// Temp directory helpers for tests that scan real files (NodeFsAdapter)
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Write `content` to `file`, creating its parent directories. */
+export function write(file: string, content: string | Buffer): void {
+	fs.mkdirSync(path.dirname(file), { recursive: true });
+	fs.writeFileSync(file, content);
+}
+
+/**
+ * Register mocha hooks that create a temp directory named `<prefix>…` before the suite (or before
+ * each test with `scope: 'each'`), hand it to `onCreate`, and remove it afterwards. Call it before
+ * the suite's own `before` / `beforeEach` so those hooks see the directory.
+ */
+export function useTempDir(prefix: string, onCreate: (dir: string) => void, scope: 'all' | 'each' = 'all'): void {
+	let dir: string | undefined;
+	const create = () => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+		onCreate(dir);
+	};
+	const remove = () => {
+		if (dir) {fs.rmSync(dir, { recursive: true, force: true });}
+		dir = undefined;
+	};
+	if (scope === 'each') {
+		beforeEach(create);
+		afterEach(remove);
+	} else {
+		before(create);
+		after(remove);
+	}
+}
+
+/** Run `fn` with a fresh temp directory named `<prefix>…`, removed when `fn` settles. */
+export async function withTempDir<T>(prefix: string, fn: (dir: string) => T | Promise<T>): Promise<T> {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+	try {
+		return await fn(dir);
+	} finally {
+		fs.rmSync(dir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+	AGENT_ROOT_SECTIONS,
+	agentRootCommandsDirectory,
+	agentRootsFromEnv,
+	claudeUserMemoryPath,
+	claudeUserSettingsPath,
+	defaultAgentRoots,
+	expandUserPath,
+	resolveAgentRoots,
+	rootsWithSection
+} from '../../../src/scanner/core/agentRoots';
+
+const HOME = '/home/u';
+
+describe('scanner/core/agentRoots', () => {
+	it('built-in roots are Cursor, Claude, Gemini, Codex and Global under the user root', () => {
+		const roots = defaultAgentRoots(HOME);
+		assert.deepStrictEqual(roots.map(r => [r.id, r.directory]), [
+			['cursor', path.join(HOME, '.cursor')],
+			['claude', path.join(HOME, '.claude')],
+			['gemini', path.join(HOME, '.gemini')],
+			['codex', path.join(HOME, '.codex')],
+			['global', path.join(HOME, '.agents')]
+		]);
+		assert.strictEqual(roots[1].mcpConfigPath, path.join(HOME, '.claude.json'));
+		assert.strictEqual(roots[2].mcpConfigPath, path.join(HOME, '.gemini', 'settings.json'));
+		assert.deepStrictEqual(roots[2].sections, ['commands', 'mcp']);
+		assert.strictEqual(roots[2].commandFormat, 'toml');
+		assert.strictEqual(roots[2].memoryPath, path.join(HOME, '.gemini', 'GEMINI.md'));
+		assert.deepStrictEqual(roots.filter(r => r.commandFormat).map(r => r.id), ['gemini']);
+		assert.strictEqual(roots[3].mcpConfigPath, path.join(HOME, '.codex', 'config.toml'));
+		assert.deepStrictEqual(roots[3].sections, ['commands', 'mcp']);
+		assert.strictEqual(roots[4].mcpConfigPath, undefined);
+		assert.deepStrictEqual(roots.map(r => r.icon), ['device-desktop', 'device-desktop', 'device-desktop', 'device-desktop', 'globe']);
+	});
+
+	it('scans commands from commandsDirectory when set, else <directory>/commands', () => {
+		const [cursor, , , codex] = defaultAgentRoots(HOME);
+		assert.strictEqual(agentRootCommandsDirectory(cursor), path.join(HOME, '.cursor', 'commands'));
+		assert.strictEqual(agentRootCommandsDirectory(codex), path.join(HOME, '.codex', 'prompts'));
+
+		const [custom] = resolveAgentRoots([{ id: 'team', directory: '/srv/team', commandsDirectory: '~/team-prompts' }], HOME);
+		assert.strictEqual(custom.commandsDirectory, path.join(HOME, 'team-prompts'));
+	});
+
+	it('resolves Claude user memory from the claude root memoryPath, else ~/.claude/CLAUDE.md', () => {
+		const roots = defaultAgentRoots(HOME);
+		assert.strictEqual(roots[1].memoryPath, path.join(HOME, '.claude', 'CLAUDE.md'));
+		assert.strictEqual(roots[0].memoryPath, undefined);
+
+		const custom = resolveAgentRoots([{ id: 'claude', directory: '~/work/claude', memoryPath: '~/work/claude/CLAUDE.md' }], HOME);
+		assert.strictEqual(claudeUserMemoryPath(custom, HOME), path.join(HOME, 'work', 'claude', 'CLAUDE.md'));
+		assert.strictEqual(claudeUserMemoryPath([], HOME), path.join(HOME, '.claude', 'CLAUDE.md'));
+	});
+
+	it('resolves Claude user settings from the claude root settingsPath, else ~/.claude/settings.json', () => {
+		const roots = defaultAgentRoots(HOME);
+		assert.strictEqual(roots[1].settingsPath, path.join(HOME, '.claude', 'settings.json'));
+		assert.strictEqual(roots[0].settingsPath, undefined);
+
+		const custom = resolveAgentRoots([{ id: 'claude', directory: '~/work/claude', settingsPath: '~/work/claude/settings.json' }], HOME);
+		assert.strictEqual(claudeUserSettingsPath(custom, HOME), path.join(HOME, 'work', 'claude', 'settings.json'));
+		assert.strictEqual(claudeUserSettingsPath([], HOME), path.join(HOME, '.claude', 'settings.json'));
+	});
+
+	it('expands ~ and resolves relative paths against the user root', () => {
+		assert.strictEqual(expandUserPath('~', HOME), HOME);
+		assert.strictEqual(expandUserPath('~/.codeium/windsurf', HOME), path.join(HOME, '.codeium', 'windsurf'));
+		assert.strictEqual(expandUserPath('.kiro', HOME), path.join(HOME, '.kiro'));
+		assert.strictEqual(expandUserPath('/opt/agents', HOME), '/opt/agents');
+	});
+
+	it('falls back to the built-in roots only when the setting is not an array', () => {
+		assert.deepStrictEqual(resolveAgentRoots(undefined, HOME), defaultAgentRoots(HOME));
+		assert.deepStrictEqual(resolveAgentRoots({ id: 'x' }, HOME), defaultAgentRoots(HOME));
+		assert.deepStrictEqual(resolveAgentRoots([], HOME), []);
+	});
+
+	it('normalizes entries: defaults, ~ expansion, section filtering, invalid and duplicate ids dropped', () => {
+		const roots = resolveAgentRoots([
+			{ id: 'team', directory: '~/team-agents', mcpConfigPath: '~/team-agents/mcp.json', sections: ['skills', 'bogus', 'agents'] },
+			{ id: 'team', directory: '/elsewhere' },
+			{ label: 'No id', directory: '/x' },
+			{ id: 'no-dir' },
+			'not an object',
+			{ id: 'codex', label: 'Codex', directory: '/opt/codex', icon: 'robot', commandFormat: 'yaml' },
+			{ id: 'gem', directory: '~/gem', commandFormat: 'toml', sections: ['commands'] }
+		], HOME);
+		assert.deepStrictEqual(roots, [
+			{
+				id: 'team',
+				label: 'team',
+				directory: path.join(HOME, 'team-agents'),
+				icon: 'device-desktop',
+				mcpConfigPath: path.join(HOME, 'team-agents', 'mcp.json'),
+				sections: ['agents', 'skills']
+			},
+			{
+				id: 'codex',
+				label: 'Codex',
+				directory: '/opt/codex',
+				icon: 'robot',
+				sections: AGENT_ROOT_SECTIONS
+			},
+			{
+				id: 'gem',
+				label: 'gem',
+				directory: path.join(HOME, 'gem'),
+				icon: 'device-desktop',
+				commandFormat: 'toml',
+				sections: ['commands']
+			}
+		]);
+		assert.deepStrictEqual(rootsWithSection(roots, 'commands').map(r => r.id), ['codex', 'gem']);
+	});
+
+	it('reads roots from the ACE_AGENT_ROOTS env value, ignoring invalid JSON', () => {
+		assert.deepStrictEqual(agentRootsFromEnv(undefined, HOME), defaultAgentRoots(HOME));
+		assert.deepStrictEqual(agentRootsFromEnv('{nope', HOME), defaultAgentRoots(HOME));
+		const roots = agentRootsFromEnv(JSON.stringify([{ id: 'team', directory: '/srv/team' }]), HOME);
+		assert.deepStrictEqual(roots.map(r => r.directory), ['/srv/team']);
+	});
+});
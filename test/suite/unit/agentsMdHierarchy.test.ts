@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { parentAgentsMdDirectory, readAgentsMdChainCore, scanNestedAgentsMdCore } from '../../../src/scanner/core/agentsMdHierarchy';
+import { scanAsdlcCore } from '../../../src/scanner/core/scanAsdlcCore';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core agentsMdHierarchy', () => {
+	let root: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-agents-md-', dir => { root = dir; });
+
+	before(() => {
+		write(path.join(root, 'AGENTS.md'), '# Root\n');
+		write(path.join(root, 'packages', 'api', 'AGENTS.md'), '# API\n');
+		write(path.join(root, 'packages', 'api', 'src', 'handlers', 'AGENTS.md'), '# Handlers\n');
+		write(path.join(root, 'packages', 'web', 'AGENTS.md'), '# Web\n');
+		write(path.join(root, 'node_modules', 'pkg', 'AGENTS.md'), '# Dependency\n');
+		write(path.join(root, '.git', 'AGENTS.md'), '# Git\n');
+		write(path.join(root, 'dist', 'AGENTS.md'), '# Build output\n');
+	});
+
+	it('finds nested AGENTS.md files, skipping node_modules, hidden and build directories', async () => {
+		const nested = await scanNestedAgentsMdCore(nodeFs, root);
+		assert.deepStrictEqual(nested.map(n => n.directory), ['packages/api', 'packages/api/src/handlers', 'packages/web']);
+		assert.strictEqual(nested[0].path, path.join(root, 'packages', 'api', 'AGENTS.md'));
+
+		const asdlc = await scanAsdlcCore(nodeFs, root, { nestedAgentsMd: true });
+		assert.strictEqual(asdlc.nestedAgentsMd.length, 3);
+	});
+
+	it('leaves the nested walk out of default ASDLC scans (compliance, search, discovery)', async () => {
+		const asdlc = await scanAsdlcCore(nodeFs, root);
+		assert.deepStrictEqual(asdlc.nestedAgentsMd, []);
+		assert.strictEqual(asdlc.agentsMd.exists, true);
+	});
+
+	it('resolves the nearest ancestor directory holding an AGENTS.md', () => {
+		const directories = ['packages/api', 'packages/api/src/handlers', 'packages/apiary'];
+		assert.strictEqual(parentAgentsMdDirectory('packages/api/src/handlers', directories), 'packages/api');
+		assert.strictEqual(parentAgentsMdDirectory('packages/apiary', directories), undefined);
+		assert.strictEqual(parentAgentsMdDirectory('packages/api', directories), undefined);
+	});
+
+	it('returns the chain for a file in application order (root first, nearest last)', async () => {
+		const chain = await readAgentsMdChainCore(nodeFs, root, path.join(root, 'packages', 'api', 'src', 'handlers', 'user.ts'));
+		assert.deepStrictEqual(chain.map(e => [e.directory, e.content]), [
+			['', '# Root\n'],
+			['packages/api', '# API\n'],
+			['packages/api/src/handlers', '# Handlers\n']
+		]);
+
+		const relative = await readAgentsMdChainCore(nodeFs, root, 'packages/web/index.ts');
+		assert.deepStrictEqual(relative.map(e => e.directory), ['', 'packages/web']);
+	});
+
+	it('gives files outside the project the root AGENTS.md only', async () => {
+		const chain = await readAgentsMdChainCore(nodeFs, root, path.join(os.tmpdir(), 'elsewhere', 'file.ts'));
+		assert.deepStrictEqual(chain.map(e => e.directory), ['']);
+	});
+});
@@ -6,6 +6,8 @@ import type { ProjectTreeItem } from '../../../src/providers/projectTreeProvider
 import type { Command } from '../../../src/scanner/commandsScanner';
 import type { Skill } from '../../../src/scanner/skillsScanner';
 import type { AgentDefinition } from '../../../src/scanner/agentsScanner';
+import type { CoreMcpServer } from '../../../src/scanner/core/mcpServersCore';
+import { defaultAgentRoots } from '../../../src/scanner/core/agentRoots';
 
 // Reuse minimal vscode-like types if needed (in this repo, tests already run with a vscode stub)
 
@@ -56,9 +58,10 @@ describe('AgentsTreeProvider root level', () => {
 
 	it('uses globe icon for global root id and desktop icon for others', async () => {
 		const provider = new AgentsTreeProvider();
+		const [cursor, , , , global] = defaultAgentRoots('/home/user');
 		provider.setAgentRoots([
-			{ id: 'cursor', label: 'C', description: '', commands: [], skills: [], agentDefinitions: [], mcpServers: [] },
-			{ id: 'global', label: 'G', description: '', commands: [], skills: [], agentDefinitions: [], mcpServers: [] }
+			{ id: cursor.id, label: 'C', description: '', icon: cursor.icon, commands: [], skills: [], agentDefinitions: [], mcpServers: [] },
+			{ id: global.id, label: 'G', description: '', icon: global.icon, commands: [], skills: [], agentDefinitions: [], mcpServers: [] }
 		]);
 		const roots = await provider.getChildren(undefined);
 		const cursorIcon = (roots[0].iconPath as vscode.ThemeIcon).id;
@@ -66,6 +69,15 @@ describe('AgentsTreeProvider root level', () => {
 		assert.strictEqual(cursorIcon, 'device-desktop');
 		assert.strictEqual(globalIcon, 'globe');
 	});
+
+	it('uses the configured icon when a root sets one', async () => {
+		const provider = new AgentsTreeProvider();
+		provider.setAgentRoots([
+			{ id: 'team', label: 'Team', icon: 'organization', commands: [], skills: [], agentDefinitions: [], mcpServers: [] }
+		]);
+		const roots = await provider.getChildren(undefined);
+		assert.strictEqual((roots[0].iconPath as vscode.ThemeIcon).id, 'organization');
+	});
 });
 
 describe('AgentsTreeProvider sections under agent root', () => {
@@ -117,6 +129,7 @@ describe('AgentsTreeProvider sections under agent root', () => {
 			id: 'cursor',
 			label: 'Cursor',
 			description: '',
+			icon: 'device-desktop',
 			commands: [{ uri: cmdUri, content: 'x', fileName: 'a.md', location: 'workspace' } as Command],
 			skills: [{ uri: skillUri, content: '', fileName: 'sk', location: 'workspace', metadata: {} } as Skill],
 			agentDefinitions: [] as AgentDefinition[],
@@ -131,7 +144,7 @@ describe('AgentsTreeProvider sections under agent root', () => {
 
 	it('returns no children when agentRootId does not match any root', async () => {
 		const provider = new AgentsTreeProvider();
-		provider.setAgentRoots([{ id: 'cursor', label: 'C', description: '', commands: [], skills: [], agentDefinitions: [], mcpServers: [] }]);
+		provider.setAgentRoots([{ id: 'cursor', label: 'C', description: '', icon: 'device-desktop', commands: [], skills: [], agentDefinitions: [], mcpServers: [] }]);
 		const stale = createRootItem('missing-id');
 		assert.deepStrictEqual(await provider.getChildren(stale), []);
 	});
@@ -275,6 +288,7 @@ describe('AgentsTreeProvider skills section', () => {
 			id: 'cursor',
 			label: 'Cursor',
 			description: '',
+			icon: 'device-desktop',
 			commands: [],
 			skills: [{
 				uri: skillUri,
@@ -290,6 +304,33 @@ describe('AgentsTreeProvider skills section', () => {
 		assert.strictEqual(children[0].label, 'named');
 		assert.strictEqual((children[0].tooltip as string), 'O only');
 	});
+
+	it('expands a skill with bundled files into file leaves', async () => {
+		const provider = new AgentsTreeProvider();
+		provider.setAgentRoots([{
+			id: 'claude',
+			label: 'Claude',
+			description: '',
+			icon: 'device-desktop',
+			commands: [],
+			skills: [{
+				uri: vscode.Uri.file('/home/user/.claude/skills/pdf/SKILL.md'),
+				content: '',
+				fileName: 'pdf',
+				location: 'global',
+				platform: 'claude',
+				files: [{ relativePath: 'scripts/extract.py', path: '/home/user/.claude/skills/pdf/scripts/extract.py', size: 100 }]
+			}],
+			agentDefinitions: [],
+			mcpServers: []
+		}]);
+		const [skillItem] = await provider.getChildren(createSkillsSection('claude'));
+		assert.strictEqual(skillItem.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+
+		const files = await provider.getChildren(skillItem);
+		assert.deepStrictEqual(files.map(f => [f.label, f.description, f.contextValue]), [['scripts/extract.py', '100 B', 'skill-file']]);
+		assert.strictEqual(files[0].command?.command, 'vscode.open');
+	});
 });
 
 describe('AgentsTreeProvider agents section (agent root)', () => {
@@ -373,6 +414,7 @@ describe('AgentsTreeProvider MCP section', () => {
 			id,
 			label: id === 'claude' ? 'Claude' : 'Cursor',
 			description: '',
+			icon: 'device-desktop',
 			commands: [],
 			skills: [],
 			agentDefinitions: [],
@@ -394,6 +436,66 @@ describe('AgentsTreeProvider MCP section', () => {
 		assert.deepStrictEqual(labels, ['Agents', 'Commands', 'MCP', 'Skills']);
 	});
 
+	it('shows the user memory file before the sections when the root has one', async () => {
+		const provider = new AgentsTreeProvider();
+		const memoryFile = vscode.Uri.file('/home/u/.claude/CLAUDE.md');
+		provider.setAgentRoots([{ ...makeRoot('claude', []), memoryFile }]);
+
+		const rootItem = new vscode.TreeItem('Claude', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+		rootItem.contextValue = 'agent-root';
+		rootItem.agentRootId = 'claude';
+
+		const sections = await provider.getChildren(rootItem);
+		assert.deepStrictEqual(sections.map(s => s.label as string), ['CLAUDE.md', 'Agents', 'Commands', 'MCP', 'Skills']);
+		assert.strictEqual(sections[0].contextValue, 'agent-memory');
+		assert.strictEqual(sections[0].description, 'user memory');
+		assert.strictEqual(sections[0].command?.arguments?.[0], memoryFile);
+	});
+
+	it('shows user settings after the memory file, listing permissions and hooks with their file', async () => {
+		const provider = new AgentsTreeProvider();
+		const settingsPath = '/home/u/.claude/settings.json';
+		const file = { path: settingsPath, scope: 'user' as const };
+		provider.setAgentRoots([{
+			...makeRoot('claude', []),
+			memoryFile: vscode.Uri.file('/home/u/.claude/CLAUDE.md'),
+			settings: {
+				files: [file],
+				permissions: [{ ...file, kind: 'deny', rule: 'Read(./.env)' }],
+				hooks: [{ ...file, event: 'PreToolUse', matcher: 'Bash', type: 'command', command: 'check.sh' }],
+				env: []
+			}
+		}]);
+
+		const rootItem = new vscode.TreeItem('Claude', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+		rootItem.contextValue = 'agent-root';
+		rootItem.agentRootId = 'claude';
+
+		const sections = await provider.getChildren(rootItem);
+		assert.deepStrictEqual(sections.slice(0, 3).map(s => s.label as string), ['CLAUDE.md', 'Settings', 'Agents']);
+		assert.strictEqual(sections[1].contextValue, 'agent-settings');
+		assert.strictEqual(sections[1].description, '1 permission, 1 hook');
+
+		const entries = await provider.getChildren(sections[1]);
+		assert.deepStrictEqual(entries.map(e => [e.label, e.description, e.contextValue]), [
+			['Read(./.env)', 'deny · user', 'claude-permission'],
+			['PreToolUse: Bash', 'command hook · user', 'claude-hook']
+		]);
+		assert.strictEqual((entries[1].command?.arguments?.[0] as vscode.Uri).fsPath, settingsPath);
+	});
+
+	it('shows only the sections configured for the root', async () => {
+		const provider = new AgentsTreeProvider();
+		provider.setAgentRoots([{ ...makeRoot('team', []), sections: ['skills', 'agents'] }]);
+
+		const rootItem = new vscode.TreeItem('Team', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+		rootItem.contextValue = 'agent-root';
+		rootItem.agentRootId = 'team';
+
+		const sections = await provider.getChildren(rootItem);
+		assert.deepStrictEqual(sections.map(s => s.label as string), ['Agents', 'Skills']);
+	});
+
 	it('MCP section node has contextValue agent-mcp and mcp icon', async () => {
 		const provider = new AgentsTreeProvider();
 		provider.setAgentRoots([makeRoot('claude', ['ace'])]);
@@ -474,3 +576,87 @@ describe('AgentsTreeProvider MCP section', () => {
 	});
 });
 
+describe('AgentsTreeProvider MCP server details and probe', () => {
+	const github: CoreMcpServer = {
+		name: 'github', agent: 'claude', scope: 'user', path: '/home/u/.claude.json', transport: 'stdio',
+		command: 'npx', args: ['-y', 'github-mcp'], envKeys: ['GITHUB_TOKEN'], effective: true
+	};
+	const docs: CoreMcpServer = { name: 'docs', agent: 'claude', scope: 'user', path: '/home/u/.claude.json', transport: 'http', url: 'http://localhost:3000/mcp', effective: true };
+
+	function makeProvider(): AgentsTreeProvider {
+		const provider = new AgentsTreeProvider();
+		provider.setAgentRoots([{
+			id: 'claude', label: 'Claude', icon: 'device-desktop', commands: [], skills: [], agentDefinitions: [],
+			mcpServers: ['github', 'docs'], mcpServerDetails: [github, docs]
+		}]);
+		return provider;
+	}
+
+	async function serverNodes(provider: AgentsTreeProvider): Promise<ProjectTreeItem[]> {
+		const section = new vscode.TreeItem('MCP', vscode.TreeItemCollapsibleState.Collapsed) as ProjectTreeItem;
+		section.contextValue = 'agent-mcp';
+		section.agentRootId = 'claude';
+		return provider.getChildren(section);
+	}
+
+	it('server nodes show the transport and expand into details with env values redacted', async () => {
+		const provider = makeProvider();
+		const [githubNode, docsNode] = await serverNodes(provider);
+		assert.deepStrictEqual([githubNode.description, githubNode.contextValue, githubNode.collapsibleState], ['stdio', 'mcp-server', vscode.TreeItemCollapsibleState.Collapsed]);
+		assert.strictEqual(githubNode.tooltip, 'stdio: npx -y github-mcp\n\n/home/u/.claude.json');
+		assert.strictEqual(githubNode.mcpServerData, github);
+
+		const details = await provider.getChildren(githubNode);
+		assert.deepStrictEqual(details.map(d => [d.label, d.description]), [
+			['transport', 'stdio'],
+			['command', 'npx -y github-mcp'],
+			['GITHUB_TOKEN', '••••••']
+		]);
+		assert.deepStrictEqual((await provider.getChildren(docsNode)).map(d => [d.label, d.description]), [
+			['transport', 'http'],
+			['url', 'http://localhost:3000/mcp']
+		]);
+	});
+
+	it('shows a running probe, then its summary and steps with listed items', async () => {
+		const provider = makeProvider();
+		provider.setProbeResult(github, 'running');
+		let [githubNode] = await serverNodes(provider);
+		assert.strictEqual(githubNode.collapsibleState, vscode.TreeItemCollapsibleState.Expanded);
+		const running = await provider.getChildren(githubNode);
+		assert.strictEqual(running[running.length - 1].label, 'Probing…');
+
+		provider.setProbeResult(github, {
+			ok: false,
+			durationMs: 120,
+			server: { name: 'github-mcp', version: '0.4.0' },
+			steps: [
+				{ method: 'initialize', durationMs: 80 },
+				{ method: 'tools/list', durationMs: 20, items: [{ name: 'create_issue', description: 'Create an issue' }, { name: 'search' }] },
+				{ method: 'prompts/list', durationMs: 0, unsupported: true },
+				{ method: 'resources/list', durationMs: 20, error: 'Method not found' }
+			],
+			stderr: 'warning: rate limited'
+		});
+		[githubNode] = await serverNodes(provider);
+		const probe = (await provider.getChildren(githubNode)).slice(3);
+		assert.deepStrictEqual(probe.map(p => [p.label, p.description]), [
+			['Probe failed', 'github-mcp 0.4.0 · 120 ms'],
+			['initialize', '80 ms'],
+			['tools/list', '2 tools · 20 ms'],
+			['prompts/list', 'not supported'],
+			['resources/list', 'Method not found · 20 ms']
+		]);
+		assert.match(String(probe[0].tooltip), /stderr:\nwarning: rate limited/);
+		assert.strictEqual(probe[2].collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+
+		const tools = await provider.getChildren(probe[2]);
+		assert.deepStrictEqual(tools.map(t => [t.label, t.tooltip, t.contextValue]), [
+			['create_issue', 'Create an issue', 'mcp-probe-item'],
+			['search', undefined, 'mcp-probe-item']
+		]);
+
+		const [, docsNode] = await serverNodes(provider);
+		assert.strictEqual(docsNode.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+	});
+});
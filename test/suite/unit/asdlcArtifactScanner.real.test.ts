@@ -37,6 +37,7 @@ describe('AsdlcArtifactScanner (real — scanAsdlcCore branches)', () => {
 				content: '# Title\n\n> Mission here.\n',
 				sections: []
 			},
+			nestedAgentsMd: [],
 			specs: { exists: false, specs: [] },
 			schemas: { exists: false, schemas: [] },
 			hasAnyArtifacts: true
@@ -56,6 +57,7 @@ describe('AsdlcArtifactScanner (real — scanAsdlcCore branches)', () => {
 				path: '/w/AGENTS.md',
 				sections: []
 			},
+			nestedAgentsMd: [],
 			specs: { exists: false, specs: [] },
 			schemas: { exists: false, schemas: [] },
 			hasAnyArtifacts: true
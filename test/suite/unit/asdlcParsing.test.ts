@@ -2,6 +2,8 @@ import * as assert from 'assert';
 import {
 	parseAgentsMd,
 	parseSections,
+	findSection,
+	extractAgentsMdSection,
 	extractMission,
 	extractCorePhilosophy,
 	extractTechStack,
@@ -194,6 +196,42 @@ Content.
 		});
 	});
 
+	describe('findSection', () => {
+		it('should match titles case-insensitively, preferring exact over partial matches', () => {
+			const sections = parseSections('# Stack\n## Tech Stack (Ground Truth)\n## stack\n'.split('\n'));
+			assert.strictEqual(findSection(sections, 'STACK')?.title, 'Stack');
+			assert.strictEqual(findSection(sections, 'tech stack')?.title, 'Tech Stack (Ground Truth)');
+			assert.strictEqual(findSection(sections, 'Deployment'), undefined);
+			assert.strictEqual(findSection(sections, '  '), undefined);
+		});
+	});
+
+	describe('extractAgentsMdSection', () => {
+		it('should return a section with its subsections up to the next same-level heading', () => {
+			const section = extractAgentsMdSection(AGENTS_MD_WITH_TECH_STACK, 'Operational Boundaries');
+			assert.ok(section);
+			assert.strictEqual(section.title, '3. Operational Boundaries (CRITICAL)');
+			assert.strictEqual(section.level, 2);
+			assert.ok(section.content.startsWith('## 3. Operational Boundaries (CRITICAL)'));
+			assert.ok(section.content.includes('### Tier 3 (NEVER)'));
+			assert.ok(section.content.endsWith('- **NEVER** commit secrets'));
+		});
+
+		it('should stop before the next heading of the same level', () => {
+			const section = extractAgentsMdSection(AGENTS_MD_WITH_TECH_STACK, 'tech stack');
+			assert.ok(section);
+			assert.ok(section.content.includes('- **Package Manager:** npm'));
+			assert.ok(!section.content.includes('Operational Boundaries'));
+			const lines = AGENTS_MD_WITH_TECH_STACK.split('\n');
+			assert.strictEqual(lines[section.startLine], '## 2. Tech Stack (Ground Truth)');
+			assert.strictEqual(lines[section.endLine + 1], '## 3. Operational Boundaries (CRITICAL)');
+		});
+
+		it('should return undefined for an unknown section', () => {
+			assert.strictEqual(extractAgentsMdSection(AGENTS_MD_WITH_TECH_STACK, 'Deployment'), undefined);
+		});
+	});
+
 	describe('extractListItems', () => {
 		it('should extract items matching keyword pattern', () => {
 			const content = `
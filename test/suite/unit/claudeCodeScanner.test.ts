@@ -163,11 +163,11 @@ describe('ClaudeCodeScanner.scan() — error handling', () => {
 });
 
 describe('ClaudeCodeScanner.watchAll()', () => {
-	it('returns one disposable per pattern (5 total — includes .claude/agents/*.md)', () => {
+	it('returns one disposable per pattern (8 total — includes .claude/agents/*.md, the memory files and settings)', () => {
 		const scanner = new ClaudeCodeScanner(testUri as any);
 		const disposables = scanner.watchAll(() => {});
 
-		assert.strictEqual(disposables.length, 5);
+		assert.strictEqual(disposables.length, 8);
 		disposables.forEach(d => assert.strictEqual(typeof d.dispose, 'function'));
 	});
 
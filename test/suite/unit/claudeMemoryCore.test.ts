@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { readClaudeMemoryCore, scanClaudeMemoryCore } from '../../../src/scanner/core/claudeMemoryCore';
+import { scanClaudeCodeCore } from '../../../src/scanner/core/scanClaudeCodeCore';
+import { useTempDir, withTempDir, write } from '../tempDir';
+
+describe('scanner/core claudeMemoryCore', () => {
+	let root: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-claude-memory-', dir => { root = dir; });
+
+	before(() => {
+		write(path.join(root, 'CLAUDE.md'), 'Project\n');
+		write(path.join(root, '.claude', 'CLAUDE.md'), 'Project (.claude)\n');
+		write(path.join(root, 'CLAUDE.local.md'), 'Local\n');
+		write(path.join(root, 'packages', 'api', 'CLAUDE.md'), 'API\n');
+		write(path.join(root, 'packages', 'api', 'CLAUDE.local.md'), 'API local\n');
+		write(path.join(root, 'packages', 'web', 'CLAUDE.md'), 'Web\n');
+		write(path.join(root, 'node_modules', 'pkg', 'CLAUDE.md'), 'Dependency\n');
+	});
+
+	it('lists project, local and nested memory files in load order', async () => {
+		const files = await scanClaudeMemoryCore(nodeFs, root);
+		assert.deepStrictEqual(files.map(f => [path.relative(root, f.path).split(path.sep).join('/'), f.scope]), [
+			['CLAUDE.md', 'project'],
+			['.claude/CLAUDE.md', 'project'],
+			['CLAUDE.local.md', 'local'],
+			['packages/api/CLAUDE.md', 'nested'],
+			['packages/api/CLAUDE.local.md', 'local'],
+			['packages/web/CLAUDE.md', 'nested']
+		]);
+
+		const claude = await scanClaudeCodeCore(nodeFs, root, { nestedMemory: true });
+		assert.strictEqual(claude.claudeMdPath, path.join(root, 'CLAUDE.md'));
+		assert.strictEqual(claude.memoryFiles.length, 6);
+	});
+
+	it('stats the root memory files only unless nested memory is requested (project discovery)', async () => {
+		const claude = await scanClaudeCodeCore(nodeFs, root);
+		assert.strictEqual(claude.claudeMdPath, path.join(root, 'CLAUDE.md'));
+		assert.deepStrictEqual(claude.memoryFiles.map(f => f.scope), ['project', 'project', 'local']);
+		assert.deepStrictEqual((await scanClaudeMemoryCore(nodeFs, root, false)).map(f => f.directory), ['', '', '']);
+	});
+
+	it('reads the memory stack for a directory, user memory first', async () => {
+		await withTempDir('ace-claude-memory-home-', async home => {
+			const userMemory = path.join(home, 'CLAUDE.md');
+			write(userMemory, 'User\n');
+			const stack = await readClaudeMemoryCore(nodeFs, root, path.join(root, 'packages', 'api', 'src'), userMemory);
+			assert.deepStrictEqual(stack.map(e => [e.scope, e.directory, e.content]), [
+				['user', '', 'User\n'],
+				['project', '', 'Project\n'],
+				['project', '', 'Project (.claude)\n'],
+				['local', '', 'Local\n'],
+				['nested', 'packages/api', 'API\n'],
+				['local', 'packages/api', 'API local\n']
+			]);
+		});
+	});
+
+	it('skips a missing user memory file and gives outside directories the root memory only', async () => {
+		const stack = await readClaudeMemoryCore(nodeFs, root, os.tmpdir(), path.join(root, 'missing', 'CLAUDE.md'));
+		assert.deepStrictEqual(stack.map(e => e.scope), ['project', 'project', 'local']);
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { claudeSettingsFiles, parseClaudeSettings, readClaudeSettingsCore } from '../../../src/scanner/core/claudeSettingsCore';
+import { scanClaudeCodeCore } from '../../../src/scanner/core/scanClaudeCodeCore';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core claudeSettingsCore', () => {
+	let root: string;
+	let home: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-claude-settings-', dir => { root = dir; });
+	useTempDir('ace-claude-settings-home-', dir => { home = dir; });
+
+	before(() => {
+		write(path.join(home, 'settings.json'), JSON.stringify({
+			permissions: { allow: ['WebSearch'], deny: ['Read(~/.ssh/**)'] },
+			env: { EDITOR: 'vim', LOG: 'info' }
+		}));
+		write(path.join(root, '.claude', 'settings.json'), JSON.stringify({
+			permissions: { allow: ['Bash(npm run test:*)'], ask: ['Bash(git push:*)'], defaultMode: 'acceptEdits' },
+			hooks: {
+				PostToolUse: [{ matcher: 'Edit|Write', hooks: [{ type: 'command', command: 'npm run lint', timeout: 30 }] }],
+				Stop: [{ hooks: [{ type: 'command', command: 'notify-send done' }, { command: 'no type' }] }]
+			},
+			env: { LOG: 'debug' }
+		}));
+		write(path.join(root, '.claude', 'settings.local.json'), '{ not json');
+	});
+
+	it('lists settings files in load order: user, project, local', () => {
+		assert.deepStrictEqual(claudeSettingsFiles(root, '/u/settings.json').map(f => [f.scope, f.path]), [
+			['user', '/u/settings.json'],
+			['project', path.join(root, '.claude', 'settings.json')],
+			['local', path.join(root, '.claude', 'settings.local.json')]
+		]);
+		assert.deepStrictEqual(claudeSettingsFiles(undefined, '/u/settings.json').map(f => f.scope), ['user']);
+	});
+
+	it('parses permissions, hooks and env, skipping malformed entries', () => {
+		const file = { path: '/p/.claude/settings.json', scope: 'project' as const };
+		const parsed = parseClaudeSettings('{"permissions":{"allow":["Edit", 3, " "]},"hooks":{"Stop":"nope","PreToolUse":[{"matcher":"Bash"}]},"env":{"N":1,"O":{}}}', file);
+		assert.deepStrictEqual(parsed, {
+			permissions: [{ ...file, kind: 'allow', rule: 'Edit' }],
+			hooks: [],
+			env: [{ ...file, name: 'N' }]
+		});
+		assert.strictEqual(parseClaudeSettings('[]', file), undefined);
+		assert.strictEqual(parseClaudeSettings('{', file), undefined);
+	});
+
+	it('merges files, marking each entry with its file; malformed and missing files are left out', async () => {
+		const settings = await readClaudeSettingsCore(nodeFs, claudeSettingsFiles(root, path.join(home, 'settings.json')));
+		assert.deepStrictEqual(settings.files.map(f => f.scope), ['user', 'project']);
+		assert.deepStrictEqual(settings.permissions.map(p => [p.kind, p.rule, p.scope]), [
+			['deny', 'Read(~/.ssh/**)', 'user'],
+			['ask', 'Bash(git push:*)', 'project'],
+			['allow', 'WebSearch', 'user'],
+			['allow', 'Bash(npm run test:*)', 'project']
+		]);
+		assert.deepStrictEqual(settings.hooks.map(h => [h.event, h.matcher, h.command, h.timeout, h.scope]), [
+			['PostToolUse', 'Edit|Write', 'npm run lint', 30, 'project'],
+			['Stop', undefined, 'notify-send done', undefined, 'project']
+		]);
+		assert.deepStrictEqual(settings.env.map(e => [e.name, e.scope]), [
+			['EDITOR', 'user'],
+			['LOG', 'project']
+		]);
+
+		const none = await readClaudeSettingsCore(nodeFs, claudeSettingsFiles(path.join(root, 'missing'), undefined));
+		assert.deepStrictEqual(none, { files: [], permissions: [], hooks: [], env: [] });
+	});
+
+	it('is part of the Claude Code project scan (project and local files only)', async () => {
+		const core = await scanClaudeCodeCore(nodeFs, root);
+		assert.deepStrictEqual(core.settings.files.map(f => f.scope), ['project']);
+		assert.strictEqual(core.settings.permissions.length, 2);
+		assert.strictEqual(core.hasAnyArtifacts, true);
+	});
+});
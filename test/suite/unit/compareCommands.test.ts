@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompareCommands, formatComparisonMarkdown } from '../../../src/commands/compareCommands';
+import type { ProjectDefinition } from '../../../src/types/project';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const vscode = require('vscode');
+
+describe('CompareCommands', () => {
+	const registered: Record<string, (...args: unknown[]) => unknown> = {};
+	const originalCommands = vscode.commands;
+	const originalWindow = vscode.window;
+	const originalFs = vscode.workspace.fs;
+	const originalFolders = vscode.workspace.workspaceFolders;
+	const originalOpen = vscode.workspace.openTextDocument;
+	let root: string;
+	let a: string;
+	let b: string;
+
+	function makeContext(projects: ProjectDefinition[] = []): any {
+		const store = new Map<string, unknown>();
+		store.set('aceExplorer.projects', { projects });
+		return {
+			workspaceState: {
+				get: <T>(key: string) => store.get(key) as T | undefined,
+				update: async (key: string, value: unknown) => {
+					store.set(key, value);
+				}
+			},
+			subscriptions: [] as { dispose: () => void }[]
+		};
+	}
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-compare-cmd-'));
+		a = path.join(root, 'a');
+		b = path.join(root, 'b');
+		fs.mkdirSync(path.join(a, '.cursor', 'commands'), { recursive: true });
+		fs.mkdirSync(path.join(b, '.cursor', 'commands'), { recursive: true });
+		fs.writeFileSync(path.join(a, '.cursor', 'commands', 'ship.md'), '# Ship\nRun tests.\n');
+		fs.writeFileSync(path.join(b, '.cursor', 'commands', 'ship.md'), '# Ship\nRun tests and lint.\n');
+		fs.writeFileSync(path.join(b, '.cursor', 'commands', 'release.md'), '# Release\n');
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		Object.keys(registered).forEach((k) => delete registered[k]);
+		vscode.commands = {
+			registerCommand: (id: string, fn: (...args: unknown[]) => unknown) => {
+				registered[id] = fn;
+				return { dispose: () => {} };
+			},
+			executeCommand: async () => {}
+		};
+		vscode.window = { ...originalWindow };
+		// Back vscode.workspace.fs with the real filesystem so the shared scan core sees the temp projects
+		vscode.workspace.fs = {
+			readFile: async (uri: { fsPath: string }) => fs.promises.readFile(uri.fsPath),
+			readDirectory: async (uri: { fsPath: string }) => {
+				const entries = await fs.promises.readdir(uri.fsPath, { withFileTypes: true });
+				return entries.map((e) => [e.name, e.isDirectory() ? 2 : 1]);
+			},
+			stat: async (uri: { fsPath: string }) => {
+				const st = await fs.promises.stat(uri.fsPath);
+				return { type: st.isDirectory() ? 2 : 1, mtime: st.mtimeMs };
+			}
+		};
+		vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file(a), name: 'A' }];
+	});
+
+	afterEach(() => {
+		vscode.commands = originalCommands;
+		vscode.window = originalWindow;
+		vscode.workspace.fs = originalFs;
+		vscode.workspace.workspaceFolders = originalFolders;
+		vscode.workspace.openTextDocument = originalOpen;
+	});
+
+	it('formatComparisonMarkdown lists one-sided and changed items with diffs', () => {
+		const md = formatComparisonMarkdown({
+			projectA: '/a',
+			projectB: '/b',
+			summary: { 'only-in-a': 0, 'only-in-b': 1, identical: 2, differs: 1 },
+			items: [
+				{ kind: 'spec', name: 'billing', status: 'only-in-b', pathB: '/b/specs/billing/spec.md', hashB: 'h' },
+				{ kind: 'rule', name: 'style', platform: 'cursor', status: 'differs', hashA: 'x', hashB: 'y', diff: '--- a/s\n+++ b/s\n@@ -1 +1 @@\n-x\n+y\n' }
+			]
+		}, 'App', 'Lib');
+		assert.ok(md.startsWith('# Compare: App ↔ Lib\n'));
+		assert.ok(md.includes('0 only in A · 1 only in B · 1 changed · 2 identical'));
+		assert.ok(md.includes('## Only in Lib\n\n- spec `billing`'));
+		assert.ok(!md.includes('## Only in App'));
+		assert.ok(md.includes('### rule `style` (cursor)\n\n```diff\n--- a/s\n+++ b/s\n@@ -1 +1 @@\n-x\n+y\n```'));
+	});
+
+	it('asks for a second project when started from a project node and opens the report', async () => {
+		const projects: ProjectDefinition[] = [{ id: 'pb', name: 'B', path: b, lastAccessed: new Date(), active: false }];
+		let offered: string[] = [];
+		let content = '';
+		vscode.window.showQuickPick = async (items: Array<{ label: string }>) => {
+			offered = items.map(i => i.label);
+			return items[0];
+		};
+		vscode.workspace.openTextDocument = async (opts: { content: string }) => {
+			content = opts.content;
+			return {};
+		};
+		vscode.window.showTextDocument = async () => ({});
+		CompareCommands.registerCommands(makeContext(projects));
+		await (registered['ace.compareProjects'] as (item: unknown) => Promise<void>)({ project: { path: a } });
+		assert.deepStrictEqual(offered, ['B']);
+		assert.ok(content.includes('## Only in B\n\n- command `release` (cursor)'));
+		assert.ok(content.includes('-Run tests.\n+Run tests and lint.'));
+	});
+
+	it('needs at least two projects', async () => {
+		let info = '';
+		vscode.window.showInformationMessage = (msg: string) => {
+			info = msg;
+		};
+		CompareCommands.registerCommands(makeContext());
+		await (registered['ace.compareProjects'] as () => Promise<void>)();
+		assert.strictEqual(info, 'Add at least two projects to compare');
+	});
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { compareProjectsCore, contentHash } from '../../../src/scanner/core/compareCore';
+import { unifiedDiff } from '../../../src/scanner/core/unifiedDiff';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core unifiedDiff', () => {
+	it('returns an empty string for texts with the same lines', () => {
+		assert.strictEqual(unifiedDiff('a\nb\n', 'a\r\nb\r\n', 'a/x', 'b/x'), '');
+	});
+
+	it('writes hunks with context and line ranges', () => {
+		const a = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n') + '\n';
+		const b = ['1', '2', 'three', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13'].join('\n') + '\n';
+		assert.strictEqual(unifiedDiff(a, b, 'a/f.md', 'b/f.md'), [
+			'--- a/f.md',
+			'+++ b/f.md',
+			'@@ -1,6 +1,6 @@',
+			' 1',
+			' 2',
+			'-3',
+			'+three',
+			' 4',
+			' 5',
+			' 6',
+			'@@ -10,3 +10,4 @@',
+			' 10',
+			' 11',
+			' 12',
+			'+13',
+			''
+		].join('\n'));
+	});
+
+	it('merges nearby changes into one hunk and handles empty sides', () => {
+		const diff = unifiedDiff('a\nb\nc\nd\n', 'A\nb\nc\nD\n', 'a/f', 'b/f');
+		assert.strictEqual(diff.split('\n').filter(l => l.startsWith('@@')).length, 1);
+		assert.strictEqual(unifiedDiff('', 'x\n', 'a/f', 'b/f'), '--- a/f\n+++ b/f\n@@ -0,0 +1 @@\n+x\n');
+	});
+});
+
+describe('scanner/core compareProjectsCore', () => {
+	let root: string;
+	let a: string;
+	let b: string;
+
+	useTempDir('ace-compare-', dir => { root = dir; });
+
+	before(() => {
+		a = path.join(root, 'a');
+		b = path.join(root, 'b');
+		const rule = (body: string) => `---\ndescription: Style\n---\n${body}\n`;
+		write(path.join(a, '.cursor', 'rules', 'style.mdc'), rule('Use tabs.'));
+		write(path.join(b, '.cursor', 'rules', 'style.mdc'), rule('Use tabs.').replace(/\n/g, '\r\n'));
+		write(path.join(a, '.claude', 'commands', 'ship.md'), '# Ship\nRun tests.\n');
+		write(path.join(b, '.claude', 'commands', 'ship.md'), '# Ship\nRun tests and lint.\n');
+		write(path.join(a, '.claude', 'skills', 'plan', 'SKILL.md'), '# Plan\n');
+		write(path.join(b, '.cursor', 'agents', 'reviewer.md'), '# Reviewer\n');
+		write(path.join(b, 'specs', 'billing', 'spec.md'), '# Billing\n');
+		write(path.join(a, 'schemas', 'order.json'), '{"$id":"order"}');
+		write(path.join(b, 'schemas', 'order.json'), '{"$id":"order"}');
+	});
+
+	it('classifies artifacts matched by kind, platform and name', async () => {
+		const home = path.join(root, 'home');
+		const result = await compareProjectsCore(new NodeFsAdapter(), a, b, home);
+		assert.deepStrictEqual(result.items.map(i => [i.kind, i.name, i.platform, i.status]), [
+			['rule', 'style', 'cursor', 'identical'],
+			['command', 'ship', 'claude', 'differs'],
+			['skill', 'plan', 'claude', 'only-in-a'],
+			['agent', 'reviewer', 'cursor', 'only-in-b'],
+			['spec', 'billing', undefined, 'only-in-b'],
+			['schema', 'order', undefined, 'identical']
+		]);
+		assert.deepStrictEqual(result.summary, { 'only-in-a': 1, 'only-in-b': 2, identical: 2, differs: 1 });
+		const ship = result.items[1];
+		assert.strictEqual(ship.hashA, contentHash('# Ship\nRun tests.\n'));
+		assert.notStrictEqual(ship.hashA, ship.hashB);
+		assert.strictEqual(ship.diff, undefined, 'diffs only on request');
+		assert.strictEqual(result.items[2].pathB, undefined);
+	});
+
+	it('adds unified diffs on request and filters by kind', async () => {
+		const result = await compareProjectsCore(new NodeFsAdapter(), a, b, path.join(root, 'home'), { kinds: ['command'], includeDiff: true });
+		assert.deepStrictEqual(result.items.map(i => i.name), ['ship']);
+		assert.ok(result.items[0].diff?.startsWith(`--- a/${path.join('.claude', 'commands', 'ship.md')}\n+++ b/`));
+		assert.ok(result.items[0].diff?.includes('-Run tests.\n+Run tests and lint.\n'));
+	});
+});
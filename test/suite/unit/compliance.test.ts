@@ -0,0 +1,192 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { combineStatus, evaluateCompliance } from '../../../src/scanner/compliance';
+import type { ComplianceInput } from '../../../src/scanner/compliance';
+import { evaluateComplianceCore } from '../../../src/scanner/core/complianceCore';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import type { AsdlcArtifacts, PillarName, PillarResult } from '../../../src/scanner/types';
+
+function emptyArtifacts(): AsdlcArtifacts {
+	return {
+		agentsMd: { exists: false, sections: [] },
+		specs: { exists: false, specs: [] },
+		schemas: { exists: false, schemas: [] },
+		hasAnyArtifacts: false
+	};
+}
+
+function fullInput(): ComplianceInput {
+	return {
+		asdlc: {
+			agentsMd: {
+				exists: true,
+				path: '/p/AGENTS.md',
+				mission: 'Ship it',
+				sections: [],
+				techStack: { languages: ['TypeScript'], frameworks: [], buildTools: [], testing: [] },
+				operationalBoundaries: { tier1Always: ['Run tests'], tier2Ask: ['Add deps'], tier3Never: ['Commit secrets'] }
+			},
+			specs: { exists: true, specs: [{ domain: 'billing', path: '/p/specs/billing/spec.md', hasBlueprint: true, hasContract: true, flavour: 'asdlc', documents: ['spec.md'] }] },
+			schemas: { exists: true, schemas: [{ name: 'order', path: '/p/schemas/order.json', schemaId: 'https://x/order' }] },
+			hasAnyArtifacts: true
+		},
+		rules: [{ fileName: 'style.mdc', metadata: { description: 'Style' } }],
+		skills: [{ fileName: 'plan', location: 'workspace', metadata: { description: 'Plans work before coding' } }]
+	};
+}
+
+function pillar(report: { pillars: PillarResult[] }, name: PillarName): PillarResult {
+	const found = report.pillars.find(p => p.pillar === name);
+	assert.ok(found, `pillar ${name}`);
+	return found;
+}
+
+describe('scanner/compliance', () => {
+	it('combineStatus: worst status wins', () => {
+		assert.strictEqual(combineStatus([]), 'pass');
+		assert.strictEqual(combineStatus(['pass', 'warn']), 'warn');
+		assert.strictEqual(combineStatus(['warn', 'fail', 'pass']), 'fail');
+	});
+
+	it('passes every pillar for a complete project', () => {
+		const report = evaluateCompliance('/p', fullInput(), new Date('2026-01-02T03:04:05Z'));
+		assert.strictEqual(report.timestamp, '2026-01-02T03:04:05.000Z');
+		assert.strictEqual(report.projectPath, '/p');
+		assert.strictEqual(report.overallStatus, 'pass');
+		assert.deepStrictEqual(report.pillars.map(p => p.pillar), ['factory-architecture', 'standardized-parts', 'quality-control']);
+		assert.ok(report.pillars.every(p => p.status === 'pass'));
+		assert.deepStrictEqual(report.recommendations, []);
+		assert.ok(pillar(report, 'quality-control').summary.startsWith('Quality Control: 3 passed'));
+	});
+
+	it('fails factory architecture without AGENTS.md and lists failures first in recommendations', () => {
+		const report = evaluateCompliance('/p', { asdlc: emptyArtifacts(), rules: [], skills: [] });
+		const factory = pillar(report, 'factory-architecture');
+		assert.strictEqual(factory.status, 'fail');
+		assert.deepStrictEqual(factory.checks.map(c => c.name), ['agents-md']);
+		assert.strictEqual(pillar(report, 'standardized-parts').status, 'warn');
+		assert.strictEqual(pillar(report, 'quality-control').status, 'warn');
+		assert.strictEqual(report.overallStatus, 'fail');
+		assert.ok(report.recommendations[0].includes('AGENTS.md'));
+		assert.strictEqual(report.recommendations.length, 4);
+	});
+
+	it('flags missing mission, tech stack and boundary tiers', () => {
+		const input = fullInput();
+		input.asdlc.agentsMd = {
+			exists: true,
+			path: '/p/AGENTS.md',
+			sections: [],
+			operationalBoundaries: { tier1Always: ['Run tests'], tier2Ask: [], tier3Never: [] }
+		};
+		const checks = pillar(evaluateCompliance('/p', input), 'factory-architecture').checks;
+		const byName = new Map(checks.map(c => [c.name, c]));
+		assert.strictEqual(byName.get('mission')?.status, 'warn');
+		assert.strictEqual(byName.get('tech-stack')?.status, 'warn');
+		assert.strictEqual(byName.get('operational-boundaries')?.status, 'warn');
+		assert.deepStrictEqual(byName.get('operational-boundaries')?.details, ['Tier 2 (ASK)', 'Tier 3 (NEVER)']);
+
+		delete input.asdlc.agentsMd.operationalBoundaries;
+		const missing = pillar(evaluateCompliance('/p', input), 'factory-architecture');
+		assert.strictEqual(missing.checks.find(c => c.name === 'operational-boundaries')?.status, 'fail');
+		assert.strictEqual(missing.status, 'fail');
+	});
+
+	it('reports specs missing Blueprint/Contract and schemas without $id', () => {
+		const input = fullInput();
+		input.asdlc.specs.specs.push({ domain: 'auth', path: '/p/specs/auth/spec.md', hasBlueprint: true, hasContract: false, flavour: 'asdlc', documents: ['spec.md'] });
+		input.asdlc.schemas.schemas.push({ name: 'user', path: '/p/schemas/user.json' });
+		const parts = pillar(evaluateCompliance('/p', input), 'standardized-parts');
+		assert.strictEqual(parts.status, 'warn');
+		assert.deepStrictEqual(parts.checks.find(c => c.name === 'spec-structure')?.details, ['auth: missing Contract']);
+		assert.deepStrictEqual(parts.checks.find(c => c.name === 'schema-ids')?.details, ['user.json']);
+	});
+
+	it('counts Kiro specs without requiring Blueprint/Contract sections', () => {
+		const input = fullInput();
+		input.asdlc.specs.specs.push({ domain: 'checkout', path: '/p/.kiro/specs/checkout/requirements.md', hasBlueprint: false, hasContract: false, flavour: 'kiro', documents: ['requirements.md'] });
+		const parts = pillar(evaluateCompliance('/p', input), 'standardized-parts');
+		assert.strictEqual(parts.checks.find(c => c.name === 'specs')?.message, '2 spec(s) found');
+		assert.strictEqual(parts.checks.find(c => c.name === 'spec-structure')?.status, 'pass');
+	});
+
+	it('skips the schema check when there are no schemas', () => {
+		const input = fullInput();
+		input.asdlc.schemas = { exists: false, schemas: [] };
+		const parts = pillar(evaluateCompliance('/p', input), 'standardized-parts');
+		assert.ok(!parts.checks.some(c => c.name === 'schema-ids'));
+	});
+
+	it('quality control ignores global skills and flags rules without descriptions', () => {
+		const input = fullInput();
+		input.rules.push({ fileName: 'bare.mdc', metadata: { description: '' } }, { fileName: 'parsed.mdc', metadata: { description: 'No description' } });
+		input.skills = [{ fileName: 'global-only', location: 'global' }];
+		const quality = pillar(evaluateCompliance('/p', input), 'quality-control');
+		assert.deepStrictEqual(quality.checks.find(c => c.name === 'rule-descriptions')?.details, ['bare.mdc', 'parsed.mdc']);
+		assert.strictEqual(quality.checks.find(c => c.name === 'skills')?.status, 'warn');
+	});
+
+	it('quality control warns about skills without an Agent Skills description', () => {
+		const input = fullInput();
+		input.skills.push({ fileName: 'legacy', location: 'workspace', metadata: {} }, { fileName: 'blank', location: 'workspace', metadata: { description: ' ' } });
+		const quality = pillar(evaluateCompliance('/p', input), 'quality-control');
+		const descriptions = quality.checks.find(c => c.name === 'skill-descriptions');
+		assert.strictEqual(descriptions?.status, 'warn');
+		assert.deepStrictEqual(descriptions?.details, ['legacy', 'blank']);
+		assert.ok(evaluateCompliance('/p', input).recommendations.some(r => r.includes('description') && r.includes('SKILL.md')));
+		assert.ok(!pillar(evaluateCompliance('/p', fullInput()), 'quality-control').checks.some(c => c.name === 'skill-descriptions'));
+	});
+
+	describe('evaluateComplianceCore (temp project)', () => {
+		let root: string;
+
+		before(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-compliance-'));
+			const project = path.join(root, 'proj');
+			fs.mkdirSync(path.join(project, '.cursor', 'rules'), { recursive: true });
+			fs.mkdirSync(path.join(project, 'specs', 'billing'), { recursive: true });
+			fs.writeFileSync(path.join(project, '.cursor', 'rules', 'style.mdc'), '---\ndescription: Style\n---\nUse tabs.\n');
+			fs.writeFileSync(path.join(project, 'specs', 'billing', 'spec.md'), '# Billing\n## Blueprint\n## Contract\n');
+			fs.writeFileSync(path.join(project, 'AGENTS.md'), [
+				'# AGENTS',
+				'> **Project Mission:** Explore agent context.',
+				'## Operational Boundaries',
+				'### Tier 1 (Always)',
+				'- **ALWAYS** run tests',
+				'### Tier 2 (Ask)',
+				'- **ASK** before adding deps',
+				'### Tier 3 (Never)',
+				'- **NEVER** commit secrets',
+				''
+			].join('\n'));
+		});
+
+		after(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it('scans the project and evaluates the report', async () => {
+			const report = await evaluateComplianceCore(new NodeFsAdapter(), path.join(root, 'proj'), path.join(root, 'home'));
+			const factory = pillar(report, 'factory-architecture');
+			assert.strictEqual(factory.checks.find(c => c.name === 'mission')?.status, 'pass');
+			assert.strictEqual(factory.checks.find(c => c.name === 'operational-boundaries')?.status, 'pass');
+			assert.strictEqual(factory.checks.find(c => c.name === 'tech-stack')?.status, 'warn');
+			assert.strictEqual(pillar(report, 'standardized-parts').status, 'pass');
+			assert.strictEqual(pillar(report, 'quality-control').checks.find(c => c.name === 'rules')?.status, 'pass');
+			assert.strictEqual(pillar(report, 'quality-control').checks.find(c => c.name === 'rule-descriptions')?.status, 'pass');
+			assert.strictEqual(report.overallStatus, 'warn');
+		});
+
+		it('warns about a scanned rule without frontmatter', async () => {
+			const project = path.join(root, 'bare');
+			fs.mkdirSync(path.join(project, '.cursor', 'rules'), { recursive: true });
+			fs.writeFileSync(path.join(project, '.cursor', 'rules', 'tabs.mdc'), 'Use tabs.\n');
+			const report = await evaluateComplianceCore(new NodeFsAdapter(), project, path.join(root, 'home'));
+			const descriptions = pillar(report, 'quality-control').checks.find(c => c.name === 'rule-descriptions');
+			assert.strictEqual(descriptions?.status, 'warn');
+			assert.deepStrictEqual(descriptions?.details, ['tabs.mdc']);
+		});
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { describeDiscoveredProject, discoverProjectsCore } from '../../../src/scanner/core/discoverProjectsCore';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core discoverProjectsCore', () => {
+	let root: string;
+	useTempDir('ace-discover-', dir => { root = dir; });
+
+	before(() => {
+		write(path.join(root, 'api', 'AGENTS.md'), '# API\n');
+		write(path.join(root, 'api', 'specs', 'billing', 'spec.md'), '# Billing\n## Blueprint\n## Contract\n');
+		write(path.join(root, 'api', 'packages', 'sdk', 'CLAUDE.md'), '# SDK\n');
+		write(path.join(root, 'web', '.claude', 'commands', 'ship.md'), '# Ship\n');
+		fs.mkdirSync(path.join(root, 'web', '.cursor'), { recursive: true });
+		write(path.join(root, 'plain', 'README.md'), '# Nothing agentic\n');
+		write(path.join(root, 'web', 'node_modules', 'dep', 'AGENTS.md'), '# dependency\n');
+		write(path.join(root, 'group', 'deep', 'nested', 'AGENTS.md'), '# too deep\n');
+	});
+
+	it('finds directories with agent markers down to the depth limit', async () => {
+		const projects = await discoverProjectsCore(new NodeFsAdapter(), root, 3);
+		assert.deepStrictEqual(projects.map(p => path.relative(root, p.path)), [
+			'api',
+			path.join('api', 'packages', 'sdk'),
+			path.join('group', 'deep', 'nested'),
+			'web'
+		]);
+		const shallow = await discoverProjectsCore(new NodeFsAdapter(), root, 1);
+		assert.deepStrictEqual(shallow.map(p => p.name), ['api', 'web']);
+	});
+
+	it('summarises each project with the Claude Code and ASDLC scanners', async () => {
+		const [api, , , web] = await discoverProjectsCore(new NodeFsAdapter(), root, 3);
+		assert.deepStrictEqual(api.markers, ['AGENTS.md', 'specs']);
+		assert.strictEqual(api.summary.agentsMd, true);
+		assert.strictEqual(api.summary.specs, 1);
+		assert.strictEqual(describeDiscoveredProject(api), 'AGENTS.md · 1 spec');
+		assert.deepStrictEqual(web.markers, ['.cursor', '.claude']);
+		assert.strictEqual(web.summary.claudeCommands, 1);
+		assert.strictEqual(describeDiscoveredProject(web), '1 Claude command · .cursor/');
+	});
+
+	it('includes the chosen folder itself and tolerates unreadable roots', async () => {
+		const own = await discoverProjectsCore(new NodeFsAdapter(), path.join(root, 'api'), 0);
+		assert.deepStrictEqual(own.map(p => p.name), ['api']);
+		assert.deepStrictEqual(await discoverProjectsCore(new NodeFsAdapter(), path.join(root, 'missing')), []);
+	});
+});
@@ -10,7 +10,7 @@ const vscode = require('vscode');
 /** Captured by patched `registerCommand` (ace.refresh, ProjectCommands, etc.) */
 const commandHandlers: Record<string, (...args: unknown[]) => unknown> = {};
 
-type WatcherHookSet = { onDidCreate?: () => void; onDidChange?: () => void; onDidDelete?: () => void };
+type WatcherHookSet = { onDidCreate?: (uri: unknown) => void; onDidChange?: (uri: unknown) => void; onDidDelete?: (uri: unknown) => void };
 
 function makeContext(): any {
 	return {
@@ -67,15 +67,15 @@ function patchVscodeForExtension(): void {
 		const hooks: WatcherHookSet = {};
 		watcherHooksList.push(hooks);
 		return {
-			onDidCreate: (cb: () => void) => {
+			onDidCreate: (cb: (uri: unknown) => void) => {
 				hooks.onDidCreate = cb;
 				return { dispose: () => {} };
 			},
-			onDidChange: (cb: () => void) => {
+			onDidChange: (cb: (uri: unknown) => void) => {
 				hooks.onDidChange = cb;
 				return { dispose: () => {} };
 			},
-			onDidDelete: (cb: () => void) => {
+			onDidDelete: (cb: (uri: unknown) => void) => {
 				hooks.onDidDelete = cb;
 				return { dispose: () => {} };
 			},
@@ -179,14 +179,15 @@ describe('extension activate / deactivate', () => {
 		assert.ok(refresh);
 		await refresh();
 		const list = (vscode.workspace as unknown as { __watcherHooksList?: WatcherHookSet[] }).__watcherHooksList;
-		assert.ok(list && list.length >= 7, 'workspace×4 + global×9 (cursor×3 + claude×3 + dotAgents×3) watchers');
-		// All watchers: exercise create/change/delete on each
+		assert.ok(list && list.length >= 7, 'workspace×4 + per agent root: commands, skills, agents, MCP config');
+		// All watchers: exercise create/change/delete on each (VS Code passes the changed file's Uri)
+		const uri = vscode.Uri.file(path.join(process.cwd(), '.cursor', 'rules', 'example.mdc'));
 		for (let i = 0; i < list!.length; i++) {
 			const h = list![i];
 			assert.ok(h.onDidCreate && h.onDidChange && h.onDidDelete);
-			await h.onDidCreate!();
-			await h.onDidChange!();
-			await h.onDidDelete!();
+			await h.onDidCreate!(uri);
+			await h.onDidChange!(uri);
+			await h.onDidDelete!(uri);
 			await new Promise((r) => setImmediate(r));
 		}
 		extension.deactivate();
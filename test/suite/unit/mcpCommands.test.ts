@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { McpCommands } from '../../../src/commands/mcpCommands';
+import { AgentsTreeProvider } from '../../../src/providers/agentsTreeProvider';
+import type { CoreMcpServer } from '../../../src/scanner/core/mcpServersCore';
+import type { McpProbeResult } from '../../../src/services/mcpProbe';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const vscode = require('vscode');
+
+describe('McpCommands', () => {
+	const registered: Record<string, (...args: unknown[]) => unknown> = {};
+	const originalCommands = vscode.commands;
+	const originalWindow = vscode.window;
+	let dir: string;
+	let configPath: string;
+	let messages: string[];
+
+	function server(name: string): CoreMcpServer {
+		return { name, agent: 'claude', scope: 'user', path: configPath, transport: 'stdio', effective: true };
+	}
+
+	function register(provider: AgentsTreeProvider): (item?: unknown) => Promise<void> {
+		McpCommands.registerCommands({ subscriptions: [] } as any, provider);
+		return registered['ace.probeMcpServer'] as (item?: unknown) => Promise<void>;
+	}
+
+	before(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-cmd-'));
+		configPath = path.join(dir, '.claude.json');
+		fs.writeFileSync(configPath, JSON.stringify({ mcpServers: { broken: { command: path.join(dir, 'no-such-server') } } }));
+	});
+
+	after(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		Object.keys(registered).forEach((k) => delete registered[k]);
+		messages = [];
+		vscode.commands = {
+			registerCommand: (id: string, fn: (...args: unknown[]) => unknown) => {
+				registered[id] = fn;
+				return { dispose: () => {} };
+			}
+		};
+		vscode.window = {
+			...originalWindow,
+			showInformationMessage: (msg: string) => { messages.push(msg); },
+			showWarningMessage: (msg: string) => { messages.push(msg); },
+			showErrorMessage: (msg: string) => { messages.push(msg); }
+		};
+	});
+
+	afterEach(() => {
+		vscode.commands = originalCommands;
+		vscode.window = originalWindow;
+	});
+
+	it('needs an MCP server node', async () => {
+		await register(new AgentsTreeProvider())();
+		assert.deepStrictEqual(messages, ['Select an MCP server in the Agents view to probe']);
+	});
+
+	it('reports a server that is no longer in its config file', async () => {
+		await register(new AgentsTreeProvider())({ mcpServerData: server('gone') });
+		assert.deepStrictEqual(messages, [`MCP server "gone" is no longer configured in ${configPath}`]);
+	});
+
+	it('shows the probe as running, then its result, and warns when it fails', async function () {
+		this.timeout(30000);
+		const provider = new AgentsTreeProvider();
+		const states: Array<McpProbeResult | 'running'> = [];
+		provider.setProbeResult = (_server, result) => {
+			states.push(result);
+		};
+		await register(provider)({ mcpServerData: server('broken') });
+
+		assert.strictEqual(states[0], 'running');
+		const result = states[1] as McpProbeResult;
+		assert.strictEqual(result.ok, false);
+		assert.deepStrictEqual(result.steps.map(s => s.method), ['initialize']);
+		assert.strictEqual(messages.length, 1);
+		assert.ok(messages[0].startsWith('Probe of MCP server "broken" failed: '));
+	});
+});
@@ -261,6 +261,79 @@ describe('MCP extension backend: startExtensionBackend', () => {
 		}
 	});
 
+	it('handles list_resources (project-templated URIs) and read_resource', async () => {
+		const vscode = require('vscode');
+		vscode.workspace.workspaceFolders = [{ uri: { fsPath: '/workspace' }, name: 'Workspace' }];
+
+		const { port, dispose } = await startExtensionBackend(async () => []);
+		try {
+			const send = (payload: object) => new Promise<any>((resolve, reject) => {
+				const socket = net.connect(port, '127.0.0.1');
+				socket.setEncoding('utf8');
+				let buffer = '';
+				socket.on('data', (chunk) => {
+					buffer += chunk;
+					const idx = buffer.indexOf('\n');
+					if (idx === -1) {
+						return;
+					}
+					socket.destroy();
+					resolve(JSON.parse(buffer.slice(0, idx)));
+				});
+				socket.on('error', reject);
+				socket.write(JSON.stringify(payload) + '\n');
+			});
+
+			const list = await send({ id: 30, method: 'list_resources', params: {} });
+			const uris = (list.result as Array<{ uri: string }>).map(r => r.uri);
+			assert.ok(uris.includes('ace://workspace/rules'));
+			assert.ok(uris.every(u => u.startsWith('ace://workspace/')));
+
+			const read = await send({ id: 31, method: 'read_resource', params: { projectKey: 'workspace', uri: 'ace://rules' } });
+			assert.strictEqual(read.result.mimeType, 'application/json');
+
+			const missing = await send({ id: 32, method: 'read_resource', params: {} });
+			assert.ok(missing.error.includes('Missing uri'));
+		} finally {
+			dispose();
+		}
+	});
+
+	it('pushes resources_changed to subscribe_changes connections', async () => {
+		const vscode = require('vscode');
+		vscode.workspace.workspaceFolders = [{ uri: { fsPath: '/ws/one' }, name: 'One' }];
+
+		const { port, dispose, notifyFileChanged } = await startExtensionBackend(async () => []);
+		const lines: any[] = [];
+		const socket = net.connect(port, '127.0.0.1');
+		try {
+			socket.setEncoding('utf8');
+			let buffer = '';
+			socket.on('data', (chunk) => {
+				buffer += chunk;
+				const parts = buffer.split('\n');
+				buffer = parts.pop() ?? '';
+				lines.push(...parts.map(l => JSON.parse(l)));
+			});
+			socket.write(JSON.stringify({ id: 40, method: 'subscribe_changes', params: {} }) + '\n');
+			while (lines.length === 0) {
+				await new Promise(r => setTimeout(r, 10));
+			}
+			assert.deepStrictEqual(lines[0], { id: 40, result: { subscribed: true } });
+
+			await notifyFileChanged('/ws/one/src/index.ts');
+			await notifyFileChanged(path.join('/ws/one', '.cursor', 'rules', 'style.mdc'));
+			while (lines.length < 2) {
+				await new Promise(r => setTimeout(r, 10));
+			}
+			assert.deepStrictEqual(lines[1], { event: 'resources_changed', change: { type: 'rules', projectKey: 'one' } });
+			assert.strictEqual(lines.length, 2, 'files that back no resource are not pushed');
+		} finally {
+			socket.destroy();
+			dispose();
+		}
+	});
+
 	it('returns error when get_rule missing name', async () => {
 		const vscode = require('vscode');
 		vscode.workspace.workspaceFolders = [{ uri: { fsPath: '/ws/one' }, name: 'One' }];
@@ -292,6 +365,37 @@ describe('MCP extension backend: startExtensionBackend', () => {
 		}
 	});
 
+	it('compare_projects requires both project keys and resolves each', async () => {
+		const vscode = require('vscode');
+		vscode.workspace.workspaceFolders = [{ uri: { fsPath: '/ws/one' }, name: 'One' }];
+
+		const { port, dispose } = await startExtensionBackend(async () => []);
+		const call = (id: number, params: Record<string, unknown>) => new Promise<any>((resolve, reject) => {
+			const socket = net.connect(port, '127.0.0.1');
+			socket.setEncoding('utf8');
+			let buffer = '';
+			socket.on('data', (chunk) => {
+				buffer += chunk;
+				const idx = buffer.indexOf('\n');
+				if (idx === -1) {
+					return;
+				}
+				socket.destroy();
+				resolve(JSON.parse(buffer.slice(0, idx)));
+			});
+			socket.on('error', reject);
+			socket.write(JSON.stringify({ id, method: 'compare_projects', params }) + '\n');
+		});
+		try {
+			const missing = await call(30, { projectKeyA: 'one' });
+			assert.ok(missing.error.includes('Missing projectKeyA or projectKeyB'));
+			const unknown = await call(31, { projectKeyA: 'one', projectKeyB: 'nope' });
+			assert.ok(unknown.error.includes('Unknown projectKey: nope'));
+		} finally {
+			dispose();
+		}
+	});
+
 	it('returns error with id -1 for invalid JSON line', async () => {
 		const { port, dispose } = await startExtensionBackend(async () => []);
 		try {
@@ -410,6 +514,10 @@ describe('MCP extension backend: startExtensionBackend', () => {
 			assert.strictEqual(bad.id, 51);
 			assert.ok(String(bad.error).includes('Missing name'));
 
+			const badFile = await send({ id: 54, method: 'get_skill_file', params: { name: 'pdf' } });
+			assert.strictEqual(badFile.id, 54);
+			assert.ok(String(badFile.error).includes('Missing path'));
+
 			const specs = await send({ id: 52, method: 'list_specs', params: { projectKey: 'one' } });
 			assert.strictEqual(specs.id, 52);
 			assert.ok(Array.isArray(specs.result));
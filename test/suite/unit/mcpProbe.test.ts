@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandEnvVars, isLocalUrl, probeMcpServer, readMcpLaunchConfig } from '../../../src/services/mcpProbe';
+import type { CoreMcpServer } from '../../../src/scanner/core/mcpServersCore';
+
+/** Stdio server with one tool and one resource, and no prompts */
+const FIXTURE_SERVER = `
+const { McpServer } = require(${JSON.stringify(require.resolve('@modelcontextprotocol/sdk/server/mcp.js'))});
+const { StdioServerTransport } = require(${JSON.stringify(require.resolve('@modelcontextprotocol/sdk/server/stdio.js'))});
+const server = new McpServer({ name: 'fixture', version: '1.2.3' });
+server.tool('echo', 'Echo ' + (process.env.FIXTURE_GREETING || ''), async () => ({ content: [] }));
+server.resource('readme', 'file:///readme.md', async () => ({ contents: [] }));
+server.connect(new StdioServerTransport());
+`;
+
+describe('services/mcpProbe', () => {
+	let dir: string;
+	let serverScript: string;
+
+	before(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-probe-'));
+		serverScript = path.join(dir, 'server.js');
+		fs.writeFileSync(serverScript, FIXTURE_SERVER);
+	});
+
+	after(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('expands ${VAR} and ${VAR:-default}', () => {
+		const env = { HOME: '/home/me', EMPTY: '' };
+		assert.strictEqual(expandEnvVars('${HOME}/bin:${MISSING:-fallback}:${MISSING}:${EMPTY:-x}', env), '/home/me/bin:fallback::');
+		assert.strictEqual(expandEnvVars('$HOME stays', env), '$HOME stays');
+	});
+
+	it('treats only localhost, 127.0.0.1 and ::1 http(s) URLs as local', () => {
+		assert.ok(isLocalUrl('http://localhost:3000/mcp'));
+		assert.ok(isLocalUrl('https://127.0.0.1/mcp'));
+		assert.ok(isLocalUrl('http://[::1]:8080/sse'));
+		assert.ok(!isLocalUrl('https://mcp.example.com/mcp'));
+		assert.ok(!isLocalUrl('ws://localhost/mcp'));
+		assert.ok(!isLocalUrl('not a url'));
+	});
+
+	it('reads launch settings, including env values, back from the config file', async () => {
+		const configPath = path.join(dir, '.claude.json');
+		fs.writeFileSync(configPath, JSON.stringify({
+			mcpServers: {
+				api: { command: '${TOOLS}/api-mcp', args: ['--port', '${PORT:-9000}'], env: { TOKEN: '${SECRET}', RETRIES: 3 } },
+				docs: { type: 'http', url: 'http://localhost:${PORT}/mcp', headers: { Authorization: 'Bearer ${SECRET}' } }
+			}
+		}));
+		const server = (name: string, transport: CoreMcpServer['transport']): CoreMcpServer =>
+			({ name, agent: 'claude', scope: 'user', path: configPath, transport, effective: true });
+		const env = { TOOLS: '/opt/tools', SECRET: 's3cret', PORT: '7000' };
+
+		assert.deepStrictEqual(await readMcpLaunchConfig(server('api', 'stdio'), env), {
+			transport: 'stdio',
+			command: '/opt/tools/api-mcp',
+			args: ['--port', '7000'],
+			env: { TOKEN: 's3cret', RETRIES: '3' }
+		});
+		assert.deepStrictEqual(await readMcpLaunchConfig(server('docs', 'http'), env), {
+			transport: 'http',
+			url: 'http://localhost:7000/mcp',
+			headers: { Authorization: 'Bearer s3cret' }
+		});
+		assert.strictEqual(await readMcpLaunchConfig(server('gone', 'stdio'), env), undefined);
+		assert.strictEqual(await readMcpLaunchConfig({ ...server('api', 'stdio'), path: path.join(dir, 'missing.json') }, env), undefined);
+	});
+
+	it('probes a stdio server: initialize, then tools and resources it advertises', async function () {
+		this.timeout(30000);
+		const result = await probeMcpServer(
+			{ transport: 'stdio', command: process.execPath, args: [serverScript], env: { FIXTURE_GREETING: 'hello' } },
+			{ cwd: dir }
+		);
+
+		assert.strictEqual(result.ok, true, JSON.stringify(result));
+		assert.deepStrictEqual(result.server, { name: 'fixture', version: '1.2.3' });
+		assert.deepStrictEqual(result.steps.map(s => [s.method, s.unsupported === true, s.items?.map(i => [i.name, i.description])]), [
+			['initialize', false, undefined],
+			['tools/list', false, [['echo', 'Echo hello']]],
+			['prompts/list', true, undefined],
+			['resources/list', false, [['readme', 'file:///readme.md']]]
+		]);
+		assert.ok(result.steps.every(s => s.durationMs >= 0));
+	});
+
+	it('reports a server that cannot be started on the initialize step', async function () {
+		this.timeout(30000);
+		const result = await probeMcpServer({ transport: 'stdio', command: path.join(dir, 'no-such-server') }, { timeoutMs: 5000 });
+		assert.strictEqual(result.ok, false);
+		assert.deepStrictEqual(result.steps.map(s => s.method), ['initialize']);
+		assert.ok(result.steps[0].error);
+	});
+
+	it('does not connect to remote URLs or launch without a command', async () => {
+		const remote = await probeMcpServer({ transport: 'http', url: 'https://mcp.example.com/mcp' });
+		assert.strictEqual(remote.ok, false);
+		assert.deepStrictEqual(remote.steps, []);
+		assert.match(remote.error ?? '', /Only local servers are probed/);
+
+		const noCommand = await probeMcpServer({ transport: 'stdio' });
+		assert.strictEqual(noCommand.error, 'No command configured');
+	});
+});
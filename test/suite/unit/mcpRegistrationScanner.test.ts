@@ -106,4 +106,71 @@ describe('McpRegistrationScanner', () => {
 			cleanUp(p);
 		}
 	});
+
+	it('reads a Gemini settings.json with comments', async () => {
+		const content = [
+			'{',
+			'  // Gemini CLI settings',
+			'  "theme": "GitHub", /* inline */',
+			'  "mcpServers": {',
+			'    "docs": { "httpUrl": "https://example.com/mcp" },',
+			'    "local": { "command": "node", "args": ["//not-a-comment.js"] }',
+			'  }',
+			'}'
+		].join('\n');
+		const p = writeTmp('gemini', content);
+		try {
+			const scanner = new McpRegistrationScanner(p);
+			const names = await scanner.scanServerNames();
+			assert.deepStrictEqual(names, ['docs', 'local']);
+		} finally {
+			cleanUp(p);
+		}
+	});
+
+	it('reads [mcp_servers.*] tables from a Codex config.toml', async () => {
+		const content = [
+			'model = "o4-mini"',
+			'',
+			'[mcp_servers.docs]',
+			'command = "npx"',
+			'args = ["-y", "docs-mcp"]',
+			'',
+			'[mcp_servers.docs.env]',
+			'TOKEN = "x"',
+			'',
+			'[mcp_servers."local-db"]',
+			'command = "node"'
+		].join('\n');
+		const p = path.join(tmpDir, `mcp-scanner-test-codex-${Date.now()}.toml`);
+		fs.writeFileSync(p, content, 'utf-8');
+		try {
+			assert.deepStrictEqual(await new McpRegistrationScanner(p).scanServerNames(), ['docs', 'local-db']);
+			fs.writeFileSync(p, '[mcp_servers\nbroken', 'utf-8');
+			assert.deepStrictEqual(await new McpRegistrationScanner(p).scanServerNames(), []);
+			fs.writeFileSync(p, 'mcpServers = { docs = {} }', 'utf-8');
+			assert.deepStrictEqual(await new McpRegistrationScanner(p).scanServerNames(), []);
+		} finally {
+			cleanUp(p);
+		}
+	});
+
+	it('scanServers returns user-scope details with env names but not env values', async () => {
+		const p = writeTmp('details', JSON.stringify({
+			mcpServers: {
+				github: { command: 'npx', args: ['-y', 'github-mcp'], env: { GITHUB_TOKEN: 'secret' } },
+				docs: { type: 'sse', url: 'http://localhost:3000/sse' }
+			}
+		}));
+		try {
+			const servers = await new McpRegistrationScanner(p).scanServers('claude');
+			assert.deepStrictEqual(servers, [
+				{ name: 'github', agent: 'claude', scope: 'user', path: p, transport: 'stdio', command: 'npx', args: ['-y', 'github-mcp'], envKeys: ['GITHUB_TOKEN'], effective: true },
+				{ name: 'docs', agent: 'claude', scope: 'user', path: p, transport: 'sse', url: 'http://localhost:3000/sse', effective: true }
+			]);
+			assert.deepStrictEqual(await new McpRegistrationScanner('/nonexistent/.claude.json').scanServers('claude'), []);
+		} finally {
+			cleanUp(p);
+		}
+	});
 });
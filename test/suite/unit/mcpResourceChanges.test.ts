@@ -0,0 +1,201 @@
+// Resource change events: file → resource classification, MCP notifications over the real SDK
+// request path, standalone fs watchers, and the bridge change subscription.
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as net from 'node:net';
+import * as os from 'os';
+import * as path from 'path';
+import { createRequire } from 'module';
+import {
+	isResourceAffected,
+	resourceTypeForRelativePath,
+	toResourceChange
+} from '../../../src/mcp/resourceChanges';
+import type { ResourceChange } from '../../../src/mcp/resourceChanges';
+import { resolveAgentRoots } from '../../../src/scanner/core/agentRoots';
+
+async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+	const start = Date.now();
+	while (!predicate()) {
+		if (Date.now() - start > timeoutMs) {throw new Error('Timed out waiting for condition');}
+		await new Promise(r => setTimeout(r, 20));
+	}
+}
+
+describe('mcp/resourceChanges', () => {
+	it('classifies project-relative paths', () => {
+		assert.strictEqual(resourceTypeForRelativePath('.cursor/rules/style.mdc', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.claude/commands/ship.md', true), 'commands');
+		assert.strictEqual(resourceTypeForRelativePath('.cursor/skills/plan/SKILL.md', true), 'skills');
+		assert.strictEqual(resourceTypeForRelativePath('.claude/agents/reviewer.md', true), 'agents');
+		assert.strictEqual(resourceTypeForRelativePath('AGENTS.md', true), 'agents-md');
+		assert.strictEqual(resourceTypeForRelativePath('specs/billing/spec.md', true), 'specs');
+		assert.strictEqual(resourceTypeForRelativePath('schemas/order.json', true), 'schemas');
+		assert.strictEqual(resourceTypeForRelativePath('.github/copilot-instructions.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.github/instructions/ts.instructions.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.github/prompts/release.prompt.md', true), 'commands');
+		assert.strictEqual(resourceTypeForRelativePath('.github/chatmodes/planner.chatmode.md', true), 'agents');
+		assert.strictEqual(resourceTypeForRelativePath('.gemini/commands/git/commit.toml', true), 'commands');
+		assert.strictEqual(resourceTypeForRelativePath('.gemini/commands/review.toml', false), 'commands');
+		assert.strictEqual(resourceTypeForRelativePath('.kiro/steering/tech.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.kiro/specs/checkout/tasks.md', true), 'specs');
+		assert.strictEqual(resourceTypeForRelativePath('.windsurfrules', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.windsurf/rules/tests.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.clinerules', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.clinerules/style.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.roo/rules/style.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.roo/rules-code/naming/style.md', true), 'rules');
+		assert.strictEqual(resourceTypeForRelativePath('.continue/rules/review.md', true), 'rules');
+	});
+
+	it('ignores files that back no resource', () => {
+		assert.strictEqual(resourceTypeForRelativePath('CLAUDE.md', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('src/index.ts', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.cursor/mcp.json', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.claude.json', false), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.gemini/settings.json', false), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.kiro/settings/mcp.json', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.kiro/steering/tech.md', false), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.windsurf/workflows/deploy.md', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.roo/mcp.json', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.continue/config.yaml', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.clinerules', false), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.github/workflows/ci.yml', true), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.github/prompts/release.prompt.md', false), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('AGENTS.md', false), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('../other/.cursor/rules/x.mdc', true), undefined);
+	});
+
+	it('attributes changes to the containing project or to every project (user-level roots)', () => {
+		const projects = [
+			{ projectKey: 'app', path: '/work/app' },
+			{ projectKey: 'pkg', path: '/work/app/packages/pkg' }
+		];
+		assert.deepStrictEqual(toResourceChange('/work/app/.cursor/rules/a.mdc', projects, '/home/u'), { type: 'rules', projectKey: 'app' });
+		assert.deepStrictEqual(toResourceChange('/work/app/packages/pkg/AGENTS.md', projects, '/home/u'), { type: 'agents-md', projectKey: 'pkg' });
+		assert.deepStrictEqual(toResourceChange('/home/u/.claude/skills/plan/SKILL.md', projects, '/home/u'), { type: 'skills' });
+		assert.strictEqual(toResourceChange('/home/u/.claude.json', projects, '/home/u'), undefined);
+	});
+
+	it('covers every built-in agent root, including Codex prompts', () => {
+		assert.deepStrictEqual(toResourceChange('/home/u/.codex/prompts/ship.md', [], '/home/u'), { type: 'commands' });
+		assert.deepStrictEqual(toResourceChange('/home/u/.gemini/commands/git/commit.toml', [], '/home/u'), { type: 'commands' });
+		assert.strictEqual(toResourceChange('/home/u/.codex/config.toml', [], '/home/u'), undefined);
+		assert.strictEqual(resourceTypeForRelativePath('.codex/skills/plan/SKILL.md', true), 'skills');
+	});
+
+	it('attributes user-level changes to configured agent root directories', () => {
+		const dirs = resolveAgentRoots([{ id: 'team', directory: '~/team-agents' }, { id: 'codex', directory: '/opt/codex' }], '/home/u');
+		assert.deepStrictEqual(toResourceChange('/opt/codex/skills/plan/SKILL.md', [], '/home/u', dirs), { type: 'skills' });
+		assert.deepStrictEqual(toResourceChange('/home/u/team-agents/commands/ship.md', [], '/home/u', dirs), { type: 'commands' });
+		assert.strictEqual(toResourceChange('/home/u/.claude/skills/plan/SKILL.md', [], '/home/u', dirs), undefined, 'built-in roots not configured');
+		assert.strictEqual(toResourceChange('/opt/codex/config.toml', [], '/home/u', dirs), undefined);
+	});
+
+	it('matches subscribed URIs by type and projectKey', () => {
+		const rulesInApp: ResourceChange = { type: 'rules', projectKey: 'app' };
+		assert.strictEqual(isResourceAffected('ace://app/rules', rulesInApp), true);
+		assert.strictEqual(isResourceAffected('ace://app/rules/style', rulesInApp), true);
+		assert.strictEqual(isResourceAffected('ace://other/rules/style', rulesInApp), false);
+		assert.strictEqual(isResourceAffected('ace://app/commands', rulesInApp), false);
+		assert.strictEqual(isResourceAffected('ace://other/skills/plan', { type: 'skills' }), true);
+		assert.strictEqual(isResourceAffected('file:///x', { type: 'skills' }), false);
+	});
+});
+
+describe('mcp/server resource notifications (real SDK request path)', () => {
+	const requireFn = createRequire(__filename);
+	const { createServer, enableResourceNotifications, watchStandaloneResources, subscribeBridgeChanges } =
+		requireFn('../../../src/mcp/server.ts') as typeof import('../../../src/mcp/server');
+	const { Client } = requireFn('@modelcontextprotocol/sdk/client/index.js');
+	const { InMemoryTransport } = requireFn('@modelcontextprotocol/sdk/inMemory.js');
+	const { ResourceUpdatedNotificationSchema, ResourceListChangedNotificationSchema } = requireFn('@modelcontextprotocol/sdk/types.js');
+
+	let root: string;
+	let proj: string;
+	let home: string;
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-changes-'));
+		proj = path.join(root, 'proj');
+		home = path.join(root, 'home');
+		fs.mkdirSync(path.join(proj, '.cursor', 'rules'), { recursive: true });
+		fs.mkdirSync(path.join(home, '.claude', 'skills'), { recursive: true });
+		fs.writeFileSync(path.join(proj, '.cursor', 'rules', 'style.mdc'), '---\ndescription: Style\n---\nUse tabs.\n');
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	it('sends list_changed and resources/updated for affected subscriptions only', async () => {
+		const server = createServer(proj, [{ projectKey: 'proj', path: proj, label: 'Proj' }]);
+		const notify = enableResourceNotifications(server, 10);
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+		const client = new Client({ name: 'test-client', version: '1.0.0' });
+		const updated: string[] = [];
+		let listChanged = 0;
+		client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n: { params: { uri: string } }) => { updated.push(n.params.uri); });
+		client.setNotificationHandler(ResourceListChangedNotificationSchema, () => { listChanged++; });
+		await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+		assert.strictEqual(client.getServerCapabilities()?.resources?.subscribe, true);
+		await client.subscribeResource({ uri: 'ace://proj/rules/style' });
+		await client.subscribeResource({ uri: 'ace://proj/commands' });
+
+		notify({ type: 'rules', projectKey: 'proj' });
+		notify({ type: 'rules', projectKey: 'proj' });
+		await waitFor(() => updated.length > 0 && listChanged > 0);
+		await new Promise(r => setTimeout(r, 30));
+		assert.deepStrictEqual(updated, ['ace://proj/rules/style']);
+		assert.strictEqual(listChanged, 1, 'changes within the debounce window are coalesced');
+
+		await client.unsubscribeResource({ uri: 'ace://proj/rules/style' });
+		notify({ type: 'rules', projectKey: 'proj' });
+		await waitFor(() => listChanged === 2);
+		assert.deepStrictEqual(updated, ['ace://proj/rules/style']);
+		await client.close();
+	});
+
+	it('standalone watchers report project and user-level changes', async () => {
+		const changes: ResourceChange[] = [];
+		const stop = watchStandaloneResources([{ projectKey: 'proj', path: proj, label: 'Proj' }], home, (c) => { changes.push(c); });
+		try {
+			fs.writeFileSync(path.join(proj, '.cursor', 'rules', 'style.mdc'), '---\ndescription: Style\n---\nUse spaces.\n');
+			await waitFor(() => changes.some(c => c.type === 'rules' && c.projectKey === 'proj'));
+			fs.writeFileSync(path.join(proj, 'AGENTS.md'), '# Agents\n');
+			await waitFor(() => changes.some(c => c.type === 'agents-md'));
+			fs.mkdirSync(path.join(home, '.claude', 'skills', 'plan'));
+			fs.writeFileSync(path.join(home, '.claude', 'skills', 'plan', 'SKILL.md'), '# Plan\n');
+			await waitFor(() => changes.some(c => c.type === 'skills' && c.projectKey === undefined));
+		} finally {
+			stop();
+		}
+	});
+
+	it('bridge subscription forwards resources_changed lines from the extension', async () => {
+		const requests: Array<{ method: string }> = [];
+		const mock = net.createServer((socket) => {
+			socket.setEncoding('utf8');
+			socket.on('data', (chunk: string) => {
+				const req = JSON.parse(chunk.split('\n')[0]) as { id: number; method: string };
+				requests.push(req);
+				socket.write(JSON.stringify({ id: req.id, result: { subscribed: true } }) + '\n');
+				socket.write(JSON.stringify({ event: 'resources_changed', change: { type: 'skills', projectKey: 'p' } }) + '\n');
+				socket.write('not json\n');
+			});
+		});
+		await new Promise<void>(resolve => mock.listen(0, '127.0.0.1', () => resolve()));
+		const port = (mock.address() as net.AddressInfo).port;
+		const changes: ResourceChange[] = [];
+		const stop = subscribeBridgeChanges(port, (c) => { changes.push(c); });
+		try {
+			await waitFor(() => changes.length > 0);
+			assert.strictEqual(requests[0].method, 'subscribe_changes');
+			assert.deepStrictEqual(changes, [{ type: 'skills', projectKey: 'p' }]);
+		} finally {
+			stop();
+			mock.close();
+		}
+	});
+});
@@ -6,15 +6,17 @@ import { McpResources } from '../../../src/mcp/resources';
 import { RulesScanner } from '../../../src/scanner/rulesScanner';
 import { CommandsScanner } from '../../../src/scanner/commandsScanner';
 import { AsdlcArtifactScanner } from '../../../src/scanner/asdlcArtifactScanner';
+import { SkillsScanner } from '../../../src/scanner/skillsScanner';
+import { McpTools } from '../../../src/mcp/tools';
 
 describe('mcp/resources (McpResources)', () => {
-	const originalRulesScan = RulesScanner.prototype.scanRules;
-	const originalWorkspaceCommandsScan = CommandsScanner.prototype.scanWorkspaceCommands;
+	const originalRulesScan = RulesScanner.prototype.scanAllRules;
+	const originalWorkspaceCommandsScan = CommandsScanner.prototype.scanAllWorkspaceCommands;
 	const originalAsdlcScanAll = AsdlcArtifactScanner.prototype.scanAll;
 	const originalWorkspaceFsReadFile = vscode.workspace.fs.readFile;
 
 	beforeEach(() => {
-		(RulesScanner.prototype.scanRules as any) = async () => ([
+		(RulesScanner.prototype.scanAllRules as any) = async () => ([
 			{
 				fileName: 'My-Rule.mdc',
 				path: '/tmp/My-Rule.mdc',
@@ -24,7 +26,7 @@ describe('mcp/resources (McpResources)', () => {
 			}
 		]);
 
-		(CommandsScanner.prototype.scanWorkspaceCommands as any) = async () => ([
+		(CommandsScanner.prototype.scanAllWorkspaceCommands as any) = async () => ([
 			{
 				fileName: 'hello.md',
 				path: '/tmp/hello.md',
@@ -35,7 +37,7 @@ describe('mcp/resources (McpResources)', () => {
 
 		(AsdlcArtifactScanner.prototype.scanAll as any) = async () => ({
 			agentsMd: { exists: false },
-			specs: { exists: true, specs: [{ domain: 'demo', path: '/tmp/spec.md', hasBlueprint: false, hasContract: false }] },
+			specs: { exists: true, specs: [{ domain: 'demo', path: '/tmp/spec.md', hasBlueprint: false, hasContract: false, flavour: 'asdlc', documents: ['spec.md'] }] },
 			schemas: { exists: true, schemas: [{ name: 'schema', path: '/tmp/schema.json', schemaId: 'id' }] },
 			hasAnyArtifacts: true
 		});
@@ -45,8 +47,8 @@ describe('mcp/resources (McpResources)', () => {
 	});
 
 	afterEach(() => {
-		(RulesScanner.prototype.scanRules as any) = originalRulesScan;
-		(CommandsScanner.prototype.scanWorkspaceCommands as any) = originalWorkspaceCommandsScan;
+		(RulesScanner.prototype.scanAllRules as any) = originalRulesScan;
+		(CommandsScanner.prototype.scanAllWorkspaceCommands as any) = originalWorkspaceCommandsScan;
 		(AsdlcArtifactScanner.prototype.scanAll as any) = originalAsdlcScanAll;
 		(vscode.workspace.fs.readFile as any) = originalWorkspaceFsReadFile;
 	});
@@ -203,5 +205,61 @@ describe('mcp/resources (McpResources)', () => {
 		};
 		assert.strictEqual(await r.getResource('ace://schemas/schema'), null);
 	});
-});
 
+	describe('skills and agents', () => {
+		const originalSkillsScan = SkillsScanner.prototype.scanAllWorkspaceSkills;
+		const originalListAgents = McpTools.listAgentDefinitions;
+		const originalGetAgent = McpTools.getAgentDefinition;
+
+		beforeEach(() => {
+			(SkillsScanner.prototype.scanAllWorkspaceSkills as any) = async () => ([
+				{
+					fileName: 'plan',
+					uri: vscode.Uri.file('/workspace/.cursor/skills/plan/SKILL.md'),
+					content: '# Plan',
+					location: 'workspace',
+					platform: 'cursor',
+					metadata: { title: 'Plan', overview: 'Make a plan' }
+				}
+			]);
+			(McpTools as any).listAgentDefinitions = async () => ([
+				{ name: 'reviewer', displayName: 'Reviewer', path: '/workspace/.cursor/agents/reviewer.md', location: 'workspace', platform: 'cursor' },
+				{ name: 'reviewer', displayName: 'Reviewer', path: '/home/.claude/agents/reviewer.md', location: 'claude', platform: 'claude' }
+			]);
+			(McpTools as any).getAgentDefinition = async (input: { name: string }) => (input.name === 'reviewer'
+				? { name: 'reviewer', displayName: 'Reviewer', path: '/workspace/.cursor/agents/reviewer.md', location: 'workspace', content: '# Reviewer' }
+				: null);
+		});
+
+		afterEach(() => {
+			(SkillsScanner.prototype.scanAllWorkspaceSkills as any) = originalSkillsScan;
+			(McpTools as any).listAgentDefinitions = originalListAgents;
+			(McpTools as any).getAgentDefinition = originalGetAgent;
+		});
+
+		it('listResources includes skills and de-duplicated agents', async () => {
+			const r = new McpResources(vscode.Uri.file('/workspace'));
+			const resources = await r.listResources();
+			assert.ok(resources.find(x => x.uri === 'ace://skills'));
+			const skill = resources.find(x => x.uri === 'ace://skills/plan');
+			assert.strictEqual(skill?.description, 'Make a plan');
+			assert.ok(resources.find(x => x.uri === 'ace://agents'));
+			assert.strictEqual(resources.filter(x => x.uri === 'ace://agents/reviewer').length, 1);
+		});
+
+		it('getResource returns skill and agent content, lists, and null when missing', async () => {
+			const r = new McpResources(vscode.Uri.file('/workspace'));
+			assert.strictEqual((await r.getResource('ace://skills/plan'))?.content, '# Plan');
+			assert.strictEqual(await r.getResource('ace://skills/missing'), null);
+			assert.ok((await r.getResource('ace://skills'))?.content.includes('Make a plan'));
+
+			const agent = await r.getResource('ace://agents/reviewer');
+			assert.strictEqual(agent?.mimeType, 'text/markdown');
+			assert.strictEqual(agent?.content, '# Reviewer');
+			assert.strictEqual(await r.getResource('ace://agents/missing'), null);
+			const list = await r.getResource('ace://agents');
+			assert.strictEqual(list?.mimeType, 'application/json');
+			assert.strictEqual(JSON.parse(list!.content).length, 2);
+		});
+	});
+});
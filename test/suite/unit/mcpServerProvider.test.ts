@@ -399,6 +399,8 @@ describe('mcp/mcpServerProvider', () => {
 			const defs = await provider.provideMcpServerDefinitions();
 			assert.strictEqual(defs.length, 1);
 			assert.ok((defs[0] as any).env.ACE_PROJECT_PATHS);
+			const agentRoots = JSON.parse((defs[0] as any).env.ACE_AGENT_ROOTS) as Array<{ id: string }>;
+			assert.deepStrictEqual(agentRoots.map(r => r.id), ['cursor', 'claude', 'gemini', 'codex', 'global']);
 			assert.ok(lines.some(l => l.includes('standalone')));
 		} finally {
 			eb.startExtensionBackend = orig;
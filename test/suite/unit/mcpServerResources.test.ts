@@ -0,0 +1,165 @@
+// Resources over the real SDK request path (resources/list, resources/read, templates, completion)
+// for the standalone server, plus the bridge server forwarding to a mock extension port.
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as net from 'node:net';
+import * as os from 'os';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { parseProjectResourceUri, toProjectResourceUri } from '../../../src/mcp/resourceUris';
+
+describe('mcp/resourceUris', () => {
+	it('inserts and strips the projectKey segment', () => {
+		assert.strictEqual(toProjectResourceUri('agency', 'ace://rules/security'), 'ace://agency/rules/security');
+		assert.deepStrictEqual(parseProjectResourceUri('ace://agency/rules/security'), { projectKey: 'agency', resourceUri: 'ace://rules/security' });
+		assert.deepStrictEqual(parseProjectResourceUri('ace://agency/agents-md'), { projectKey: 'agency', resourceUri: 'ace://agents-md' });
+	});
+
+	it('round-trips project keys that need encoding', () => {
+		const uri = toProjectResourceUri('my project', 'ace://skills');
+		assert.strictEqual(uri, 'ace://my%20project/skills');
+		assert.strictEqual(parseProjectResourceUri(uri)?.projectKey, 'my project');
+	});
+
+	it('rejects other schemes and URIs without a resource path', () => {
+		assert.strictEqual(parseProjectResourceUri('file:///x'), undefined);
+		assert.strictEqual(parseProjectResourceUri('ace://agency'), undefined);
+		assert.strictEqual(parseProjectResourceUri('ace://agency/'), undefined);
+	});
+});
+
+describe('mcp/server resources (real SDK request path)', () => {
+	const requireFn = createRequire(__filename);
+	const { createServer, createBridgeServer } = requireFn('../../../src/mcp/server.ts') as typeof import('../../../src/mcp/server');
+	const { Client } = requireFn('@modelcontextprotocol/sdk/client/index.js');
+	const { InMemoryTransport } = requireFn('@modelcontextprotocol/sdk/inMemory.js');
+
+	let root: string;
+	let projA: string;
+	let projB: string;
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-resources-'));
+		projA = path.join(root, 'projA');
+		projB = path.join(root, 'projB');
+		fs.mkdirSync(path.join(projA, '.cursor', 'rules'), { recursive: true });
+		fs.mkdirSync(path.join(projA, '.cursor', 'skills', 'plan'), { recursive: true });
+		fs.mkdirSync(path.join(projA, '.cursor', 'agents'), { recursive: true });
+		fs.mkdirSync(path.join(projA, 'specs', 'billing'), { recursive: true });
+		fs.mkdirSync(path.join(projB, '.claude', 'commands'), { recursive: true });
+		fs.writeFileSync(path.join(projA, '.cursor', 'rules', 'style.mdc'), '---\ndescription: Style\n---\nUse tabs.\n');
+		fs.writeFileSync(path.join(projA, '.cursor', 'skills', 'plan', 'SKILL.md'), '# Plan\n\n## Overview\n\nMake a plan.\n');
+		fs.writeFileSync(path.join(projA, '.cursor', 'agents', 'reviewer.md'), '# Reviewer\nReview code.\n');
+		fs.writeFileSync(path.join(projA, 'specs', 'billing', 'spec.md'), '# Billing\n');
+		fs.writeFileSync(path.join(projA, 'AGENTS.md'), '# AGENTS\n');
+		fs.writeFileSync(path.join(projB, '.claude', 'commands', 'ship.md'), '# Ship\nShip it.\n');
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	async function connect(server: ReturnType<typeof createServer>) {
+		const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+		const client = new Client({ name: 'test-client', version: '1.0.0' });
+		await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+		return client;
+	}
+
+	function standalone() {
+		return createServer(projA, [
+			{ projectKey: 'projA', path: projA, label: 'Project A' },
+			{ projectKey: 'projB', path: projB, label: 'Project B' }
+		]);
+	}
+
+	it('advertises the project resource template', async () => {
+		const client = await connect(standalone());
+		const { resourceTemplates } = await client.listResourceTemplates();
+		assert.deepStrictEqual(resourceTemplates.map((t: { uriTemplate: string }) => t.uriTemplate), ['ace://{projectKey}/{+path}']);
+	});
+
+	it('lists resources for every project, including skills and agents', async () => {
+		const client = await connect(standalone());
+		const { resources } = await client.listResources();
+		const uris = resources.map((r: { uri: string }) => r.uri);
+		for (const expected of [
+			'ace://projA/rules', 'ace://projA/rules/style', 'ace://projA/skills/plan', 'ace://projA/agents/reviewer',
+			'ace://projA/agents-md', 'ace://projA/specs/billing', 'ace://projB/commands/ship'
+		]) {
+			assert.ok(uris.includes(expected), `missing ${expected}`);
+		}
+		assert.ok(!uris.includes('ace://projB/rules/style'));
+	});
+
+	it('reads item and list resources per project', async () => {
+		const client = await connect(standalone());
+		const rule = await client.readResource({ uri: 'ace://projA/rules/style' });
+		assert.strictEqual(rule.contents[0].uri, 'ace://projA/rules/style');
+		assert.strictEqual(rule.contents[0].mimeType, 'text/markdown');
+		assert.strictEqual(rule.contents[0].text, 'Use tabs.');
+
+		const skill = await client.readResource({ uri: 'ace://projA/skills/plan' });
+		assert.ok(skill.contents[0].text.includes('Make a plan.'));
+
+		const agent = await client.readResource({ uri: 'ace://projA/agents/reviewer' });
+		assert.ok(agent.contents[0].text.includes('Review code.'));
+
+		const spec = await client.readResource({ uri: 'ace://projA/specs/billing' });
+		assert.strictEqual(spec.contents[0].text, '# Billing\n');
+
+		const commands = await client.readResource({ uri: 'ace://projB/commands' });
+		assert.strictEqual(commands.contents[0].mimeType, 'application/json');
+		assert.deepStrictEqual(JSON.parse(commands.contents[0].text).map((c: { name: string }) => c.name), ['ship']);
+	});
+
+	it('errors for unknown projects and missing resources', async () => {
+		const client = await connect(standalone());
+		await assert.rejects(client.readResource({ uri: 'ace://nope/rules' }), /not found/);
+		await assert.rejects(client.readResource({ uri: 'ace://projA/rules/missing' }), /not found/);
+		await assert.rejects(client.readResource({ uri: 'ace://projA/unknown' }), /not found/);
+	});
+
+	it('completes projectKey for the template', async () => {
+		const client = await connect(standalone());
+		const res = await client.complete({
+			ref: { type: 'ref/resource', uri: 'ace://{projectKey}/{+path}' },
+			argument: { name: 'projectKey', value: 'proj' }
+		});
+		assert.deepStrictEqual(res.completion.values, ['projA', 'projB']);
+	});
+
+	it('bridge server forwards list_resources and read_resource to the extension', async () => {
+		const requests: Array<{ method: string; params: Record<string, unknown> }> = [];
+		const srv = net.createServer((socket) => {
+			socket.setEncoding('utf8');
+			socket.on('data', (chunk: string) => {
+				const req = JSON.parse(chunk.split('\n')[0]) as { id: number; method: string; params: Record<string, unknown> };
+				requests.push({ method: req.method, params: req.params });
+				const result = req.method === 'list_resources'
+					? [{ uri: 'ace://ext/rules', name: 'All Rules', description: 'd', mimeType: 'application/json' }]
+					: { uri: req.params.uri, mimeType: 'text/markdown', content: 'from extension' };
+				socket.write(JSON.stringify({ id: req.id, result }) + '\n');
+				socket.end();
+			});
+		});
+		await new Promise<void>((resolve, reject) => {
+			srv.listen(0, '127.0.0.1', () => resolve());
+			srv.on('error', reject);
+		});
+		const addr = srv.address();
+		const port = typeof addr === 'object' && addr && 'port' in addr ? (addr as { port: number }).port : 0;
+		try {
+			const client = await connect(createBridgeServer(port));
+			const { resources } = await client.listResources();
+			assert.deepStrictEqual(resources.map((r: { uri: string }) => r.uri), ['ace://ext/rules']);
+
+			const read = await client.readResource({ uri: 'ace://ext/rules/style' });
+			assert.strictEqual(read.contents[0].uri, 'ace://ext/rules/style');
+			assert.strictEqual(read.contents[0].text, 'from extension');
+			assert.deepStrictEqual(requests[1], { method: 'read_resource', params: { projectKey: 'ext', uri: 'ace://rules/style' } });
+		} finally {
+			srv.close();
+		}
+	});
+});
@@ -1,5 +1,7 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
 import { createRequire } from 'module';
+import * as os from 'os';
 import * as path from 'path';
 
 type ToolHandler = (args: unknown) => Promise<unknown>;
@@ -67,6 +69,43 @@ describe('mcp/server createServer (registered tools)', () => {
 		assert.strictEqual(badCmd.isError, true);
 	});
 
+	it('get_rule, get_command and get_claude_memory inline @path references with expandReferences', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-expand-'));
+		try {
+			fs.mkdirSync(path.join(root, '.cursor', 'rules'), { recursive: true });
+			fs.mkdirSync(path.join(root, '.claude', 'commands'), { recursive: true });
+			fs.writeFileSync(path.join(root, '.cursor', 'rules', 'api.mdc'), '---\ndescription: API\n---\nFollow @template.ts and @gone.ts\n');
+			fs.writeFileSync(path.join(root, '.cursor', 'rules', 'template.ts'), 'export const x = 1;\n');
+			fs.writeFileSync(path.join(root, '.claude', 'commands', 'ship.md'), 'Ship it. @../../docs/release.md\n');
+			fs.mkdirSync(path.join(root, 'docs'));
+			fs.writeFileSync(path.join(root, 'docs', 'release.md'), 'Tag the release.\n');
+			fs.writeFileSync(path.join(root, 'CLAUDE.md'), 'See @docs/release.md\n');
+			const server = createServer(root, undefined, []);
+			const tools = getTools(server);
+
+			const plain = (await tools.get_rule.handler({ name: 'api' })) as { content: Array<{ text: string }> };
+			assert.strictEqual(plain.content.length, 1);
+			assert.ok(!plain.content[0].text.includes('export const'));
+
+			const rule = (await tools.get_rule.handler({ name: 'api', expandReferences: true })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(rule.isError, undefined);
+			assert.ok(rule.content[0].text.includes('<!-- @template.ts -->\nexport const x = 1;\n<!-- /@template.ts -->'));
+			assert.deepStrictEqual(JSON.parse(rule.content[1].text), {
+				includedFiles: [path.join(root, '.cursor', 'rules', 'template.ts')],
+				unresolvedReferences: [{ reference: 'gone.ts', from: path.join(root, '.cursor', 'rules', 'api.mdc'), reason: 'not-found' }]
+			});
+
+			const command = (await tools.get_command.handler({ name: 'ship', expandReferences: true })) as { content: Array<{ text: string }> };
+			assert.ok(command.content[0].text.includes('Tag the release.'));
+
+			const memory = JSON.parse(((await tools.get_claude_memory.handler({ expandReferences: true })) as { content: Array<{ text: string }> }).content[0].text) as Array<{ content: string; includedFiles: string[] }>;
+			assert.ok(memory[0].content.includes('Tag the release.'));
+			assert.deepStrictEqual(memory[0].includedFiles, [path.join(root, 'docs', 'release.md')]);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
 	it('resolveProjectRoot errors on unknown projectKey', async () => {
 		const server = createServer(workspaceRoot, [
 			{ projectKey: 'only', path: workspaceRoot, label: 'only' }
@@ -94,6 +133,63 @@ describe('mcp/server createServer (registered tools)', () => {
 		assert.ok(Array.isArray(parsed));
 	});
 
+	it('list_agents and get_agent use the configured agent roots', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-agent-roots-'));
+		try {
+			const teamDir = path.join(root, 'team');
+			fs.mkdirSync(path.join(teamDir, 'agents'), { recursive: true });
+			fs.writeFileSync(path.join(teamDir, 'agents', 'reviewer.md'), '# Reviewer\n');
+			const server = createServer(root, undefined, [
+				{ id: 'team', label: 'Team', directory: teamDir, icon: 'organization', sections: ['agents'] },
+				{ id: 'skills-only', label: 'Skills', directory: teamDir, icon: 'globe', sections: ['skills'] }
+			]);
+			const tools = getTools(server);
+			const res = (await tools.list_agents.handler({})) as { content: Array<{ text: string }> };
+			const list = JSON.parse(res.content[0].text) as Array<{ name: string; location: string }>;
+			assert.deepStrictEqual(list.map(a => [a.name, a.location]), [['reviewer', 'team']]);
+
+			const agent = (await tools.get_agent.handler({ name: 'reviewer' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(agent.isError, undefined);
+			assert.strictEqual(JSON.parse(agent.content[0].text).location, 'team');
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('list_agents exposes frontmatter and filters by tool or model; get_agent can strip the frontmatter', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-agent-frontmatter-'));
+		try {
+			const agentsDir = path.join(root, '.claude', 'agents');
+			fs.mkdirSync(agentsDir, { recursive: true });
+			fs.writeFileSync(path.join(agentsDir, 'reviewer.md'), '---\nname: code-reviewer\ndescription: Reviews diffs.\ntools: Read, Bash(git diff:*)\nmodel: sonnet\ncolor: blue\n---\n\n# Reviewer\n');
+			fs.writeFileSync(path.join(agentsDir, 'writer.md'), '---\ntools: [Edit]\nmodel: opus\n---\n# Writer\n');
+			const tools = getTools(createServer(root, undefined, []));
+			const list = async (args: unknown) => JSON.parse(((await tools.list_agents.handler(args)) as { content: Array<{ text: string }> }).content[0].text) as Array<Record<string, unknown>>;
+
+			const all = await list({});
+			assert.deepStrictEqual(all[0], {
+				name: 'reviewer',
+				displayName: 'code-reviewer',
+				path: path.join(agentsDir, 'reviewer.md'),
+				location: 'workspace',
+				platform: 'claude',
+				description: 'Reviews diffs.',
+				tools: ['Read', 'Bash(git diff:*)'],
+				model: 'sonnet',
+				color: 'blue'
+			});
+			assert.deepStrictEqual((await list({ tool: 'bash' })).map(a => a.name), ['reviewer']);
+			assert.deepStrictEqual((await list({ model: 'opus' })).map(a => a.name), ['writer']);
+
+			const get = async (args: unknown) => JSON.parse(((await tools.get_agent.handler(args)) as { content: Array<{ text: string }> }).content[0].text) as { content: string; model: string };
+			assert.ok((await get({ name: 'reviewer' })).content.startsWith('---\nname: code-reviewer'));
+			const stripped = await get({ name: 'reviewer', stripFrontmatter: true });
+			assert.deepStrictEqual([stripped.content, stripped.model], ['# Reviewer\n', 'sonnet']);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
 	it('get_agent returns error when missing', async () => {
 		const server = createServer(workspaceRoot);
 		const tools = getTools(server);
@@ -102,4 +198,332 @@ describe('mcp/server createServer (registered tools)', () => {
 		})) as { isError?: boolean };
 		assert.strictEqual(res.isError, true);
 	});
+
+	it('get_rules_for_file returns always and matching glob rules with content', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-rules-for-file-'));
+		try {
+			const rulesDir = path.join(root, '.cursor', 'rules');
+			fs.mkdirSync(rulesDir, { recursive: true });
+			fs.writeFileSync(path.join(rulesDir, 'always.mdc'), '---\ndescription: base\nalwaysApply: true\n---\nAlways body.\n');
+			fs.writeFileSync(path.join(rulesDir, 'ts.mdc'), '---\ndescription: ts\nglobs: src/**/*.ts\n---\nTS body.\n');
+			fs.writeFileSync(path.join(rulesDir, 'docs.mdc'), '---\ndescription: docs\nglobs: ["*.md"]\n---\nDocs body.\n');
+			const server = createServer(root);
+			const tools = getTools(server);
+			const res = (await tools.get_rules_for_file.handler({
+				filePath: path.join(root, 'src', 'x', 'y.ts')
+			})) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const parsed = JSON.parse(res.content[0].text) as Array<{ name: string; reason: string; matchedGlobs: string[]; content: string }>;
+			assert.deepStrictEqual(parsed.map(r => r.name), ['always', 'ts']);
+			assert.strictEqual(parsed[1].reason, 'glob');
+			assert.deepStrictEqual(parsed[1].matchedGlobs, ['src/**/*.ts']);
+			assert.strictEqual(parsed[1].content, 'TS body.');
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('list_*/get_* include Copilot artifacts and resolve name collisions by precedence', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-copilot-'));
+		try {
+			const github = path.join(root, '.github');
+			fs.mkdirSync(path.join(github, 'instructions'), { recursive: true });
+			fs.mkdirSync(path.join(github, 'prompts'), { recursive: true });
+			fs.mkdirSync(path.join(github, 'chatmodes'), { recursive: true });
+			fs.mkdirSync(path.join(root, '.claude', 'commands'), { recursive: true });
+			fs.writeFileSync(path.join(github, 'instructions', 'ts.instructions.md'), '---\napplyTo: "**/*.ts"\n---\nCopilot TS.\n');
+			fs.writeFileSync(path.join(github, 'prompts', 'release.prompt.md'), '# Copilot release\n');
+			fs.writeFileSync(path.join(github, 'chatmodes', 'planner.chatmode.md'), '# Planner\n');
+			fs.writeFileSync(path.join(root, '.claude', 'commands', 'release.md'), '# Claude release\n');
+			const tools = getTools(createServer(root, undefined, []));
+			const text = async (name: string, args: unknown) => ((await tools[name].handler(args)) as { content: Array<{ text: string }> }).content[0].text;
+
+			const rules = JSON.parse(await text('list_rules', {})) as Array<{ name: string; type: string; platform: string }>;
+			assert.deepStrictEqual(rules.map(r => [r.name, r.type, r.platform]), [['ts', 'glob', 'copilot']]);
+			assert.strictEqual(await text('get_rule', { name: 'ts' }), 'Copilot TS.');
+
+			const commands = JSON.parse(await text('list_commands', {})) as Array<{ name: string; platform: string }>;
+			assert.deepStrictEqual(commands.map(c => [c.name, c.platform]), [['release', 'claude'], ['release', 'copilot']]);
+			assert.strictEqual(await text('get_command', { name: 'release' }), '# Claude release\n');
+
+			const agent = JSON.parse(await text('get_agent', { name: 'planner' })) as { path: string; location: string };
+			assert.deepStrictEqual([path.basename(agent.path), agent.location], ['planner.chatmode.md', 'workspace']);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('list_rules/list_specs/get_spec include Kiro steering and specs', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-kiro-'));
+		try {
+			const kiro = path.join(root, '.kiro');
+			fs.mkdirSync(path.join(kiro, 'steering'), { recursive: true });
+			fs.mkdirSync(path.join(kiro, 'specs', 'checkout'), { recursive: true });
+			fs.mkdirSync(path.join(root, 'specs', 'billing'), { recursive: true });
+			fs.writeFileSync(path.join(kiro, 'steering', 'api.md'), '---\ninclusion: fileMatch\nfileMatchPattern: "src/api/**/*.ts"\n---\nREST only.\n');
+			fs.writeFileSync(path.join(kiro, 'specs', 'checkout', 'requirements.md'), '# Requirements\n');
+			fs.writeFileSync(path.join(kiro, 'specs', 'checkout', 'tasks.md'), '- [ ] Build cart\n');
+			fs.writeFileSync(path.join(root, 'specs', 'billing', 'spec.md'), '# Billing\n## Blueprint\n');
+			const tools = getTools(createServer(root, undefined, []));
+			const text = async (name: string, args: unknown) => ((await tools[name].handler(args)) as { content: Array<{ text: string }> }).content[0].text;
+
+			const rules = JSON.parse(await text('list_rules', {})) as Array<{ name: string; type: string; platform: string }>;
+			assert.deepStrictEqual(rules.map(r => [r.name, r.type, r.platform]), [['api', 'glob', 'kiro']]);
+
+			const specs = JSON.parse(await text('list_specs', {})) as Array<{ domain: string; flavour: string; documents: string[] }>;
+			assert.deepStrictEqual(specs.map(s => [s.domain, s.flavour, s.documents]), [
+				['billing', 'asdlc', ['spec.md']],
+				['checkout', 'kiro', ['requirements.md', 'tasks.md']]
+			]);
+
+			const spec = JSON.parse(await text('get_spec', { name: 'checkout' })) as { flavour: string; documents: string[]; path: string; content: string };
+			assert.strictEqual(spec.flavour, 'kiro');
+			assert.strictEqual(path.basename(spec.path), 'requirements.md');
+			assert.strictEqual(spec.content, '<!-- requirements.md -->\n# Requirements\n\n<!-- tasks.md -->\n- [ ] Build cart\n');
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('search_context returns ranked hits and honours kind filters', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-search-'));
+		try {
+			fs.mkdirSync(path.join(root, '.cursor', 'rules'), { recursive: true });
+			fs.mkdirSync(path.join(root, '.cursor', 'commands'), { recursive: true });
+			fs.writeFileSync(path.join(root, '.cursor', 'rules', 'db.mdc'), '---\ndescription: DB\n---\nEvery migration is reversible.\n');
+			fs.writeFileSync(path.join(root, '.cursor', 'commands', 'migrate.md'), '# Migrate\nRun the migration.\n');
+			const server = createServer(root);
+			const tools = getTools(server);
+			const res = (await tools.search_context.handler({ query: 'migration' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const hits = JSON.parse(res.content[0].text) as Array<{ kind: string; name: string; line: number; snippet: string }>;
+			assert.deepStrictEqual(hits.map(h => h.kind).sort(), ['command', 'rule']);
+			const rule = hits.find(h => h.kind === 'rule');
+			assert.strictEqual(rule?.line, 4);
+			assert.strictEqual(rule?.snippet, 'Every migration is reversible.');
+
+			const onlyCommands = (await tools.search_context.handler({ query: 'migration', kinds: ['command'] })) as { content: Array<{ text: string }> };
+			assert.deepStrictEqual(JSON.parse(onlyCommands.content[0].text).map((h: { name: string }) => h.name), ['migrate']);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('get_agents_md returns the parsed structure or one section', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-agents-md-'));
+		try {
+			const server = createServer(root);
+			const tools = getTools(server);
+			const missing = (await tools.get_agents_md.handler({})) as { isError?: boolean };
+			assert.strictEqual(missing.isError, true);
+
+			fs.writeFileSync(path.join(root, 'AGENTS.md'), '# AGENTS\n> **Project Mission:** Test.\n\n## Tech Stack\n- **Language:** TypeScript\n\n## Operational Boundaries\n### Tier 1 (ALWAYS)\n- **ALWAYS** test\n');
+			const res = (await tools.get_agents_md.handler({})) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const parsed = JSON.parse(res.content[0].text) as { mission: string; techStack: { languages: string[] }; sections: Array<{ title: string }> };
+			assert.strictEqual(parsed.mission, 'Test.');
+			assert.deepStrictEqual(parsed.techStack.languages, ['TypeScript']);
+			assert.deepStrictEqual(parsed.sections.map(s => s.title), ['AGENTS', 'Tech Stack', 'Operational Boundaries', 'Tier 1 (ALWAYS)']);
+
+			const section = (await tools.get_agents_md.handler({ section: 'operational boundaries' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(section.isError, undefined);
+			const body = JSON.parse(section.content[0].text) as { title: string; path: string; content: string };
+			assert.strictEqual(body.title, 'Operational Boundaries');
+			assert.strictEqual(body.path, path.join(root, 'AGENTS.md'));
+			assert.strictEqual(body.content, '## Operational Boundaries\n### Tier 1 (ALWAYS)\n- **ALWAYS** test');
+
+			const unknown = (await tools.get_agents_md.handler({ section: 'Deployment' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(unknown.isError, true);
+			assert.ok(unknown.content[0].text.includes('Deployment'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('get_agents_md_for_file returns the AGENTS.md chain from the root to the nearest one', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-agents-md-chain-'));
+		try {
+			fs.mkdirSync(path.join(root, 'packages', 'api', 'src'), { recursive: true });
+			fs.writeFileSync(path.join(root, 'AGENTS.md'), '# Root\n');
+			fs.writeFileSync(path.join(root, 'packages', 'api', 'AGENTS.md'), '# API\n');
+			const server = createServer(root);
+			const tools = getTools(server);
+			const res = (await tools.get_agents_md_for_file.handler({ filePath: 'packages/api/src/index.ts' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const chain = JSON.parse(res.content[0].text) as Array<{ path: string; directory: string; content: string }>;
+			assert.deepStrictEqual(chain.map(e => [e.directory, e.content]), [['', '# Root\n'], ['packages/api', '# API\n']]);
+			assert.strictEqual(chain[1].path, path.join(root, 'packages', 'api', 'AGENTS.md'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('get_claude_memory returns the memory stack for a directory in load order', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-claude-memory-'));
+		const home = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-claude-home-'));
+		try {
+			fs.mkdirSync(path.join(root, 'packages', 'api'), { recursive: true });
+			fs.writeFileSync(path.join(root, 'CLAUDE.md'), 'Project\n');
+			fs.writeFileSync(path.join(root, 'CLAUDE.local.md'), 'Local\n');
+			fs.writeFileSync(path.join(root, 'packages', 'api', 'CLAUDE.md'), 'API\n');
+			fs.writeFileSync(path.join(home, 'CLAUDE.md'), 'User\n');
+			const roots = [{ id: 'claude', label: 'Claude', directory: home, icon: 'device-desktop', memoryPath: path.join(home, 'CLAUDE.md'), sections: [] }];
+			const server = createServer(root, undefined, roots);
+			const tools = getTools(server);
+
+			const res = (await tools.get_claude_memory.handler({ directory: 'packages/api' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const memory = JSON.parse(res.content[0].text) as Array<{ scope: string; directory: string; content: string }>;
+			assert.deepStrictEqual(memory.map(m => [m.scope, m.directory, m.content]), [
+				['user', '', 'User\n'],
+				['project', '', 'Project\n'],
+				['local', '', 'Local\n'],
+				['nested', 'packages/api', 'API\n']
+			]);
+
+			const atRoot = JSON.parse(((await tools.get_claude_memory.handler({})) as { content: Array<{ text: string }> }).content[0].text) as Array<{ scope: string }>;
+			assert.deepStrictEqual(atRoot.map(m => m.scope), ['user', 'project', 'local']);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+			fs.rmSync(home, { recursive: true, force: true });
+		}
+	});
+
+	it('get_agent_settings merges user, project and local Claude Code settings', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-settings-'));
+		const home = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-settings-home-'));
+		try {
+			fs.mkdirSync(path.join(root, '.claude'));
+			fs.writeFileSync(path.join(root, '.claude', 'settings.json'), JSON.stringify({ permissions: { deny: ['Bash(rm:*)'] }, hooks: { Stop: [{ hooks: [{ type: 'command', command: 'say done' }] }] } }));
+			fs.writeFileSync(path.join(root, '.claude', 'settings.local.json'), JSON.stringify({ permissions: { allow: ['Bash(npm test)'] }, env: { API_TOKEN: 'sk-local-secret-123' } }));
+			fs.writeFileSync(path.join(home, 'settings.json'), JSON.stringify({ env: { LOG: 'info' } }));
+			const roots = [{ id: 'claude', label: 'Claude', directory: home, icon: 'device-desktop', settingsPath: path.join(home, 'settings.json'), sections: [] }];
+			const tools = getTools(createServer(root, undefined, roots));
+
+			const res = (await tools.get_agent_settings.handler({})) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const settings = JSON.parse(res.content[0].text) as { files: Array<{ scope: string }>; permissions: Array<{ kind: string; rule: string; scope: string }>; hooks: Array<{ event: string; command: string }>; env: Array<{ name: string; scope: string }> };
+			assert.deepStrictEqual(settings.files.map(f => f.scope), ['user', 'project', 'local']);
+			assert.deepStrictEqual(settings.permissions.map(p => [p.kind, p.rule, p.scope]), [['deny', 'Bash(rm:*)', 'project'], ['allow', 'Bash(npm test)', 'local']]);
+			assert.deepStrictEqual(settings.hooks.map(h => [h.event, h.command]), [['Stop', 'say done']]);
+			assert.deepStrictEqual(settings.env, [
+				{ path: path.join(root, '.claude', 'settings.local.json'), scope: 'local', name: 'API_TOKEN' },
+				{ path: path.join(home, 'settings.json'), scope: 'user', name: 'LOG' }
+			]);
+			assert.ok(!res.content[0].text.includes('sk-local-secret-123'), 'env values are not returned');
+			assert.ok(!res.content[0].text.includes('"info"'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+			fs.rmSync(home, { recursive: true, force: true });
+		}
+	});
+
+	it('list_skills lists bundled files and get_skill_file serves them, only from inside the skill folder', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-skill-files-'));
+		try {
+			const skillDir = path.join(root, '.claude', 'skills', 'pdf');
+			fs.mkdirSync(path.join(skillDir, 'scripts'), { recursive: true });
+			fs.writeFileSync(path.join(skillDir, 'SKILL.md'), '# PDF\n');
+			fs.writeFileSync(path.join(skillDir, 'scripts', 'extract.py'), 'print("hi")\n');
+			fs.writeFileSync(path.join(skillDir, 'logo.png'), Buffer.from([0x89, 0x00, 0x01]));
+			fs.writeFileSync(path.join(root, 'secret.txt'), 'secret');
+			const tools = getTools(createServer(root));
+
+			const list = JSON.parse(((await tools.list_skills.handler({})) as { content: Array<{ text: string }> }).content[0].text) as Array<{ name: string; files: unknown }>;
+			assert.deepStrictEqual(list.map(s => [s.name, s.files]), [['pdf', [{ relativePath: 'logo.png', size: 3 }, { relativePath: 'scripts/extract.py', size: 12 }]]]);
+
+			const script = (await tools.get_skill_file.handler({ name: 'pdf', path: 'scripts/extract.py' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(script.isError, undefined);
+			assert.strictEqual(script.content[0].text, 'print("hi")\n');
+
+			const logo = (await tools.get_skill_file.handler({ name: 'pdf', path: 'logo.png' })) as { content: Array<{ text: string }> };
+			assert.deepStrictEqual(JSON.parse(logo.content[0].text), {
+				relativePath: 'logo.png', path: path.join(skillDir, 'logo.png'), size: 3, encoding: 'base64', content: 'iQAB'
+			});
+
+			const escape = (await tools.get_skill_file.handler({ name: 'pdf', path: '../../../secret.txt' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(escape.isError, true);
+			assert.match(JSON.parse(escape.content[0].text).message, /stay inside it/);
+
+			const missing = (await tools.get_skill_file.handler({ name: 'nope', path: 'a.md' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(missing.isError, true);
+			assert.strictEqual(missing.content[0].text, 'Skill "nope" not found');
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('list_mcp_servers lists project and user scope servers with the effective winner', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-list-servers-'));
+		const home = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-list-servers-home-'));
+		try {
+			fs.writeFileSync(path.join(root, '.mcp.json'), JSON.stringify({ mcpServers: { github: { command: 'docker', args: ['run', 'github-mcp'] } } }));
+			fs.writeFileSync(path.join(home, '.claude.json'), JSON.stringify({ mcpServers: { github: { command: 'npx' }, docs: { url: 'https://docs.example.com/mcp' } } }));
+			const roots = [{ id: 'claude', label: 'Claude', directory: home, icon: 'device-desktop', mcpConfigPath: path.join(home, '.claude.json'), sections: [] }];
+			const tools = getTools(createServer(root, undefined, roots));
+
+			const res = (await tools.list_mcp_servers.handler({})) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const servers = JSON.parse(res.content[0].text) as Array<{ name: string; scope: string; path: string; transport: string; effective: boolean }>;
+			assert.deepStrictEqual(servers.map(s => [s.name, s.scope, s.transport, s.effective]), [
+				['github', 'project', 'stdio', true],
+				['github', 'user', 'stdio', false],
+				['docs', 'user', 'http', true]
+			]);
+			assert.strictEqual(servers[0].path, path.join(root, '.mcp.json'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+			fs.rmSync(home, { recursive: true, force: true });
+		}
+	});
+
+	it('get_compliance returns a report with all three pillars', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-compliance-'));
+		try {
+			fs.writeFileSync(path.join(root, 'AGENTS.md'), '# AGENTS\n> **Project Mission:** Test.\n');
+			const server = createServer(root);
+			const tools = getTools(server);
+			const res = (await tools.get_compliance.handler({})) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const report = JSON.parse(res.content[0].text) as { projectPath: string; overallStatus: string; pillars: Array<{ pillar: string; checks: Array<{ name: string; status: string }> }>; recommendations: string[] };
+			assert.strictEqual(report.projectPath, root);
+			assert.deepStrictEqual(report.pillars.map(p => p.pillar), ['factory-architecture', 'standardized-parts', 'quality-control']);
+			assert.strictEqual(report.pillars[0].checks.find(c => c.name === 'mission')?.status, 'pass');
+			assert.strictEqual(report.overallStatus, 'fail', 'no operational boundaries');
+			assert.ok(report.recommendations.length > 0);
+
+			const bad = (await tools.get_compliance.handler({ projectKey: 'nope' })) as { isError?: boolean };
+			assert.strictEqual(bad.isError, true);
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
+
+	it('compare_projects reports items only in one project and changed content', async () => {
+		const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-mcp-compare-'));
+		try {
+			const a = path.join(root, 'a');
+			const b = path.join(root, 'b');
+			for (const [dir, rules] of [[a, { 'style.mdc': 'Use tabs.', 'only-a.mdc': 'A' }], [b, { 'style.mdc': 'Use spaces.' }]] as const) {
+				fs.mkdirSync(path.join(dir, '.cursor', 'rules'), { recursive: true });
+				for (const [file, body] of Object.entries(rules)) {
+					fs.writeFileSync(path.join(dir, '.cursor', 'rules', file), `---\ndescription: ${file}\n---\n${body}\n`);
+				}
+			}
+			const server = createServer(a, [{ projectKey: 'a', path: a, label: 'A' }, { projectKey: 'b', path: b, label: 'B' }]);
+			const tools = getTools(server);
+			const res = (await tools.compare_projects.handler({ projectKeyA: 'a', projectKeyB: 'b', includeDiff: true })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(res.isError, undefined);
+			const comparison = JSON.parse(res.content[0].text) as { summary: Record<string, number>; items: Array<{ name: string; status: string; diff?: string }> };
+			assert.deepStrictEqual(comparison.items.map(i => [i.name, i.status]), [['only-a', 'only-in-a'], ['style', 'differs']]);
+			assert.ok(comparison.items[1].diff?.includes('-Use tabs.\n+Use spaces.'));
+			assert.strictEqual(comparison.summary.differs, 1);
+
+			const bad = (await tools.compare_projects.handler({ projectKeyA: 'a', projectKeyB: 'nope' })) as { content: Array<{ text: string }>; isError?: boolean };
+			assert.strictEqual(bad.isError, true);
+			assert.ok(bad.content[0].text.includes('Unknown projectKey: nope'));
+		} finally {
+			fs.rmSync(root, { recursive: true, force: true });
+		}
+	});
 });
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { mcpServersTable, parseMcpConfig, scanMcpServersCore, stripJsonComments } from '../../../src/scanner/core/mcpServersCore';
+import type { AgentRootConfig } from '../../../src/scanner/core/agentRoots';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core mcpServersCore', () => {
+	let root: string;
+	let home: string;
+	let roots: AgentRootConfig[];
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-mcp-servers-', dir => { root = dir; });
+	useTempDir('ace-mcp-servers-home-', dir => { home = dir; });
+
+	before(() => {
+		write(path.join(home, '.claude.json'), JSON.stringify({
+			mcpServers: {
+				github: { command: 'npx', args: ['-y', '@modelcontextprotocol/server-github'], env: { GITHUB_TOKEN: 'secret' } },
+				docs: { type: 'http', url: 'https://docs.example.com/mcp', headers: { Authorization: 'Bearer secret' } }
+			},
+			projects: {
+				[root]: { mcpServers: { db: { command: 'db-mcp', args: ['--readonly'] } } },
+				'/some/other/project': { mcpServers: { other: { command: 'other' } } }
+			}
+		}));
+		write(path.join(home, '.cursor', 'mcp.json'), '// user Cursor servers\n{ "mcpServers": { "github": { "command": "gh-mcp" } } }');
+		write(path.join(home, '.codex', 'config.toml'), '[mcp_servers.search]\ncommand = "search-mcp"\nargs = ["--stdio"]\n');
+		write(path.join(root, '.mcp.json'), JSON.stringify({
+			mcpServers: {
+				github: { command: 'docker', args: ['run', 'github-mcp'] },
+				db: { command: 'db-mcp' },
+				events: { type: 'sse', url: 'https://events.example.com/sse' }
+			}
+		}));
+		write(path.join(root, '.cursor', 'mcp.json'), '{ not json');
+		roots = [
+			{ id: 'claude', label: 'Claude', directory: path.join(home, '.claude'), icon: 'device-desktop', mcpConfigPath: path.join(home, '.claude.json'), sections: ['mcp'] },
+			{ id: 'cursor', label: 'Cursor', directory: path.join(home, '.cursor'), icon: 'device-desktop', mcpConfigPath: path.join(home, '.cursor', 'mcp.json'), sections: ['mcp'] },
+			{ id: 'codex', label: 'Codex', directory: path.join(home, '.codex'), icon: 'device-desktop', mcpConfigPath: path.join(home, '.codex', 'config.toml'), sections: ['mcp'] },
+			{ id: 'gemini', label: 'Gemini', directory: path.join(home, '.gemini'), icon: 'device-desktop', mcpConfigPath: path.join(home, '.gemini', 'settings.json'), sections: ['mcp'] }
+		];
+	});
+
+	it('lists local, project and user scope servers in precedence order with the effective winner', async () => {
+		const servers = await scanMcpServersCore(nodeFs, root, roots);
+		assert.deepStrictEqual(servers.map(s => [s.agent, s.scope, s.name, s.effective]), [
+			['claude', 'local', 'db', true],
+			['claude', 'project', 'github', true],
+			['claude', 'project', 'db', false],
+			['claude', 'project', 'events', true],
+			['claude', 'user', 'github', false],
+			['claude', 'user', 'docs', true],
+			['cursor', 'user', 'github', true],
+			['codex', 'user', 'search', true]
+		]);
+		assert.strictEqual(servers[0].path, path.join(home, '.claude.json'));
+		assert.strictEqual(servers[1].path, path.join(root, '.mcp.json'));
+	});
+
+	it('reports transport, launch target and env names without env values or headers', async () => {
+		const servers = await scanMcpServersCore(nodeFs, root, roots);
+		const byKey = (scope: string, name: string) => servers.find(s => s.scope === scope && s.name === name && s.agent === 'claude');
+		assert.deepStrictEqual(byKey('user', 'github'), {
+			name: 'github',
+			agent: 'claude',
+			scope: 'user',
+			path: path.join(home, '.claude.json'),
+			transport: 'stdio',
+			command: 'npx',
+			args: ['-y', '@modelcontextprotocol/server-github'],
+			envKeys: ['GITHUB_TOKEN'],
+			effective: false
+		});
+		assert.deepStrictEqual([byKey('user', 'docs')?.transport, byKey('user', 'docs')?.url], ['http', 'https://docs.example.com/mcp']);
+		assert.strictEqual(byKey('project', 'events')?.transport, 'sse');
+		assert.ok(!JSON.stringify(servers).includes('secret'));
+	});
+
+	it('lists only user scope without a project root', async () => {
+		const servers = await scanMcpServersCore(nodeFs, undefined, roots);
+		assert.ok(servers.every(s => s.scope === 'user' && s.effective));
+		assert.strictEqual(servers.length, 4);
+	});
+
+	it('parses JSON with comments and TOML configs', () => {
+		assert.strictEqual(stripJsonComments('{"a": "//not a comment"} // trailing'), '{"a": "//not a comment"} ');
+		const toml = parseMcpConfig('[mcp_servers.x]\ncommand = "x"\n', '/h/config.toml');
+		assert.deepStrictEqual(toml && Object.keys(mcpServersTable(toml, '/h/config.toml')), ['x']);
+		assert.strictEqual(parseMcpConfig('[1, 2]', '/p/.mcp.json'), undefined);
+		assert.strictEqual(parseMcpConfig('{', '/p/.mcp.json'), undefined);
+		assert.deepStrictEqual(mcpServersTable({ mcpServers: [] }, '/p/.mcp.json'), {});
+	});
+});
@@ -9,7 +9,8 @@ describe('mcp/server (standalone entrypoint helpers)', () => {
 		coreRuleToRuleInfo,
 		coreSkillToSkillInfo,
 		getProjectKeyArg,
-		toBackendParams
+		toBackendParams,
+		withRegistryProjects
 	} = require('../../../src/mcp/server.ts') as typeof import('../../../src/mcp/server');
 
 	it('getProjectKeyArg supports flat and nested args', () => {
@@ -21,6 +22,18 @@ describe('mcp/server (standalone entrypoint helpers)', () => {
 		assert.strictEqual(getProjectKeyArg(undefined), undefined);
 	});
 
+	it('withRegistryProjects appends registry-file projects whose path is not listed yet', () => {
+		const base = [{ projectKey: 'app', path: '/repos/app', label: 'app' }];
+		const merged = withRegistryProjects(base, [
+			{ id: 'a', name: 'App (file)', path: '/repos/app/', lastAccessed: new Date(), active: false },
+			{ id: 'b', name: 'Billing', path: '/repos/billing', lastAccessed: new Date(), active: false }
+		]);
+		assert.deepStrictEqual(merged, [
+			{ projectKey: 'app', path: '/repos/app', label: 'app' },
+			{ projectKey: 'billing', path: '/repos/billing', label: 'Billing' }
+		]);
+	});
+
 	it('toBackendParams returns a flat object or empty', () => {
 		assert.deepStrictEqual(toBackendParams({ a: 1 }), { a: 1 });
 		assert.deepStrictEqual(toBackendParams(['x']), {});
@@ -103,6 +116,30 @@ describe('mcp/server (standalone entrypoint helpers)', () => {
 		assert.strictEqual(fromParagraph.location, 'global');
 	});
 
+	it('coreCommandToCommandInfo exposes command frontmatter and placeholders', () => {
+		const info = coreCommandToCommandInfo({
+			fileName: 'fix-issue',
+			content: '---\ndescription: Fix a GitHub issue\n---\nFix #$1',
+			path: '/x/fix-issue.md',
+			location: 'workspace',
+			platform: 'claude',
+			description: 'Fix a GitHub issue',
+			argumentHint: '[issue-number]',
+			allowedTools: ['Read'],
+			arguments: { all: false, positional: [1] }
+		});
+		assert.deepStrictEqual(info, {
+			name: 'fix-issue',
+			description: 'Fix a GitHub issue',
+			argumentHint: '[issue-number]',
+			allowedTools: ['Read'],
+			arguments: { all: false, positional: [1] },
+			path: '/x/fix-issue.md',
+			location: 'workspace',
+			platform: 'claude'
+		});
+	});
+
 	it('coreSkillToSkillInfo maps metadata and defaults title', () => {
 		const skill = coreSkillToSkillInfo({
 			fileName: 'my-skill',
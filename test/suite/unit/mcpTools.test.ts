@@ -104,7 +104,7 @@ describe('mcp/tools (McpTools)', () => {
 		setWorkspaceFolders('/other');
 		AsdlcArtifactScanner.prototype.scanAll = async () => ({
 			agentsMd: { exists: false, sections: [] },
-			specs: { exists: true, specs: [{ domain: 'd', path: 'p', hasBlueprint: true, hasContract: false }] },
+			specs: { exists: true, specs: [{ domain: 'd', path: 'p', hasBlueprint: true, hasContract: false, flavour: 'asdlc', documents: ['spec.md'] }] },
 			schemas: { exists: false, schemas: [] },
 			hasAnyArtifacts: true
 		});
@@ -174,6 +174,28 @@ describe('mcp/tools (McpTools)', () => {
 		assert.strictEqual(out?.content, 'hello');
 	});
 
+	it('getRulesForFile returns always rules and matching glob rules with content', async () => {
+		setWorkspaceFolders('/workspace');
+		const mk = (fileName: string, metadata: Rule['metadata']): Rule => ({
+			platform: 'cursor',
+			uri: vscode.Uri.file(`/workspace/.cursor/rules/${fileName}`) as any,
+			fileName,
+			content: `${fileName} body`,
+			metadata
+		});
+		RulesScanner.prototype.scanAllRules = async () => [
+			mk('ts.mdc', { description: 'TS', globs: ['src/**/*.ts'] }),
+			mk('md.mdc', { description: 'MD', globs: ['*.md'] }),
+			mk('always.mdc', { description: 'A', alwaysApply: true })
+		];
+
+		const out = await McpTools.getRulesForFile({ filePath: '/workspace/src/a/b.ts', projectPath: '/workspace' });
+		assert.deepStrictEqual(out.map(r => r.name), ['always', 'ts']);
+		assert.strictEqual(out[1].reason, 'glob');
+		assert.deepStrictEqual(out[1].matchedGlobs, ['src/**/*.ts']);
+		assert.strictEqual(out[1].content, 'ts.mdc body');
+	});
+
 	it('listCommands returns workspace commands', async () => {
 		setWorkspaceFolders('/workspace');
 		const w: Command = { uri: vscode.Uri.file('/w.md') as any, fileName: 'w.md', content: '# W', location: 'workspace', platform: 'cursor' };
@@ -327,7 +349,7 @@ describe('mcp/tools (McpTools)', () => {
 			agentsMd: { exists: true, sections: [] },
 			specs: {
 				exists: true,
-				specs: [{ path: 'specs/a/spec.md', domain: 'a', hasBlueprint: true, hasContract: false }]
+				specs: [{ path: 'specs/a/spec.md', domain: 'a', hasBlueprint: true, hasContract: false, flavour: 'asdlc', documents: ['spec.md'] }]
 			},
 			schemas: { exists: false, schemas: [] },
 			hasAnyArtifacts: true
@@ -362,7 +384,7 @@ describe('mcp/tools (McpTools)', () => {
 			agentsMd: { exists: false, sections: [] },
 			specs: {
 				exists: true,
-				specs: [{ domain: 'foo', path: specPath, hasBlueprint: true, hasContract: true }]
+				specs: [{ domain: 'foo', path: specPath, hasBlueprint: true, hasContract: true, flavour: 'asdlc', documents: ['spec.md'] }]
 			},
 			schemas: { exists: false, schemas: [] },
 			hasAnyArtifacts: true
@@ -386,7 +408,7 @@ describe('mcp/tools (McpTools)', () => {
 		setWorkspaceFolders('/workspace');
 		AsdlcArtifactScanner.prototype.scanAll = async () => ({
 			agentsMd: { exists: false, sections: [] },
-			specs: { exists: true, specs: [{ domain: 'a', path: '/workspace/specs/a/spec.md', hasBlueprint: true, hasContract: false }] },
+			specs: { exists: true, specs: [{ domain: 'a', path: '/workspace/specs/a/spec.md', hasBlueprint: true, hasContract: false, flavour: 'asdlc', documents: ['spec.md'] }] },
 			schemas: { exists: false, schemas: [] },
 			hasAnyArtifacts: true
 		});
@@ -198,6 +198,22 @@ describe('mcp/types (real implementation)', () => {
 			assert.strictEqual(info.name, 'skill-name');
 			assert.strictEqual(info.title, 'My Skill');
 			assert.strictEqual(info.overview, 'Overview text');
+			assert.deepStrictEqual(info.issues, []);
+		});
+
+		it('toSkillInfo maps the Agent Skills description and frontmatter problems', () => {
+			const skill: Skill = {
+				platform: 'claude',
+				uri: makeUri('/skill/SKILL.md') as any,
+				content: '',
+				fileName: 'skill',
+				location: 'workspace',
+				metadata: { name: 'skill', description: 'Does things. Use when asked.' },
+				issues: [{ field: 'license', message: 'Unknown frontmatter key "licence"' }]
+			};
+			const info = toSkillInfo(skill);
+			assert.strictEqual(info.description, 'Does things. Use when asked.');
+			assert.deepStrictEqual(info.issues, skill.issues);
 		});
 
 		it('toSkillContent includes metadata prerequisites, steps, tools', () => {
@@ -216,4 +232,27 @@ describe('mcp/types (real implementation)', () => {
 			assert.deepStrictEqual(out.metadata?.tools, ['c']);
 		});
 	});
+
+	describe('toAgentDefinitionInfo / toAgentDefinitionContent', () => {
+		const agent: AgentDefinition = {
+			platform: 'claude',
+			uri: makeUri('/a/reviewer.md') as any,
+			content: '---\nname: code-reviewer\ntools: Read\nmodel: sonnet\n---\n# Reviewer\n',
+			fileName: 'reviewer',
+			displayName: 'code-reviewer',
+			tools: ['Read'],
+			model: 'sonnet'
+		};
+
+		it('toAgentDefinitionInfo includes only the declared frontmatter fields', () => {
+			const info = toAgentDefinitionInfo(agent, 'workspace');
+			assert.deepStrictEqual([info.displayName, info.tools, info.model], ['code-reviewer', ['Read'], 'sonnet']);
+			assert.ok(!('description' in info) && !('color' in info));
+		});
+
+		it('toAgentDefinitionContent strips the frontmatter only when asked', () => {
+			assert.strictEqual(toAgentDefinitionContent(agent, 'workspace').content, agent.content);
+			assert.strictEqual(toAgentDefinitionContent(agent, 'workspace', true).content, '# Reviewer\n');
+		});
+	});
 });
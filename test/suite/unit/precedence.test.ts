@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import { pickByPrecedence } from '../../../src/mcp/precedence';
+import type { CorePlatform } from '../../../src/scanner/core/types';
 
 describe('mcp/precedence (spec 011 FR-008)', () => {
 	it('returns undefined for an empty candidate list', () => {
@@ -59,4 +60,27 @@ describe('mcp/precedence (spec 011 FR-008)', () => {
 		assert.strictEqual(pickByPrecedence([c, b, a], keyOf)?.id, 'workspace-cursor');
 		assert.strictEqual(pickByPrecedence([b, a, c], keyOf)?.id, 'workspace-cursor');
 	});
+
+	it('ranks copilot after cursor and claude within a tier, still ahead of any global candidate', () => {
+		const keyOf = (x: { location?: 'workspace' | 'global'; platform: 'cursor' | 'claude' | 'copilot' }) => x;
+		const copilot = { id: 'copilot', platform: 'copilot' as const };
+		const claude = { id: 'claude', platform: 'claude' as const };
+		assert.strictEqual(pickByPrecedence([copilot, claude], keyOf)?.id, 'claude');
+		assert.strictEqual(pickByPrecedence([copilot, { id: 'cursor', platform: 'cursor' as const }], keyOf)?.id, 'cursor');
+		assert.strictEqual(pickByPrecedence([{ id: 'global-cursor', location: 'global' as const, platform: 'cursor' as const }, copilot], keyOf)?.id, 'copilot');
+	});
+
+	it('ranks the rules-folder agents after kiro in the order windsurf, cline, roo, continue', () => {
+		const keyOf = (x: { id: string; platform: CorePlatform }) => x;
+		const candidates: { id: string; platform: CorePlatform }[] = [
+			{ id: 'continue', platform: 'continue' },
+			{ id: 'roo', platform: 'roo' },
+			{ id: 'cline', platform: 'cline' },
+			{ id: 'windsurf', platform: 'windsurf' }
+		];
+		assert.strictEqual(pickByPrecedence(candidates, keyOf)?.id, 'windsurf');
+		assert.strictEqual(pickByPrecedence(candidates.slice(0, 3), keyOf)?.id, 'cline');
+		assert.strictEqual(pickByPrecedence(candidates.slice(0, 2), keyOf)?.id, 'roo');
+		assert.strictEqual(pickByPrecedence([...candidates, { id: 'kiro', platform: 'kiro' as const }], keyOf)?.id, 'kiro');
+	});
 });
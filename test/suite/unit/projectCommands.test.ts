@@ -55,6 +55,100 @@ describe('ProjectCommands', () => {
 		assert.ok(typeof registered['ace.removeProject'] === 'function');
 		assert.ok(typeof registered['ace.editProject'] === 'function');
 		assert.ok(typeof registered['ace.listProjects'] === 'function');
+		assert.ok(typeof registered['ace.discoverProjects'] === 'function');
+		assert.ok(typeof registered['ace.importProjects'] === 'function');
+		assert.ok(typeof registered['ace.exportProjects'] === 'function');
+	});
+
+	it('ace.discoverProjects adds the selected projects that are not registered yet', async () => {
+		patchVscodeForCommands();
+		const ctx = makeContext();
+		await new ProjectManager(ctx).addProject({ name: 'Api', path: '/repos/api' });
+		const listing: Record<string, [string, number][]> = {
+			'/repos': [['api', 2], ['web', 2], ['notes', 1]],
+			'/repos/api': [['AGENTS.md', 1]],
+			'/repos/web': [['.claude', 2], ['src', 2]],
+			'/repos/web/src': []
+		};
+		const origReadDirectory = vscode.__overrides.readDirectory;
+		const origStat = vscode.__overrides.stat;
+		vscode.__overrides.readDirectory = async (uri: { fsPath: string }) => listing[uri.fsPath] ?? [];
+		vscode.__overrides.stat = async () => { throw new Error('ENOENT'); };
+		let offered: Array<{ label: string; detail?: string }> = [];
+		vscode.window.showOpenDialog = async () => [vscode.Uri.file('/repos')];
+		vscode.window.showQuickPick = async (items: Array<{ label: string; detail?: string }>, opts: { canPickMany?: boolean }) => {
+			offered = items;
+			assert.strictEqual(opts.canPickMany, true);
+			return items;
+		};
+		try {
+			ProjectCommands.registerCommands(ctx);
+			await (registered['ace.discoverProjects'] as () => Promise<void>)();
+		} finally {
+			vscode.__overrides.readDirectory = origReadDirectory;
+			vscode.__overrides.stat = origStat;
+		}
+		assert.deepStrictEqual(offered.map(i => i.label), ['web'], 'already registered api is not offered');
+		assert.deepStrictEqual((await new ProjectManager(ctx).getProjects()).map(p => [p.name, p.path]), [['Api', '/repos/api'], ['web', '/repos/web']]);
+	});
+
+	it('ace.exportProjects writes the registry document to the chosen file', async () => {
+		patchVscodeForCommands();
+		const ctx = makeContext();
+		await new ProjectManager(ctx).addProject({ name: 'Api', path: '/repos/api' });
+		let written = '';
+		const origWrite = vscode.workspace.fs.writeFile;
+		vscode.window.showSaveDialog = async () => vscode.Uri.file('/tmp/ace-projects.json');
+		vscode.workspace.fs.writeFile = async (_uri: unknown, bytes: Uint8Array) => {
+			written = Buffer.from(bytes).toString('utf8');
+		};
+		try {
+			ProjectCommands.registerCommands(ctx);
+			await (registered['ace.exportProjects'] as () => Promise<void>)();
+		} finally {
+			vscode.workspace.fs.writeFile = origWrite;
+		}
+		const doc = JSON.parse(written);
+		assert.deepStrictEqual(doc.projects.map((p: ProjectDefinition) => [p.name, p.path]), [['Api', '/repos/api']]);
+		assert.strictEqual('scope' in doc.projects[0], false);
+	});
+
+	it('ace.importProjects adds projects from the chosen file and reports duplicates', async () => {
+		patchVscodeForCommands();
+		const ctx = makeContext();
+		await new ProjectManager(ctx).addProject({ name: 'Api', path: '/repos/api' });
+		const origRead = vscode.workspace.fs.readFile;
+		let infoMsg = '';
+		vscode.window.showInformationMessage = (msg: string) => { infoMsg = msg; };
+		vscode.window.showOpenDialog = async () => [vscode.Uri.file('/tmp/ace-projects.json')];
+		vscode.workspace.fs.readFile = async () => Buffer.from(JSON.stringify({
+			projects: [{ name: 'Api', path: '/repos/api' }, { name: 'Web', path: '/repos/web' }]
+		}));
+		try {
+			ProjectCommands.registerCommands(ctx);
+			await (registered['ace.importProjects'] as () => Promise<void>)();
+		} finally {
+			vscode.workspace.fs.readFile = origRead;
+		}
+		assert.strictEqual(infoMsg, 'Imported 1 project(s) (1 already registered)');
+		assert.deepStrictEqual((await new ProjectManager(ctx).getProjects()).map(p => p.name), ['Api', 'Web']);
+	});
+
+	it('ace.importProjects shows an error for a malformed file', async () => {
+		patchVscodeForCommands();
+		const ctx = makeContext();
+		const origRead = vscode.workspace.fs.readFile;
+		let errMsg = '';
+		vscode.window.showErrorMessage = (msg: string) => { errMsg = msg; };
+		vscode.window.showOpenDialog = async () => [vscode.Uri.file('/tmp/bad.json')];
+		vscode.workspace.fs.readFile = async () => Buffer.from('{');
+		try {
+			ProjectCommands.registerCommands(ctx);
+			await (registered['ace.importProjects'] as () => Promise<void>)();
+		} finally {
+			vscode.workspace.fs.readFile = origRead;
+		}
+		assert.ok(errMsg.startsWith('Failed to import projects'));
 	});
 
 	it('ace.addProject flow adds project when inputs valid', async () => {
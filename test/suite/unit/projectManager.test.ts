@@ -1,5 +1,9 @@
 import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { ProjectManager } from '../../../src/services/projectManager';
+import { projectRegistryFilePath } from '../../../src/services/projectRegistryFile';
 import type { ProjectDefinition } from '../../../src/types/project';
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -117,3 +121,121 @@ describe('ProjectManager', () => {
 		}
 	});
 });
+
+describe('ProjectManager registry scopes (ace.projectRegistry)', () => {
+	let home: string;
+
+	function makeGlobalContext(globalStore = new Map<string, unknown>()): any {
+		const ctx = makeContext();
+		ctx.globalState = {
+			get: <T>(key: string) => globalStore.get(key) as T | undefined,
+			update: async (key: string, value: unknown) => {
+				globalStore.set(key, value);
+			}
+		};
+		return ctx;
+	}
+
+	beforeEach(() => {
+		home = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-projects-'));
+	});
+
+	afterEach(() => {
+		delete vscodeStub.__overrides.configuration['ace.projectRegistry'];
+		fs.rmSync(home, { recursive: true, force: true });
+	});
+
+	it('global scope shares projects between workspaces through globalState', async () => {
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'global';
+		const globalStore = new Map<string, unknown>();
+		const added = await new ProjectManager(makeGlobalContext(globalStore), home).addProject({ name: 'Shared', path: '/repos/shared' });
+		assert.strictEqual(added.scope, 'global');
+
+		const otherWindow = new ProjectManager(makeGlobalContext(globalStore), home);
+		const projects = await otherWindow.getProjects();
+		assert.deepStrictEqual(projects.map(p => [p.name, p.scope]), [['Shared', 'global']]);
+	});
+
+	it('file scope stores projects in ~/.agents/ace-projects.json without the scope field', async () => {
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'file';
+		const pm = new ProjectManager(makeContext(), home);
+		await pm.addProject({ name: 'Api', path: '/repos/api', description: 'Backend' });
+
+		const stored = JSON.parse(fs.readFileSync(projectRegistryFilePath(home), 'utf8'));
+		assert.strictEqual(stored.projects.length, 1);
+		assert.strictEqual(stored.projects[0].name, 'Api');
+		assert.strictEqual(stored.projects[0].description, 'Backend');
+		assert.strictEqual('scope' in stored.projects[0], false);
+		assert.strictEqual((await new ProjectManager(makeContext(), home).getProjects())[0].scope, 'file');
+	});
+
+	it('lists a path registered in both scopes once, preferring the user-global entry', async () => {
+		const ctx = makeGlobalContext();
+		const workspacePm = new ProjectManager(ctx, home);
+		await workspacePm.addProject({ name: 'Local copy', path: '/repos/app' });
+		await workspacePm.addProject({ name: 'Local only', path: '/repos/local' });
+
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'global';
+		await ctx.globalState.update('aceExplorer.projects', {
+			projects: [{ id: 'g1', name: 'Global copy', path: '/repos/app/', lastAccessed: new Date(), active: false }]
+		});
+		const projects = await new ProjectManager(ctx, home).getProjects();
+		assert.deepStrictEqual(projects.map(p => [p.name, p.scope]), [['Global copy', 'global'], ['Local only', 'workspace']]);
+	});
+
+	it('workspace scope ignores the user-global registries', async () => {
+		fs.mkdirSync(path.dirname(projectRegistryFilePath(home)), { recursive: true });
+		fs.writeFileSync(projectRegistryFilePath(home), JSON.stringify({ projects: [{ name: 'F', path: '/repos/f' }] }));
+		assert.deepStrictEqual(await new ProjectManager(makeGlobalContext(), home).getProjects(), []);
+	});
+
+	it('addProject rejects a path already registered in the workspace scope', async () => {
+		const ctx = makeGlobalContext();
+		await new ProjectManager(ctx, home).addProject({ name: 'A', path: '/repos/a' });
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'global';
+		await assert.rejects(() => new ProjectManager(ctx, home).addProject({ name: 'A2', path: '/repos/a' }), /already exists/);
+	});
+
+	it('removeProject drops duplicates of the path from every scope', async () => {
+		const ctx = makeGlobalContext();
+		await new ProjectManager(ctx, home).addProject({ name: 'Local', path: '/repos/app' });
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'global';
+		await ctx.globalState.update('aceExplorer.projects', {
+			projects: [{ id: 'g1', name: 'Global', path: '/repos/app', lastAccessed: new Date(), active: false }]
+		});
+		const pm = new ProjectManager(ctx, home);
+		await pm.removeProject('g1');
+		assert.deepStrictEqual(await pm.getProjects(), []);
+	});
+
+	it('updateProject writes to the scope that holds the project', async () => {
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'file';
+		const pm = new ProjectManager(makeContext(), home);
+		const p = await pm.addProject({ name: 'Old', path: '/repos/x' });
+		const updated = await pm.updateProject(p.id, { name: 'New' });
+		assert.strictEqual(updated.scope, 'file');
+		assert.strictEqual(JSON.parse(fs.readFileSync(projectRegistryFilePath(home), 'utf8')).projects[0].name, 'New');
+	});
+
+	it('importProjects adds new paths to the configured scope and skips registered ones', async () => {
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'file';
+		const pm = new ProjectManager(makeContext(), home);
+		const existing = await pm.addProject({ name: 'A', path: '/repos/a' });
+		const result = await pm.importProjects([
+			{ id: existing.id, name: 'B', path: '/repos/b', lastAccessed: new Date(), active: true },
+			{ id: 'x', name: 'A again', path: '/repos/a', lastAccessed: new Date(), active: false },
+			{ id: 'y', name: 'B again', path: '/repos/b', lastAccessed: new Date(), active: false }
+		]);
+		assert.strictEqual(result.skipped, 2);
+		assert.deepStrictEqual(result.added.map(p => [p.name, p.scope, p.active]), [['B', 'file', false]]);
+		assert.notStrictEqual(result.added[0].id, existing.id, 'colliding id is regenerated');
+		assert.deepStrictEqual((await pm.getProjects()).map(p => p.name), ['A', 'B']);
+	});
+
+	it('getProjects rejects a malformed registry file instead of treating it as empty', async () => {
+		vscodeStub.__overrides.configuration['ace.projectRegistry'] = 'file';
+		fs.mkdirSync(path.dirname(projectRegistryFilePath(home)), { recursive: true });
+		fs.writeFileSync(projectRegistryFilePath(home), '{ not json');
+		await assert.rejects(() => new ProjectManager(makeContext(), home).getProjects(), /Invalid project registry/);
+	});
+});
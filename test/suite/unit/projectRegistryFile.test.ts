@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	mergeProjectLists,
+	parseProjectRegistry,
+	projectRegistryFilePath,
+	readProjectRegistryFile,
+	serializeProjectRegistry,
+	writeProjectRegistryFile
+} from '../../../src/services/projectRegistryFile';
+import type { ProjectDefinition } from '../../../src/types/project';
+
+function project(id: string, p: string): ProjectDefinition {
+	return { id, name: id, path: p, lastAccessed: new Date('2026-01-01T00:00:00Z'), active: false };
+}
+
+describe('services/projectRegistryFile', () => {
+	it('projectRegistryFilePath points at ~/.agents/ace-projects.json', () => {
+		assert.strictEqual(projectRegistryFilePath('/home/u'), path.join('/home/u', '.agents', 'ace-projects.json'));
+	});
+
+	it('parseProjectRegistry accepts a registry document or a bare array and fills defaults', () => {
+		const fromDoc = parseProjectRegistry({
+			projects: [
+				{ id: 'p1', name: 'Api', path: '/repos/api', description: 'Backend', lastAccessed: '2026-02-03T00:00:00Z', active: true },
+				{ path: '/repos/web' },
+				{ name: 'no path' },
+				'junk'
+			]
+		});
+		assert.strictEqual(fromDoc.length, 2);
+		assert.deepStrictEqual(fromDoc[0], {
+			id: 'p1', name: 'Api', path: '/repos/api', description: 'Backend',
+			lastAccessed: new Date('2026-02-03T00:00:00Z'), active: true
+		});
+		assert.strictEqual(fromDoc[1].name, 'web');
+		assert.ok(fromDoc[1].id.startsWith('project_'));
+
+		assert.strictEqual(parseProjectRegistry([{ path: '/repos/a' }]).length, 1);
+		assert.deepStrictEqual(parseProjectRegistry({ other: true }), []);
+		assert.deepStrictEqual(parseProjectRegistry(null), []);
+	});
+
+	it('serializeProjectRegistry drops the scope annotation', () => {
+		const doc = JSON.parse(serializeProjectRegistry([{ ...project('a', '/a'), scope: 'global' }]));
+		assert.deepStrictEqual(Object.keys(doc), ['projects']);
+		assert.strictEqual('scope' in doc.projects[0], false);
+	});
+
+	it('mergeProjectLists keeps the first entry for each resolved path', () => {
+		const merged = mergeProjectLists([[project('g', '/repos/app/')], [project('w', '/repos/app'), project('w2', '/repos/other')]]);
+		assert.deepStrictEqual(merged.map(p => p.id), ['g', 'w2']);
+	});
+
+	it('reads back what it writes; a missing file is empty and malformed JSON throws', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-registry-'));
+		try {
+			const file = path.join(dir, '.agents', 'ace-projects.json');
+			assert.deepStrictEqual(await readProjectRegistryFile(file), []);
+			await writeProjectRegistryFile(file, [project('a', '/repos/a')]);
+			assert.deepStrictEqual(await readProjectRegistryFile(file), [project('a', '/repos/a')]);
+			fs.writeFileSync(file, '[');
+			await assert.rejects(() => readProjectRegistryFile(file), /Invalid project registry/);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
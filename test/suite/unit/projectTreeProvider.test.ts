@@ -10,6 +10,11 @@ import { Skill } from '../../../src/scanner/skillsScanner';
 import type { AgentDefinition } from '../../../src/scanner/agentsScanner';
 import { AsdlcArtifacts } from '../../../src/scanner/types';
 import type { ClaudeCodeArtifacts, ClaudeMdFile } from '../../../src/scanner/claudeCodeScanner';
+import type { CopilotArtifacts } from '../../../src/scanner/copilotScanner';
+import type { GeminiArtifacts } from '../../../src/scanner/geminiScanner';
+import type { KiroArtifacts } from '../../../src/scanner/kiroScanner';
+import type { RuleFolderArtifacts } from '../../../src/scanner/ruleFoldersScanner';
+import type { McpServerArtifacts } from '../../../src/scanner/mcpServersScanner';
 
 // Mock vscode module
 const mockVscode = {
@@ -56,6 +61,11 @@ function createProjectData(overrides: Partial<{
 	agentDefinitions: AgentDefinition[];
 	asdlcArtifacts: AsdlcArtifacts;
 	claudeCodeArtifacts: ClaudeCodeArtifacts;
+	copilotArtifacts: CopilotArtifacts;
+	geminiArtifacts: GeminiArtifacts;
+	kiroArtifacts: KiroArtifacts;
+	ruleFolderArtifacts: RuleFolderArtifacts;
+	mcpServerArtifacts: McpServerArtifacts;
 }> = {}) {
 	const defaultArtifacts: AsdlcArtifacts = {
 		agentsMd: { exists: false, sections: [] },
@@ -73,7 +83,12 @@ function createProjectData(overrides: Partial<{
 			globalSkills: overrides.globalSkills ?? [],
 			agentDefinitions: overrides.agentDefinitions ?? [],
 			asdlcArtifacts: overrides.asdlcArtifacts ?? defaultArtifacts,
-			claudeCodeArtifacts: overrides.claudeCodeArtifacts
+			claudeCodeArtifacts: overrides.claudeCodeArtifacts,
+			copilotArtifacts: overrides.copilotArtifacts,
+			geminiArtifacts: overrides.geminiArtifacts,
+			kiroArtifacts: overrides.kiroArtifacts,
+			ruleFolderArtifacts: overrides.ruleFolderArtifacts,
+			mcpServerArtifacts: overrides.mcpServerArtifacts
 		}]
 	]);
 }
@@ -241,7 +256,7 @@ describe('ProjectTreeProvider getTreeItem and lifecycle', () => {
 });
 
 describe('ProjectTreeProvider tree hierarchy', () => {
-	it('project -> only Specs when neither .cursor/ nor .claude/ exists', async () => {
+	it('project -> only Compliance and Specs when neither .cursor/ nor .claude/ exists', async () => {
 		const provider = new ProjectTreeProvider(createProjectData(), [mockProject], mockProject);
 		provider.setDataLoaded(true);
 		const projects = await provider.getChildren(undefined);
@@ -252,12 +267,12 @@ describe('ProjectTreeProvider tree hierarchy', () => {
 		const children = await provider.getChildren(projectItem as ProjectTreeItem);
 
 		// cursorFolderExists not set (undefined) → Cursor hidden; claudeFolderExists false → Claude hidden
-		assert.strictEqual(children.length, 1);
+		assert.strictEqual(children.length, 2);
 		const labels = children.map(c => c.label);
-		assert.deepStrictEqual(labels, ['Specs']);
+		assert.deepStrictEqual(labels, ['Compliance', 'Specs']);
 	});
 
-	it('project -> Cursor and Specs when cursorFolderExists is true and no .claude/', async () => {
+	it('project -> Compliance, Cursor and Specs when cursorFolderExists is true and no .claude/', async () => {
 		// Build projectData with cursorFolderExists = true
 		const defaultArtifacts: AsdlcArtifacts = {
 			agentsMd: { exists: false, sections: [] },
@@ -288,9 +303,9 @@ describe('ProjectTreeProvider tree hierarchy', () => {
 
 		const children = await provider.getChildren(projectItem as ProjectTreeItem);
 
-		assert.strictEqual(children.length, 2);
+		assert.strictEqual(children.length, 3);
 		const labels = children.map(c => c.label).sort();
-		assert.deepStrictEqual(labels, ['Cursor', 'Specs']);
+		assert.deepStrictEqual(labels, ['Compliance', 'Cursor', 'Specs']);
 	});
 
 	it('cursor -> Agents, Commands, Rules, Skills (alphabetical)', async () => {
@@ -313,7 +328,7 @@ describe('ProjectTreeProvider tree hierarchy', () => {
 	it('agents -> flat spec domain leaves (no nested Specs/Schemas folders)', async () => {
 		const asdlcArtifacts: AsdlcArtifacts = {
 			agentsMd: { exists: true, path: '/test/AGENTS.md', sections: [] },
-			specs: { exists: true, specs: [{ domain: 'providers', path: '/test/specs/p/spec.md', hasBlueprint: true, hasContract: true }] },
+			specs: { exists: true, specs: [{ domain: 'providers', path: '/test/specs/p/spec.md', hasBlueprint: true, hasContract: true, flavour: 'asdlc', documents: ['spec.md'] }] },
 			schemas: { exists: true, schemas: [{ name: 'test', path: '/test/schemas/x.json', schemaId: 'test-id' }] },
 			hasAnyArtifacts: true
 		};
@@ -322,12 +337,63 @@ describe('ProjectTreeProvider tree hierarchy', () => {
 
 		const children = await provider.getChildren(specsSectionItem);
 
-		assert.strictEqual(children.length, 1);
-		assert.strictEqual(children[0].label, 'providers');
-		assert.strictEqual(children[0].category, 'specs');
+		assert.strictEqual(children.length, 2);
+		assert.strictEqual(children[0].label, 'AGENTS.md');
+		assert.strictEqual(children[0].category, 'agents-md');
+		assert.strictEqual(children[1].label, 'providers');
+		assert.strictEqual(children[1].category, 'specs');
 		assert.ok(!children.some(c => c.label === 'Schemas'));
 	});
 
+	it('agents -> nested AGENTS.md files nest under their nearest ancestor', async () => {
+		const asdlcArtifacts: AsdlcArtifacts = {
+			agentsMd: { exists: true, path: '/test/AGENTS.md', sections: [] },
+			nestedAgentsMd: [
+				{ path: '/test/packages/api/AGENTS.md', directory: 'packages/api' },
+				{ path: '/test/packages/api/src/AGENTS.md', directory: 'packages/api/src' },
+				{ path: '/test/packages/web/AGENTS.md', directory: 'packages/web' }
+			],
+			specs: { exists: false, specs: [] },
+			schemas: { exists: false, schemas: [] },
+			hasAnyArtifacts: true
+		};
+		const provider = new ProjectTreeProvider(createProjectData({ asdlcArtifacts }), [mockProject], mockProject);
+		const specsSectionItem: ProjectTreeItem = { label: 'Specs', collapsibleState: 0, category: 'agents', project: mockProject } as ProjectTreeItem;
+
+		const children = await provider.getChildren(specsSectionItem);
+		assert.deepStrictEqual(children.map(c => c.label), ['AGENTS.md', 'No specs found']);
+		assert.strictEqual(children[0].collapsibleState, 2);
+
+		const packages = await provider.getChildren(children[0]);
+		assert.deepStrictEqual(packages.map(c => [c.label, c.description]), [['packages/api', 'AGENTS.md'], ['packages/web', 'AGENTS.md']]);
+		assert.strictEqual(packages[1].collapsibleState, 0);
+
+		const [src] = await provider.getChildren(packages[0]);
+		assert.strictEqual(src.label, 'packages/api/src');
+		assert.deepStrictEqual(src.command?.arguments?.[0].fsPath, '/test/packages/api/src/AGENTS.md');
+	});
+
+	it('agents -> Kiro specs expand into their documents', async () => {
+		const asdlcArtifacts: AsdlcArtifacts = {
+			agentsMd: { exists: false, sections: [] },
+			specs: { exists: true, specs: [{ domain: 'checkout', path: '/test/.kiro/specs/checkout/requirements.md', hasBlueprint: false, hasContract: false, flavour: 'kiro', documents: ['requirements.md', 'tasks.md'] }] },
+			schemas: { exists: false, schemas: [] },
+			hasAnyArtifacts: true
+		};
+		const provider = new ProjectTreeProvider(createProjectData({ asdlcArtifacts }), [mockProject], mockProject);
+		const specsSectionItem: ProjectTreeItem = { label: 'Specs', collapsibleState: 0, category: 'agents', project: mockProject } as ProjectTreeItem;
+
+		const [spec] = await provider.getChildren(specsSectionItem);
+		assert.strictEqual(spec.label, 'checkout');
+		assert.strictEqual(spec.category, 'kiro-spec');
+		assert.strictEqual(spec.description, 'Kiro: requirements, tasks');
+		assert.strictEqual(spec.collapsibleState, 1);
+
+		const documents = await provider.getChildren(spec);
+		assert.deepStrictEqual(documents.map(d => [d.label, d.category]), [['requirements.md', 'kiro-spec-document'], ['tasks.md', 'kiro-spec-document']]);
+		assert.strictEqual((documents[1].command?.arguments?.[0] as { fsPath: string }).fsPath, '/test/.kiro/specs/checkout/tasks.md');
+	});
+
 	it('agents -> "No specs found" when none exist', async () => {
 		const provider = new ProjectTreeProvider(createProjectData(), [mockProject], mockProject);
 		const specsSectionItem: ProjectTreeItem = { label: 'Specs', collapsibleState: 0, category: 'agents', project: mockProject } as ProjectTreeItem;
@@ -466,6 +532,33 @@ describe('ProjectTreeProvider skills', () => {
 		assert.strictEqual(children[0].contextValue, 'skill');
 	});
 
+	it('skill with bundled files expands into one leaf per file, opening that file', async () => {
+		const skill: Skill = {
+			platform: 'cursor',
+			uri: vscode.Uri.file('/test/.cursor/skills/pdf/SKILL.md'),
+			fileName: 'pdf',
+			location: 'workspace',
+			content: '',
+			files: [
+				{ relativePath: 'references/forms.md', path: '/test/.cursor/skills/pdf/references/forms.md', size: 512 },
+				{ relativePath: 'scripts/extract.py', path: '/test/.cursor/skills/pdf/scripts/extract.py', size: 3482 }
+			]
+		};
+		const provider = new ProjectTreeProvider(createProjectData({ skills: [skill] }), [mockProject], mockProject);
+		const skillsItem: ProjectTreeItem = { label: 'Skills', collapsibleState: 0, category: 'skills', project: mockProject } as ProjectTreeItem;
+
+		const [skillItem] = await provider.getChildren(skillsItem);
+		assert.strictEqual(skillItem.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+
+		const files = await provider.getChildren(skillItem);
+		assert.deepStrictEqual(files.map(f => [f.label, f.description, f.contextValue]), [
+			['references/forms.md', '512 B', 'skill-file'],
+			['scripts/extract.py', '3.4 KB', 'skill-file']
+		]);
+		assert.strictEqual(files[1].command?.command, 'vscode.open');
+		assert.strictEqual((files[1].command?.arguments?.[0] as vscode.Uri).fsPath, '/test/.cursor/skills/pdf/scripts/extract.py');
+	});
+
 	it('skills returns placeholder when empty', async () => {
 		const provider = new ProjectTreeProvider(createProjectData(), [mockProject], mockProject);
 		const skillsItem: ProjectTreeItem = { label: 'Skills', collapsibleState: 0, category: 'skills', project: mockProject } as ProjectTreeItem;
@@ -581,10 +674,12 @@ describe('ProjectTreeProvider edge cases', () => {
 function makeClaudeCodeArtifacts(overrides: Partial<ClaudeCodeArtifacts> = {}): ClaudeCodeArtifacts {
 	return {
 		claudeMd: overrides.claudeMd,
+		memoryFiles: overrides.memoryFiles,
 		rules: overrides.rules ?? [],
 		commands: overrides.commands ?? [],
 		skills: overrides.skills ?? [],
 		agentDefinitions: overrides.agentDefinitions ?? [],
+		settings: overrides.settings,
 		claudeFolderExists: overrides.claudeFolderExists ?? false,
 		hasAnyArtifacts: overrides.hasAnyArtifacts ?? false
 	};
@@ -604,8 +699,8 @@ describe('ProjectTreeProvider Claude Code section visibility (T006 / spec008)',
 
 		const labels = children.map(c => c.label);
 		assert.ok(labels.includes('Claude'), 'Claude section should be present when .claude/ exists');
-		// Specs always shown; Cursor absent (no cursorFolderExists); Claude present
-		assert.strictEqual(children.length, 2);
+		// Compliance and Specs always shown; Cursor absent (no cursorFolderExists); Claude present
+		assert.strictEqual(children.length, 3);
 	});
 
 	it('project -> no Claude section when claudeFolderExists is false', async () => {
@@ -675,6 +770,67 @@ describe('ProjectTreeProvider claude-code children (T007-T010)', () => {
 		assert.strictEqual(mdItem!.command?.command, 'vscode.open');
 	});
 
+	it('renders every memory file in load order before the groups, described by scope', async () => {
+		const memoryFile = (relativePath: string, scope: 'project' | 'local' | 'nested', directory: string) =>
+			({ uri: vscode.Uri.file(`${mockProject.path}/${relativePath}`), path: `${mockProject.path}/${relativePath}`, scope, directory });
+		const artifacts = makeClaudeCodeArtifacts({
+			claudeMd: { uri: vscode.Uri.file(`${mockProject.path}/CLAUDE.md`), path: `${mockProject.path}/CLAUDE.md` },
+			memoryFiles: [
+				memoryFile('CLAUDE.md', 'project', ''),
+				memoryFile('CLAUDE.local.md', 'local', ''),
+				memoryFile('packages/api/CLAUDE.md', 'nested', 'packages/api')
+			],
+			hasAnyArtifacts: true
+		});
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+
+		const children = await provider.getChildren(claudeCodeItem);
+
+		assert.deepStrictEqual(children.slice(0, 3).map(c => [c.label, c.description]), [
+			['CLAUDE.md', 'project'],
+			['CLAUDE.local.md', 'local'],
+			['packages/api/CLAUDE.md', 'nested']
+		]);
+		assert.strictEqual(children[3].label, 'Agents');
+	});
+
+	it('renders a Settings group with merged permissions and hooks marked by file scope', async () => {
+		const project = { path: `${mockProject.path}/.claude/settings.json`, scope: 'project' as const };
+		const local = { path: `${mockProject.path}/.claude/settings.local.json`, scope: 'local' as const };
+		const artifacts = makeClaudeCodeArtifacts({
+			settings: {
+				files: [project, local],
+				permissions: [{ ...project, kind: 'ask', rule: 'Bash(git push:*)' }, { ...local, kind: 'allow', rule: 'Bash(npm test)' }],
+				hooks: [{ ...project, event: 'Stop', type: 'command', command: 'notify' }],
+				env: []
+			},
+			hasAnyArtifacts: true
+		});
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+
+		const children = await provider.getChildren(claudeCodeItem);
+		const settingsGroup = children.find(c => c.label === 'Settings');
+		assert.ok(settingsGroup, 'Settings group should be present');
+		assert.strictEqual(settingsGroup!.description, '2 permissions, 1 hook');
+		assert.strictEqual((settingsGroup as ProjectTreeItem).category, 'claude-settings');
+
+		const entries = await provider.getChildren(settingsGroup as ProjectTreeItem);
+		assert.deepStrictEqual(entries.map(e => [e.label, e.description]), [
+			['Bash(git push:*)', 'ask · project'],
+			['Bash(npm test)', 'allow · local'],
+			['Stop', 'command hook · project']
+		]);
+	});
+
+	it('no Settings group when no settings file was read', async () => {
+		const artifacts = makeClaudeCodeArtifacts({ settings: { files: [], permissions: [], hooks: [], env: [] }, hasAnyArtifacts: true });
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+
+		const children = await provider.getChildren(claudeCodeItem);
+
+		assert.ok(!children.some(c => c.label === 'Settings'));
+	});
+
 	it('T007: no CLAUDE.md item when claudeMd is undefined', async () => {
 		const artifacts = makeClaudeCodeArtifacts({ hasAnyArtifacts: true });
 		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
@@ -803,6 +959,29 @@ describe('ProjectTreeProvider claude-commands leaf items (T009)', () => {
 
 		assert.strictEqual(children[0].label, 'review');
 	});
+
+	it('shows the argument hint as description and the frontmatter in the tooltip', async () => {
+		const cmd: Command = {
+			uri: vscode.Uri.file('/test/.claude/commands/fix-issue.md'),
+			fileName: 'fix-issue',
+			content: '---\ndescription: Fix a GitHub issue\n---\nFix #$1: $ARGUMENTS',
+			location: 'workspace',
+			platform: 'claude',
+			description: 'Fix a GitHub issue',
+			argumentHint: '[issue-number]',
+			allowedTools: ['Bash(gh issue view:*)', 'Read'],
+			model: 'haiku',
+			arguments: { all: true, positional: [1] }
+		};
+		const artifacts = makeClaudeCodeArtifacts({ commands: [cmd], hasAnyArtifacts: true });
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+		const commandsItem: ProjectTreeItem = { label: 'Commands (1)', collapsibleState: 1, category: 'claude-commands', project: mockProject } as ProjectTreeItem;
+
+		const children = await provider.getChildren(commandsItem);
+
+		assert.strictEqual(children[0].description, '[issue-number]');
+		assert.strictEqual(children[0].tooltip, 'Fix a GitHub issue\n\nArguments: [issue-number]\nUses: $ARGUMENTS, $1\nAllowed tools: Bash(gh issue view:*), Read\nModel: haiku');
+	});
 });
 
 describe('ProjectTreeProvider claude-skills leaf items (T010)', () => {
@@ -832,6 +1011,38 @@ describe('ProjectTreeProvider claude-skills leaf items (T010)', () => {
 		const children = await provider.getChildren(skillsItem);
 
 		assert.strictEqual(children[0].label, 'SKILL.md');
+		assert.strictEqual(children[0].collapsibleState, vscode.TreeItemCollapsibleState.None);
+	});
+
+	it('shows the description and Agent Skills problems in the tooltip, with a warning icon', async () => {
+		const skill: Skill = {
+			uri: vscode.Uri.file('/test/.claude/skills/pdf/SKILL.md'), fileName: 'pdf', content: '', location: 'workspace', platform: 'claude',
+			metadata: { name: 'pdf-tools', description: 'Handle PDFs.' },
+			issues: [{ field: 'name', message: 'name "pdf-tools" does not match the skill folder "pdf"' }]
+		};
+		const artifacts = makeClaudeCodeArtifacts({ skills: [skill], hasAnyArtifacts: true });
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+		const skillsItem: ProjectTreeItem = { label: 'Skills (1)', collapsibleState: 1, category: 'claude-skills', project: mockProject } as ProjectTreeItem;
+
+		const [item] = await provider.getChildren(skillsItem);
+		assert.strictEqual(item.tooltip, 'Handle PDFs.\n\nAgent Skills problems:\n• name "pdf-tools" does not match the skill folder "pdf"');
+		assert.strictEqual((item.iconPath as { id: string }).id, 'warning');
+		assert.strictEqual(item.description, '1 problem');
+	});
+
+	it('expands a skill into its bundled files', async () => {
+		const skill: Skill = {
+			uri: vscode.Uri.file('/test/.claude/skills/pdf/SKILL.md'), fileName: 'pdf', content: '', location: 'workspace', platform: 'claude',
+			files: [{ relativePath: 'assets/logo.png', path: '/test/.claude/skills/pdf/assets/logo.png', size: 2 * 1024 * 1024 }]
+		};
+		const artifacts = makeClaudeCodeArtifacts({ skills: [skill], hasAnyArtifacts: true });
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+		const skillsItem: ProjectTreeItem = { label: 'Skills (1)', collapsibleState: 1, category: 'claude-skills', project: mockProject } as ProjectTreeItem;
+
+		const [skillItem] = await provider.getChildren(skillsItem);
+		assert.strictEqual(skillItem.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+		const files = await provider.getChildren(skillItem);
+		assert.deepStrictEqual(files.map(f => [f.label, f.description, f.tooltip]), [['assets/logo.png', '2.0 MB', '/test/.claude/skills/pdf/assets/logo.png']]);
 	});
 });
 
@@ -917,7 +1128,8 @@ describe('ProjectTreeProvider spec008 — conditional platform display', () => {
 		assert.ok(labels.includes('Cursor'), 'Cursor should be present');
 		assert.ok(labels.includes('Claude'), 'Claude should be present');
 		assert.ok(labels.includes('Specs'), 'Specs always present');
-		assert.strictEqual(children.length, 3);
+		assert.ok(labels.includes('Compliance'), 'Compliance always present');
+		assert.strictEqual(children.length, 4);
 	});
 
 	it('Specs node shown even when neither .cursor/ nor .claude/ exists (FR-008)', async () => {
@@ -1048,4 +1260,357 @@ describe('ProjectTreeProvider spec008 — claude-agent-definitions handler', ()
 
 		assert.ok((children[0].tooltip as string).includes('/test/.claude/agents/coder.md'));
 	});
+
+	it('agent leaf shows the declared name, with the frontmatter description and model in the tooltip', async () => {
+		const ad: AgentDefinition = {
+			platform: 'claude',
+			uri: vscode.Uri.file('/test/.claude/agents/code-reviewer.md'),
+			content: '---\nname: Reviewer\ndescription: Reviews diffs.\nmodel: sonnet\n---\n# Code reviewer\n',
+			fileName: 'code-reviewer',
+			displayName: 'Reviewer',
+			description: 'Reviews diffs.',
+			model: 'sonnet'
+		};
+		const artifacts = makeClaudeCodeArtifacts({ agentDefinitions: [ad], claudeFolderExists: true });
+		const provider = new ProjectTreeProvider(createProjectData({ claudeCodeArtifacts: artifacts }), [mockProject], mockProject);
+		const agentDefsItem: ProjectTreeItem = {
+			label: 'Agents', collapsibleState: 1, category: 'claude-agent-definitions', project: mockProject
+		} as ProjectTreeItem;
+
+		const children = await provider.getChildren(agentDefsItem);
+
+		assert.strictEqual(children[0].label, 'Reviewer');
+		assert.strictEqual(children[0].tooltip, '/test/.claude/agents/code-reviewer.md\n\nReviews diffs.\n\nModel: sonnet');
+	});
+});
+
+describe('ProjectTreeProvider Compliance section', () => {
+	const complianceItem: ProjectTreeItem = {
+		label: 'Compliance',
+		collapsibleState: 2,
+		category: 'compliance',
+		project: mockProject
+	} as ProjectTreeItem;
+
+	it('compliance -> one item per pillar with status icon', async () => {
+		const provider = new ProjectTreeProvider(createProjectData(), [mockProject], mockProject);
+		const pillars = await provider.getChildren(complianceItem);
+
+		assert.deepStrictEqual(pillars.map(p => p.label), ['Factory Architecture', 'Standardized Parts', 'Quality Control']);
+		assert.strictEqual(pillars[0].description, 'fail');
+		assert.strictEqual((pillars[0].iconPath as { id: string }).id, 'error');
+		assert.strictEqual((pillars[1].iconPath as { id: string }).id, 'warning');
+		assert.strictEqual((pillars[0] as ProjectTreeItem).category, 'compliance-pillar');
+	});
+
+	it('compliance-pillar -> check leaves with details in tooltip', async () => {
+		const rule: Rule = {
+			uri: vscode.Uri.file('/test/path/.cursor/rules/bare.mdc'),
+			metadata: { description: '' },
+			content: '',
+			fileName: 'bare.mdc',
+			platform: 'cursor'
+		};
+		const provider = new ProjectTreeProvider(createProjectData({ rules: [rule] }), [mockProject], mockProject);
+		const pillars = await provider.getChildren(complianceItem);
+		const quality = pillars.find(p => p.label === 'Quality Control')!;
+
+		const checks = await provider.getChildren(quality);
+		const descriptions = checks.find(c => c.description === 'rule-descriptions')!;
+		assert.strictEqual((descriptions.iconPath as { id: string }).id, 'warning');
+		assert.ok((descriptions.tooltip as string).includes('bare.mdc'));
+		assert.strictEqual(descriptions.collapsibleState, 0);
+	});
+
+	it('compliance -> empty when project data is missing', async () => {
+		const provider = new ProjectTreeProvider(new Map(), [mockProject], mockProject);
+		assert.deepStrictEqual(await provider.getChildren(complianceItem), []);
+	});
+});
+
+describe('ProjectTreeProvider Copilot section', () => {
+	const instructions: Rule = {
+		uri: vscode.Uri.file('/test/path/.github/instructions/typescript.instructions.md'),
+		fileName: 'typescript.instructions.md',
+		metadata: { description: 'TypeScript', globs: ['**/*.ts'], alwaysApply: false },
+		content: '',
+		platform: 'copilot'
+	};
+	const prompt: Command = { uri: vscode.Uri.file('/test/path/.github/prompts/release.prompt.md'), fileName: 'release', content: '# Release', location: 'workspace', platform: 'copilot' };
+	const chatmode: AgentDefinition = { uri: vscode.Uri.file('/test/path/.github/chatmodes/planner.chatmode.md'), fileName: 'planner', displayName: 'planner', content: '# Planner', platform: 'copilot' };
+	const copilotItem = { label: 'Copilot', collapsibleState: 2, category: 'copilot', project: mockProject } as ProjectTreeItem;
+
+	function makeCopilotArtifacts(overrides: Partial<CopilotArtifacts> = {}): CopilotArtifacts {
+		return { rules: [], commands: [], agentDefinitions: [], hasAnyArtifacts: false, ...overrides };
+	}
+
+	async function projectSections(copilotArtifacts?: CopilotArtifacts): Promise<ProjectTreeItem[]> {
+		const provider = new ProjectTreeProvider(createProjectData({ copilotArtifacts }), [mockProject], mockProject);
+		provider.setDataLoaded(true);
+		return provider.getChildren({ label: mockProject.name, collapsibleState: 2, category: 'projects', project: mockProject } as ProjectTreeItem);
+	}
+
+	it('project -> includes Copilot section (sorted) only when Copilot artifacts exist', async () => {
+		const withCopilot = await projectSections(makeCopilotArtifacts({ rules: [instructions], hasAnyArtifacts: true }));
+		assert.deepStrictEqual(withCopilot.map(c => c.label), ['Compliance', 'Copilot', 'Specs']);
+		const copilot = withCopilot.find(c => c.label === 'Copilot')!;
+		assert.strictEqual((copilot as ProjectTreeItem).category, 'copilot');
+		assert.strictEqual((copilot.iconPath as { id: string }).id, 'copilot');
+
+		assert.ok(!(await projectSections(makeCopilotArtifacts())).some(c => c.label === 'Copilot'));
+		assert.ok(!(await projectSections(undefined)).some(c => c.label === 'Copilot'));
+	});
+
+	it('copilot -> non-empty Agents, Commands and Rules groups with counts', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			copilotArtifacts: makeCopilotArtifacts({ rules: [instructions], agentDefinitions: [chatmode], hasAnyArtifacts: true })
+		}), [mockProject], mockProject);
+
+		const groups = await provider.getChildren(copilotItem);
+
+		assert.deepStrictEqual(groups.map(g => [g.label, g.description, (g as ProjectTreeItem).category]), [
+			['Agents', '1 agent', 'copilot-agent-definitions'],
+			['Rules', '1 rule', 'copilot-rules']
+		]);
+	});
+
+	it('copilot groups -> leaves open the file in the editor', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			copilotArtifacts: makeCopilotArtifacts({ rules: [instructions], commands: [prompt], agentDefinitions: [chatmode], hasAnyArtifacts: true })
+		}), [mockProject], mockProject);
+		const group = (category: string) => ({ label: category, collapsibleState: 1, category, project: mockProject } as ProjectTreeItem);
+
+		const [rule] = await provider.getChildren(group('copilot-rules'));
+		assert.strictEqual(rule.label, 'typescript.instructions.md');
+		assert.strictEqual(rule.contextValue, 'copilot-rule');
+		assert.strictEqual(rule.tooltip, 'TypeScript');
+		assert.strictEqual((rule as ProjectTreeItem).copilotRuleData, instructions);
+
+		const [command] = await provider.getChildren(group('copilot-commands'));
+		assert.strictEqual(command.label, 'release');
+		assert.strictEqual(command.contextValue, 'copilot-command');
+		assert.deepStrictEqual(command.command?.arguments, [prompt.uri]);
+
+		const [agent] = await provider.getChildren(group('copilot-agent-definitions'));
+		assert.strictEqual(agent.label, 'planner');
+		assert.strictEqual(agent.contextValue, 'copilot-agent-definition');
+		assert.ok((agent.tooltip as string).endsWith('Planner'));
+		assert.strictEqual(agent.command?.command, 'vscode.open');
+	});
+});
+
+describe('ProjectTreeProvider Gemini section', () => {
+	const geminiMd = { uri: vscode.Uri.file('/test/path/GEMINI.md'), path: '/test/path/GEMINI.md' };
+	const commit: Command = {
+		uri: vscode.Uri.file('/test/path/.gemini/commands/git/commit.toml'),
+		fileName: 'git:commit',
+		content: 'Write a commit message for {{args}}',
+		description: 'Writes a commit message',
+		location: 'workspace',
+		platform: 'gemini'
+	};
+	const geminiItem = { label: 'Gemini', collapsibleState: 2, category: 'gemini', project: mockProject } as ProjectTreeItem;
+
+	function makeGeminiArtifacts(overrides: Partial<GeminiArtifacts> = {}): GeminiArtifacts {
+		return { geminiMd: undefined, commands: [], geminiFolderExists: false, hasAnyArtifacts: false, ...overrides };
+	}
+
+	async function projectSections(geminiArtifacts?: GeminiArtifacts): Promise<ProjectTreeItem[]> {
+		const provider = new ProjectTreeProvider(createProjectData({ geminiArtifacts }), [mockProject], mockProject);
+		provider.setDataLoaded(true);
+		return provider.getChildren({ label: mockProject.name, collapsibleState: 2, category: 'projects', project: mockProject } as ProjectTreeItem);
+	}
+
+	it('project -> includes Gemini section when .gemini/ or GEMINI.md exists', async () => {
+		const withFolder = await projectSections(makeGeminiArtifacts({ geminiFolderExists: true }));
+		assert.deepStrictEqual(withFolder.map(c => c.label), ['Compliance', 'Gemini', 'Specs']);
+		assert.strictEqual((withFolder[1] as ProjectTreeItem).category, 'gemini');
+
+		const withMd = await projectSections(makeGeminiArtifacts({ geminiMd, hasAnyArtifacts: true }));
+		assert.ok(withMd.some(c => c.label === 'Gemini'));
+
+		assert.ok(!(await projectSections(makeGeminiArtifacts())).some(c => c.label === 'Gemini'));
+		assert.ok(!(await projectSections(undefined)).some(c => c.label === 'Gemini'));
+	});
+
+	it('gemini -> GEMINI.md leaf first, then Commands group with count', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			geminiArtifacts: makeGeminiArtifacts({ geminiMd, commands: [commit], geminiFolderExists: true, hasAnyArtifacts: true })
+		}), [mockProject], mockProject);
+
+		const children = await provider.getChildren(geminiItem);
+
+		assert.deepStrictEqual(children.map(c => [c.label, (c as ProjectTreeItem).category]), [
+			['GEMINI.md', 'gemini-md'],
+			['Commands', 'gemini-commands']
+		]);
+		assert.strictEqual((children[0] as ProjectTreeItem).geminiMdData, geminiMd);
+		assert.deepStrictEqual(children[0].command?.arguments, [geminiMd.uri]);
+		assert.strictEqual(children[1].description, '1 command');
+	});
+
+	it('gemini-commands -> namespaced command leaves with TOML description as tooltip', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			geminiArtifacts: makeGeminiArtifacts({ commands: [commit], geminiFolderExists: true, hasAnyArtifacts: true })
+		}), [mockProject], mockProject);
+		const commandsGroup = { label: 'Commands', collapsibleState: 1, category: 'gemini-commands', project: mockProject } as ProjectTreeItem;
+
+		const [command] = await provider.getChildren(commandsGroup);
+		assert.strictEqual(command.label, 'git:commit');
+		assert.strictEqual(command.contextValue, 'gemini-command');
+		assert.strictEqual(command.tooltip, 'Writes a commit message');
+		assert.strictEqual((command as ProjectTreeItem).geminiCommandData, commit);
+		assert.deepStrictEqual(command.command?.arguments, [commit.uri]);
+	});
+
+	it('gemini-commands -> tooltip names the {{args}} placeholder', async () => {
+		const withArgs: Command = { ...commit, arguments: { all: true, positional: [] } };
+		const provider = new ProjectTreeProvider(createProjectData({
+			geminiArtifacts: makeGeminiArtifacts({ commands: [withArgs], geminiFolderExists: true, hasAnyArtifacts: true })
+		}), [mockProject], mockProject);
+		const commandsGroup = { label: 'Commands', collapsibleState: 1, category: 'gemini-commands', project: mockProject } as ProjectTreeItem;
+
+		const [command] = await provider.getChildren(commandsGroup);
+		assert.strictEqual(command.tooltip, 'Writes a commit message\n\nUses: {{args}}');
+	});
+
+	it('gemini-commands -> empty state when .gemini/commands/ has no TOML files', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			geminiArtifacts: makeGeminiArtifacts({ geminiFolderExists: true })
+		}), [mockProject], mockProject);
+		const commandsGroup = { label: 'Commands', collapsibleState: 1, category: 'gemini-commands', project: mockProject } as ProjectTreeItem;
+
+		const children = await provider.getChildren(commandsGroup);
+		assert.deepStrictEqual(children.map(c => c.label), ['No commands found']);
+	});
+});
+
+describe('ProjectTreeProvider Kiro section', () => {
+	const steering: Rule = {
+		uri: vscode.Uri.file('/test/path/.kiro/steering/api.md'),
+		fileName: 'api.md',
+		metadata: { description: 'API conventions', globs: ['src/api/**'], alwaysApply: false },
+		content: 'REST only.',
+		platform: 'kiro'
+	};
+	const kiroItem = { label: 'Kiro', collapsibleState: 2, category: 'kiro', project: mockProject } as ProjectTreeItem;
+	const steeringGroup = { label: 'Steering', collapsibleState: 1, category: 'kiro-steering', project: mockProject } as ProjectTreeItem;
+
+	async function projectSections(kiroArtifacts?: KiroArtifacts): Promise<ProjectTreeItem[]> {
+		const provider = new ProjectTreeProvider(createProjectData({ kiroArtifacts }), [mockProject], mockProject);
+		provider.setDataLoaded(true);
+		return provider.getChildren({ label: mockProject.name, collapsibleState: 2, category: 'projects', project: mockProject } as ProjectTreeItem);
+	}
+
+	it('project -> includes Kiro section only when .kiro/ exists', async () => {
+		const withKiro = await projectSections({ steering: [], kiroFolderExists: true, hasAnyArtifacts: false });
+		assert.deepStrictEqual(withKiro.map(c => c.label), ['Compliance', 'Kiro', 'Specs']);
+		assert.ok(!(await projectSections({ steering: [], kiroFolderExists: false, hasAnyArtifacts: false })).some(c => c.label === 'Kiro'));
+		assert.ok(!(await projectSections(undefined)).some(c => c.label === 'Kiro'));
+	});
+
+	it('kiro -> Steering group; leaves show the inclusion mode', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			kiroArtifacts: { steering: [steering], kiroFolderExists: true, hasAnyArtifacts: true }
+		}), [mockProject], mockProject);
+
+		const groups = await provider.getChildren(kiroItem);
+		assert.deepStrictEqual(groups.map(g => [g.label, g.description, (g as ProjectTreeItem).category]), [['Steering', '1 rule', 'kiro-steering']]);
+
+		const [leaf] = await provider.getChildren(steeringGroup);
+		assert.strictEqual(leaf.label, 'api.md');
+		assert.strictEqual(leaf.description, 'fileMatch');
+		assert.strictEqual(leaf.tooltip, 'API conventions');
+		assert.strictEqual(leaf.contextValue, 'kiro-steering-rule');
+		assert.deepStrictEqual(leaf.command?.arguments, [steering.uri]);
+	});
+
+	it('kiro-steering -> empty state when .kiro/steering/ has no files', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({
+			kiroArtifacts: { steering: [], kiroFolderExists: true, hasAnyArtifacts: false }
+		}), [mockProject], mockProject);
+
+		const children = await provider.getChildren(steeringGroup);
+		assert.deepStrictEqual(children.map(c => c.label), ['No steering files found']);
+	});
+});
+
+describe('ProjectTreeProvider rules-folder sections', () => {
+	function rule(platform: Rule['platform'], fileName: string, metadata: Rule['metadata']): Rule {
+		return { uri: vscode.Uri.file(`/test/path/${fileName}`), fileName, metadata, content: 'x', platform };
+	}
+	const windsurfAlways = rule('windsurf', '.windsurfrules', { description: 'No description', alwaysApply: true });
+	const windsurfGlob = rule('windsurf', 'tests.md', { description: 'Test style', globs: ['**/*.test.ts'], alwaysApply: false });
+	const continueManual = rule('continue', 'review.md', { description: 'Review', globs: [], alwaysApply: false });
+	const ruleFolderArtifacts: RuleFolderArtifacts = { rules: [windsurfAlways, windsurfGlob, continueManual], hasAnyArtifacts: true };
+
+	it('project -> one section per platform that has rules, with its rule count', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({ ruleFolderArtifacts }), [mockProject], mockProject);
+		provider.setDataLoaded(true);
+		const sections = await provider.getChildren({ label: mockProject.name, collapsibleState: 2, category: 'projects', project: mockProject } as ProjectTreeItem);
+
+		assert.deepStrictEqual(sections.map(s => [s.label, s.description]), [
+			['Compliance', 'ASDLC pillars'],
+			['Continue', '1 rule'],
+			['Specs', 'specs/'],
+			['Windsurf', '2 rules']
+		]);
+		assert.strictEqual(sections.find(s => s.label === 'Windsurf')?.ruleFolderPlatform, 'windsurf');
+	});
+
+	it('rule-folder -> only that platform\'s rules, described as always / glob / manual', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({ ruleFolderArtifacts }), [mockProject], mockProject);
+		const section = (platform: Rule['platform']) => ({ label: platform, collapsibleState: 2, category: 'rule-folder', ruleFolderPlatform: platform, project: mockProject } as ProjectTreeItem);
+
+		const windsurf = await provider.getChildren(section('windsurf'));
+		assert.deepStrictEqual(windsurf.map(c => [c.label, c.description, c.contextValue]), [
+			['.windsurfrules', 'always', 'rule-folder-rule'],
+			['tests.md', 'glob', 'rule-folder-rule']
+		]);
+		assert.deepStrictEqual(windsurf[1].command?.arguments, [windsurfGlob.uri]);
+
+		const continueRules = await provider.getChildren(section('continue'));
+		assert.deepStrictEqual(continueRules.map(c => [c.label, c.description, c.tooltip]), [['review.md', 'manual', 'Review']]);
+	});
+});
+
+describe('ProjectTreeProvider MCP Servers section', () => {
+	const mcpServerArtifacts: McpServerArtifacts = {
+		servers: [
+			{ name: 'db', agent: 'claude', scope: 'local', path: '/home/.claude.json', transport: 'stdio', command: 'db-mcp', args: ['--readonly'], effective: true },
+			{ name: 'db', agent: 'claude', scope: 'project', path: '/test/path/.mcp.json', transport: 'stdio', command: 'db-mcp', effective: false },
+			{ name: 'docs', agent: 'cursor', scope: 'project', path: '/test/path/.cursor/mcp.json', transport: 'http', url: 'https://docs.example.com/mcp', effective: true }
+		],
+		hasAnyArtifacts: true
+	};
+
+	it('project -> MCP Servers section with the server count, only when servers exist', async () => {
+		const projectItem = { label: mockProject.name, collapsibleState: 2, category: 'projects', project: mockProject } as ProjectTreeItem;
+		const provider = new ProjectTreeProvider(createProjectData({ mcpServerArtifacts }), [mockProject], mockProject);
+		provider.setDataLoaded(true);
+		const sections = await provider.getChildren(projectItem);
+		assert.deepStrictEqual(sections.map(s => [s.label, s.description]), [
+			['Compliance', 'ASDLC pillars'],
+			['MCP Servers', '3 servers'],
+			['Specs', 'specs/']
+		]);
+		assert.strictEqual(sections[1].category, 'mcp-servers');
+
+		const empty = new ProjectTreeProvider(createProjectData({ mcpServerArtifacts: { servers: [], hasAnyArtifacts: false } }), [mockProject], mockProject);
+		empty.setDataLoaded(true);
+		assert.ok(!(await empty.getChildren(projectItem)).some(s => s.label === 'MCP Servers'));
+	});
+
+	it('mcp-servers -> servers in precedence order, marking overridden ones and opening the config file', async () => {
+		const provider = new ProjectTreeProvider(createProjectData({ mcpServerArtifacts }), [mockProject], mockProject);
+		const children = await provider.getChildren({ label: 'MCP Servers', collapsibleState: 2, category: 'mcp-servers', project: mockProject } as ProjectTreeItem);
+		assert.deepStrictEqual(children.map(c => [c.label, c.description, c.contextValue]), [
+			['db', 'claude · local', 'project-mcp-server'],
+			['db', 'claude · project · overridden', 'project-mcp-server'],
+			['docs', 'cursor · project', 'project-mcp-server']
+		]);
+		assert.strictEqual(children[0].tooltip, 'stdio: db-mcp --readonly\n\n/home/.claude.json');
+		assert.strictEqual(children[2].tooltip, 'http: https://docs.example.com/mcp\n\n/test/path/.cursor/mcp.json');
+		assert.strictEqual((children[1].command?.arguments?.[0] as vscode.Uri).fsPath, '/test/path/.mcp.json');
+	});
 });
@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { expandReferencesCore } from '../../../src/scanner/core/referenceExpansion';
+import { useTempDir, withTempDir, write } from '../tempDir';
+
+describe('scanner/core referenceExpansion', () => {
+	let root: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-references-', dir => { root = dir; }, 'each');
+
+	it('inlines references relative to the artifact, recursively, after the referencing line', async () => {
+		write(path.join(root, 'docs', 'style.md'), 'Use tabs.\nSee @naming.md\n');
+		write(path.join(root, 'docs', 'naming.md'), 'camelCase.\n');
+		const source = path.join(root, 'CLAUDE.md');
+
+		const result = await expandReferencesCore(nodeFs, 'Style: @docs/style.md.\nEnd', source, root);
+		assert.strictEqual(result.content, [
+			'Style: @docs/style.md.',
+			'<!-- @docs/style.md -->',
+			'Use tabs.',
+			'See @naming.md',
+			'<!-- @naming.md -->',
+			'camelCase.',
+			'<!-- /@naming.md -->',
+			'<!-- /@docs/style.md -->',
+			'End'
+		].join('\n'));
+		assert.deepStrictEqual(result.includedFiles, [path.join(root, 'docs', 'style.md'), path.join(root, 'docs', 'naming.md')]);
+		assert.deepStrictEqual(result.unresolvedReferences, []);
+	});
+
+	it('ignores emails, @mentions, code spans and code blocks', async () => {
+		write(path.join(root, 'a.md'), 'A\n');
+		const text = 'Mail me@example.com, ask @alice, run `@a.md`\n```\n@a.md\n```';
+		const result = await expandReferencesCore(nodeFs, text, path.join(root, 'rule.md'), root);
+		assert.strictEqual(result.content, text);
+		assert.deepStrictEqual(result.includedFiles, []);
+	});
+
+	it('ignores package names such as @types/node and @scope/pkg', async () => {
+		write(path.join(root, 'types', 'node'), 'Not a reference\n');
+		const text = 'Install @types/node and @scope/pkg@1.2.3, then read @docs/setup.md';
+		const result = await expandReferencesCore(nodeFs, text, path.join(root, 'CLAUDE.md'), root);
+		assert.deepStrictEqual(result.includedFiles, []);
+		assert.deepStrictEqual(result.unresolvedReferences.map(r => r.reference), ['docs/setup.md']);
+	});
+
+	it('does not follow symlinks that point outside the project', async () => {
+		await withTempDir('ace-references-outside-', async outside => {
+			write(path.join(outside, 'secret.md'), 'Secret\n');
+			fs.symlinkSync(path.join(outside, 'secret.md'), path.join(root, 'linked.md'));
+			fs.symlinkSync(outside, path.join(root, 'linked-dir'));
+			const source = path.join(root, 'CLAUDE.md');
+			const result = await expandReferencesCore(nodeFs, '@linked.md @linked-dir/secret.md', source, root);
+			assert.ok(!result.content.includes('Secret'));
+			assert.deepStrictEqual(result.includedFiles, []);
+			assert.deepStrictEqual(result.unresolvedReferences, [
+				{ reference: 'linked.md', from: source, reason: 'symlink' },
+				{ reference: 'linked-dir/secret.md', from: source, reason: 'symlink' }
+			]);
+		});
+	});
+
+	it('reports missing files, files outside the project root, and cycles', async () => {
+		write(path.join(root, 'a.md'), 'A @b.md\n');
+		write(path.join(root, 'b.md'), 'B @a.md\n');
+		const source = path.join(root, '.cursor', 'rules', 'rule.mdc');
+		const result = await expandReferencesCore(nodeFs, '@../../a.md @missing.ts @../../../outside.md @~/.claude/x.md', source, root);
+
+		assert.deepStrictEqual(result.includedFiles, [path.join(root, 'a.md'), path.join(root, 'b.md')]);
+		assert.deepStrictEqual(result.unresolvedReferences, [
+			{ reference: 'a.md', from: path.join(root, 'b.md'), reason: 'cycle' },
+			{ reference: 'missing.ts', from: source, reason: 'not-found' },
+			{ reference: '../../../outside.md', from: source, reason: 'outside-root' },
+			{ reference: '~/.claude/x.md', from: source, reason: 'outside-root' }
+		]);
+	});
+
+	it('stops at the depth limit and inlines a file only once', async () => {
+		write(path.join(root, '1.md'), '@2.md\n');
+		write(path.join(root, '2.md'), '@3.md\n');
+		write(path.join(root, '3.md'), 'three\n');
+		const source = path.join(root, 'CLAUDE.md');
+
+		const shallow = await expandReferencesCore(nodeFs, '@1.md', source, root, 2);
+		assert.deepStrictEqual(shallow.includedFiles.map(f => path.basename(f)), ['1.md', '2.md']);
+		assert.deepStrictEqual(shallow.unresolvedReferences, [{ reference: '3.md', from: path.join(root, '2.md'), reason: 'depth-limit' }]);
+
+		const twice = await expandReferencesCore(nodeFs, '@3.md\n@3.md', source, root);
+		assert.strictEqual(twice.content.split('three').length, 2);
+	});
+
+	it('confines artifacts outside the project to their own directory', async () => {
+		await withTempDir('ace-references-home-', async home => {
+			write(path.join(home, 'prefs.md'), 'Prefer short answers.\n');
+			write(path.join(root, 'a.md'), 'A\n');
+			const result = await expandReferencesCore(nodeFs, `@prefs.md @${path.join(root, 'a.md')}`, path.join(home, 'CLAUDE.md'), root);
+			assert.deepStrictEqual(result.includedFiles, [path.join(home, 'prefs.md')]);
+			assert.deepStrictEqual(result.unresolvedReferences.map(r => r.reason), ['outside-root']);
+		});
+	});
+});
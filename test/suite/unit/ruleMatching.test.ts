@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import {
+	globToRegExp,
+	matchesGlob,
+	normalizeGlobs,
+	selectRulesForFile,
+	toProjectRelativePath,
+	type MatchableRule
+} from '../../../src/mcp/ruleMatching';
+
+function rule(fileName: string, metadata: MatchableRule['metadata'], platform: 'cursor' | 'claude' = 'cursor'): MatchableRule {
+	return { fileName, metadata, platform };
+}
+
+describe('mcp/ruleMatching (get_rules_for_file)', () => {
+	describe('normalizeGlobs', () => {
+		it('returns empty array for missing globs', () => {
+			assert.deepStrictEqual(normalizeGlobs(undefined), []);
+			assert.deepStrictEqual(normalizeGlobs([]), []);
+		});
+
+		it('splits comma-separated strings and trims', () => {
+			assert.deepStrictEqual(normalizeGlobs('*.ts, *.tsx'), ['*.ts', '*.tsx']);
+		});
+
+		it('keeps commas inside brace groups', () => {
+			assert.deepStrictEqual(normalizeGlobs(['src/**/*.{ts,tsx}', '']), ['src/**/*.{ts,tsx}']);
+		});
+	});
+
+	describe('matchesGlob', () => {
+		it('matches basename patterns at any depth', () => {
+			assert.ok(matchesGlob('a.ts', '*.ts'));
+			assert.ok(matchesGlob('src/deep/a.ts', '*.ts'));
+			assert.ok(!matchesGlob('src/a.tsx', '*.ts'));
+		});
+
+		it('anchors patterns containing a slash at the project root', () => {
+			assert.ok(matchesGlob('src/mcp/server.ts', 'src/**/*.ts'));
+			assert.ok(matchesGlob('src/server.ts', 'src/**/*.ts'));
+			assert.ok(!matchesGlob('test/src/server.ts', 'src/**/*.ts'));
+			assert.ok(matchesGlob('src/a.ts', '/src/*.ts'));
+		});
+
+		it('single star does not cross directories', () => {
+			assert.ok(!matchesGlob('src/mcp/server.ts', 'src/*.ts'));
+		});
+
+		it('supports ?, character classes and brace alternatives', () => {
+			assert.ok(matchesGlob('src/a1.ts', 'src/a?.ts'));
+			assert.ok(matchesGlob('src/b.ts', 'src/[ab].ts'));
+			assert.ok(!matchesGlob('src/c.ts', 'src/[ab].ts'));
+			assert.ok(matchesGlob('src/c.ts', 'src/[!ab].ts'));
+			assert.ok(matchesGlob('web/App.tsx', '**/*.{ts,tsx}'));
+		});
+
+		it('escapes regex metacharacters in literal segments', () => {
+			assert.ok(matchesGlob('docs/a+b.md', 'docs/a+b.md'));
+			assert.ok(!matchesGlob('docs/aXmd', 'docs/a.md'));
+			assert.strictEqual(globToRegExp('a.md').test('xa.md'), false);
+		});
+	});
+
+	describe('toProjectRelativePath', () => {
+		it('makes absolute paths relative to the root', () => {
+			assert.strictEqual(toProjectRelativePath('/proj', '/proj/src/a.ts'), 'src/a.ts');
+		});
+
+		it('keeps relative paths and strips ./', () => {
+			assert.strictEqual(toProjectRelativePath('/proj', './src/a.ts'), 'src/a.ts');
+		});
+
+		it('returns undefined outside the root', () => {
+			assert.strictEqual(toProjectRelativePath('/proj', '/other/a.ts'), undefined);
+			assert.strictEqual(toProjectRelativePath('/proj', '../a.ts'), undefined);
+		});
+	});
+
+	describe('selectRulesForFile', () => {
+		const rules = [
+			rule('docs.mdc', { globs: ['*.md'] }),
+			rule('manual.mdc', {}),
+			rule('ts.md', { globs: ['src/**/*.ts'] }, 'claude'),
+			rule('ts.mdc', { globs: 'src/**/*.ts, lib/*.js' }),
+			rule('base.md', { alwaysApply: true }, 'claude'),
+			rule('always.mdc', { alwaysApply: true })
+		];
+
+		it('returns always rules and matching glob rules in precedence order', () => {
+			const out = selectRulesForFile(rules, '/proj', '/proj/src/mcp/server.ts');
+			assert.deepStrictEqual(
+				out.map(m => [m.rule.fileName, m.reason]),
+				[['always.mdc', 'always'], ['ts.mdc', 'glob'], ['base.md', 'always'], ['ts.md', 'glob']]
+			);
+			assert.deepStrictEqual(out[1].matchedGlobs, ['src/**/*.ts']);
+			assert.deepStrictEqual(out[0].matchedGlobs, []);
+		});
+
+		it('never includes manual rules', () => {
+			const out = selectRulesForFile(rules, '/proj', 'README.md');
+			assert.ok(!out.some(m => m.rule.fileName === 'manual.mdc'));
+			assert.ok(out.some(m => m.rule.fileName === 'docs.mdc'));
+		});
+
+		it('returns only always rules for files outside the project', () => {
+			const out = selectRulesForFile(rules, '/proj', '/elsewhere/src/a.ts');
+			assert.deepStrictEqual(out.map(m => m.reason), ['always', 'always']);
+		});
+	});
+});
@@ -6,6 +6,7 @@ import {
 	scanWorkspaceAgentDefinitionsCore,
 	workspaceAgentsDirectory
 } from '../../../src/scanner/core/scanAgentDefinitionsCore';
+import { filterAgentDefinitions, parseAgentFrontmatter } from '../../../src/scanner/core/agentParsing';
 import type { IFileSystem } from '../../../src/scanner/core/types';
 import { FileType, type FileTypeValue } from '../../../src/scanner/core/types';
 
@@ -140,3 +141,51 @@ describe('scanner/core/scanAgentDefinitionsCore', () => {
 		assert.ok(out[0].content.includes('Error reading file content'));
 	});
 });
+
+describe('scanner/core/agentParsing', () => {
+	const reviewer = '---\nname: code-reviewer\ndescription: Reviews diffs for bugs.\ntools: Read, Grep, Bash(git diff:*)\nmodel: sonnet\ncolor: blue\n---\n\n# Reviewer\n\nReview the diff.\n';
+
+	it('parses name, description, tools, model and color, and returns the body without frontmatter', () => {
+		const { frontmatter, body } = parseAgentFrontmatter(reviewer);
+		assert.deepStrictEqual(frontmatter, {
+			name: 'code-reviewer',
+			description: 'Reviews diffs for bugs.',
+			tools: ['Read', 'Grep', 'Bash(git diff:*)'],
+			model: 'sonnet',
+			color: 'blue'
+		});
+		assert.strictEqual(body, '# Reviewer\n\nReview the diff.\n');
+	});
+
+	it('accepts a YAML list of tools and leaves files without frontmatter untouched', () => {
+		assert.deepStrictEqual(parseAgentFrontmatter('---\ntools:\n  - Read\n  - Edit\n---\nBody').frontmatter, { tools: ['Read', 'Edit'] });
+		assert.deepStrictEqual(parseAgentFrontmatter('# Plain\n'), { frontmatter: {}, body: '# Plain\n' });
+		assert.deepStrictEqual(parseAgentFrontmatter('---\nname: [unclosed\n---\nBody'), { frontmatter: {}, body: '---\nname: [unclosed\n---\nBody' });
+	});
+
+	it('scans the declared name as display name and keeps the file stem as name', async () => {
+		const dir = path.join('/project', '.claude', 'agents');
+		const file = path.join(dir, 'reviewer.md');
+		const fs = createMockFs(new Map([[file, Buffer.from(reviewer)]]), new Map([[dir, [['reviewer.md', FileType.File]]]]));
+		const [def] = await scanAgentDefinitionsInDirectory(fs, dir);
+		assert.deepStrictEqual(
+			[def.fileName, def.displayName, def.description, def.tools, def.model, def.color],
+			['reviewer', 'code-reviewer', 'Reviews diffs for bugs.', ['Read', 'Grep', 'Bash(git diff:*)'], 'sonnet', 'blue']
+		);
+		assert.strictEqual(def.content, reviewer);
+	});
+
+	it('filters by tool name (ignoring argument patterns and case) and by model', () => {
+		const defs = [
+			{ name: 'reviewer', tools: ['Read', 'Bash(git diff:*)'], model: 'sonnet' },
+			{ name: 'writer', tools: ['Edit'], model: 'Opus' },
+			{ name: 'all-tools' }
+		];
+		const names = (filter: { tool?: string; model?: string }) => filterAgentDefinitions(defs, filter).map(d => d.name);
+		assert.deepStrictEqual(names({ tool: 'bash' }), ['reviewer']);
+		assert.deepStrictEqual(names({ tool: 'Bas' }), []);
+		assert.deepStrictEqual(names({ model: 'opus' }), ['writer']);
+		assert.deepStrictEqual(names({ tool: 'Edit', model: 'sonnet' }), []);
+		assert.deepStrictEqual(names({}), ['reviewer', 'writer', 'all-tools']);
+	});
+});
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import * as path from 'path';
 import { scanCommandsCore, scanAgentCommandsCore } from '../../../src/scanner/core/scanCommandsCore';
+import { commandArguments, parseCommandFrontmatter, summarizeCommand } from '../../../src/scanner/core/commandParsing';
 import type { IFileSystem, FileTypeValue } from '../../../src/scanner/core/types';
 import { FileType } from '../../../src/scanner/core/types';
 
@@ -146,5 +147,86 @@ describe('scanCommandsCore', () => {
 			assert.strictEqual(commands[0].fileName, 'agent-cmd');
 			assert.strictEqual(commands[0].location, 'global');
 		});
+
+		it('reads a commandsDir override instead of <agentRoot>/commands (Codex prompts)', async () => {
+			const agentRoot = '/home/u/.codex';
+			const promptsDir = path.join(agentRoot, 'prompts');
+			const fs: IFileSystem = {
+				async readDirectory(dirPath: string): Promise<[string, FileTypeValue][]> {
+					if (dirPath === promptsDir) {return [['review.md', FileType.File]];}
+					if (dirPath === path.join(agentRoot, 'commands')) {return [['ignored.md', FileType.File]];}
+					return [];
+				},
+				async readFile(): Promise<Buffer> {
+					return Buffer.from('Review the diff.');
+				},
+				async stat(): Promise<{ type: FileTypeValue; mtime?: number }> {
+					return { type: FileType.File };
+				}
+			};
+
+			const commands = await scanAgentCommandsCore(fs, agentRoot, promptsDir);
+
+			assert.deepStrictEqual(commands.map(c => [c.fileName, c.path]), [['review', path.join(promptsDir, 'review.md')]]);
+		});
+	});
+});
+
+describe('scanner/core/commandParsing', () => {
+	const fix = '---\ndescription: Fix a GitHub issue\nargument-hint: [issue-number] [priority]\nallowed-tools: Bash(gh issue view:*), Read\nmodel: haiku\n---\n\nFix issue #$1 with priority $2: $ARGUMENTS\n';
+
+	it('parses description, argument-hint, allowed-tools and model, and returns the body', () => {
+		const { frontmatter, body } = parseCommandFrontmatter(fix);
+		assert.deepStrictEqual(frontmatter, {
+			description: 'Fix a GitHub issue',
+			argumentHint: '[issue-number] [priority]',
+			allowedTools: ['Bash(gh issue view:*)', 'Read'],
+			model: 'haiku'
+		});
+		assert.strictEqual(body, 'Fix issue #$1 with priority $2: $ARGUMENTS\n');
+		assert.deepStrictEqual(parseCommandFrontmatter('# Plain\n'), { frontmatter: {}, body: '# Plain\n' });
+	});
+
+	it('detects $ARGUMENTS and positional placeholders in ascending order', () => {
+		assert.deepStrictEqual(commandArguments('Compare $2 to $1, then $10 and $2 again'), { all: false, positional: [1, 2, 10] });
+		assert.deepStrictEqual(commandArguments('Review $ARGUMENTS'), { all: true, positional: [] });
+		assert.deepStrictEqual(commandArguments('Costs $0, not $ARGUMENTS_LIST'), { all: false, positional: [] });
+	});
+
+	it('does not read prices as positional placeholders', () => {
+		assert.deepStrictEqual(commandArguments('The plan costs $5'), { all: false, positional: [] });
+		assert.deepStrictEqual(commandArguments('Pro is $20/month, Team $1,000 or $9.99'), { all: false, positional: [] });
+		assert.deepStrictEqual(commandArguments('Quote $1 at US$2 and $30%, not a$4'), { all: false, positional: [1] });
+	});
+
+	it('detects {{args}} in Gemini commands, and only there', () => {
+		assert.deepStrictEqual(commandArguments('Review {{args}} for $1', 'gemini'), { all: true, positional: [] });
+		assert.deepStrictEqual(commandArguments('Review the diff', 'gemini'), { all: false, positional: [] });
+		assert.deepStrictEqual(commandArguments('Review {{args}}', 'claude'), { all: false, positional: [] });
+	});
+
+	it('scans Markdown commands with their frontmatter and placeholders', async () => {
+		const fs: IFileSystem = {
+			async readDirectory(dirPath: string): Promise<[string, FileTypeValue][]> {
+				return dirPath === path.join('/project', '.claude', 'commands') ? [['fix-issue.md', FileType.File]] : [];
+			},
+			async readFile(): Promise<Buffer> {
+				return Buffer.from(fix);
+			},
+			async stat(): Promise<{ type: FileTypeValue; mtime?: number }> {
+				return { type: FileType.File };
+			}
+		};
+		const [command] = await scanCommandsCore(fs, '/project', '/home/user');
+		assert.deepStrictEqual(
+			[command.fileName, command.platform, command.description, command.argumentHint, command.allowedTools, command.model, command.arguments],
+			['fix-issue', 'claude', 'Fix a GitHub issue', '[issue-number] [priority]', ['Bash(gh issue view:*)', 'Read'], 'haiku', { all: true, positional: [1, 2] }]
+		);
+		assert.strictEqual(command.content, fix);
+	});
+
+	it('summarizeCommand derives a description from the body, skipping the frontmatter', () => {
+		const summary = summarizeCommand({ content: '---\nargument-hint: <file>\n---\n# Lint\n\nLint one file.\n', argumentHint: '<file>' });
+		assert.deepStrictEqual(summary, { description: 'Lint one file.', argumentHint: '<file>', arguments: { all: false, positional: [] } });
 	});
 });
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { scanCopilotAgentDefs, scanCopilotCommands, scanCopilotRules } from '../../../src/scanner/core/scanCopilotCore';
+import { scanRulesCore, scanCommandsCore } from '../../../src/scanner/core/index';
+import { scanWorkspaceAgentDefinitionsCore } from '../../../src/scanner/core/scanAgentDefinitionsCore';
+import { ruleNameFromFileName } from '../../../src/scanner/core/ruleParsing';
+import { selectRulesForFile } from '../../../src/mcp/ruleMatching';
+import { useTempDir, withTempDir, write } from '../tempDir';
+
+describe('scanner/core scanCopilotCore', () => {
+	let root: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-copilot-', dir => { root = dir; });
+
+	before(() => {
+		const github = path.join(root, '.github');
+		write(path.join(github, 'copilot-instructions.md'), '# Repo\nUse tabs.\n');
+		write(path.join(github, 'instructions', 'typescript.instructions.md'), '---\ndescription: TypeScript style\napplyTo: "**/*.ts,**/*.tsx"\n---\nPrefer interfaces.\n');
+		write(path.join(github, 'instructions', 'notes.md'), '# Not an instructions file\n');
+		write(path.join(github, 'prompts', 'release.prompt.md'), '---\nmode: agent\n---\n# Release\n');
+		write(path.join(github, 'prompts', 'README.md'), '# Prompts\n');
+		write(path.join(github, 'chatmodes', 'planner.chatmode.md'), '---\ndescription: Plans work\n---\n# Planner\n');
+		write(path.join(github, 'workflows', 'ci.yml'), 'on: push\n');
+		write(path.join(root, '.cursor', 'rules', 'typescript.mdc'), '---\nglobs: "*.ts"\n---\nCursor TS.\n');
+	});
+
+	it('scans copilot-instructions.md as an always-apply rule and applyTo as globs', async () => {
+		const rules = await scanCopilotRules(nodeFs, root);
+		assert.deepStrictEqual(rules.map(r => r.fileName), ['copilot-instructions.md', 'typescript.instructions.md']);
+		assert.ok(rules.every(r => r.platform === 'copilot'));
+		assert.strictEqual(rules[0].metadata.alwaysApply, true);
+		assert.strictEqual(rules[0].content, '# Repo\nUse tabs.');
+		assert.deepStrictEqual(rules[1].metadata, { description: 'TypeScript style', globs: '**/*.ts,**/*.tsx', alwaysApply: false });
+		assert.strictEqual(rules[1].content, 'Prefer interfaces.');
+
+		const matched = selectRulesForFile(rules, root, path.join(root, 'src', 'app.tsx'));
+		assert.deepStrictEqual(matched.map(m => [m.rule.fileName, m.reason]), [
+			['copilot-instructions.md', 'always'],
+			['typescript.instructions.md', 'glob']
+		]);
+	});
+
+	it('scans prompt files as commands and chat modes as agent definitions', async () => {
+		const commands = await scanCopilotCommands(nodeFs, root);
+		assert.deepStrictEqual(commands.map(c => [c.fileName, c.location, c.platform]), [['release', 'workspace', 'copilot']]);
+		const agents = await scanCopilotAgentDefs(nodeFs, root);
+		assert.deepStrictEqual(agents.map(a => [a.fileName, a.displayName, a.platform]), [['planner', 'planner', 'copilot']]);
+		assert.ok(agents[0].content.includes('# Planner'));
+	});
+
+	it('is empty when .github/ has no Copilot artifacts', async () => {
+		await withTempDir('ace-copilot-empty-', async empty => {
+			write(path.join(empty, '.github', 'workflows', 'ci.yml'), 'on: push\n');
+			assert.deepStrictEqual(await scanCopilotRules(nodeFs, empty), []);
+			assert.deepStrictEqual(await scanCopilotCommands(nodeFs, empty), []);
+			assert.deepStrictEqual(await scanCopilotAgentDefs(nodeFs, empty), []);
+		});
+	});
+
+	it('is included in the project rules, commands and agent definition scans', async () => {
+		const rules = await scanRulesCore(nodeFs, root, os.homedir());
+		assert.deepStrictEqual(rules.map(r => r.platform), ['cursor', 'copilot', 'copilot']);
+		const commands = await scanCommandsCore(nodeFs, root, os.homedir());
+		assert.deepStrictEqual(commands.map(c => c.platform), ['copilot']);
+		const agents = await scanWorkspaceAgentDefinitionsCore(nodeFs, root);
+		assert.deepStrictEqual(agents.map(a => a.platform), ['copilot']);
+	});
+
+	it('names instructions rules without the .instructions.md suffix', () => {
+		assert.strictEqual(ruleNameFromFileName('typescript.instructions.md'), 'typescript');
+		assert.strictEqual(ruleNameFromFileName('copilot-instructions.md'), 'copilot-instructions');
+		assert.strictEqual(ruleNameFromFileName('style.mdc'), 'style');
+	});
+});
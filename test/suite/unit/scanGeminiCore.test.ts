@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { geminiCommandName, parseGeminiCommand, scanGeminiCore } from '../../../src/scanner/core/scanGeminiCore';
+import { scanAgentCommandsCore, scanCommandsCore } from '../../../src/scanner/core/scanCommandsCore';
+import { agentRootCommandsDirectory, defaultAgentRoots } from '../../../src/scanner/core/agentRoots';
+import { coreCommandToCommandInfo } from '../../../src/mcp/server';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core scanGeminiCore', () => {
+	let root: string;
+	let home: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-gemini-', dir => { root = dir; });
+	useTempDir('ace-gemini-home-', dir => { home = dir; });
+
+	before(() => {
+		write(path.join(root, 'GEMINI.md'), '# Project context\n');
+		const commands = path.join(root, '.gemini', 'commands');
+		write(path.join(commands, 'review.toml'), 'description = "Reviews the diff"\nprompt = """\nReview {{args}}.\n"""\n');
+		write(path.join(commands, 'git', 'commit.toml'), 'prompt = "Write a commit message"\n');
+		write(path.join(commands, 'broken.toml'), 'description = "oops\n');
+		write(path.join(commands, 'notes.md'), '# Not a Gemini command\n');
+		write(path.join(home, '.gemini', 'commands', 'deploy.toml'), 'description = "Deploys"\nprompt = "Deploy it"\n');
+		write(path.join(home, '.gemini', 'commands', 'legacy.md'), '# Legacy\n');
+	});
+
+	it('parses a command file and requires a prompt', () => {
+		assert.deepStrictEqual(parseGeminiCommand('description = "d"\nprompt = "p"'), { description: 'd', prompt: 'p' });
+		assert.deepStrictEqual(parseGeminiCommand('prompt = "p"'), { prompt: 'p' });
+		assert.throws(() => parseGeminiCommand('description = "d"'), /missing a "prompt"/);
+	});
+
+	it('namespaces command names by subdirectory', () => {
+		const dir = path.join(root, '.gemini', 'commands');
+		assert.strictEqual(geminiCommandName(dir, path.join(dir, 'git', 'commit.toml')), 'git:commit');
+		assert.strictEqual(geminiCommandName(dir, path.join(dir, 'review.toml')), 'review');
+	});
+
+	it('scans GEMINI.md and TOML commands (prompt as content, declared description)', async () => {
+		const artifacts = await scanGeminiCore(nodeFs, root);
+		assert.strictEqual(artifacts.geminiMdPath, path.join(root, 'GEMINI.md'));
+		assert.strictEqual(artifacts.geminiFolderExists, true);
+		assert.strictEqual(artifacts.hasAnyArtifacts, true);
+		assert.deepStrictEqual(artifacts.commands.map(c => [c.fileName, c.description, c.location, c.platform]), [
+			['broken', 'Error parsing file', 'workspace', 'gemini'],
+			['git:commit', undefined, 'workspace', 'gemini'],
+			['review', 'Reviews the diff', 'workspace', 'gemini']
+		]);
+		const review = artifacts.commands.find(c => c.fileName === 'review')!;
+		assert.strictEqual(review.content, 'Review {{args}}.\n');
+		assert.deepStrictEqual(review.arguments, { all: true, positional: [] });
+		assert.deepStrictEqual(artifacts.commands[1].arguments, { all: false, positional: [] });
+		assert.strictEqual(coreCommandToCommandInfo(review).description, 'Reviews the diff');
+		assert.strictEqual(artifacts.commands[0].content, 'description = "oops\n');
+	});
+
+	it('reports no artifacts for a project without Gemini files', async () => {
+		const artifacts = await scanGeminiCore(nodeFs, path.join(root, '.gemini'));
+		assert.deepStrictEqual(artifacts, { geminiMdPath: undefined, commands: [], geminiFolderExists: false, hasAnyArtifacts: false });
+	});
+
+	it('includes Gemini commands in workspace scans and in agent-root scans of TOML roots only', async () => {
+		const workspace = await scanCommandsCore(nodeFs, root, home);
+		assert.deepStrictEqual(workspace.filter(c => c.platform === 'gemini').map(c => c.fileName), ['broken', 'git:commit', 'review']);
+
+		const [gemini] = defaultAgentRoots(home).filter(r => r.id === 'gemini');
+		const global = await scanAgentCommandsCore(nodeFs, gemini.directory, agentRootCommandsDirectory(gemini), gemini.commandFormat);
+		assert.deepStrictEqual(global.map(c => [c.fileName, c.location, c.platform]), [['deploy', 'global', 'gemini']]);
+		assert.strictEqual(global[0].content, 'Deploy it');
+
+		// A Markdown root (~/.claude, ~/.cursor, ...) does not list stray TOML files as Gemini commands
+		const markdown = await scanAgentCommandsCore(nodeFs, gemini.directory);
+		assert.deepStrictEqual(markdown.map(c => [c.fileName, c.platform]), [['legacy', 'cursor']]);
+	});
+});
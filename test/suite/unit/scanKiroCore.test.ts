@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { readSpecContentCore, scanKiroSpecs, scanKiroSteering } from '../../../src/scanner/core/scanKiroCore';
+import { scanAsdlcCore, scanRulesCore } from '../../../src/scanner/core/index';
+import { parseKiroSteeringFromString } from '../../../src/scanner/core/ruleParsing';
+import { selectRulesForFile } from '../../../src/mcp/ruleMatching';
+import { useTempDir, withTempDir, write } from '../tempDir';
+
+describe('scanner/core scanKiroCore', () => {
+	let root: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-kiro-', dir => { root = dir; });
+
+	before(() => {
+		const kiro = path.join(root, '.kiro');
+		write(path.join(kiro, 'steering', 'product.md'), '# Product\nA shop.\n');
+		write(path.join(kiro, 'steering', 'api.md'), '---\ninclusion: fileMatch\nfileMatchPattern: "src/api/**/*.ts"\n---\nREST only.\n');
+		write(path.join(kiro, 'steering', 'release.md'), '---\ninclusion: manual\n---\nRelease steps.\n');
+		write(path.join(kiro, 'specs', 'checkout', 'requirements.md'), '# Requirements\n');
+		write(path.join(kiro, 'specs', 'checkout', 'design.md'), '# Design\n## Contract\n');
+		write(path.join(kiro, 'specs', 'checkout', 'tasks.md'), '- [ ] Build cart\n');
+		write(path.join(kiro, 'specs', 'search', 'tasks.md'), '- [x] Index\n');
+		write(path.join(kiro, 'specs', 'empty', 'notes.md'), '# Not a Kiro document\n');
+		write(path.join(root, 'specs', 'billing', 'spec.md'), '# Billing\n## Blueprint\n');
+	});
+
+	it('maps inclusion onto always / glob / manual rules', () => {
+		assert.deepStrictEqual(parseKiroSteeringFromString('No frontmatter').metadata, { description: 'No description', globs: [], alwaysApply: true });
+		assert.deepStrictEqual(parseKiroSteeringFromString('---\ninclusion: fileMatch\nfileMatchPattern: "*.ts"\n---\nx').metadata, { description: 'No description', globs: '*.ts', alwaysApply: false });
+		assert.deepStrictEqual(parseKiroSteeringFromString('---\ninclusion: manual\n---\nx').metadata, { description: 'No description', globs: [], alwaysApply: false });
+	});
+
+	it('scans steering files as kiro rules, matched like any other rule', async () => {
+		const rules = await scanKiroSteering(nodeFs, root);
+		assert.deepStrictEqual(rules.map(r => [r.fileName, r.platform]), [['api.md', 'kiro'], ['product.md', 'kiro'], ['release.md', 'kiro']]);
+
+		const matched = selectRulesForFile(await scanRulesCore(nodeFs, root, root), root, path.join(root, 'src', 'api', 'orders.ts'));
+		assert.deepStrictEqual(matched.map(m => [m.rule.fileName, m.reason]), [['product.md', 'always'], ['api.md', 'glob']]);
+	});
+
+	it('scans Kiro spec folders with the documents they contain', async () => {
+		const specs = await scanKiroSpecs(nodeFs, root);
+		assert.deepStrictEqual(specs.map(s => [s.domain, s.flavour, s.documents, path.basename(s.path)]), [
+			['checkout', 'kiro', ['requirements.md', 'design.md', 'tasks.md'], 'requirements.md'],
+			['search', 'kiro', ['tasks.md'], 'tasks.md']
+		]);
+		assert.strictEqual(specs[0].hasContract, true);
+		assert.ok(specs[0].lastModified);
+	});
+
+	it('lists Kiro specs after specs/ entries in scanAsdlcCore', async () => {
+		const asdlc = await scanAsdlcCore(nodeFs, root);
+		assert.strictEqual(asdlc.specs.path, path.join(root, 'specs'));
+		assert.deepStrictEqual(asdlc.specs.specs.map(s => [s.domain, s.flavour]), [['billing', 'asdlc'], ['checkout', 'kiro'], ['search', 'kiro']]);
+		assert.deepStrictEqual(asdlc.specs.specs[0].documents, ['spec.md']);
+	});
+
+	it('reports Kiro specs as existing when there is no specs/ folder', async () => {
+		await withTempDir('ace-kiro-only-', async kiroOnly => {
+			write(path.join(kiroOnly, '.kiro', 'specs', 'auth', 'design.md'), '# Design\n');
+			const asdlc = await scanAsdlcCore(nodeFs, kiroOnly);
+			assert.strictEqual(asdlc.specs.exists, true);
+			assert.strictEqual(asdlc.specs.path, path.join(kiroOnly, '.kiro', 'specs'));
+			assert.deepStrictEqual(asdlc.specs.specs.map(s => s.domain), ['auth']);
+		});
+	});
+
+	it('reads spec content: spec.md as is, Kiro documents joined with markers', async () => {
+		const [billing, checkout] = (await scanAsdlcCore(nodeFs, root)).specs.specs;
+		assert.strictEqual(await readSpecContentCore(nodeFs, billing), '# Billing\n## Blueprint\n');
+		assert.strictEqual(await readSpecContentCore(nodeFs, checkout),
+			'<!-- requirements.md -->\n# Requirements\n\n<!-- design.md -->\n# Design\n## Contract\n\n<!-- tasks.md -->\n- [ ] Build cart\n');
+		assert.strictEqual(await readSpecContentCore(nodeFs, { ...checkout, documents: ['missing.md'] }), null);
+	});
+});
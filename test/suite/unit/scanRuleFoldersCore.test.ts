@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { scanClineRules, scanRuleFoldersCore, scanRooRules } from '../../../src/scanner/core/scanRuleFoldersCore';
+import { scanRulesCore } from '../../../src/scanner/core/index';
+import { parseContinueRuleFromString, parseWindsurfRuleFromString } from '../../../src/scanner/core/ruleParsing';
+import { selectRulesForFile } from '../../../src/mcp/ruleMatching';
+import { useTempDir, withTempDir, write } from '../tempDir';
+
+describe('scanner/core scanRuleFoldersCore', () => {
+	let root: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-rule-folders-', dir => { root = dir; });
+
+	before(() => {
+		write(path.join(root, '.windsurfrules'), 'Use tabs.\n');
+		write(path.join(root, '.windsurf', 'rules', 'tests.md'), '---\ntrigger: glob\nglobs: "**/*.test.ts"\n---\nUse mocha.\n');
+		write(path.join(root, '.windsurf', 'rules', 'deploy.md'), '---\ntrigger: model_decision\ndescription: Deploy steps\n---\nRun the pipeline.\n');
+		write(path.join(root, '.clinerules', 'style.md'), '# Style\n');
+		write(path.join(root, '.clinerules', 'notes.txt'), 'Not a rule file\n');
+		write(path.join(root, '.roo', 'rules', 'general.md'), 'Be brief.\n');
+		write(path.join(root, '.roo', 'rules-code', 'naming', 'style.md'), 'camelCase.\n');
+		write(path.join(root, '.roo', 'mcp.json'), '{}');
+		write(path.join(root, '.continue', 'rules', 'review.md'), '---\nname: Review\nglobs: "src/**/*.ts"\n---\nCheck errors.\n');
+		write(path.join(root, '.continue', 'rules', 'always.md'), 'Answer in English.\n');
+	});
+
+	it('maps Windsurf trigger onto always / glob / manual rules', () => {
+		assert.deepStrictEqual(parseWindsurfRuleFromString('---\ntrigger: always_on\n---\nx').metadata, { description: 'No description', globs: [], alwaysApply: true });
+		assert.deepStrictEqual(parseWindsurfRuleFromString('---\ntrigger: glob\nglobs: "*.ts"\n---\nx').metadata, { description: 'No description', globs: '*.ts', alwaysApply: false });
+		assert.deepStrictEqual(parseWindsurfRuleFromString('---\ntrigger: model_decision\n---\nx').metadata, { description: 'No description', globs: [], alwaysApply: false });
+		assert.deepStrictEqual(parseWindsurfRuleFromString('No frontmatter').metadata, { description: 'No description', globs: [], alwaysApply: false });
+	});
+
+	it('maps Continue globs / alwaysApply, applying rules without globs by default', () => {
+		assert.strictEqual(parseContinueRuleFromString('No frontmatter').metadata.alwaysApply, true);
+		assert.strictEqual(parseContinueRuleFromString('---\nglobs: "*.ts"\n---\nx').metadata.alwaysApply, false);
+		assert.strictEqual(parseContinueRuleFromString('---\nglobs: "*.ts"\nalwaysApply: true\n---\nx').metadata.alwaysApply, true);
+		assert.strictEqual(parseContinueRuleFromString('---\nalwaysApply: false\n---\nx').metadata.alwaysApply, false);
+		assert.strictEqual(parseContinueRuleFromString('---\nname: Review\n---\nx').metadata.description, 'Review');
+	});
+
+	it('scans every rules folder in precedence order, tagged by platform', async () => {
+		const rules = await scanRuleFoldersCore(nodeFs, root);
+		assert.deepStrictEqual(rules.map(r => [r.platform, r.fileName, r.metadata.alwaysApply]), [
+			['windsurf', '.windsurfrules', true],
+			['windsurf', 'deploy.md', false],
+			['windsurf', 'tests.md', false],
+			['cline', 'style.md', true],
+			['roo', 'general.md', true],
+			['roo', 'style.md', true],
+			['continue', 'always.md', true],
+			['continue', 'review.md', false]
+		]);
+	});
+
+	it('reads .clinerules as a single file, and describes Roo mode rules by their mode', async () => {
+		await withTempDir('ace-cline-', async single => {
+			write(path.join(single, '.clinerules'), 'Keep diffs small.\n');
+			const [rule] = await scanClineRules(nodeFs, single);
+			assert.deepStrictEqual([rule.fileName, rule.content, rule.metadata.alwaysApply], ['.clinerules', 'Keep diffs small.', true]);
+			assert.deepStrictEqual(await scanRooRules(nodeFs, single), []);
+		});
+
+		const roo = await scanRooRules(nodeFs, root);
+		assert.deepStrictEqual(roo.map(r => r.metadata.description), ['No description', 'Mode: code']);
+	});
+
+	it('includes them in scanRulesCore and file matching', async () => {
+		const all = await scanRulesCore(nodeFs, root, root);
+		assert.ok(all.some(r => r.platform === 'continue'));
+
+		const matched = selectRulesForFile(all, root, path.join(root, 'src', 'app.test.ts'));
+		assert.deepStrictEqual(matched.filter(m => m.reason === 'glob').map(m => [m.rule.platform, m.rule.fileName]), [
+			['windsurf', 'tests.md'],
+			['continue', 'review.md']
+		]);
+	});
+});
@@ -51,6 +51,19 @@ describe('scanner/core/scanSkillsCore', () => {
 		assert.strictEqual(out[0].path, skillPath);
 		assert.strictEqual(out[0].location, 'workspace');
 		assert.ok(out[0].metadata?.title?.includes('Create Plan'));
+		assert.deepStrictEqual(out[0].issues, [{ field: 'frontmatter', message: 'No frontmatter: name and description are required' }]);
+	});
+
+	it('attaches Agent Skills frontmatter problems, checking the name against the skill folder', async () => {
+		const projectSkillsDir = path.join(projectRoot, '.cursor', 'skills');
+		const skillPath = path.join(projectSkillsDir, 'pdf', 'SKILL.md');
+		const fs = createMockFs(
+			new Map([[skillPath, Buffer.from('---\nname: pdf-tools\ndescription: Handle PDFs.\n---\n')]]),
+			new Map([[projectSkillsDir, [['pdf', FileType.Directory]]]])
+		);
+		const out = await scanSkillsCore(fs, projectRoot, userRoot);
+		assert.strictEqual(out[0].metadata?.description, 'Handle PDFs.');
+		assert.deepStrictEqual(out[0].issues?.map(i => i.field), ['name']);
 	});
 
 	it('does not include user-root .cursor/skills — no global fallback (spec 011 follow-up)', async () => {
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SearchCommands } from '../../../src/commands/searchCommands';
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const vscode = require('vscode');
+
+describe('SearchCommands', () => {
+	const registered: Record<string, (...args: unknown[]) => unknown> = {};
+	const originalCommands = vscode.commands;
+	const originalWindow = vscode.window;
+	const originalFs = vscode.workspace.fs;
+	const originalFolders = vscode.workspace.workspaceFolders;
+	let root: string;
+
+	function makeContext(): any {
+		const store = new Map<string, unknown>();
+		store.set('aceExplorer.projects', { projects: [] });
+		return {
+			workspaceState: {
+				get: <T>(key: string) => store.get(key) as T | undefined,
+				update: async (key: string, value: unknown) => {
+					store.set(key, value);
+				}
+			},
+			subscriptions: [] as { dispose: () => void }[]
+		};
+	}
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-search-cmd-'));
+		fs.mkdirSync(path.join(root, '.cursor', 'rules'), { recursive: true });
+		fs.writeFileSync(path.join(root, '.cursor', 'rules', 'flags.mdc'), '---\ndescription: Flags\n---\nGuard rollouts with a feature flag.\n');
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		Object.keys(registered).forEach((k) => delete registered[k]);
+		vscode.commands = {
+			registerCommand: (id: string, fn: (...args: unknown[]) => unknown) => {
+				registered[id] = fn;
+				return { dispose: () => {} };
+			},
+			executeCommand: async () => {}
+		};
+		vscode.window = { ...originalWindow };
+		// Back vscode.workspace.fs with the real filesystem so the shared scan core sees the temp project
+		vscode.workspace.fs = {
+			readFile: async (uri: { fsPath: string }) => fs.promises.readFile(uri.fsPath),
+			readDirectory: async (uri: { fsPath: string }) => {
+				const entries = await fs.promises.readdir(uri.fsPath, { withFileTypes: true });
+				return entries.map((e) => [e.name, e.isDirectory() ? 2 : 1]);
+			},
+			stat: async (uri: { fsPath: string }) => {
+				const st = await fs.promises.stat(uri.fsPath);
+				return { type: st.isDirectory() ? 2 : 1, mtime: st.mtimeMs };
+			}
+		};
+		vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file(root), name: 'Root' }];
+	});
+
+	afterEach(() => {
+		vscode.commands = originalCommands;
+		vscode.window = originalWindow;
+		vscode.workspace.fs = originalFs;
+		vscode.workspace.workspaceFolders = originalFolders;
+	});
+
+	it('registers ace.searchContext', () => {
+		SearchCommands.registerCommands(makeContext());
+		assert.ok(typeof registered['ace.searchContext'] === 'function');
+	});
+
+	it('returns early when the query prompt is cancelled', async () => {
+		let picked = false;
+		vscode.window.showInputBox = async () => undefined;
+		vscode.window.showQuickPick = async () => {
+			picked = true;
+			return undefined;
+		};
+		SearchCommands.registerCommands(makeContext());
+		await (registered['ace.searchContext'] as () => Promise<void>)();
+		assert.strictEqual(picked, false);
+	});
+
+	it('shows ranked hits and opens the picked file at the hit line', async () => {
+		let items: Array<{ label: string; detail: string }> = [];
+		let placeHolder = '';
+		let openedPath = '';
+		let openedLine = -1;
+		vscode.window.showInputBox = async () => 'feature flag';
+		vscode.window.showQuickPick = async (list: Array<{ label: string; detail: string }>, opts: { placeHolder: string }) => {
+			items = list;
+			placeHolder = opts.placeHolder;
+			return list[0];
+		};
+		vscode.window.showTextDocument = async (uri: { fsPath: string }, opts: { selection: { start: { line: number } } }) => {
+			openedPath = uri.fsPath;
+			openedLine = opts.selection.start.line;
+		};
+		SearchCommands.registerCommands(makeContext());
+		await (registered['ace.searchContext'] as () => Promise<void>)();
+		assert.ok(items.every((i) => i.label === 'flags'));
+		assert.ok(items[0].detail.startsWith('4: '));
+		assert.strictEqual(placeHolder, `${items.length} match(es) for "feature flag"`);
+		assert.strictEqual(openedPath, path.join(root, '.cursor', 'rules', 'flags.mdc'));
+		assert.strictEqual(openedLine, 3);
+	});
+
+	it('counts only the hits listed when several projects exceed the result cap', async () => {
+		const other = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-search-cmd-other-'));
+		try {
+			fs.mkdirSync(path.join(other, '.cursor', 'rules'), { recursive: true });
+			for (let i = 0; i < 20; i++) {
+				const lines = [1, 2, 3].map(n => `Step ${n}: guard with a feature flag.`).join('\n');
+				fs.writeFileSync(path.join(root, '.cursor', 'rules', `many-${i}.mdc`), lines);
+				fs.writeFileSync(path.join(other, '.cursor', 'rules', `many-${i}.mdc`), lines);
+			}
+			vscode.workspace.workspaceFolders = [{ uri: vscode.Uri.file(root), name: 'Root' }, { uri: vscode.Uri.file(other), name: 'Other' }];
+			let count = 0;
+			let placeHolder = '';
+			vscode.window.showInputBox = async () => 'feature flag';
+			vscode.window.showQuickPick = async (list: unknown[], opts: { placeHolder: string }) => {
+				count = list.length;
+				placeHolder = opts.placeHolder;
+				return undefined;
+			};
+			SearchCommands.registerCommands(makeContext());
+			await (registered['ace.searchContext'] as () => Promise<void>)();
+			assert.strictEqual(count, 50);
+			assert.strictEqual(placeHolder, '50 match(es) for "feature flag"');
+		} finally {
+			for (let i = 0; i < 20; i++) {
+				fs.rmSync(path.join(root, '.cursor', 'rules', `many-${i}.mdc`), { force: true });
+			}
+			fs.rmSync(other, { recursive: true, force: true });
+		}
+	});
+
+	it('reports when nothing matches', async () => {
+		let info = '';
+		vscode.window.showInputBox = async () => 'no-such-term-anywhere';
+		vscode.window.showInformationMessage = (msg: string) => {
+			info = msg;
+		};
+		SearchCommands.registerCommands(makeContext());
+		await (registered['ace.searchContext'] as () => Promise<void>)();
+		assert.ok(info.includes('No matches'));
+	});
+});
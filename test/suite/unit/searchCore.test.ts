@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { collectSearchDocumentsCore, searchDocuments } from '../../../src/scanner/core/searchCore';
+import type { CoreSearchDocument } from '../../../src/scanner/core/types';
+
+function doc(partial: Partial<CoreSearchDocument> & Pick<CoreSearchDocument, 'kind' | 'name' | 'text'>): CoreSearchDocument {
+	return { path: `/p/${partial.name}.md`, location: 'workspace', ...partial };
+}
+
+describe('scanner/core/searchCore', () => {
+	describe('searchDocuments', () => {
+		const docs: CoreSearchDocument[] = [
+			doc({ kind: 'rule', name: 'db', platform: 'cursor', text: '---\ndescription: Database migration rules\n---\n# DB\nRun every migration in a transaction.' }),
+			doc({ kind: 'command', name: 'release', platform: 'claude', location: 'global', text: '# Release\nToggle the feature flag before release.' }),
+			doc({ kind: 'spec', name: 'migration', text: '# Migration spec\nNo mention of the other term.' }),
+			doc({ kind: 'agent', name: 'helper', platform: 'cursor', location: 'cursor', text: 'Nothing relevant here.' })
+		];
+
+		it('returns no hits for an empty query', () => {
+			assert.deepStrictEqual(searchDocuments(docs, '   '), []);
+		});
+
+		it('matches case-insensitively with 1-based line numbers and snippets', () => {
+			const hits = searchDocuments(docs, 'Transaction');
+			assert.strictEqual(hits.length, 1);
+			assert.strictEqual(hits[0].kind, 'rule');
+			assert.strictEqual(hits[0].line, 5);
+			assert.strictEqual(hits[0].snippet, 'Run every migration in a transaction.');
+		});
+
+		it('includes frontmatter lines and ranks name matches first', () => {
+			const hits = searchDocuments(docs, 'migration');
+			assert.strictEqual(hits[0].kind, 'spec');
+			assert.ok(hits.some(h => h.kind === 'rule' && h.line === 2));
+		});
+
+		it('requires every term and boosts exact phrases', () => {
+			const hits = searchDocuments(docs, 'feature flag');
+			assert.strictEqual(hits.length, 1);
+			assert.strictEqual(hits[0].name, 'release');
+			assert.strictEqual(hits[0].line, 2);
+		});
+
+		it('filters by kind, platform and location', () => {
+			assert.deepStrictEqual(searchDocuments(docs, 'migration', { kinds: ['spec'] }).map(h => h.kind), ['spec']);
+			assert.ok(searchDocuments(docs, 'migration', { platform: 'cursor' }).every(h => h.kind === 'rule'));
+			assert.strictEqual(searchDocuments(docs, 'release', { location: 'workspace' }).length, 0);
+			assert.strictEqual(searchDocuments(docs, 'release', { location: 'global' }).length, 2);
+		});
+
+		it('keeps at most three hits per document and applies limit', () => {
+			const noisy = [doc({ kind: 'rule', name: 'noisy', text: 'x\nx\nx\nx\nx' })];
+			assert.strictEqual(searchDocuments(noisy, 'x').length, 3);
+			assert.strictEqual(searchDocuments(noisy, 'x', { limit: 2 }).length, 2);
+		});
+
+		it('reports a name-only match at the first non-empty line', () => {
+			const hits = searchDocuments(docs, 'helper');
+			assert.strictEqual(hits.length, 1);
+			assert.strictEqual(hits[0].line, 1);
+			assert.strictEqual(hits[0].snippet, 'Nothing relevant here.');
+		});
+
+		it('truncates long lines around the first term', () => {
+			const long = `${'a '.repeat(200)}needle${' b'.repeat(200)}`;
+			const hits = searchDocuments([doc({ kind: 'skill', name: 's', text: long })], 'needle');
+			assert.ok(hits[0].snippet.includes('needle'));
+			assert.ok(hits[0].snippet.startsWith('…') && hits[0].snippet.endsWith('…'));
+		});
+	});
+
+	describe('collectSearchDocumentsCore (temp project)', () => {
+		let root: string;
+		let userRoot: string;
+
+		before(() => {
+			root = fs.mkdtempSync(path.join(os.tmpdir(), 'ace-search-'));
+			userRoot = path.join(root, 'home');
+			const project = path.join(root, 'proj');
+			fs.mkdirSync(path.join(project, '.cursor', 'rules'), { recursive: true });
+			fs.mkdirSync(path.join(project, '.cursor', 'commands'), { recursive: true });
+			fs.mkdirSync(path.join(project, 'specs', 'billing'), { recursive: true });
+			fs.mkdirSync(path.join(userRoot, '.claude', 'agents'), { recursive: true });
+			fs.writeFileSync(path.join(project, '.cursor', 'rules', 'style.mdc'), '---\ndescription: Style\n---\nUse tabs.\n');
+			fs.writeFileSync(path.join(project, '.cursor', 'commands', 'ship.md'), '# Ship\nShip it.\n');
+			fs.writeFileSync(path.join(project, 'specs', 'billing', 'spec.md'), '# Billing\n## Blueprint\n');
+			fs.writeFileSync(path.join(project, 'AGENTS.md'), '# Agents\nMission.\n');
+			fs.writeFileSync(path.join(userRoot, '.claude', 'agents', 'reviewer.md'), '# Reviewer\n');
+		});
+
+		after(() => {
+			fs.rmSync(root, { recursive: true, force: true });
+		});
+
+		it('collects every artifact kind with raw text', async () => {
+			const docs = await collectSearchDocumentsCore(new NodeFsAdapter(), path.join(root, 'proj'), userRoot);
+			const byKind = (k: string) => docs.filter(d => d.kind === k);
+			assert.strictEqual(byKind('rule')[0].name, 'style');
+			assert.ok(byKind('rule')[0].text.startsWith('---'), 'rule text includes frontmatter');
+			assert.strictEqual(byKind('command')[0].name, 'ship');
+			assert.strictEqual(byKind('spec')[0].name, 'billing');
+			assert.ok(byKind('spec')[0].text.includes('Blueprint'));
+			assert.strictEqual(byKind('agents-md').length, 1);
+			const agent = byKind('agent')[0];
+			assert.strictEqual(agent.name, 'reviewer');
+			assert.strictEqual(agent.location, 'claude');
+		});
+	});
+});
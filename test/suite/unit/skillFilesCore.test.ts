@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NodeFsAdapter } from '../../../src/scanner/adapters/nodeFsAdapter';
+import { SKILL_FILE_MAX_BYTES, listSkillFilesCore, readSkillFileCore } from '../../../src/scanner/core/skillFilesCore';
+import { scanSkillsCore } from '../../../src/scanner/core/scanSkillsCore';
+import { useTempDir, write } from '../tempDir';
+
+describe('scanner/core skillFilesCore', () => {
+	let root: string;
+	let skillDir: string;
+	let skillPath: string;
+	const nodeFs = new NodeFsAdapter();
+
+	useTempDir('ace-skill-files-', dir => { root = dir; });
+
+	before(() => {
+		skillDir = path.join(root, '.claude', 'skills', 'pdf');
+		skillPath = path.join(skillDir, 'SKILL.md');
+		write(skillPath, '# PDF\n\nRun scripts/extract.py, see references/forms.md');
+		write(path.join(skillDir, 'scripts', 'extract.py'), 'print("hi")\n');
+		write(path.join(skillDir, 'references', 'forms.md'), '# Forms\n');
+		write(path.join(skillDir, 'assets', 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+		write(path.join(skillDir, 'assets', 'huge.txt'), 'x'.repeat(SKILL_FILE_MAX_BYTES + 1));
+		write(path.join(skillDir, 'references', 'SKILL.md'), 'nested, not the skill itself');
+		write(path.join(skillDir, '.env'), 'SECRET=1');
+		write(path.join(skillDir, 'node_modules', 'dep', 'index.js'), '');
+		write(path.join(root, 'outside.txt'), 'outside the skill');
+		fs.symlinkSync(path.join(root, 'outside.txt'), path.join(skillDir, 'linked.txt'));
+	});
+
+	it('lists bundled files by relative path with sizes, skipping SKILL.md, hidden entries, dependencies and symlinks', async () => {
+		const files = await listSkillFilesCore(nodeFs, skillPath);
+		assert.deepStrictEqual(files.map(f => [f.relativePath, f.size]), [
+			['assets/huge.txt', SKILL_FILE_MAX_BYTES + 1],
+			['assets/logo.png', 6],
+			['references/forms.md', 8],
+			['references/SKILL.md', 28],
+			['scripts/extract.py', 12]
+		]);
+		assert.strictEqual(files[4].path, path.join(skillDir, 'scripts', 'extract.py'));
+	});
+
+	it('attaches the manifest to scanned skills', async () => {
+		const skills = await scanSkillsCore(nodeFs, root, os.homedir());
+		assert.deepStrictEqual(skills.map(s => [s.fileName, s.files?.length]), [['pdf', 5]]);
+	});
+
+	it('reads text as utf8 and binary files as base64', async () => {
+		const files = await listSkillFilesCore(nodeFs, skillPath);
+		const skill = { fileName: 'pdf', files };
+
+		const script = await readSkillFileCore(nodeFs, skill, './scripts/extract.py');
+		assert.ok(!('error' in script));
+		assert.deepStrictEqual([script.relativePath, script.encoding, script.content], ['scripts/extract.py', 'utf8', 'print("hi")\n']);
+
+		const logo = await readSkillFileCore(nodeFs, skill, 'assets\\logo.png');
+		assert.ok(!('error' in logo));
+		assert.deepStrictEqual([logo.encoding, logo.content], ['base64', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]).toString('base64')]);
+	});
+
+	it('refuses paths outside the skill folder, unlisted files and files over the size limit', async () => {
+		const skill = { fileName: 'pdf', files: await listSkillFilesCore(nodeFs, skillPath) };
+		const error = async (relativePath: string) => {
+			const result = await readSkillFileCore(nodeFs, skill, relativePath);
+			return 'error' in result ? result.error : undefined;
+		};
+
+		assert.match(await error('../../../outside.txt') ?? '', /stay inside it/);
+		assert.match(await error(path.join(root, 'outside.txt')) ?? '', /stay inside it/);
+		assert.match(await error('linked.txt') ?? '', /File not found in skill "pdf"/);
+		assert.match(await error('.env') ?? '', /File not found/);
+		assert.match(await error('SKILL.md') ?? '', /File not found/);
+		assert.match(await error('assets/huge.txt') ?? '', /too large/);
+	});
+});
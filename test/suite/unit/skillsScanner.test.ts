@@ -2,7 +2,7 @@ import * as assert from 'assert';
 import * as vscode from 'vscode';
 import type { CoreSkill } from '../../../src/scanner/core/types';
 import * as scanSkillsCoreMod from '../../../src/scanner/core/scanSkillsCore';
-import { parseSKILLMetadata } from '../../../src/scanner/skillParsing';
+import { parseAllowedTools, parseSKILLMetadata, validateSkillFrontmatter } from '../../../src/scanner/skillParsing';
 import { SkillsScanner } from '../../../src/scanner/skillsScanner';
 
 describe('SkillsScanner / skillParsing', () => {
@@ -123,6 +123,62 @@ guidance:
 			assert.strictEqual(metadata!.guidance!.role, 'developer');
 			assert.strictEqual(metadata!.guidance!.instruction, 'Do the thing');
 		});
+
+		it('should parse Agent Skills fields: name, description, allowed-tools, license and metadata', () => {
+			const content = `---
+name: pdf-processing
+description: Extract text and tables from PDF files. Use when working with PDFs.
+allowed-tools: Bash(git status:*) Read, Write
+license: Apache-2.0
+metadata:
+  author: example-org
+  version: "1.0"
+---
+`;
+			const metadata = parseSKILLMetadata(content);
+			assert.ok(metadata);
+			assert.strictEqual(metadata!.name, 'pdf-processing');
+			assert.strictEqual(metadata!.description, 'Extract text and tables from PDF files. Use when working with PDFs.');
+			assert.deepStrictEqual(metadata!.allowedTools, ['Bash(git status:*)', 'Read', 'Write']);
+			assert.strictEqual(metadata!.license, 'Apache-2.0');
+			assert.deepStrictEqual(metadata!.metadata, { author: 'example-org', version: '1.0' });
+		});
+
+		it('should accept allowed-tools as a YAML list', () => {
+			assert.deepStrictEqual(parseAllowedTools(['Read', ' Grep ', 3]), ['Read', 'Grep']);
+			assert.strictEqual(parseAllowedTools(undefined), undefined);
+		});
+	});
+
+	describe('validateSkillFrontmatter', () => {
+		it('reports nothing for a conforming skill', () => {
+			const content = '---\nname: pdf-processing\ndescription: Handle PDFs.\nallowed-tools: Read\nmetadata:\n  version: "1"\n---\n';
+			assert.deepStrictEqual(validateSkillFrontmatter(content, 'pdf-processing'), []);
+		});
+
+		it('flags a name that does not match the folder, breaks the format or is too long', () => {
+			const issues = (name: string, folder = name) =>
+				validateSkillFrontmatter(`---\nname: ${name}\ndescription: d\n---\n`, folder).map(i => i.message);
+			assert.deepStrictEqual(issues('pdf', 'pdf-tools'), ['name "pdf" does not match the skill folder "pdf-tools"']);
+			assert.match(issues('PDF_Tools')[0], /must be lowercase letters, digits and single hyphens/);
+			assert.strictEqual(issues('pdf--tools').length, 1);
+			assert.strictEqual(issues('-pdf').length, 1);
+			assert.deepStrictEqual(issues('a'.repeat(65)), ['name is 65 characters (max 64)']);
+		});
+
+		it('flags a missing or overlong description and unknown keys', () => {
+			assert.deepStrictEqual(validateSkillFrontmatter('---\nname: x\ntitle: X\n---\n', 'x'), [
+				{ field: 'description', message: 'description is missing' },
+				{ field: 'title', message: 'Unknown frontmatter key "title"' }
+			]);
+			assert.deepStrictEqual(validateSkillFrontmatter(`---\nname: x\ndescription: ${'d'.repeat(1025)}\n---\n`, 'x').map(i => i.field), ['description']);
+		});
+
+		it('flags missing frontmatter and malformed optional fields', () => {
+			assert.deepStrictEqual(validateSkillFrontmatter('# Just a heading\n', 'x').map(i => i.field), ['frontmatter']);
+			const issues = validateSkillFrontmatter('---\nname: x\ndescription: d\nmetadata: [1]\nallowed-tools: 3\ncompatibility: 5\n---\n', 'x');
+			assert.deepStrictEqual(issues.map(i => i.field), ['compatibility', 'metadata', 'allowed-tools']);
+		});
 	});
 
 	describe('SkillsScanner wrapper', () => {
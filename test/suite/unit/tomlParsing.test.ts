@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { parseToml } from '../../../src/scanner/core/tomlParsing';
+
+describe('scanner/core tomlParsing', () => {
+	it('parses key/value pairs, tables, dotted keys and arrays of tables', () => {
+		const parsed = parseToml([
+			'# Codex config',
+			'model = "o3"',
+			'approval = \'on-request\'  # trailing comment',
+			'',
+			'[mcp_servers.docs]',
+			'command = "npx"',
+			'args = ["-y", "docs-mcp",]',
+			'env = { API_KEY = "k", "quoted key" = 1 }',
+			'',
+			'[[profiles]]',
+			'name = "fast"',
+			'[[profiles]]',
+			'name = "deep"',
+			'limits.tokens = 1_000',
+			'[profiles.extra]',
+			'on = true'
+		].join('\n'));
+
+		assert.deepStrictEqual(parsed, {
+			model: 'o3',
+			approval: 'on-request',
+			mcp_servers: { docs: { command: 'npx', args: ['-y', 'docs-mcp'], env: { API_KEY: 'k', 'quoted key': 1 } } },
+			profiles: [
+				{ name: 'fast' },
+				{ name: 'deep', limits: { tokens: 1000 }, extra: { on: true } }
+			]
+		});
+	});
+
+	it('parses multi-line strings the way Gemini command prompts use them', () => {
+		const parsed = parseToml([
+			'description = "Review \\"staged\\" changes\\u0021"',
+			'prompt = """',
+			'Review the diff:',
+			'!{git diff --staged}',
+			'Keep it \\',
+			'    short.""""',
+			'raw = \'\'\'',
+			'C:\\path\\{{args}}\'\'\''
+		].join('\r\n'));
+
+		assert.strictEqual(parsed.description, 'Review "staged" changes!');
+		assert.strictEqual(parsed.prompt, 'Review the diff:\r\n!{git diff --staged}\r\nKeep it short."');
+		assert.strictEqual(parsed.raw, 'C:\\path\\{{args}}');
+	});
+
+	it('parses numbers, booleans and dates', () => {
+		const parsed = parseToml('a = -12\nb = 3.5e2\nc = 0xff\nd = false\ne = +inf\nf = 1979-05-27T07:32:00Z\ng = 1979-05-27 07:32:00');
+		assert.deepStrictEqual(parsed, { a: -12, b: 350, c: 255, d: false, e: Infinity, f: '1979-05-27T07:32:00Z', g: '1979-05-27 07:32:00' });
+	});
+
+	it('throws with the line number on malformed input', () => {
+		assert.throws(() => parseToml('a = 1\nb = "unterminated\n'), /Invalid TOML at line 2: Unterminated string/);
+		assert.throws(() => parseToml('a = 1\na = 2'), /line 2: Duplicate key "a"/);
+		assert.throws(() => parseToml('a = 1 b = 2'), /Expected a new line/);
+		assert.throws(() => parseToml('a = nope'), /Invalid value "nope"/);
+		assert.throws(() => parseToml('a = 1\n[a]'), /Key "a" is not a table/);
+	});
+});
@@ -1,11 +1,12 @@
 /**
  * VSCode API stub for unit tests.
  * Add as devDependency: "vscode": "file:./test/vscode-stub"
- * Tests can override __overrides.findFiles, __overrides.stat, __overrides.readDirectory.
+ * Tests can override __overrides.findFiles, __overrides.stat, __overrides.readDirectory,
+ * and __overrides.configuration (settings by full id, e.g. 'ace.agentRoots').
  */
 
 const os = require('os');
-const overrides = { findFiles: null, stat: null, readDirectory: null };
+const overrides = { findFiles: null, stat: null, readDirectory: null, configuration: {} };
 
 const workspace = {
 	fs: {
@@ -153,7 +154,14 @@ Use this command from any workspace.`);
 		onDidDelete: () => ({ dispose: () => {} }),
 		dispose: () => {}
 	}),
-	openTextDocument: async () => ({})
+	openTextDocument: async () => ({}),
+	getConfiguration: (section) => ({
+		get: (key, defaultValue) => {
+			const id = section ? `${section}.${key}` : key;
+			return id in overrides.configuration ? overrides.configuration[id] : defaultValue;
+		}
+	}),
+	onDidChangeConfiguration: () => ({ dispose: () => {} })
 };
 
 const Uri = {
@@ -189,6 +197,8 @@ class RelativePattern {
 
 const FileType = { Unknown: 0, File: 1, Directory: 2, SymbolicLink: 64 };
 
+const ProgressLocation = { SourceControl: 1, Window: 10, Notification: 15 };
+
 const commands = {
 	registerCommand: () => ({ dispose: () => {} }),
 	executeCommand: async () => {}
@@ -199,6 +209,10 @@ const window = {
 	showInformationMessage: () => {},
 	showWarningMessage: async () => 'No',
 	showInputBox: async () => undefined,
+	showQuickPick: async () => undefined,
+	showOpenDialog: async () => undefined,
+	showSaveDialog: async () => undefined,
+	withProgress: async (_options, task) => task({ report: () => {} }, { isCancellationRequested: false }),
 	showTextDocument: async () => ({}),
 	createOutputChannel: () => ({
 		appendLine: () => {},
@@ -208,6 +222,13 @@ const window = {
 	createTreeView: () => ({ dispose: () => {} })
 };
 
+class Range {
+	constructor(startLine, startCharacter, endLine, endCharacter) {
+		this.start = { line: startLine, character: startCharacter };
+		this.end = { line: endLine, character: endCharacter };
+	}
+}
+
 const TreeItemCollapsibleState = { None: 0, Collapsed: 1, Expanded: 2 };
 
 class ThemeIcon {
@@ -229,7 +250,9 @@ module.exports = {
 	TreeItemCollapsibleState,
 	ThemeIcon,
 	TreeItem,
+	Range,
 	FileType,
+	ProgressLocation,
 	commands,
 	window,
 	__overrides: overrides